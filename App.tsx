@@ -7,20 +7,45 @@ import {
   ArrowUpDown, Download, AlertTriangle, HelpCircle, Trash2, RefreshCcw, LogOut, Cloud,
   ArrowDownCircle, Copy, Upload, Repeat, Timer, Eraser, Search, Radio, Sliders, X,
   Activity, Cpu, MonitorPlay, Wind, Hash, ArrowRightLeft, Ban, Scan, Mic, Calendar, Clock,
-  Map as MapIcon, Rotate3d, Maximize2, Minimize2
+  Map as MapIcon, Rotate3d, Maximize2, Minimize2, Database, SkipBack, SkipForward, ShieldAlert
 } from 'lucide-react';
 
 import { useSerial } from './hooks/useSerial';
-import { TelemetryPacket, ConnectionStatus, AppSettings, ToastMessage, SerialConfig, HardwareMode, TimeFormat, Model3DConfig } from './types';
+import { useLandingDispersion } from './hooks/useLandingDispersion';
+import { useTerrainGround } from './hooks/useTerrainGround';
+import { TelemetryPacket, ConnectionStatus, AppSettings, ToastMessage, SerialConfig, HardwareMode, TimeFormat, Model3DConfig, VehicleTrack, FlightEvent, FlightEventSettings, FlightPhase, EstimatorSettings, AhrsSettings, WindLayer, AlertLogEntry, MissionClockState, PyroAuditEntry, PyroAuditAction, PyroChannel } from './types';
 import { BAUD_RATES, MAX_DATA_POINTS, DEFAULT_CSV_ORDER, DEFAULT_SETTINGS, FIELD_LABELS, SKIP_FIELD } from './constants';
 import { StatCard } from './components/StatCard';
 import { AttitudeCube } from './components/AttitudeCube';
 import { SettingsModal } from './components/SettingsModal';
 import { GPSMap } from './components/GPSMap';
-import { TelemetryChart } from './components/TelemetryChart';
+import { TelemetryChart, ChartMarker } from './components/TelemetryChart';
 import { ToastContainer, ConfirmModal, HelpModal, AboutModal, TechTooltip } from './components/UIElements'; 
 import { FlightPathVisualizer } from './components/FlightPathVisualizer';
-import { predictLanding } from './utils/geo'; 
+import { VehicleStream } from './components/VehicleStream';
+import { sharedCompute } from './utils/compute';
+import { suggestCsvMapping, CsvMappingSuggestion } from './utils/csvAutoMap';
+import { getFieldValue, getFieldLabel, toChannelField } from './utils/channels';
+import { createDerivedChannelEvaluator, DerivedChannelEvaluator } from './utils/expression';
+import { collectChannelKeys, channelHeader, buildCsvHeader, formatCsvRow, downloadBlob, createEventLabeler, buildAlertLogCsv, buildPyroAuditCsv } from './utils/csvExport';
+import { createFlightRecorder, recoverInterruptedSessions, exportFlightSessionCsv, isFlightLogAvailable, FlightRecorder, FlightSessionMeta } from './utils/flightLog';
+import { FlightLogModal } from './components/FlightLogModal';
+import { AnalysisWorkspace } from './components/AnalysisWorkspace';
+import { FlightTimeline } from './components/FlightTimeline';
+import { createFlightEventDetector, detectFlightEvents, FLIGHT_EVENT_LABELS } from './utils/flightEvents';
+import { createStateEstimator, withEstimate, withoutEstimate, filteredAltitude, filteredVSpeed, estimateSigmas } from './utils/stateEstimator';
+import { createAhrs, withAttitude, withoutAttitude, attitudeOf } from './utils/ahrs';
+import { PLAYBACK_SPEEDS } from './utils/playback';
+import { createAlertEngine, channelRangeRules, withThresholdLimits, gLoadOf, toAlertLogEntry, ActiveAlert, AlertTransition } from './utils/alerts';
+import { Annunciator } from './components/Annunciator';
+import { CommandConsole } from './components/CommandConsole';
+import { createUplinkTracker, UplinkEntry } from './utils/uplink';
+import { PyroPanel } from './components/PyroPanel';
+import { LinkHealth, LinkSample } from './components/LinkHealth';
+import { LinkStats, linkBarsOf } from './utils/linkStats';
+import { PyroAction, readPyroState, pyroBlockers, pyroCommandOf } from './utils/pyro';
+import { estimateWindProfile } from './utils/windEstimate';
+import { encodeRawCapture, decodeRawCapture, getCaptureDuration, RAW_CAPTURE_EXTENSION } from './utils/rawCapture';
 
 const HirayaLogo = "https://drive.google.com/uc?export=view&id=1f0jWSq_UVz8cZp-VcZl-CSdcPu6f89wE";
 
@@ -114,6 +139,10 @@ const SystemStatusBar = React.memo<{ dataRate: number, mode: HardwareMode, graph
 });
 
 const INITIAL_PACKET_COUNT = 15;
+const EMPTY_HISTORY: TelemetryPacket[] = [];
+const MAX_PYRO_AUDIT = 1000;
+const MAX_LINK_SAMPLES = 300;  // 5 minutes at one sample per second
+const HEARTBEAT_TIMEOUT_MS = 3000;
 const generateZeroPackets = (): TelemetryPacket[] => {
     const now = Date.now();
     return Array.from({ length: INITIAL_PACKET_COUNT }).map((_, i) => ({
@@ -150,6 +179,12 @@ const DEFAULT_MODEL_CONFIG: Model3DConfig = {
 export const App: React.FC = () => {
   const [dataHistory, setDataHistory] = useState<TelemetryPacket[]>(() => generateZeroPackets());
   const [latestData, setLatestData] = useState<TelemetryPacket | null>(null);
+
+  // AETHER: Additional vehicle streams, keyed by VehicleSourceConfig.id ('primary' is the main link)
+  const [vehicleHistories, setVehicleHistories] = useState<Record<string, TelemetryPacket[]>>({});
+  const [selectedVehicleId, setSelectedVehicleId] = useState<string>('primary');
+  const vehicleQueueRef = useRef<Record<string, TelemetryPacket[]>>({});
+  const vehicleEvaluatorsRef = useRef<Record<string, DerivedChannelEvaluator>>({});
   
   const [activeBottomView, setActiveBottomView] = useState<'serial' | 'flight'>('flight');
   const [maximizedId, setMaximizedId] = useState<string | null>(null);
@@ -178,8 +213,7 @@ export const App: React.FC = () => {
   useEffect(() => { acknowledgedAlertsRef.current = acknowledgedAlerts; }, [acknowledgedAlerts]);
 
   const [missionTime, setMissionTime] = useState<number>(0);
-  const [missionStatus, setMissionStatus] = useState<'reset' | 'running' | 'hold'>('reset');
-  const [hasReachedApogee, setHasReachedApogee] = useState(false);
+  const [missionStatus, setMissionStatus] = useState<MissionClockState>('reset');
 
   const [settings, setSettings] = useState<AppSettings>(() => {
     try {
@@ -191,14 +225,26 @@ export const App: React.FC = () => {
           ...parsed,
           units: { ...DEFAULT_SETTINGS.units, ...(parsed.units || {}) },
           thresholds: { ...DEFAULT_SETTINGS.thresholds, ...(parsed.thresholds || {}) },
+          // AETHER: Settings saved before alert rules existed get the default rules at their own limits
+          alerts: parsed.alerts
+              ? { ...DEFAULT_SETTINGS.alerts, ...parsed.alerts }
+              : { ...DEFAULT_SETTINGS.alerts, rules: withThresholdLimits(DEFAULT_SETTINGS.alerts.rules, { ...DEFAULT_SETTINGS.thresholds, ...(parsed.thresholds || {}) }) },
           graphics: { ...DEFAULT_SETTINGS.graphics, ...(parsed.graphics || {}) },
           hardware: { ...DEFAULT_SETTINGS.hardware, ...(parsed.hardware || {}) },
-          voice: { ...DEFAULT_SETTINGS.voice, ...(parsed.voice || {}) },
+          voice: { ...DEFAULT_SETTINGS.voice, ...(parsed.voice || {}), alerts: { ...DEFAULT_SETTINGS.voice.alerts, ...(parsed.voice?.alerts || {}) } },
           checksum: { ...DEFAULT_SETTINGS.checksum, ...(parsed.checksum || {}) },
+          protocol: { ...DEFAULT_SETTINGS.protocol, ...(parsed.protocol || {}) },
+          uplink: { ...DEFAULT_SETTINGS.uplink, ...(parsed.uplink || {}) },
+          pyro: { ...DEFAULT_SETTINGS.pyro, ...(parsed.pyro || {}) },
+          vehicles: { ...DEFAULT_SETTINGS.vehicles, ...(parsed.vehicles || {}) },
           mission: { ...DEFAULT_SETTINGS.mission, ...(parsed.mission || {}) },
+          flightEvents: { ...DEFAULT_SETTINGS.flightEvents, ...(parsed.flightEvents || {}) },
+          estimator: { ...DEFAULT_SETTINGS.estimator, ...(parsed.estimator || {}) },
+          ahrs: { ...DEFAULT_SETTINGS.ahrs, ...(parsed.ahrs || {}) },
           wind: { ...DEFAULT_SETTINGS.wind, ...(parsed.wind || {}) },
           descent: { ...DEFAULT_SETTINGS.descent, ...(parsed.descent || {}) },
           landing: { ...DEFAULT_SETTINGS.landing, ...(parsed.landing || {}) },
+          dispersion: { ...DEFAULT_SETTINGS.dispersion, ...(parsed.dispersion || {}) },
           terrain: { ...DEFAULT_SETTINGS.terrain, ...(parsed.terrain || {}) }
         };
       }
@@ -210,28 +256,45 @@ export const App: React.FC = () => {
 
   const [flightPrediction, setFlightPrediction] = useState<any>(null);
   const lastPredTimeRef = useRef(0);
+  const predictionInFlightRef = useRef(false);
+  const [dispersionTarget, setDispersionTarget] = useState<{ lat: number, lon: number } | null>(null);
+
+  // AETHER: Terrain under the expected landing area (or under the vehicle before the first prediction)
+  const lastFix = dataHistory.length > 0 && Math.abs(dataHistory[dataHistory.length - 1].latitude) > 0.0001 ? dataHistory[dataHistory.length - 1] : null;
+  const groundTarget = dispersionTarget ?? (flightPrediction ? { lat: flightPrediction.lat, lon: flightPrediction.lon } : lastFix ? { lat: lastFix.latitude, lon: lastFix.longitude } : null);
+  const groundAlt = useTerrainGround(dataHistory, groundTarget, settings.terrain);
+
+  // AETHER: Calculation mode decides whether predictions run on the UI thread or in the compute worker
+  useEffect(() => { sharedCompute.setMode(settings.hardware.calculation); }, [settings.hardware.calculation]);
 
   useEffect(() => {
       if (activeBottomView === 'flight' && dataHistory.length > 0 && settings.landing.showPrediction) {
           const now = Date.now();
-          if (now - lastPredTimeRef.current > settings.landing.predictionInterval) {
+          if (now - lastPredTimeRef.current > settings.landing.predictionInterval && !predictionInFlightRef.current) {
               const last = dataHistory[dataHistory.length - 1];
               if (Math.abs(last.latitude) > 0.0001) {
-                  const pred = predictLanding(
-                      last.latitude, last.longitude, last.relAltitude,
-                      last.vSpeed, last.hSpeed, last.heading,
-                      settings.descent, settings.wind, 
-                      settings.landing,
-                      0,
-                      last.density,
-                      dataHistory 
-                  );
-                  setFlightPrediction(pred);
+                  predictionInFlightRef.current = true;
                   lastPredTimeRef.current = now;
+                  sharedCompute.run('predictLanding', {
+                      lat: last.latitude, lon: last.longitude, alt: filteredAltitude(last),
+                      vSpeed: filteredVSpeed(last), hSpeed: last.hSpeed, heading: last.heading,
+                      descent: settings.descent, wind: settings.wind,
+                      landing: settings.landing,
+                      groundAlt,
+                      density: last.density,
+                      // Only the last few fixes feed the ground-track vector
+                      history: dataHistory.slice(-3)
+                  }).then(setFlightPrediction)
+                    .catch(e => console.error("Landing prediction failed:", e))
+                    .finally(() => { predictionInFlightRef.current = false; });
               }
           }
       }
-  }, [activeBottomView, dataHistory, settings]);
+  }, [activeBottomView, dataHistory, settings, groundAlt]);
+
+  // AETHER: Monte Carlo landing dispersion for the map and 3D view (runs in a worker)
+  const landingDispersion = useLandingDispersion(dataHistory, settings, settings.dispersion.enabled && settings.landing.showPrediction, groundAlt);
+  useEffect(() => { setDispersionTarget(landingDispersion ? landingDispersion.mean : null); }, [landingDispersion]);
 
 
   const settingsRef = useRef(settings);
@@ -243,11 +306,19 @@ export const App: React.FC = () => {
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isHelpOpen, setIsHelpOpen] = useState(false);
   const [isAboutOpen, setIsAboutOpen] = useState(false);
+  const [isFlightLogOpen, setIsFlightLogOpen] = useState(false);
+  // AETHER: Stored session opened in the post-flight analysis workspace
+  const [analysisSession, setAnalysisSession] = useState<{ meta: FlightSessionMeta, packets: TelemetryPacket[] } | null>(null);
+  const [loopStart, setLoopStart] = useState<number | null>(null);
+
+  // AETHER: Pending CSV column mapping awaiting user confirmation
+  const [csvSuggestion, setCsvSuggestion] = useState<CsvMappingSuggestion | null>(null);
+  const lastHeaderRef = useRef<string>('');
 
   const [isRecording, setIsRecording] = useState(false);
-  const recordingBufferRef = useRef<TelemetryPacket[]>([]);
+  // AETHER: Recording streams to the IndexedDB flight log instead of an in-memory buffer
+  const recorderRef = useRef<FlightRecorder | null>(null);
   const isRecordingRef = useRef(false);
-  const hasWarnedBufferLimitRef = useRef(false); 
 
   const [isAutoScroll, setIsAutoScroll] = useState(false);
   const serialContainerRef = useRef<HTMLDivElement>(null);
@@ -291,13 +362,101 @@ export const App: React.FC = () => {
       window.speechSynthesis.speak(utterance);
   }, []); 
 
-  const handleAcknowledge = (key: string) => {
-      if (!acknowledgedAlerts.has(key)) {
-          setAcknowledgedAlerts(prev => new Set(prev).add(key));
-          if ('speechSynthesis' in window) window.speechSynthesis.cancel();
-          addToast(`${key.toUpperCase()} Alert Muted.`, "info");
-      }
-  };
+  // AETHER: Flight phase detection on the primary stream (replaces the single apogee flag)
+  const [flightEvents, setFlightEvents] = useState<FlightEvent[]>([]);
+  const [flightPhase, setFlightPhase] = useState<FlightPhase>('pad');
+  const flightDetectorRef = useRef(createFlightEventDetector(settings.flightEvents));
+
+  const dataHistoryRef = useRef(dataHistory);
+  useEffect(() => { dataHistoryRef.current = dataHistory; }, [dataHistory]);
+
+  const announceFlightEvents = useCallback((fired: FlightEvent[]) => {
+      setFlightEvents([...flightDetectorRef.current.getEvents()]);
+      setFlightPhase(flightDetectorRef.current.getPhase());
+      const voice = settingsRef.current.voice;
+      if (!voice.enabled || !voice.alerts.events) return;
+      fired.forEach(e => {
+          if (e.type === 'apogee') speak(`Apogee. ${Math.round(e.altitude)} meters.`);
+          else if (e.type === 'drogue' || e.type === 'main') speak(`${FLIGHT_EVENT_LABELS[e.type]} deployed.`);
+          else if (e.type === 'landing') speak("Touchdown.");
+          else speak(`${FLIGHT_EVENT_LABELS[e.type]}.`);
+      });
+  }, [speak]);
+
+  /** Re-runs detection from scratch, e.g. after a rewind or a threshold change. Silent: no callouts. */
+  const rebuildFlightEvents = useCallback((history: TelemetryPacket[], config: FlightEventSettings) => {
+      const detector = createFlightEventDetector(config);
+      history.forEach(p => detector.push(p));
+      flightDetectorRef.current = detector;
+      setFlightEvents([...detector.getEvents()]);
+      setFlightPhase(detector.getPhase());
+  }, []);
+
+  useEffect(() => {
+      rebuildFlightEvents(dataHistoryRef.current, settings.flightEvents);
+  }, [settings.flightEvents, rebuildFlightEvents]);
+
+  // AETHER: Kalman state estimator on the primary stream. Packets are annotated with filtered
+  // altitude / vertical speed / acceleration on arrival, so charts, recordings and exports carry
+  // raw and filtered values side by side.
+  const stateEstimatorRef = useRef(createStateEstimator(settings.estimator));
+
+  /** Restarts the estimator and runs it over `history`, so it continues from the last packet. */
+  const primeEstimator = useCallback((history: TelemetryPacket[], config: EstimatorSettings) => {
+      const estimator = createStateEstimator(config);
+      history.forEach(p => estimator.update(p));
+      stateEstimatorRef.current = estimator;
+  }, []);
+
+  // New noise figures re-filter the whole history so the filtered trace stays consistent
+  const estimatorConfigRef = useRef(settings.estimator);
+  useEffect(() => {
+      if (estimatorConfigRef.current === settings.estimator) return;
+      estimatorConfigRef.current = settings.estimator;
+      const config = settings.estimator;
+      const estimator = createStateEstimator(config);
+      const refiltered = dataHistoryRef.current.map(p => config.enabled ? withEstimate(p, estimator.update(p)) : withoutEstimate(p));
+      stateEstimatorRef.current = estimator;
+      dataHistoryRef.current = refiltered;
+      setDataHistory(refiltered);
+      rebuildFlightEvents(refiltered, settingsRef.current.flightEvents);
+  }, [settings.estimator, rebuildFlightEvents]);
+
+  // AETHER: Attitude (AHRS) on the primary stream. Packets gain an attitude quaternion on arrival;
+  // the pad calibration survives restarts of the filter.
+  const ahrsRef = useRef(createAhrs(settings.ahrs));
+
+  /** Restarts the AHRS (keeping its calibration) and runs it over `history`. */
+  const primeAhrs = useCallback((history: TelemetryPacket[], config: AhrsSettings) => {
+      const ahrs = createAhrs(config, ahrsRef.current.getCalibration());
+      history.forEach(p => ahrs.update(p));
+      ahrsRef.current = ahrs;
+  }, []);
+
+  const ahrsConfigRef = useRef(settings.ahrs);
+  useEffect(() => {
+      if (ahrsConfigRef.current === settings.ahrs) return;
+      ahrsConfigRef.current = settings.ahrs;
+      const config = settings.ahrs;
+      const ahrs = createAhrs(config, ahrsRef.current.getCalibration());
+      const updated = dataHistoryRef.current.map(p => config.enabled ? withAttitude(p, ahrs.update(p)) : withoutAttitude(p));
+      ahrsRef.current = ahrs;
+      dataHistoryRef.current = updated;
+      setDataHistory(updated);
+  }, [settings.ahrs]);
+
+  const handleZeroAttitude = useCallback(() => {
+      ahrsRef.current.zero();
+      addToast("Attitude zeroed: current pose set as pad reference", "success");
+  }, [addToast]);
+
+  // AETHER: Wind measured from the primary stream's drift, worked out only while settings are open
+  const liveWindEstimate = useMemo(() => isSettingsOpen ? estimateWindProfile(dataHistory, flightEvents) : undefined, [isSettingsOpen, dataHistory, flightEvents]);
+
+  const handleApplyWindLayers = useCallback((layers: WindLayer[]) => {
+      setSettings(prev => ({ ...prev, wind: { ...prev.wind, mode: 'gradient', layers } }));
+      addToast(`Applied ${layers.length} measured wind layer(s)`, "success");
+  }, [addToast]);
 
   useEffect(() => {
       if (missionStatus === 'reset') {
@@ -306,7 +465,6 @@ export const App: React.FC = () => {
           const multiplier = isMin ? 60 : 1;
           const startSecs = -(settings.mission.countDownStart * multiplier);
           setMissionTime(startSecs);
-          setHasReachedApogee(false); 
       }
   }, [settings.mission.countDownStart, settings.mission.unit, missionStatus]);
 
@@ -347,9 +505,9 @@ export const App: React.FC = () => {
   const handleMissionReset = useCallback(() => {
       const allowVoice = settingsRef.current.voice.enabled && settingsRef.current.voice.alerts.mission;
       setMissionStatus('reset');
-      setHasReachedApogee(false);
+      rebuildFlightEvents([], settingsRef.current.flightEvents);
       if (allowVoice) speak("Mission Clock Reset");
-  }, [speak]);
+  }, [speak, rebuildFlightEvents]);
 
   const formatMissionTime = (totalSeconds: number) => {
       const isNegative = totalSeconds < 0;
@@ -359,69 +517,138 @@ export const App: React.FC = () => {
       return `T${isNegative ? '-' : '+'} ${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
   };
 
+  // AETHER: Alert rules, evaluated for every packet of the primary stream
+  const [activeAlerts, setActiveAlerts] = useState<ActiveAlert[]>([]);
+  const alertEngineRef = useRef(createAlertEngine([...settings.alerts.rules, ...channelRangeRules(settings.customChannels)], settings.customChannels));
+  const lastSpokenRef = useRef<Record<string, number>>({});
+
   useEffect(() => {
-      if (!latestData || missionTime < 0) return; 
-      if (!hasReachedApogee) {
-          if (latestData.vSpeed < -1.0 && latestData.relAltitude > 20) {
-              setHasReachedApogee(true);
-          }
-      }
-  }, [latestData, missionTime, hasReachedApogee]); 
+      alertEngineRef.current = createAlertEngine([...settings.alerts.rules, ...channelRangeRules(settings.customChannels)], settings.customChannels);
+      lastSpokenRef.current = {};
+      setActiveAlerts([]);
+      setAcknowledgedAlerts(new Set());
+  }, [settings.alerts.rules, settings.customChannels]);
+
+  // AETHER: Alert history for the annunciator; also written to the flight log while recording
+  const [alertHistory, setAlertHistory] = useState<AlertLogEntry[]>([]);
+
+  const logAlerts = useCallback((entries: AlertLogEntry[]) => {
+      if (entries.length === 0) return;
+      setAlertHistory(prev => [...prev, ...entries]);
+      const recorder = isRecordingRef.current ? recorderRef.current : null;
+      if (recorder) entries.forEach(e => recorder.logAlert(e));
+  }, []);
 
-  const lastAlertTimeRef = useRef<Record<string, number>>({});
-  const ALERT_COOLDOWN = 3000; 
+  const resetAlerts = useCallback(() => {
+      alertEngineRef.current.reset();
+      lastSpokenRef.current = {};
+      setActiveAlerts([]);
+      setAcknowledgedAlerts(new Set());
+  }, []);
+
+  const announceAlert = useCallback((alert: ActiveAlert, now: number) => {
+      const voice = settingsRef.current.voice;
+      if (!alert.rule.voice || !voice.enabled || !voice.alerts.rules || acknowledgedAlertsRef.current.has(alert.rule.id)) return;
+      speak(alert.message);
+      lastSpokenRef.current[alert.rule.id] = now;
+  }, [speak]);
 
-  const checkThresholds = useCallback((packet: TelemetryPacket) => {
+  const handleAlertTransitions = useCallback((transitions: AlertTransition[]) => {
+      if (transitions.length === 0) return;
+      transitions.forEach(t => {
+          if (t.type === 'raised') {
+              announceAlert(t.alert, t.time);
+              if (t.alert.rule.visual) addToast(t.alert.message, t.alert.rule.severity === 'warning' ? 'error' : 'info');
+          } else {
+              delete lastSpokenRef.current[t.alert.rule.id];
+          }
+      });
+      logAlerts(transitions.map(t => toAlertLogEntry(t.type, t.alert, t.time, t.packetTime)));
+      const cleared = transitions.filter(t => t.type === 'cleared').map(t => t.alert.rule.id);
+      if (cleared.some(id => acknowledgedAlertsRef.current.has(id))) {
+          setAcknowledgedAlerts(prev => {
+              const next = new Set(prev);
+              cleared.forEach(id => next.delete(id));
+              return next;
+          });
+      }
+      setActiveAlerts(alertEngineRef.current.getActive());
+  }, [announceAlert, addToast, logAlerts]);
+
+  /** Mutes the callouts of `alerts` and records the acknowledgement */
+  const acknowledgeAlerts = useCallback((alerts: ActiveAlert[]) => {
+      const muted = alerts.filter(a => !acknowledgedAlertsRef.current.has(a.rule.id));
+      if (muted.length === 0) return;
+      setAcknowledgedAlerts(prev => new Set([...prev, ...muted.map(a => a.rule.id)]));
+      if ('speechSynthesis' in window) window.speechSynthesis.cancel();
       const now = Date.now();
-      const currentSettings = settingsRef.current;
-      const currentAcks = acknowledgedAlertsRef.current;
-      const thresholds = currentSettings.thresholds;
-      
-      const processAlert = (key: string, isTriggered: boolean, message: string, checkEnabled: boolean) => {
-           if (isTriggered) {
-               if (checkEnabled && !currentAcks.has(key)) {
-                   if (currentSettings.voice.enabled) {
-                       if (!lastAlertTimeRef.current[key] || (now - lastAlertTimeRef.current[key] > ALERT_COOLDOWN)) {
-                           speak(message);
-                           lastAlertTimeRef.current[key] = now;
-                       }
-                   }
-               }
-           } else {
-               if (currentAcks.has(key)) {
-                   setAcknowledgedAlerts(prev => {
-                       const next = new Set(prev);
-                       next.delete(key);
-                       return next;
-                   });
-               }
-           }
-      };
+      const packetTime = dataHistoryRef.current[dataHistoryRef.current.length - 1]?.timeElapsed ?? 0;
+      logAlerts(muted.map(a => toAlertLogEntry('acknowledged', a, now, packetTime)));
+      addToast(`${muted.map(a => a.rule.name).join(', ')} Alert Muted.`, "info");
+  }, [logAlerts, addToast]);
 
-      const isHighTemp = packet.temperature > thresholds.maxTemperature;
-      const isHighAlt = packet.relAltitude > thresholds.maxAltitude;
-      const isHighSpeed = packet.hSpeed > thresholds.maxSpeed || packet.vSpeed > thresholds.maxVerticalSpeed;
-      const isHighPress = packet.pressure > thresholds.maxPressure;
-      
-      processAlert('temp', isHighTemp, 'Warning. High Temperature.', currentSettings.voice.alerts.thermal);
-      processAlert('alt', isHighAlt, 'Attention. Altitude Limit Exceeded.', currentSettings.voice.alerts.altitude);
-      processAlert('speed', isHighSpeed, 'Warning. Over speed.', currentSettings.voice.alerts.dynamics);
-      processAlert('press', isHighPress, 'Warning. Over Pressure.', currentSettings.voice.alerts.dynamics);
+  /** Stat cards acknowledge the active alerts watching any of their `fields` */
+  const handleAcknowledge = (fields: string[]) => acknowledgeAlerts(activeAlerts.filter(a => fields.includes(a.rule.field)));
 
-  }, [speak]);
+  const handleExportAlertLog = useCallback(() => {
+      downloadBlob(new Blob([buildAlertLogCsv(alertHistory)], { type: 'text/csv;charset=utf-8;' }), "alert_log", 'csv');
+  }, [alertHistory]);
 
-  const handleDataReceived = useCallback((packet: TelemetryPacket) => {
+  const isAlertMuted = (fields: string[]) => activeAlerts.some(a => fields.includes(a.rule.field) && acknowledgedAlerts.has(a.rule.id));
+
+  // Stale-data rules need checking while no packets arrive; unacknowledged warnings are repeated
+  useEffect(() => {
+      const timer = setInterval(() => {
+          const now = Date.now();
+          handleAlertTransitions(alertEngineRef.current.tick(now));
+          const active = alertEngineRef.current.getActive();
+          // Keeps the annunciator's live values and peaks current
+          if (active.length > 0) setActiveAlerts(active);
+          const repeat = settingsRef.current.alerts.repeatInterval;
+          if (repeat <= 0) return;
+          active.forEach(alert => {
+              if (alert.rule.severity === 'warning' && now - (lastSpokenRef.current[alert.rule.id] ?? 0) >= repeat) announceAlert(alert, now);
+          });
+      }, 1000);
+      return () => clearInterval(timer);
+  }, [handleAlertTransitions, announceAlert]);
+
+  // AETHER: Derived channels are computed once per packet, before display/recording
+  const derivedEvaluatorRef = useRef(createDerivedChannelEvaluator(settings.customChannels));
+  useEffect(() => {
+      derivedEvaluatorRef.current = createDerivedChannelEvaluator(settings.customChannels);
+      vehicleEvaluatorsRef.current = {};
+  }, [settings.customChannels]);
+
+  // Station time of the newest primary packet; the pad safety interlocks need a live link
+  const lastPacketAtRef = useRef(0);
+  // Latest port link statistics (null without a port), for the link alert rules
+  const linkStatsRef = useRef<LinkStats | null>(null);
+
+  const handleDataReceived = useCallback((rawPacket: TelemetryPacket) => {
+    const estimated = settingsRef.current.estimator.enabled ? withEstimate(rawPacket, stateEstimatorRef.current.update(rawPacket)) : rawPacket;
+    const oriented = settingsRef.current.ahrs.enabled ? withAttitude(estimated, ahrsRef.current.update(estimated)) : estimated;
+    const packet = derivedEvaluatorRef.current.apply(oriented);
     const packetWithId = { ...packet, id: packet.id || Math.random().toString(36).substr(2, 9) };
     incomingQueueRef.current.push(packetWithId);
+    lastPacketAtRef.current = Date.now();
     
-    if (isRecordingRef.current) {
-        if (recordingBufferRef.current.length < 50000) recordingBufferRef.current.push(packetWithId);
-        else if (recordingBufferRef.current.length === 50000 && !hasWarnedBufferLimitRef.current) {
-           addToast("Recording buffer limit reached (50k points).", "error");
-           hasWarnedBufferLimitRef.current = true;
-        }
-    }
-  }, [addToast]);
+    if (isRecordingRef.current && recorderRef.current) recorderRef.current.push(packetWithId);
+
+    const fired = flightDetectorRef.current.push(packetWithId);
+    if (fired.length > 0) announceFlightEvents(fired);
+    const link = linkStatsRef.current;
+    handleAlertTransitions(alertEngineRef.current.update(packetWithId, flightDetectorRef.current.getPhase(), Date.now(), link ? { linkLoss: link.lossPercent, linkRate: link.packetRate } : undefined));
+  }, [announceFlightEvents, handleAlertTransitions]);
+
+  const handleVehicleData = useCallback((vehicleId: string, rawPacket: TelemetryPacket) => {
+      if (!vehicleEvaluatorsRef.current[vehicleId]) {
+          vehicleEvaluatorsRef.current[vehicleId] = createDerivedChannelEvaluator(settingsRef.current.customChannels);
+      }
+      const packet = vehicleEvaluatorsRef.current[vehicleId].apply(rawPacket);
+      const queue = vehicleQueueRef.current[vehicleId] || (vehicleQueueRef.current[vehicleId] = []);
+      queue.push({ ...packet, id: packet.id || Math.random().toString(36).substr(2, 9) });
+  }, []);
 
   useEffect(() => {
       const loop = () => {
@@ -430,7 +657,6 @@ export const App: React.FC = () => {
               incomingQueueRef.current = []; 
 
               const latest = batch[batch.length - 1];
-              checkThresholds(latest);
               setLatestData(latest);
 
               setDataHistory(prev => {
@@ -439,6 +665,16 @@ export const App: React.FC = () => {
                   return newHistory;
               });
           }
+          const vehicleIds = Object.keys(vehicleQueueRef.current);
+          if (vehicleIds.length > 0) {
+              const queued = vehicleQueueRef.current;
+              vehicleQueueRef.current = {};
+              setVehicleHistories(prev => {
+                  const next = { ...prev };
+                  vehicleIds.forEach(id => { next[id] = [...(prev[id] || []), ...queued[id]]; });
+                  return next;
+              });
+          }
           animationFrameRef.current = requestAnimationFrame(loop);
       };
       
@@ -446,7 +682,7 @@ export const App: React.FC = () => {
       return () => {
           if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
       };
-  }, [checkThresholds]);
+  }, []);
 
   // AETHER: Sliced History REMOVED. Now using full history but optimized in charts.
   // We keep 'displayHistory' computation centralized though.
@@ -456,18 +692,212 @@ export const App: React.FC = () => {
       speak("Attempting Reconnection");
   }, [addToast, speak]);
 
+  // A header row that disagrees with the current CSV map is offered as a suggestion, once per distinct header
+  const handleHeaderDetected = useCallback((headerLine: string) => {
+      if (headerLine === lastHeaderRef.current) return;
+      lastHeaderRef.current = headerLine;
+      const suggestion = suggestCsvMapping([headerLine], settings.separator, settings.protocol.aliases);
+      if (!suggestion) return;
+      if (suggestion.columns.map(c => c.field).join(',') === settings.csvOrder.join(',')) return;
+      setCsvSuggestion(suggestion);
+      addToast("Header row detected — review column mapping in Settings.", "info");
+  }, [settings.separator, settings.protocol.aliases, settings.csvOrder, addToast]);
+
+  // AETHER: Rewinding file playback drops history after the new playhead
+  const playbackRewoundRef = useRef(false);
+  const handlePlaybackSeek = useCallback((rewoundPackets: number) => {
+      // The newest packets may still be queued for the next frame
+      const queue = incomingQueueRef.current;
+      const fromQueue = Math.min(queue.length, rewoundPackets);
+      incomingQueueRef.current = queue.slice(0, queue.length - fromQueue);
+      const fromHistory = rewoundPackets - fromQueue;
+      playbackRewoundRef.current = true;
+      setDataHistory(prev => prev.slice(0, Math.max(0, prev.length - fromHistory)));
+  }, []);
+
+  useEffect(() => {
+      if (!playbackRewoundRef.current) return;
+      playbackRewoundRef.current = false;
+      setLatestData(dataHistory.length > 0 ? dataHistory[dataHistory.length - 1] : null);
+      primeEstimator(dataHistory, settingsRef.current.estimator);
+      primeAhrs(dataHistory, settingsRef.current.ahrs);
+      rebuildFlightEvents(dataHistory, settingsRef.current.flightEvents);
+      resetAlerts();
+  }, [dataHistory, primeEstimator, primeAhrs, rebuildFlightEvents, resetAlerts]);
+
+  // --- AETHER: Uplink command console ---
+  const [isConsoleOpen, setIsConsoleOpen] = useState(false);
+  const [uplinkEntries, setUplinkEntries] = useState<UplinkEntry[]>([]);
+  // The port writer only exists once useSerial below has run
+  const uplinkWriteRef = useRef<(line: string) => Promise<void>>(() => Promise.reject(new Error("Serial link not ready.")));
+  const uplinkRef = useRef(createUplinkTracker(line => uplinkWriteRef.current(line), setUplinkEntries));
+
+  const handleLineReceived = useCallback((line: string) =>
+      uplinkRef.current.handleLine(line, settingsRef.current.uplink, settingsRef.current.checksum.mode, Date.now()), []);
+
   const { 
     status, errorMessage, connect, disconnect, isSimulating, isPaused, togglePause,
     isFileMode, startSimulation, stopSimulation, seekSimulation, simProgress,
-    availablePorts, refreshPorts, requestAccess, isAutoReconnectEnabled, toggleAutoReconnect
+    fileDuration, playbackSpeed, setPlaybackSpeed, stepFrame, loopRegion, setLoopRegion,
+    availablePorts, refreshPorts, requestAccess, isAutoReconnectEnabled, toggleAutoReconnect,
+    vehicleState, getSampleLines,
+    isRawCapturing, startRawCapture, stopRawCapture, getRawCaptureBytes,
+    isReplaying, replayProgress, startReplay, writeLine, getLinkStats
   } = useSerial({ 
     serialConfig, csvOrder: settings.csvOrder, separator: settings.separator,
     simInterval: settings.simInterval, simPreset: settings.simPreset,
     windSettings: settings.wind, descentSettings: settings.descent, simConfig: settings.simulation,
     streamThrottle: settings.streamThrottle, calculationMode: settings.hardware.calculation,
     checksumMode: settings.checksum.mode, validateChecksum: settings.checksum.validate,
-    onDataReceived: handleDataReceived, onAutoReconnectAttempt: handleReconnectAttempt
+    protocol: settings.protocol,
+    onDataReceived: handleDataReceived, onAutoReconnectAttempt: handleReconnectAttempt,
+    onHeaderDetected: handleHeaderDetected, onPlaybackSeek: handlePlaybackSeek,
+    onLineReceived: handleLineReceived
+  });
+
+  useEffect(() => { uplinkWriteRef.current = writeLine; }, [writeLine]);
+
+  const hasPendingUplink = uplinkEntries.some(e => e.status === 'pending');
+  useEffect(() => {
+      if (!hasPendingUplink) return;
+      const timer = window.setInterval(() => uplinkRef.current.tick(Date.now()), 100);
+      return () => clearInterval(timer);
+  }, [hasPendingUplink]);
+
+  const handleSendCommand = useCallback((text: string, expectAck: boolean) => {
+      uplinkRef.current.submit(text, expectAck, settingsRef.current.uplink, settingsRef.current.checksum.mode, Date.now());
+  }, []);
+
+  // --- AETHER: Pad safety (arm / disarm / fire) ---
+  const [isPyroOpen, setIsPyroOpen] = useState(false);
+  const [pyroAudit, setPyroAudit] = useState<PyroAuditEntry[]>(() => {
+      try {
+          return JSON.parse(localStorage.getItem('HIRAYA_PYRO_AUDIT') || '[]');
+      } catch {
+          return [];
+      }
   });
+  useEffect(() => { localStorage.setItem('HIRAYA_PYRO_AUDIT', JSON.stringify(pyroAudit.slice(-MAX_PYRO_AUDIT))); }, [pyroAudit]);
+
+  // Uplink entry id -> what it was sent for, until the vehicle answers or it times out
+  const pyroPendingRef = useRef(new Map<number, { targetId: string, target: string, command: string }>());
+  const missionTimeRef = useRef(missionTime);
+  useEffect(() => { missionTimeRef.current = missionTime; }, [missionTime]);
+  const missionStatusRef = useRef(missionStatus);
+  useEffect(() => { missionStatusRef.current = missionStatus; }, [missionStatus]);
+
+  const auditPyro = useCallback((action: PyroAuditAction, target: string, command: string, detail: string) => {
+      setPyroAudit(prev => [...prev, { time: Date.now(), missionTime: missionTimeRef.current, action, target, command, detail }].slice(-MAX_PYRO_AUDIT));
+  }, []);
+
+  const pyroState = useMemo(() => readPyroState(latestData, vehicleState, settings.pyro), [latestData, vehicleState, settings.pyro]);
+  const pyroStateRef = useRef(pyroState);
+  useEffect(() => { pyroStateRef.current = pyroState; }, [pyroState]);
+
+  const isPortOpen = status === ConnectionStatus.CONNECTED && !isSimulating && !isReplaying;
+
+  // --- AETHER: Link quality (port and raw replay streams) ---
+  const [linkStats, setLinkStats] = useState<LinkStats | null>(null);
+  const [linkHistory, setLinkHistory] = useState<LinkSample[]>([]);
+  // Nothing re-renders once heartbeats stop arriving, so their age is checked on a timer
+  const [isHeartbeatLost, setIsHeartbeatLost] = useState(false);
+  useEffect(() => {
+      if (!vehicleState) {
+          setIsHeartbeatLost(false);
+          return;
+      }
+      const check = () => setIsHeartbeatLost(Date.now() - vehicleState.lastHeartbeat > HEARTBEAT_TIMEOUT_MS);
+      check();
+      const timer = window.setInterval(check, 1000);
+      return () => clearInterval(timer);
+  }, [vehicleState]);
+
+  const isLinkMeasured = isPortOpen || isReplaying;
+
+  useEffect(() => {
+      if (!isLinkMeasured) {
+          linkStatsRef.current = null;
+          setLinkStats(null);
+          return;
+      }
+      setLinkHistory([]);
+      const timer = window.setInterval(() => {
+          const stats = getLinkStats();
+          linkStatsRef.current = stats;
+          setLinkStats(stats);
+          setLinkHistory(prev => [...prev, { time: Date.now(), packetRate: stats.packetRate, lossPercent: stats.lossPercent, rssi: stats.rssi }].slice(-MAX_LINK_SAMPLES));
+      }, 1000);
+      return () => clearInterval(timer);
+  }, [isLinkMeasured, getLinkStats]);
+
+  // Simulated and file streams have no radio in between, so they show a full-strength link while data flows
+  const linkBars = linkStats ? linkBarsOf(linkStats, Date.now()) : isSimulating && !isPaused ? 4 : 0;
+
+  /** Sends an arm, disarm or fire command once the interlocks pass; refused attempts are audited too */
+  const handlePyroAction = useCallback((action: PyroAction, channel?: PyroChannel) => {
+      const pyro = settingsRef.current.pyro;
+      const target = channel ? channel.name : 'System';
+      const command = pyroCommandOf(action, pyro, channel);
+      const blockers = pyroBlockers(action, {
+          portOpen: isPortOpen,
+          packetAge: lastPacketAtRef.current > 0 ? Date.now() - lastPacketAtRef.current : Infinity,
+          link: linkStatsRef.current,
+          clock: missionStatusRef.current,
+          armed: pyroStateRef.current.armed
+      }, pyro);
+      if (blockers.length > 0) {
+          auditPyro('blocked', target, command, `${action}: ${blockers.join('; ')}`);
+          addToast(`${action.toUpperCase()} blocked: ${blockers[0]}`, 'error');
+          return;
+      }
+      // Never resent automatically: a repeat has to come from the operator so the interlocks run again
+      const entry = uplinkRef.current.submit(command, true, settingsRef.current.uplink, settingsRef.current.checksum.mode, Date.now(), 0);
+      pyroPendingRef.current.set(entry.id, { targetId: channel ? channel.id : 'System', target, command });
+      auditPyro(action, target, command, `sent as ${entry.framed}`);
+  }, [isPortOpen, auditPyro, addToast]);
+
+  const handlePyroAbort = useCallback((action: PyroAction, channel: PyroChannel | undefined, stage: string) => {
+      auditPyro('cancelled', channel ? channel.name : 'System', pyroCommandOf(action, settingsRef.current.pyro, channel), stage);
+  }, [auditPyro]);
+
+  // The vehicle's answer (or the lack of one) to each safety command is audited as it arrives
+  useEffect(() => {
+      const pending = pyroPendingRef.current;
+      if (pending.size === 0) return;
+      uplinkEntries.forEach(entry => {
+          const meta = pending.get(entry.id);
+          if (!meta || entry.status === 'pending') return;
+          pending.delete(entry.id);
+          const action: PyroAuditAction = entry.status === 'acked' ? 'acked' : entry.status === 'nacked' ? 'nacked' : entry.status === 'timeout' ? 'timeout' : 'error';
+          const detail = entry.status === 'timeout' ? `no reply within ${entry.timeoutMs} ms, not resent` : entry.reply || '';
+          auditPyro(action, meta.target, meta.command, detail);
+          if (action !== 'acked') addToast(`${meta.command}: ${action.toUpperCase()}${detail ? ` (${detail})` : ''}`, 'error');
+      });
+  }, [uplinkEntries, auditPyro, addToast]);
+
+  const pyroInFlight = useMemo(() => {
+      const byTarget: Record<string, UplinkEntry> = {};
+      uplinkEntries.forEach(entry => {
+          const meta = pyroPendingRef.current.get(entry.id);
+          if (meta && entry.status === 'pending') byTarget[meta.targetId] = entry;
+      });
+      return byTarget;
+  }, [uplinkEntries]);
+
+  const handleExportPyroAudit = useCallback(() => {
+      downloadBlob(new Blob([buildPyroAuditCsv(pyroAudit)], { type: 'text/csv;charset=utf-8;' }), 'pad_safety_audit', 'csv');
+  }, [pyroAudit]);
+
+  useEffect(() => { if (!isSimulating) setLoopStart(null); }, [isSimulating]);
+
+  const handleRequestAutoMap = useCallback(() => {
+      const suggestion = suggestCsvMapping(getSampleLines(), settings.separator, settings.protocol.aliases);
+      if (!suggestion) {
+          addToast("Not enough CSV lines received to auto-map. Connect or load a file first.", "error");
+          return;
+      }
+      setCsvSuggestion(suggestion);
+  }, [getSampleLines, settings.separator, settings.protocol.aliases, addToast]);
 
   const isDataLive = status === ConnectionStatus.CONNECTED || (isSimulating && !isPaused);
 
@@ -517,11 +947,19 @@ export const App: React.FC = () => {
 
   useEffect(() => {
     isRecordingRef.current = isRecording;
-    if (isRecording) {
-        hasWarnedBufferLimitRef.current = false; 
-    }
   }, [isRecording]);
 
+  // Sessions left in 'recording' state by a crashed or closed tab are kept up to their last flush
+  useEffect(() => {
+    if (!isFlightLogAvailable()) return;
+    recoverInterruptedSessions().then(recovered => {
+        if (recovered.length > 0) addToast(`Recovered ${recovered.length} interrupted recording(s). See Flight Logs.`, "info");
+    }).catch(e => console.warn("Flight log recovery failed", e));
+    const handlePageHide = () => { recorderRef.current?.flush(); };
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [addToast]);
+
   useEffect(() => {
     if (isAutoScroll && serialContainerRef.current) {
         serialContainerRef.current.scrollTop = serialContainerRef.current.scrollHeight;
@@ -555,7 +993,7 @@ export const App: React.FC = () => {
 
   const handleDisconnectClick = () => {
       disconnect();
-      addToast(isSimulating ? "Simulation stopped." : "Disconnected from device.", "info");
+      addToast(isSimulating ? "Simulation stopped." : isReplaying ? "Raw replay stopped." : "Disconnected from device.", "info");
   };
 
   const handleScanClick = async () => {
@@ -583,6 +1021,22 @@ export const App: React.FC = () => {
       const file = e.target.files?.[0];
       if (!file) return;
       const reader = new FileReader();
+      // AETHER: Raw captures replay through the current parser settings instead of the CSV simulator
+      if (file.name.toLowerCase().endsWith(`.${RAW_CAPTURE_EXTENSION}`)) {
+          reader.onload = (event) => {
+              try {
+                  const capture = decodeRawCapture(event.target?.result as ArrayBuffer);
+                  startReplay(capture);
+                  addToast(`Replaying ${file.name} (${capture.chunks.length} chunks, ${(getCaptureDuration(capture) / 1000).toFixed(1)}s)`, 'info');
+              } catch (err: any) {
+                  addToast(`Invalid raw capture: ${err.message}`, 'error');
+              }
+          };
+          reader.onerror = () => addToast("Failed to read file", 'error');
+          reader.readAsArrayBuffer(file);
+          e.target.value = '';
+          return;
+      }
       reader.onload = (event) => {
           const text = event.target?.result as string;
           if (text) {
@@ -600,57 +1054,67 @@ export const App: React.FC = () => {
       addToast("No data to export.", "error");
       return;
     }
-    const fields = Object.keys(FIELD_LABELS).filter(f => f !== SKIP_FIELD) as (keyof TelemetryPacket)[];
-    const headers = fields.map(f => FIELD_LABELS[f]);
-    const rows = data.map(p => {
-      return fields.map(f => {
-          // @ts-ignore
-          let val = p[f];
-          if (val === undefined) return '';
-          if (typeof val === 'string') {
-              if (['=', '+', '-', '@'].includes(val.charAt(0))) {
-                  val = "'" + val;
-              }
-              if (val.includes('"') || val.includes(',')) {
-                  val = `"${val.replace(/"/g, '""')}"`;
-              }
-          }
-          return val;
-      }).join(",");
-    });
-    const csvContent = headers.join(",") + "\n" + rows.join("\n");
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.setAttribute("href", url);
-    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-    link.setAttribute("download", `${filenamePrefix}_${timestamp}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    const channelKeys = collectChannelKeys(data, settings.customChannels);
+    const labelEvent = createEventLabeler(detectFlightEvents(data, settings.flightEvents));
+    const csvContent = buildCsvHeader(channelKeys, settings.customChannels) + "\n" + data.map(p => formatCsvRow(p, channelKeys, labelEvent(p))).join("\n");
+    downloadBlob(new Blob([csvContent], { type: 'text/csv;charset=utf-8;' }), filenamePrefix, 'csv');
     addToast("CSV Exported Successfully", "success");
-  }, [addToast]);
+  }, [addToast, settings.customChannels, settings.flightEvents]);
+
+  const handleToggleRawCapture = useCallback(() => {
+    if (isRawCapturing) {
+      const capture = stopRawCapture();
+      if (!capture || capture.chunks.length === 0) {
+          addToast("Raw capture is empty.", "error");
+          return;
+      }
+      downloadBlob(encodeRawCapture(capture), "raw_capture", RAW_CAPTURE_EXTENSION);
+      addToast(`Raw capture saved (${capture.chunks.length} chunks).`, "success");
+    } else {
+      startRawCapture();
+      addToast("Raw byte capture started", "info");
+    }
+  }, [isRawCapturing, startRawCapture, stopRawCapture, addToast]);
 
   const handleToggleRecording = useCallback(() => {
     if (isRecording) {
+      const recorder = recorderRef.current;
       setConfirmModal({
         isOpen: true,
         title: "Stop Recording?",
-        message: `You have ${recordingBufferRef.current.length} data points buffered. Stopping will save the CSV file immediately.`,
+        message: `${recorder ? recorder.getPacketCount() : 0} data points are stored in the flight log. Stopping will also download the session as CSV.`,
         confirmText: "Stop & Save",
-        onConfirm: () => {
+        onConfirm: async () => {
            setIsRecording(false);
-           exportToCSV(recordingBufferRef.current, "telemetry_log");
            setConfirmModal(prev => ({ ...prev, isOpen: false }));
+           if (!recorder) return;
+           recorderRef.current = null;
+           try {
+               const session = await recorder.finish();
+               if (session.status === 'partial') {
+                   addToast(`Flight log is incomplete: ${session.lostPackets || 0} packets could not be stored.`, "error");
+               }
+               if (session.packetCount === 0) {
+                   if (session.status !== 'partial') addToast("No data was recorded; the empty session was discarded.", "info");
+                   return;
+               }
+               downloadBlob(await exportFlightSessionCsv(session, settings.customChannels, settings.flightEvents), "telemetry_log", 'csv');
+               addToast("CSV Exported Successfully", "success");
+           } catch (e: any) {
+               addToast(`Failed to save recording: ${e.message}`, "error");
+           }
         }
       });
     } else {
-      recordingBufferRef.current = [];
+      if (!isFlightLogAvailable()) {
+          addToast("Recording requires IndexedDB, which this browser does not provide.", "error");
+          return;
+      }
+      recorderRef.current = createFlightRecorder(settings.vehicles.primaryName, e => addToast(`Flight log write failed, packets are being lost: ${e.message}`, "error"));
       setIsRecording(true);
       addToast("Recording Started", "info");
     }
-  }, [isRecording, exportToCSV, addToast]);
+  }, [isRecording, addToast, settings.customChannels, settings.flightEvents, settings.vehicles.primaryName]);
 
   const handleClearData = useCallback(() => {
     setConfirmModal({
@@ -662,13 +1126,19 @@ export const App: React.FC = () => {
       onConfirm: () => {
          setDataHistory(generateZeroPackets());
          setLatestData(null);
-         recordingBufferRef.current = [];
+         setVehicleHistories({});
+         rebuildFlightEvents([], settingsRef.current.flightEvents);
+         primeEstimator([], settingsRef.current.estimator);
+         primeAhrs([], settingsRef.current.ahrs);
+         resetAlerts();
+         setAlertHistory([]);
+         setLinkHistory([]);
          setLastClearedId(null);
          addToast("Data history cleared and reset", "info");
          setConfirmModal(prev => ({ ...prev, isOpen: false }));
       }
     });
-  }, [addToast]);
+  }, [addToast, rebuildFlightEvents, primeEstimator, primeAhrs, resetAlerts]);
 
   const handleClearMonitor = () => {
      if (dataHistory.length > 0) {
@@ -722,13 +1192,14 @@ export const App: React.FC = () => {
      const visibleIds = new Set(serialMonitorData.map(d => d.id));
      const rawData = dataHistory.filter(d => visibleIds.has(d.id));
      const fields = Object.keys(FIELD_LABELS).filter(f => f !== SKIP_FIELD) as (keyof TelemetryPacket)[];
-     const headers = fields.map(f => FIELD_LABELS[f]);
+     const channelKeys = collectChannelKeys(rawData, settings.customChannels);
+     const headers = [...fields.map(f => FIELD_LABELS[f]), ...channelKeys.map(k => channelHeader(k, settings.customChannels))];
      const rows = rawData.map(p => {
-        return fields.map(f => {
+        return [...fields.map(f => {
             // @ts-ignore
             const val = p[f];
             return val !== undefined ? val : '';
-        }).join(",");
+        }), ...channelKeys.map(k => p.channels?.[k] ?? '')].join(",");
      });
     const csvString = headers.join(",") + "\n" + rows.join("\n");
     navigator.clipboard.writeText(csvString).then(() => {
@@ -776,46 +1247,64 @@ export const App: React.FC = () => {
   };
   const convertDensity = (valKgM3: number, unit: 'kg/m³' | 'lb/ft³') => unit === 'lb/ft³' ? valKgM3 * 0.06242796 : valKgM3;
 
-  const displayHSpeed = convertSpeed(latestData?.hSpeed || 0, settings.units.speed);
-  const displayVSpeed = convertSpeed(latestData?.vSpeed || 0, settings.units.speed);
-  const displayDensity = convertDensity(latestData?.density || 0, settings.units.density);
+  // AETHER: Charts and stat cards follow the selected vehicle; alerts, mission timer and prediction stay on the primary link
+  const selectedVehicle = settings.vehicles.extra.find(v => v.id === selectedVehicleId);
+  const viewHistory = selectedVehicle ? (vehicleHistories[selectedVehicle.id] || EMPTY_HISTORY) : dataHistory;
+  const viewLatest = selectedVehicle ? (viewHistory[viewHistory.length - 1] || null) : latestData;
+  const zeroAttitudeAction = settings.ahrs.enabled && !selectedVehicle ? handleZeroAttitude : undefined;
+
+  const extraTracks = useMemo<VehicleTrack[]>(() => settings.vehicles.extra
+      .filter(v => vehicleHistories[v.id]?.length)
+      .map(v => ({ id: v.id, name: v.name, color: v.color, history: vehicleHistories[v.id] })),
+      [settings.vehicles.extra, vehicleHistories]);
+
+  const displayHSpeed = convertSpeed(viewLatest?.hSpeed || 0, settings.units.speed);
+  const displayVSpeed = convertSpeed(viewLatest ? filteredVSpeed(viewLatest) : 0, settings.units.speed);
+  const displayDensity = convertDensity(viewLatest?.density || 0, settings.units.density);
 
   const dynamicPressureKPa = useMemo(() => {
-      if (!latestData) return 0;
-      const rho = latestData.density; 
-      const v = Math.sqrt(Math.pow(latestData.vSpeed, 2) + Math.pow(latestData.hSpeed, 2)); 
+      if (!viewLatest) return 0;
+      const rho = viewLatest.density; 
+      const v = Math.sqrt(Math.pow(filteredVSpeed(viewLatest), 2) + Math.pow(viewLatest.hSpeed, 2)); 
       const q = 0.5 * rho * Math.pow(v, 2); 
       return q / 1000; 
-  }, [latestData]);
+  }, [viewLatest]);
 
   const gForceDisplay = useMemo(() => {
-      if (dataHistory.length < 2) return 1.00; 
-      const curr = dataHistory[dataHistory.length - 1];
-      const prev = dataHistory[dataHistory.length - 2];
-      let dt = (curr.timeElapsed - prev.timeElapsed) / 1000;
-      if (dt <= 0) dt = 0.1; 
-      const dvVertical = curr.vSpeed - prev.vSpeed;
-      const dvHorizontal = curr.hSpeed - prev.hSpeed;
-      const accelV = dvVertical / dt;
-      const accelH = dvHorizontal / dt;
-      const totalAccel = Math.sqrt(Math.pow(accelV, 2) + Math.pow(accelH, 2));
-      const gLoad = Math.abs(totalAccel / 9.81);
-      return gLoad < 0.1 ? 0 : gLoad;
-  }, [dataHistory]);
+      if (viewHistory.length < 2) return 1.00; 
+      return gLoadOf(viewHistory[viewHistory.length - 1], viewHistory[viewHistory.length - 2]);
+  }, [viewHistory]);
 
   const displayHistory = useMemo(() => {
-    return dataHistory.map(p => ({
+    return viewHistory.map(p => ({
       ...p,
       relAltitude: convertDist(p.relAltitude, settings.units.altitude),
       absAltitude: convertDist(p.absAltitude, settings.units.altitude),
+      estAltitude: p.estAltitude !== undefined ? convertDist(p.estAltitude, settings.units.altitude) : undefined,
       temperature: convertTemp(p.temperature, settings.units.temperature),
       thermistorTemp: convertTemp(p.thermistorTemp, settings.units.temperature),
     }));
-  }, [dataHistory, settings.units]);
+  }, [viewHistory, settings.units]);
   
+  // AETHER: Chart series for declared custom channels
+  const customChartLines = useMemo(() => settings.customChannels
+      .filter(ch => ch.showChart && ch.key.trim())
+      .map(ch => ({
+          key: toChannelField(ch.key),
+          name: ch.units ? `${ch.label || ch.key} (${ch.units})` : (ch.label || ch.key),
+          color: ch.color,
+          strokeWidth: 1,
+          limits: { min: ch.min, max: ch.max }
+      })), [settings.customChannels]);
+
+  // AETHER: Detected flight events (primary stream only) marked on the altitude chart
+  const flightEventMarkers = useMemo<ChartMarker[] | undefined>(() => selectedVehicle ? undefined : flightEvents.map(e => ({
+      time: e.time, label: FLIGHT_EVENT_LABELS[e.type].toUpperCase(), color: '#fbbf24'
+  })), [flightEvents, selectedVehicle]);
+
   const monitorColumns = useMemo(() => {
-    return settings.csvOrder.filter(field => field !== SKIP_FIELD);
-  }, [settings.csvOrder]);
+    return (selectedVehicle ? selectedVehicle.csvOrder : settings.csvOrder).filter(field => field !== SKIP_FIELD);
+  }, [selectedVehicle, settings.csvOrder]);
 
   const serialMonitorData = useMemo(() => {
      let filtered = displayHistory;
@@ -829,7 +1318,7 @@ export const App: React.FC = () => {
          try {
              const regex = new RegExp(searchTerm, 'i');
              filtered = filtered.filter(p => {
-                 const lineStr = monitorColumns.map(f => p[f]).join(" ");
+                 const lineStr = monitorColumns.map(f => getFieldValue(p, f)).join(" ");
                  return regex.test(lineStr);
              });
          } catch (e) { }
@@ -838,6 +1327,26 @@ export const App: React.FC = () => {
   }, [displayHistory, lastClearedId, searchTerm, monitorColumns]);
 
   const currentDisplay = displayHistory.length > 0 ? displayHistory[displayHistory.length - 1] : null;
+
+  // AETHER: Filtered altitude on the Rel Alt card, with the raw reading and 1σ alongside
+  const displayRelAltitude = currentDisplay ? (currentDisplay.estAltitude ?? currentDisplay.relAltitude) : 0;
+  const estimate = viewLatest?.estAltitude !== undefined ? stateEstimatorRef.current.getEstimate() : null;
+  const estimateSigma = estimate ? estimateSigmas(estimate) : null;
+  const altitudeDetail = estimateSigma && currentDisplay
+      ? `±${convertDist(estimateSigma.altitude, settings.units.altitude).toFixed(2)} · raw ${currentDisplay.relAltitude.toFixed(2)}`
+      : undefined;
+  const vSpeedDetail = estimateSigma && viewLatest
+      ? `±${convertSpeed(estimateSigma.vSpeed, settings.units.speed).toFixed(2)} · raw ${convertSpeed(viewLatest.vSpeed, settings.units.speed).toFixed(2)}`
+      : undefined;
+
+  const altitudeChartLines = [
+      { key: 'relAltitude' as const, name: `Rel Alt (${settings.units.altitude})`, color: settings.altitude.color, dot: settings.altitude.showDots, yAxisId: 'left' },
+      ...(settings.estimator.enabled && !selectedVehicle
+          ? [{ key: 'estAltitude' as const, name: `Filtered Alt (${settings.units.altitude})`, color: '#f8fafc', yAxisId: 'left', strokeWidth: 1 }]
+          : []),
+      { key: 'absAltitude' as const, name: `Abs Alt (${settings.units.altitude})`, color: '#c084fc', dot: settings.altitude.showDots, yAxisId: 'left', strokeDasharray: '5 5' },
+      { key: 'pressure' as const, name: 'Pressure (Pa)', color: settings.pressure.color, dot: settings.pressure.showDots, yAxisId: 'right' }
+  ];
   const backdropClass = settings.hardware.graphics === 'cpu' ? 'bg-slate-900' : 'backdrop-blur-md bg-slate-900/50';
   const globalFilter = useMemo(() => {
       const { globalBrightness, globalContrast, globalSaturation, nightVisionMode } = settings.graphics;
@@ -872,12 +1381,9 @@ export const App: React.FC = () => {
                         title={`Altitude (${settings.units.altitude}) & Pressure`}
                         icon={ArrowUp}
                         unit={settings.units.altitude}
+                        markers={flightEventMarkers}
                         yAxisConfig={{ left: settings.altitude, right: settings.pressure }}
-                        lines={[
-                          { key: 'relAltitude', name: `Rel Alt (${settings.units.altitude})`, color: settings.altitude.color, dot: settings.altitude.showDots, yAxisId: 'left' },
-                          { key: 'absAltitude', name: `Abs Alt (${settings.units.altitude})`, color: '#c084fc', dot: settings.altitude.showDots, yAxisId: 'left', strokeDasharray: '5 5' },
-                          { key: 'pressure', name: 'Pressure (Pa)', color: settings.pressure.color, dot: settings.pressure.showDots, yAxisId: 'right' }
-                        ]}
+                        lines={altitudeChartLines}
                       />
                   )}
                   {maximizedId === 'chart-thermal' && (
@@ -905,9 +1411,19 @@ export const App: React.FC = () => {
                         ]}
                       />
                   )}
+                  {maximizedId === 'chart-custom' && (
+                      <TelemetryChart 
+                        {...commonChartProps}
+                        title="Custom Channels"
+                        icon={Hash}
+                        lines={customChartLines}
+                      />
+                  )}
                   {maximizedId === 'widget-attitude' && (
                       <AttitudeCube 
-                        gx={latestData?.gx || 0} gy={latestData?.gy || 0} gz={latestData?.gz || 0} 
+                        gx={viewLatest?.gx || 0} gy={viewLatest?.gy || 0} gz={viewLatest?.gz || 0} 
+                        quaternion={attitudeOf(viewLatest)}
+                        onZeroAttitude={zeroAttitudeAction}
                         hardwareMode={settings.hardware.graphics} 
                         showShadows={settings.graphics.shadowQuality !== 'off'}
                         shadowQuality={settings.graphics.shadowQuality}
@@ -922,8 +1438,12 @@ export const App: React.FC = () => {
                   {maximizedId === 'widget-map' && (
                       <GPSMap 
                         history={dataHistory} 
+                        extraTracks={extraTracks}
                         speedUnit={settings.units.speed} zoomSensitivity={settings.zoomSensitivity}
                         wind={settings.wind} descent={settings.descent} landing={settings.landing} terrain={settings.terrain} 
+                        dispersion={landingDispersion}
+                        groundAlt={groundAlt}
+                        linkBars={linkBars}
                         mapProvider={settings.graphics.mapProvider} localMapPort={settings.graphics.localMapPort}
                         vehicleIcon={settings.graphics.vehicleIcon} 
                         isMaximized={true}
@@ -951,7 +1471,9 @@ export const App: React.FC = () => {
                               ) : (
                                   <FlightPathVisualizer 
                                     history={dataHistory} 
+                                    extraTracks={extraTracks}
                                     prediction={flightPrediction} 
+                                    dispersion={landingDispersion}
                                     settings={settings} 
                                     active={true}
                                     modelConfig={flightPathModelConfig} // AETHER: Pass Persisted Model State
@@ -1033,6 +1555,10 @@ export const App: React.FC = () => {
             onClose={() => setIsSettingsOpen(false)} 
             settings={settings}
             onUpdate={setSettings}
+            csvSuggestion={csvSuggestion}
+            onRequestAutoMap={handleRequestAutoMap}
+            onDismissSuggestion={() => setCsvSuggestion(null)}
+            windEstimate={liveWindEstimate}
           />
           
           <ConfirmModal 
@@ -1055,11 +1581,64 @@ export const App: React.FC = () => {
              onClose={() => setIsAboutOpen(false)}
           />
 
+          <FlightLogModal
+             isOpen={isFlightLogOpen}
+             onClose={() => setIsFlightLogOpen(false)}
+             customChannels={settings.customChannels}
+             flightEventSettings={settings.flightEvents}
+             activeSessionId={isRecording ? recorderRef.current?.sessionId ?? null : null}
+             onToast={addToast}
+             onAnalyze={(meta, packets) => { setIsFlightLogOpen(false); setAnalysisSession({ meta, packets }); }}
+          />
+
+          <CommandConsole
+             isOpen={isConsoleOpen}
+             onClose={() => setIsConsoleOpen(false)}
+             uplink={settings.uplink}
+             checksumMode={settings.checksum.mode}
+             canSend={isPortOpen}
+             entries={uplinkEntries}
+             onSend={handleSendCommand}
+             onClear={() => uplinkRef.current.clear()}
+             onUpdateUplink={uplink => setSettings(prev => ({ ...prev, uplink }))}
+          />
+
+          <PyroPanel
+             isOpen={isPyroOpen}
+             onClose={() => setIsPyroOpen(false)}
+             settings={settings.pyro}
+             customChannels={settings.customChannels}
+             state={pyroState}
+             portOpen={isPortOpen}
+             clock={missionStatus}
+             missionTimeLabel={formatMissionTime(missionTime)}
+             getLastPacketAt={() => lastPacketAtRef.current}
+             link={linkStats}
+             inFlight={pyroInFlight}
+             audit={pyroAudit}
+             onAction={handlePyroAction}
+             onAbort={handlePyroAbort}
+             onUpdate={pyro => setSettings(prev => ({ ...prev, pyro }))}
+             onExportAudit={handleExportPyroAudit}
+             onClearAudit={() => setPyroAudit([])}
+          />
+
+          {analysisSession && (
+             <AnalysisWorkspace
+                session={analysisSession.meta}
+                packets={analysisSession.packets}
+                settings={settings}
+                onClose={() => setAnalysisSession(null)}
+                onToast={addToast}
+                onApplyWindLayers={handleApplyWindLayers}
+             />
+          )}
+
           <input 
              type="file" 
              ref={fileInputRef}
              onChange={handleFileImport}
-             accept=".csv,.txt"
+             accept={`.csv,.txt,.${RAW_CAPTURE_EXTENSION}`}
              className="hidden"
           />
 
@@ -1088,7 +1667,18 @@ export const App: React.FC = () => {
                     </button>
                 </TechTooltip>
                 
-                <SystemStatusBar dataRate={dataHistory.length > 50 ? 50 : 1} mode={settings.hardware.calculation} graphics={settings.hardware.graphics} />
+                <SystemStatusBar dataRate={linkStats ? linkStats.packetRate : 0} mode={settings.hardware.calculation} graphics={settings.hardware.graphics} />
+
+                <LinkHealth stats={linkStats} history={linkHistory} bars={linkBars} />
+
+                <Annunciator
+                    active={activeAlerts}
+                    acknowledged={acknowledgedAlerts}
+                    history={alertHistory}
+                    onAcknowledge={acknowledgeAlerts}
+                    onClearHistory={() => setAlertHistory([])}
+                    onExport={handleExportAlertLog}
+                />
 
                 <div className="hidden lg:flex items-center gap-2">
                     <TechTooltip content="Current Simulation Update Rate">
@@ -1102,6 +1692,16 @@ export const App: React.FC = () => {
                             THR: <span className="text-amber-400 font-bold">{settings.streamThrottle}ms</span>
                         </div>
                     </TechTooltip>
+
+                    {/* AETHER: MAVLink Autopilot State */}
+                    {vehicleState && (
+                        <TechTooltip content={`Autopilot: ${vehicleState.systemStatus}${isHeartbeatLost ? ' (Heartbeat Lost)' : ''}`}>
+                            <div className={`px-2 py-1 bg-slate-900/80 border rounded-sm text-[9px] font-mono text-slate-400 clip-corner-br flex items-center gap-2 ${isHeartbeatLost ? 'border-rose-900/60 opacity-60' : 'border-slate-800'}`}>
+                                <span>MODE: <span className="text-indigo-300 font-bold">{vehicleState.flightMode}</span></span>
+                                <span className={`font-bold ${vehicleState.armed ? 'text-rose-400 animate-pulse' : 'text-emerald-400'}`}>{vehicleState.armed ? 'ARMED' : 'DISARMED'}</span>
+                            </div>
+                        </TechTooltip>
+                    )}
                 </div>
             </div>
 
@@ -1114,16 +1714,49 @@ export const App: React.FC = () => {
                            <Play className="w-3 h-3" /> Seek
                         </div>
                         <TechTooltip content="Scrub Simulation Timeline">
-                            <input 
-                                type="range"
-                                min="0"
-                                max="1"
-                                step="0.001"
-                                value={simProgress}
-                                onChange={(e) => seekSimulation(parseFloat(e.target.value))}
-                                className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer mx-2 accent-cyan-500"
-                            />
+                            <div className="relative w-full mx-2 flex items-center">
+                                {loopRegion && (
+                                    <div className="absolute h-1 bg-amber-500/40 rounded pointer-events-none" style={{ left: `${loopRegion.start * 100}%`, width: `${(loopRegion.end - loopRegion.start) * 100}%` }} />
+                                )}
+                                <input 
+                                    type="range"
+                                    min="0"
+                                    max="1"
+                                    step="0.001"
+                                    value={simProgress}
+                                    onChange={(e) => seekSimulation(parseFloat(e.target.value))}
+                                    className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+                                />
+                            </div>
                         </TechTooltip>
+                        <span className="px-1 text-[9px] font-mono text-slate-400 whitespace-nowrap hidden xl:inline">{formatTime(simProgress * fileDuration, 'ms')}/{formatTime(fileDuration, 'ms')}</span>
+                     </div>
+                     {/* AETHER: Playback transport */}
+                     <div className="flex items-center bg-slate-900 border border-slate-700 rounded-lg p-0.5 gap-0.5">
+                        <TechTooltip content="Step Back One Frame">
+                            <button onClick={() => stepFrame(-1)} className="p-1 text-slate-400 hover:text-white"><SkipBack className="w-3 h-3" /></button>
+                        </TechTooltip>
+                        <TechTooltip content="Step Forward One Frame">
+                            <button onClick={() => stepFrame(1)} className="p-1 text-slate-400 hover:text-white"><SkipForward className="w-3 h-3" /></button>
+                        </TechTooltip>
+                        <TechTooltip content="Playback Speed">
+                            <select value={playbackSpeed} onChange={(e) => setPlaybackSpeed(parseFloat(e.target.value))} className="bg-transparent text-[10px] font-mono text-cyan-300 outline-none cursor-pointer">
+                                {PLAYBACK_SPEEDS.map(speed => <option key={speed} value={speed} className="bg-slate-900">{speed}x</option>)}
+                            </select>
+                        </TechTooltip>
+                        <TechTooltip content={loopRegion ? "Clear Loop Region" : "Set Loop Start (A) at Playhead"}>
+                            <button
+                                onClick={() => loopRegion ? setLoopRegion(null) : setLoopStart(simProgress)}
+                                className={`px-1 text-[10px] font-bold font-mono ${loopRegion ? 'text-amber-400' : loopStart !== null ? 'text-amber-300 animate-pulse' : 'text-slate-400 hover:text-white'}`}
+                            >
+                                {loopRegion ? <Repeat className="w-3 h-3" /> : 'A'}
+                            </button>
+                        </TechTooltip>
+                        {!loopRegion && loopStart !== null && (
+                            <TechTooltip content="Set Loop End (B) at Playhead">
+                                <button onClick={() => { setLoopRegion({ start: Math.min(loopStart, simProgress), end: Math.max(loopStart, simProgress) }); setLoopStart(null); }} className="px-1 text-[10px] font-bold font-mono text-amber-300 hover:text-white">B</button>
+                            </TechTooltip>
+                        )}
                      </div>
                  </div>
                )}
@@ -1220,11 +1853,31 @@ export const App: React.FC = () => {
               <TechTooltip content="Open User Manual">
                 <button onClick={() => setIsHelpOpen(true)} className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded transition-colors"><HelpCircle className="w-5 h-5" /></button>
               </TechTooltip>
+              <TechTooltip content="Browse Stored Flight Logs">
+                <button onClick={() => setIsFlightLogOpen(true)} className="p-2 text-slate-400 hover:text-emerald-400 hover:bg-slate-800 rounded transition-colors"><Database className="w-5 h-5" /></button>
+              </TechTooltip>
+              <TechTooltip content="Uplink Command Console">
+                <button onClick={() => setIsConsoleOpen(true)} className={`relative p-2 hover:bg-slate-800 rounded transition-colors ${hasPendingUplink ? 'text-amber-300' : 'text-slate-400 hover:text-cyan-400'}`}>
+                    <Terminal className="w-5 h-5" />
+                    {hasPendingUplink && <span className="absolute top-1 right-1 w-1.5 h-1.5 rounded-full bg-amber-400 animate-pulse" />}
+                </button>
+              </TechTooltip>
+              <TechTooltip content="Pad Safety: Arming & Pyro Channels">
+                <button onClick={() => setIsPyroOpen(true)} className={`p-2 hover:bg-slate-800 rounded transition-colors ${pyroState.armed ? 'text-rose-400 animate-pulse' : 'text-slate-400 hover:text-rose-400'}`}>
+                    <ShieldAlert className="w-5 h-5" />
+                </button>
+              </TechTooltip>
               <TechTooltip content="Exit Ground Station">
                 <button onClick={handleExit} className="p-2 text-slate-400 hover:text-rose-400 hover:bg-slate-800 rounded transition-colors"><LogOut className="w-5 h-5" /></button>
               </TechTooltip>
 
-              <TechTooltip content={isRecording ? "Stop & Save Recording" : "Start Data Logging to Buffer"}>
+              <TechTooltip content={isRawCapturing ? "Stop Raw Capture & Download" : "Capture Raw Serial Bytes (for re-decoding later)"}>
+                <button onClick={handleToggleRawCapture} disabled={!isRawCapturing && (status !== ConnectionStatus.CONNECTED || isSimulating || isReplaying)} className={`px-3 py-2 rounded-sm text-xs font-bold uppercase transition-all font-mono disabled:opacity-40 disabled:cursor-not-allowed ${isRawCapturing ? 'bg-amber-500/20 border border-amber-500 text-amber-400 animate-pulse' : 'bg-slate-800 hover:bg-slate-700 text-slate-300 border border-slate-700'}`}>
+                    RAW
+                </button>
+              </TechTooltip>
+
+              <TechTooltip content={isRecording ? "Stop & Save Recording" : "Start Data Logging to Flight Log"}>
                 <button onClick={handleToggleRecording} className={`flex items-center gap-2 px-4 py-2 rounded-sm text-xs font-bold uppercase transition-all shadow-lg clip-corner-br ${isRecording ? 'bg-rose-500/20 border border-rose-500 text-rose-400 animate-pulse' : 'bg-slate-800 hover:bg-slate-700 text-slate-200 border border-slate-700'}`}>
                     {isRecording ? <Disc className="w-4 h-4" /> : <Circle className="w-4 h-4" />}
                     {isRecording ? "REC" : "LOG"}
@@ -1276,20 +1929,59 @@ export const App: React.FC = () => {
 
           <main className="flex-1 p-2 lg:p-4 grid grid-cols-1 lg:grid-cols-12 gap-2 lg:gap-4 overflow-hidden min-h-0 relative">
             
+            {/* --- VEHICLE STREAMS --- */}
+            {settings.vehicles.extra.length > 0 && (
+              <div className="col-span-1 lg:col-span-12 flex flex-wrap items-center gap-2 shrink-0" title="Vehicle streams: select which vehicle the charts and stat cards show">
+                <button
+                  onClick={() => setSelectedVehicleId('primary')}
+                  className={`flex items-center gap-1.5 px-2 py-1 rounded-sm border text-[10px] font-mono font-bold uppercase transition-colors ${selectedVehicle ? 'bg-slate-900/60 border-slate-800 text-slate-200 hover:border-slate-600' : 'bg-slate-800 border-slate-500 text-slate-200'}`}
+                >
+                  <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: settings.vehicles.primaryColor }} />
+                  {settings.vehicles.primaryName}
+                  <span className={`w-1.5 h-1.5 rounded-full ${isDataLive ? 'bg-emerald-400' : 'bg-slate-600'}`} />
+                </button>
+                {settings.vehicles.extra.map(v => (
+                  <VehicleStream
+                    key={v.id}
+                    config={v}
+                    isSelected={selectedVehicleId === v.id}
+                    streamThrottle={settings.streamThrottle}
+                    calculationMode={settings.hardware.calculation}
+                    primaryChecksum={settings.checksum}
+                    onSelect={setSelectedVehicleId}
+                    onData={handleVehicleData}
+                  />
+                ))}
+              </div>
+            )}
+
+            {/* --- MISSION TIMELINE --- */}
+            <div className="col-span-1 lg:col-span-12 shrink-0">
+              <FlightTimeline events={flightEvents} phase={flightPhase} altitudeUnit={settings.units.altitude} />
+            </div>
+
             {/* --- TOP ROW STATS --- */}
             <div className="col-span-1 lg:col-span-12 grid grid-cols-2 md:grid-cols-6 lg:grid-cols-12 gap-2 shrink-0 h-auto md:h-20" title="Real-time Telemetry Dashboard Metrics">
               <StatCard label="Mission Time" value={formatMissionTime(missionTime)} unit="" onAcknowledge={handleMissionClick} onDoubleClick={handleMissionReset} isHold={missionStatus === 'hold'} isActive={missionStatus === 'running'} />
-              <StatCard label="Run Time" value={latestData ? formatTime(latestData.runTime, settings.units.timeFormat) : "00:00"} unit="MM:SS" />
-              <StatCard label="H-Speed" value={displayHSpeed.toFixed(2)} unit={settings.units.speed} isHigh={displayHSpeed > settings.thresholds.maxSpeed} isLow={displayHSpeed < settings.thresholds.minSpeed} isActive={!!latestData && isDataLive} onAcknowledge={() => handleAcknowledge('speed')} isMuted={acknowledgedAlerts.has('speed')} />
-              <StatCard label="V-Speed" value={displayVSpeed.toFixed(2)} unit={settings.units.speed} isHigh={displayVSpeed > settings.thresholds.maxVerticalSpeed} isLow={displayVSpeed < settings.thresholds.minVerticalSpeed} isActive={!!latestData && isDataLive} onAcknowledge={() => handleAcknowledge('speed')} isMuted={acknowledgedAlerts.has('speed')} />
-              <StatCard label="Rel Alt" value={currentDisplay?.relAltitude.toFixed(2) || "0.00"} unit={settings.units.altitude} isHigh={(currentDisplay?.relAltitude || 0) > settings.thresholds.maxAltitude} isLow={(currentDisplay?.relAltitude || 0) < settings.thresholds.minAltitude} isActive={!!latestData && isDataLive} onAcknowledge={() => handleAcknowledge('alt')} isMuted={acknowledgedAlerts.has('alt')} />
-              <StatCard label="Abs Alt" value={currentDisplay?.absAltitude.toFixed(2) || "0.00"} unit={settings.units.altitude} isActive={!!latestData && isDataLive} />
-              <StatCard label="Pressure" value={latestData?.pressure.toFixed(0) || "0"} unit="Pa" isHigh={(latestData?.pressure || 0) > settings.thresholds.maxPressure} isLow={(latestData?.pressure || 0) < settings.thresholds.minPressure && (latestData?.pressure || 0) > 0} isActive={!!latestData && isDataLive} onAcknowledge={() => handleAcknowledge('press')} isMuted={acknowledgedAlerts.has('press')} />
-              <StatCard label="Temp" value={currentDisplay?.temperature.toFixed(2) || "0.00"} unit={settings.units.temperature} isHigh={(currentDisplay?.temperature || 0) > settings.thresholds.maxTemperature} isLow={(currentDisplay?.temperature || 0) < settings.thresholds.minTemperature} isActive={!!latestData && isDataLive} onAcknowledge={() => handleAcknowledge('temp')} isMuted={acknowledgedAlerts.has('temp')} />
-              <StatCard label="Thermistor" value={currentDisplay?.thermistorTemp.toFixed(2) || "0.00"} unit={settings.units.temperature} isHigh={(currentDisplay?.thermistorTemp || 0) > settings.thresholds.maxTemperature} isActive={!!latestData && isDataLive} onAcknowledge={() => handleAcknowledge('temp')} isMuted={acknowledgedAlerts.has('temp')} />
-              <StatCard label="Density" value={displayDensity.toFixed(4)} unit={settings.units.density} isHigh={displayDensity > settings.thresholds.maxDensity} isLow={displayDensity < settings.thresholds.minDensity} isActive={!!latestData && isDataLive} />
-              <StatCard label="Max Q" value={dynamicPressureKPa.toFixed(2)} unit="kPa" isHigh={dynamicPressureKPa > settings.thresholds.maxDynamicPressure} isActive={!!latestData && isDataLive} />
-              <StatCard label="G-Force" value={gForceDisplay.toFixed(2)} unit="G" isHigh={gForceDisplay > settings.thresholds.maxGForce} isLow={gForceDisplay < settings.thresholds.minGForce} isActive={!!latestData && isDataLive} />
+              <StatCard label="Run Time" value={viewLatest ? formatTime(viewLatest.runTime, settings.units.timeFormat) : "00:00"} unit="MM:SS" />
+              <StatCard label="H-Speed" value={displayHSpeed.toFixed(2)} unit={settings.units.speed} isHigh={displayHSpeed > settings.thresholds.maxSpeed} isLow={displayHSpeed < settings.thresholds.minSpeed} isActive={!!viewLatest && isDataLive} onAcknowledge={() => handleAcknowledge(['hSpeed'])} isMuted={isAlertMuted(['hSpeed'])} />
+              <StatCard label="V-Speed" value={displayVSpeed.toFixed(2)} unit={settings.units.speed} detail={vSpeedDetail} isHigh={displayVSpeed > settings.thresholds.maxVerticalSpeed} isLow={displayVSpeed < settings.thresholds.minVerticalSpeed} isActive={!!viewLatest && isDataLive} onAcknowledge={() => handleAcknowledge(['vSpeed', 'estVSpeed'])} isMuted={isAlertMuted(['vSpeed', 'estVSpeed'])} />
+              <StatCard label="Rel Alt" value={displayRelAltitude.toFixed(2)} unit={settings.units.altitude} detail={altitudeDetail} isHigh={displayRelAltitude > settings.thresholds.maxAltitude} isLow={displayRelAltitude < settings.thresholds.minAltitude} isActive={!!viewLatest && isDataLive} onAcknowledge={() => handleAcknowledge(['relAltitude', 'estAltitude'])} isMuted={isAlertMuted(['relAltitude', 'estAltitude'])} />
+              <StatCard label="Abs Alt" value={currentDisplay?.absAltitude.toFixed(2) || "0.00"} unit={settings.units.altitude} isActive={!!viewLatest && isDataLive} />
+              <StatCard label="Pressure" value={viewLatest?.pressure.toFixed(0) || "0"} unit="Pa" isHigh={(viewLatest?.pressure || 0) > settings.thresholds.maxPressure} isLow={(viewLatest?.pressure || 0) < settings.thresholds.minPressure && (viewLatest?.pressure || 0) > 0} isActive={!!viewLatest && isDataLive} onAcknowledge={() => handleAcknowledge(['pressure'])} isMuted={isAlertMuted(['pressure'])} />
+              <StatCard label="Temp" value={currentDisplay?.temperature.toFixed(2) || "0.00"} unit={settings.units.temperature} isHigh={(currentDisplay?.temperature || 0) > settings.thresholds.maxTemperature} isLow={(currentDisplay?.temperature || 0) < settings.thresholds.minTemperature} isActive={!!viewLatest && isDataLive} onAcknowledge={() => handleAcknowledge(['temperature'])} isMuted={isAlertMuted(['temperature'])} />
+              <StatCard label="Thermistor" value={currentDisplay?.thermistorTemp.toFixed(2) || "0.00"} unit={settings.units.temperature} isHigh={(currentDisplay?.thermistorTemp || 0) > settings.thresholds.maxTemperature} isActive={!!viewLatest && isDataLive} onAcknowledge={() => handleAcknowledge(['thermistorTemp'])} isMuted={isAlertMuted(['thermistorTemp'])} />
+              <StatCard label="Density" value={displayDensity.toFixed(4)} unit={settings.units.density} isHigh={displayDensity > settings.thresholds.maxDensity} isLow={displayDensity < settings.thresholds.minDensity} isActive={!!viewLatest && isDataLive} onAcknowledge={() => handleAcknowledge(['density'])} isMuted={isAlertMuted(['density'])} />
+              <StatCard label="Max Q" value={dynamicPressureKPa.toFixed(2)} unit="kPa" isHigh={dynamicPressureKPa > settings.thresholds.maxDynamicPressure} isActive={!!viewLatest && isDataLive} onAcknowledge={() => handleAcknowledge(['dynamicPressure'])} isMuted={isAlertMuted(['dynamicPressure'])} />
+              <StatCard label="G-Force" value={gForceDisplay.toFixed(2)} unit="G" isHigh={gForceDisplay > settings.thresholds.maxGForce} isLow={gForceDisplay < settings.thresholds.minGForce} isActive={!!viewLatest && isDataLive} onAcknowledge={() => handleAcknowledge(['gForce'])} isMuted={isAlertMuted(['gForce'])} />
+              {settings.customChannels.filter(ch => ch.showCard && ch.key.trim()).map(ch => {
+                  const value = viewLatest?.channels?.[ch.key];
+                  return (
+                      <StatCard key={ch.key} label={ch.label || ch.key} value={value !== undefined ? value.toFixed(2) : "---"} unit={ch.units}
+                          isHigh={value !== undefined && value > ch.max} isLow={value !== undefined && value < ch.min}
+                          isActive={!!viewLatest && isDataLive} onAcknowledge={() => handleAcknowledge([toChannelField(ch.key)])} isMuted={isAlertMuted([toChannelField(ch.key)])} />
+                  );
+              })}
             </div>
 
             {/* ... Middle Charts (unchanged) ... */}
@@ -1298,16 +1990,13 @@ export const App: React.FC = () => {
                 title={`Altitude (${settings.units.altitude}) & Pressure`}
                 icon={ArrowUp}
                 data={displayHistory}
+                markers={flightEventMarkers}
                 density={settings.density}
                 thresholds={settings.thresholds}
                 unit={settings.units.altitude}
                 yAxisConfig={{ left: settings.altitude, right: settings.pressure }}
                 onMaximize={() => setMaximizedId('chart-altitude')}
-                lines={[
-                  { key: 'relAltitude', name: `Rel Alt (${settings.units.altitude})`, color: settings.altitude.color, dot: settings.altitude.showDots, yAxisId: 'left' },
-                  { key: 'absAltitude', name: `Abs Alt (${settings.units.altitude})`, color: '#c084fc', dot: settings.altitude.showDots, yAxisId: 'left', strokeDasharray: '5 5' },
-                  { key: 'pressure', name: 'Pressure (Pa)', color: settings.pressure.color, dot: settings.pressure.showDots, yAxisId: 'right' }
-                ]}
+                lines={altitudeChartLines}
               />
               <TelemetryChart 
                 title={`Thermal Profile (${settings.units.temperature})`}
@@ -1336,6 +2025,16 @@ export const App: React.FC = () => {
                   { key: 'gz', name: 'GZ', color: '#60a5fa', strokeWidth: 1 }
                 ]}
               />
+              {customChartLines.length > 0 && (
+                <TelemetryChart 
+                  title="Custom Channels"
+                  icon={Hash}
+                  data={displayHistory}
+                  density={settings.density}
+                  onMaximize={() => setMaximizedId('chart-custom')}
+                  lines={customChartLines}
+                />
+              )}
             </div>
 
             {/* --- RIGHT COLUMN WIDGETS --- */}
@@ -1344,9 +2043,11 @@ export const App: React.FC = () => {
               {/* 3D Attitude */}
               <div className="h-48 shrink-0 rounded-lg shadow-xl tech-border overflow-hidden" title="3D Attitude Visualization (Orientation)">
                 <AttitudeCube 
-                    gx={latestData?.gx || 0} 
-                    gy={latestData?.gy || 0} 
-                    gz={latestData?.gz || 0} 
+                    gx={viewLatest?.gx || 0} 
+                    gy={viewLatest?.gy || 0} 
+                    gz={viewLatest?.gz || 0} 
+                    quaternion={attitudeOf(viewLatest)}
+                    onZeroAttitude={zeroAttitudeAction}
                     hardwareMode={settings.hardware.graphics} 
                     showShadows={settings.graphics.shadowQuality !== 'off'}
                     shadowQuality={settings.graphics.shadowQuality}
@@ -1362,12 +2063,16 @@ export const App: React.FC = () => {
               <div className="flex-1 min-h-[200px] flex flex-col tech-border rounded-lg overflow-hidden" title="Live GPS Tracking Map">
                  <GPSMap 
                    history={dataHistory} 
+                   extraTracks={extraTracks}
                    speedUnit={settings.units.speed}
                    zoomSensitivity={settings.zoomSensitivity}
                    wind={settings.wind} 
                    descent={settings.descent} 
                    landing={settings.landing} 
                    terrain={settings.terrain} 
+                   dispersion={landingDispersion}
+                   groundAlt={groundAlt}
+                   linkBars={linkBars}
                    mapProvider={settings.graphics.mapProvider}
                    localMapPort={settings.graphics.localMapPort}
                    vehicleIcon={settings.graphics.vehicleIcon} 
@@ -1414,7 +2119,7 @@ export const App: React.FC = () => {
                          <TechTooltip content="Toggle Auto-Scroll">
                             <button onClick={() => setIsAutoScroll(!isAutoScroll)} className={`p-1 rounded transition-colors ${isAutoScroll ? 'text-emerald-400 bg-emerald-950 border border-emerald-500/30' : 'text-slate-500 hover:text-slate-300 hover:bg-slate-800 border border-transparent'}`}><ArrowDownCircle className="w-3 h-3" /></button>
                          </TechTooltip>
-                         {isRecording && <span className="text-rose-500 animate-pulse text-[9px] font-bold font-mono" title="Recording in progress">● REC {recordingBufferRef.current.length}</span>}
+                         {isRecording && <span className="text-rose-500 animate-pulse text-[9px] font-bold font-mono" title="Recording in progress">● REC {recorderRef.current?.getPacketCount() ?? 0}</span>}
                          <TechTooltip content="Clear Monitor View"><button onClick={handleClearMonitor} className="p-1 hover:bg-slate-700 rounded text-slate-400 hover:text-white transition-colors"><Eraser className="w-3 h-3" /></button></TechTooltip>
                          <TechTooltip content="Copy View to Clipboard"><button onClick={handleCopyToClipboard} className="p-1 hover:bg-slate-700 rounded text-slate-400 hover:text-white transition-colors"><Copy className="w-3 h-3" /></button></TechTooltip>
                          <TechTooltip content="Download Visible Data as CSV"><button onClick={handleSaveMonitorData} className="p-1 hover:bg-slate-700 rounded text-slate-400 hover:text-white transition-colors"><Download className="w-3 h-3" /></button></TechTooltip>
@@ -1432,18 +2137,18 @@ export const App: React.FC = () => {
                         <div ref={serialContainerRef} className="absolute inset-0 overflow-auto custom-scrollbar bg-black/20 scroll-smooth">
                             <div className="sticky top-0 z-10 flex min-w-max border-b border-slate-700/50 bg-slate-900 shadow-md">
                             {monitorColumns.map((field, idx) => (
-                                <div key={`${field}-${idx}`} className="w-24 px-2 py-1 text-[9px] font-bold text-slate-500 uppercase shrink-0 text-right border-r border-slate-700/30 truncate" title={FIELD_LABELS[field] || field}>
-                                    {FIELD_LABELS[field] || field}
+                                <div key={`${field}-${idx}`} className="w-24 px-2 py-1 text-[9px] font-bold text-slate-500 uppercase shrink-0 text-right border-r border-slate-700/30 truncate" title={getFieldLabel(field, settings.customChannels)}>
+                                    {getFieldLabel(field, settings.customChannels)}
                                 </div>
                             ))}
                             </div>
                             <div className="min-w-max">
                                 {serialMonitorData.map((packet, i) => {
-                                    const isMatch = searchTerm && (new RegExp(searchTerm, 'i').test(monitorColumns.map(f => packet[f]).join(" ")));
+                                    const isMatch = searchTerm && (new RegExp(searchTerm, 'i').test(monitorColumns.map(f => getFieldValue(packet, f)).join(" ")));
                                     return (
                                     <div key={packet.id || i} className={`flex border-b border-slate-800/30 transition-colors ${isMatch ? 'bg-indigo-600/60 text-white font-bold animate-pulse' : 'hover:bg-slate-800/50'} ${!searchTerm ? 'new-line-flash' : ''}`}>
                                         {monitorColumns.map((field, idx) => {
-                                        let displayVal = packet[field];
+                                        let displayVal: string | number | undefined = getFieldValue(packet, field);
                                         if (field === 'timeElapsed') displayVal = formatTime(displayVal as number, settings.units.timeFormat);
                                         else if (typeof displayVal === 'number') displayVal = Number.isInteger(displayVal) ? displayVal.toFixed(0) : displayVal.toFixed(2);
                                         
@@ -1470,7 +2175,9 @@ export const App: React.FC = () => {
                     ) : (
                         <FlightPathVisualizer 
                             history={dataHistory}
+                            extraTracks={extraTracks}
                             prediction={flightPrediction}
+                            dispersion={landingDispersion}
                             settings={settings}
                             active={activeBottomView === 'flight'}
                             modelConfig={flightPathModelConfig} // AETHER: Pass Persisted State
@@ -1505,7 +2212,9 @@ export const App: React.FC = () => {
               <div className="h-3 w-px bg-slate-800"></div>
               <span>PKT: {dataHistory.length}</span>
               <span>REC: {isRecording ? "ON" : "OFF"}</span>
-              <span>BUF: {recordingBufferRef.current.length}</span>
+              <span>BUF: {recorderRef.current?.getPacketCount() ?? 0}</span>
+              {isRawCapturing && <span className="text-amber-400">RAW: {(getRawCaptureBytes() / 1024).toFixed(1)} KB</span>}
+              {isReplaying && <span className="text-cyan-400">REPLAY: {(replayProgress * 100).toFixed(0)}%</span>}
             </div>
           </footer>
       </div>
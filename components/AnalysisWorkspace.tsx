@@ -0,0 +1,423 @@
+import React, { useState, useMemo, useRef, useCallback, useEffect } from 'react';
+import { X, Microscope, ArrowUp, Thermometer, Zap, Hash, Wind, Sigma, Flag, Plus, Trash2, Crosshair, Eraser, FileDown, Printer } from 'lucide-react';
+import { TelemetryPacket, AppSettings, CsvField, FlightAnnotation, WindLayer } from '../types';
+import { FlightSessionMeta, saveSessionAnnotations } from '../utils/flightLog';
+import { computeRangeStats, packetAtTime, sessionRange, TimeRange } from '../utils/analysis';
+import { createFlightEventDetector, FLIGHT_EVENT_LABELS } from '../utils/flightEvents';
+import { sharedCompute } from '../utils/compute';
+import { buildFlightReportHtml, printFlightReport, snapshotCanvas, ReportSnapshot } from '../utils/flightReport';
+import { downloadBlob } from '../utils/csvExport';
+import { getFieldLabel, getFieldValue, toChannelField } from '../utils/channels';
+import { estimateWindProfile, windBandsToLayers } from '../utils/windEstimate';
+import { TelemetryChart, ChartMarker } from './TelemetryChart';
+import { GPSMap } from './GPSMap';
+import { FlightPathVisualizer } from './FlightPathVisualizer';
+import { FlightTimeline } from './FlightTimeline';
+import { WindProfile } from './WindProfile';
+
+interface AnalysisWorkspaceProps {
+  session: FlightSessionMeta;
+  packets: TelemetryPacket[];
+  settings: AppSettings;
+  onClose: () => void;
+  onToast: (message: string, type: 'success' | 'error' | 'info') => void;
+  onApplyWindLayers?: (layers: WindLayer[]) => void;
+}
+
+const STAT_FIELDS: CsvField[] = ['relAltitude', 'estAltitude', 'absAltitude', 'vSpeed', 'estVSpeed', 'hSpeed', 'pressure', 'temperature', 'thermistorTemp', 'gx', 'gy', 'gz', 'density'];
+
+const VELOCITY_LINES = [
+  { key: 'vSpeed' as const, name: 'Vertical', color: '#22d3ee' },
+  { key: 'hSpeed' as const, name: 'Horizontal', color: '#f472b6', strokeDasharray: '5 5' }
+];
+
+const FILTERED_VELOCITY_LINES = [
+  ...VELOCITY_LINES,
+  { key: 'estVSpeed' as const, name: 'Vertical (Filtered)', color: '#f8fafc', strokeWidth: 1 }
+];
+
+const GYRO_LINES = [
+  { key: 'gx' as const, name: 'GX', color: '#f87171', strokeWidth: 1 },
+  { key: 'gy' as const, name: 'GY', color: '#4ade80', strokeWidth: 1 },
+  { key: 'gz' as const, name: 'GZ', color: '#60a5fa', strokeWidth: 1 }
+];
+
+const ANNOTATION_COLORS = ['#a78bfa', '#f472b6', '#34d399', '#60a5fa', '#f97316', '#facc15'];
+
+const formatT = (ms: number) => `T+ ${(ms / 1000).toFixed(2)}s`;
+
+const formatStat = (value: number) => Number.isFinite(value) ? value.toFixed(2) : '—';
+
+// AETHER: Post-flight analysis of a stored session. Charts, map and 3D view share one cursor;
+// dragging on any chart selects the range the statistics panel summarises.
+export const AnalysisWorkspace: React.FC<AnalysisWorkspaceProps> = ({ session, packets: recorded, settings, onClose, onToast, onApplyWindLayers }) => {
+  // Sessions recorded without the estimator are filtered on open (off the UI thread), so raw and
+  // filtered can be compared; the raw recording shows until the filtered copy arrives
+  const [filtered, setFiltered] = useState<TelemetryPacket[] | null>(null);
+  useEffect(() => {
+      setFiltered(null);
+      if (!settings.estimator.enabled || recorded.some(p => p.estAltitude !== undefined)) return;
+      let cancelled = false;
+      sharedCompute.run('estimateHistory', { packets: recorded, config: settings.estimator })
+          .then(result => { if (!cancelled) setFiltered(result); })
+          .catch(e => console.error("Estimator failed on recording:", e));
+      return () => { cancelled = true; };
+  }, [recorded, settings.estimator]);
+  const packets = filtered ?? recorded;
+  const hasEstimate = useMemo(() => packets.some(p => p.estAltitude !== undefined), [packets]);
+
+  const fullRange = useMemo(() => sessionRange(packets), [packets]);
+  const [cursorTime, setCursorTime] = useState<number>(fullRange.start);
+  const [selection, setSelection] = useState<TimeRange | null>(null);
+  const [annotations, setAnnotations] = useState<FlightAnnotation[]>(session.annotations ?? []);
+
+  // Hover fires per mouse event on every chart; apply at most one cursor update per frame
+  const pendingCursorRef = useRef<number | null>(null);
+  const cursorFrameRef = useRef(0);
+  const handleCursorChange = useCallback((time: number) => {
+      pendingCursorRef.current = time;
+      if (cursorFrameRef.current) return;
+      cursorFrameRef.current = requestAnimationFrame(() => {
+          cursorFrameRef.current = 0;
+          if (pendingCursorRef.current !== null) setCursorTime(pendingCursorRef.current);
+      });
+  }, []);
+  useEffect(() => () => cancelAnimationFrame(cursorFrameRef.current), []);
+
+  const handleSelectRange = useCallback((start: number, end: number) => setSelection({ start, end }), []);
+
+  const cursorPacket = useMemo(() => packetAtTime(packets, cursorTime), [packets, cursorTime]);
+
+  // --- Chart series (memoised: the charts re-sample whenever `lines` changes identity) ---
+  const altitudeLines = useMemo(() => [
+      { key: 'relAltitude' as const, name: `Rel Alt (${settings.units.altitude})`, color: settings.altitude.color, yAxisId: 'left' },
+      ...(hasEstimate ? [{ key: 'estAltitude' as const, name: 'Filtered Alt', color: '#f8fafc', yAxisId: 'left', strokeWidth: 1 }] : []),
+      { key: 'absAltitude' as const, name: `Abs Alt (${settings.units.altitude})`, color: '#c084fc', yAxisId: 'left', strokeDasharray: '5 5' },
+      { key: 'pressure' as const, name: 'Pressure (Pa)', color: settings.pressure.color, yAxisId: 'right' }
+  ], [settings.units.altitude, settings.altitude.color, settings.pressure.color, hasEstimate]);
+
+  const thermalLines = useMemo(() => [
+      { key: 'temperature' as const, name: `Temp (${settings.units.temperature})`, color: settings.temperature.color },
+      { key: 'thermistorTemp' as const, name: `Thermistor (${settings.units.temperature})`, color: '#ef4444', strokeDasharray: '5 5' }
+  ], [settings.units.temperature, settings.temperature.color]);
+
+  const channelFields = useMemo(() => {
+      const keys = new Set<string>(settings.customChannels.filter(c => c.key.trim()).map(c => c.key));
+      session.channelKeys.forEach(k => keys.add(k));
+      return Array.from(keys).map(toChannelField);
+  }, [settings.customChannels, session.channelKeys]);
+
+  const channelLines = useMemo(() => channelFields.map((field, i) => {
+      const def = settings.customChannels.find(c => toChannelField(c.key) === field);
+      return {
+          key: field,
+          name: getFieldLabel(field, settings.customChannels),
+          color: def?.color || ANNOTATION_COLORS[i % ANNOTATION_COLORS.length],
+          strokeWidth: 1
+      };
+  }), [channelFields, settings.customChannels]);
+
+  const flight = useMemo(() => {
+      const detector = createFlightEventDetector(settings.flightEvents);
+      packets.forEach(p => detector.push(p));
+      return { events: detector.getEvents(), phase: detector.getPhase() };
+  }, [packets, settings.flightEvents]);
+
+  const windBands = useMemo(() => estimateWindProfile(packets, flight.events), [packets, flight.events]);
+
+  const markers = useMemo<ChartMarker[]>(() => [
+      ...flight.events.map(e => ({ time: e.time, label: FLIGHT_EVENT_LABELS[e.type].toUpperCase(), color: '#fbbf24' })),
+      ...(session.alerts ?? []).filter(a => a.type === 'raised').map(a => ({ time: a.packetTime, label: a.name, color: a.severity === 'warning' ? '#f43f5e' : a.severity === 'caution' ? '#f59e0b' : '#22d3ee' })),
+      ...annotations.map(a => ({ time: a.time, label: a.label, color: a.color }))
+  ], [flight.events, session.alerts, annotations]);
+
+  const linkProps = {
+      data: packets,
+      density: 'high' as const,
+      cursorTime,
+      onCursorChange: handleCursorChange,
+      selection,
+      onSelectRange: handleSelectRange,
+      markers
+  };
+
+  // Landing prediction is a live-flight aid; the recorded track is what matters here
+  const mapLanding = useMemo(() => ({ ...settings.landing, showPrediction: false }), [settings.landing]);
+
+  // --- Statistics ---
+  const statFields = useMemo(() => [...STAT_FIELDS, ...channelFields], [channelFields]);
+  const stats = useMemo(() => computeRangeStats(packets, selection ?? fullRange, statFields), [packets, selection, fullRange, statFields]);
+
+  // --- Annotations ---
+  const persistAnnotations = (next: FlightAnnotation[]) => {
+      setAnnotations(next);
+      saveSessionAnnotations(session.id, next).catch(e => onToast(`Could not save annotations: ${e.message}`, 'error'));
+  };
+
+  const addAnnotation = () => {
+      const annotation: FlightAnnotation = {
+          id: `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 6)}`,
+          time: cursorPacket ? cursorPacket.timeElapsed : cursorTime,
+          label: `Event ${annotations.length + 1}`,
+          color: ANNOTATION_COLORS[annotations.length % ANNOTATION_COLORS.length]
+      };
+      persistAnnotations([...annotations, annotation].sort((a, b) => a.time - b.time));
+  };
+
+  const updateAnnotation = (id: string, updates: Partial<FlightAnnotation>) => {
+      persistAnnotations(annotations.map(a => a.id === id ? { ...a, ...updates } : a));
+  };
+
+  const removeAnnotation = (id: string) => persistAnnotations(annotations.filter(a => a.id !== id));
+
+  // --- Report ---
+  // Panels tagged with data-report are captured as they are currently drawn
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  const buildReport = () => {
+      const snapshots: ReportSnapshot[] = [];
+      rootRef.current?.querySelectorAll<HTMLElement>('[data-report]').forEach(panel => {
+          const dataUrl = snapshotCanvas(panel.querySelector('canvas'));
+          if (dataUrl) snapshots.push({ title: panel.dataset.report ?? '', dataUrl });
+      });
+      return buildFlightReportHtml({ session, packets, events: flight.events, annotations, snapshots });
+  };
+
+  const downloadReport = () => {
+      downloadBlob(new Blob([buildReport()], { type: 'text/html;charset=utf-8;' }), `flight_report_${session.vehicle.replace(/\W+/g, '_')}`, 'html');
+      onToast('Flight report saved', 'success');
+  };
+
+  const printReport = () => {
+      if (!printFlightReport(buildReport())) onToast('Allow pop-ups to print the report', 'error');
+  };
+
+  const span = Math.max(1, fullRange.end - fullRange.start);
+
+  return (
+    <div ref={rootRef} className="fixed inset-0 z-[90] bg-slate-950 flex flex-col animate-in fade-in duration-200">
+      {/* HEADER */}
+      <div className="flex items-center justify-between px-4 py-2 border-b border-slate-800 bg-slate-950/80 shrink-0">
+        <div className="flex items-center gap-3">
+          <Microscope className="w-5 h-5 text-emerald-400" />
+          <div>
+            <h2 className="text-sm font-bold text-white font-space uppercase tracking-wider">Flight Analysis</h2>
+            <p className="text-[10px] text-slate-500 font-mono">
+              {session.vehicle} · {new Date(session.startedAt).toLocaleString()} · {packets.length} packets
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3 text-[10px] font-mono">
+          <span className="text-amber-300">{formatT(cursorTime)}</span>
+          {selection && (
+            <button onClick={() => setSelection(null)} className="flex items-center gap-1 px-2 py-1 border border-slate-700 rounded-sm text-slate-400 hover:text-white" title="Clear Selection">
+              <Eraser className="w-3 h-3" /> {formatT(selection.start)} → {formatT(selection.end)}
+            </button>
+          )}
+          <button onClick={downloadReport} className="flex items-center gap-1 px-2 py-1 border border-slate-700 rounded-sm text-emerald-300 hover:border-emerald-500" title="Download HTML Flight Report">
+            <FileDown className="w-3 h-3" /> Report
+          </button>
+          <button onClick={printReport} className="flex items-center gap-1 px-2 py-1 border border-slate-700 rounded-sm text-slate-400 hover:text-white" title="Print Flight Report / Save as PDF">
+            <Printer className="w-3 h-3" /> PDF
+          </button>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors" title="Close Analysis">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="shrink-0 px-3 pt-3">
+        <FlightTimeline events={flight.events} phase={flight.phase} altitudeUnit={settings.units.altitude} onSelect={(e) => setCursorTime(e.time)} />
+      </div>
+
+      <div className="flex-1 min-h-0 grid grid-cols-12 gap-3 p-3">
+        {/* CHARTS */}
+        <div className="col-span-8 flex flex-col gap-3 overflow-y-auto custom-scrollbar pr-1">
+          <div className="h-64 shrink-0 flex" data-report="Altitude & Pressure">
+            <TelemetryChart
+              {...linkProps}
+              title={`Altitude (${settings.units.altitude}) & Pressure`}
+              icon={ArrowUp}
+              unit={settings.units.altitude}
+              thresholds={settings.thresholds}
+              yAxisConfig={{ left: settings.altitude, right: settings.pressure }}
+              lines={altitudeLines}
+            />
+          </div>
+          <div className="h-56 shrink-0 flex" data-report="Velocity">
+            <TelemetryChart
+              {...linkProps}
+              title="Velocity"
+              icon={Wind}
+              lines={hasEstimate ? FILTERED_VELOCITY_LINES : VELOCITY_LINES}
+            />
+          </div>
+          <div className="h-56 shrink-0 flex" data-report="Thermal Profile">
+            <TelemetryChart
+              {...linkProps}
+              title={`Thermal Profile (${settings.units.temperature})`}
+              icon={Thermometer}
+              unit={settings.units.temperature}
+              yAxisConfig={{ left: settings.temperature }}
+              lines={thermalLines}
+            />
+          </div>
+          <div className="h-56 shrink-0 flex" data-report="Gyroscope Rates">
+            <TelemetryChart
+              {...linkProps}
+              title="Gyroscope Rates (deg/s)"
+              icon={Zap}
+              lines={GYRO_LINES}
+            />
+          </div>
+          {channelLines.length > 0 && (
+            <div className="h-56 shrink-0 flex" data-report="Custom Channels">
+              <TelemetryChart {...linkProps} title="Custom Channels" icon={Hash} lines={channelLines} />
+            </div>
+          )}
+        </div>
+
+        {/* MAP / 3D / PANELS */}
+        <div className="col-span-4 flex flex-col gap-3 overflow-y-auto custom-scrollbar pr-1">
+          <div className="h-64 shrink-0 flex flex-col tech-border rounded-lg overflow-hidden" data-report="Ground Track Map">
+            <GPSMap
+              history={packets}
+              cursor={cursorPacket}
+              speedUnit={settings.units.speed}
+              zoomSensitivity={settings.zoomSensitivity}
+              wind={settings.wind}
+              descent={settings.descent}
+              landing={mapLanding}
+              terrain={settings.terrain}
+              mapProvider={settings.graphics.mapProvider}
+              localMapPort={settings.graphics.localMapPort}
+              vehicleIcon={settings.graphics.vehicleIcon}
+            />
+          </div>
+          <div className="h-64 shrink-0 relative tech-border rounded-lg overflow-hidden">
+            <FlightPathVisualizer history={packets} cursor={cursorPacket} prediction={null} settings={settings} active={true} />
+          </div>
+
+          {/* CURSOR READOUT */}
+          <div className="bg-slate-900/20 border border-slate-800 p-4 rounded-sm shrink-0">
+            <h3 className="text-[11px] font-bold text-emerald-400 uppercase flex items-center gap-2 font-tech tracking-wider mb-3">
+              <Crosshair className="w-3.5 h-3.5" /> Cursor · {formatT(cursorTime)}
+            </h3>
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-[10px] font-mono">
+              {cursorPacket && statFields.map(field => {
+                const value = getFieldValue(cursorPacket, field);
+                return (
+                  <div key={field} className="flex justify-between gap-2">
+                    <span className="text-slate-500 truncate">{getFieldLabel(field, settings.customChannels)}</span>
+                    <span className="text-slate-200">{value === undefined ? '—' : formatStat(value)}</span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* RANGE STATISTICS */}
+          <div className="bg-slate-900/20 border border-slate-800 p-4 rounded-sm shrink-0">
+            <h3 className="text-[11px] font-bold text-emerald-400 uppercase flex items-center gap-2 font-tech tracking-wider mb-1">
+              <Sigma className="w-3.5 h-3.5" /> {selection ? 'Selection' : 'Full Session'}
+            </h3>
+            <p className="text-[9px] text-slate-500 font-mono mb-3">
+              {(stats.duration / 1000).toFixed(2)}s · {stats.packetCount} packets {selection ? '' : '· drag on a chart to select a range'}
+            </p>
+            <div className="grid grid-cols-[1.4fr_1fr_1fr_1fr_1fr] gap-x-2 text-[9px] text-slate-600 font-bold uppercase mb-1">
+              <span>Field</span><span className="text-right">Min</span><span className="text-right">Max</span><span className="text-right">Mean</span><span className="text-right">Δ</span>
+            </div>
+            {stats.fields.filter(f => f.samples > 0).map(f => (
+              <div key={f.field} className="grid grid-cols-[1.4fr_1fr_1fr_1fr_1fr] gap-x-2 py-0.5 border-b border-slate-800/50 text-[10px] font-mono text-slate-300">
+                <span className="truncate text-slate-400">{getFieldLabel(f.field, settings.customChannels)}</span>
+                <button onClick={() => setCursorTime(f.minTime)} className="text-right hover:text-amber-300" title={`at ${formatT(f.minTime)}`}>{formatStat(f.min)}</button>
+                <button onClick={() => setCursorTime(f.maxTime)} className="text-right hover:text-amber-300" title={`at ${formatT(f.maxTime)}`}>{formatStat(f.max)}</button>
+                <span className="text-right">{formatStat(f.mean)}</span>
+                <span className={`text-right ${f.delta > 0 ? 'text-emerald-400' : f.delta < 0 ? 'text-rose-400' : ''}`}>{f.delta > 0 ? '+' : ''}{formatStat(f.delta)}</span>
+              </div>
+            ))}
+          </div>
+
+          {/* WIND PROFILE */}
+          <div className="bg-slate-900/20 border border-slate-800 p-4 rounded-sm shrink-0" data-report="Wind Profile">
+            <h3 className="text-[11px] font-bold text-emerald-400 uppercase flex items-center gap-2 font-tech tracking-wider mb-3">
+              <Wind className="w-3.5 h-3.5" /> Wind Profile · Measured vs Configured
+            </h3>
+            <WindProfile
+              bands={windBands}
+              wind={settings.wind}
+              onApply={onApplyWindLayers && windBands.length > 0 ? () => onApplyWindLayers(windBandsToLayers(windBands)) : undefined}
+            />
+          </div>
+
+          {/* ANNOTATIONS */}
+          <div className="bg-slate-900/20 border border-slate-800 p-4 rounded-sm shrink-0">
+            <h3 className="text-[11px] font-bold text-emerald-400 uppercase flex items-center gap-2 font-tech tracking-wider mb-3">
+              <Flag className="w-3.5 h-3.5" /> Events
+            </h3>
+            <div className="space-y-2 mb-3">
+              {annotations.length === 0 && <div className="text-[10px] text-slate-500 font-mono">No events marked. Move the cursor and add one.</div>}
+              {annotations.map(a => (
+                <div key={a.id} className="border border-slate-800 rounded-sm p-2 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <input type="color" value={a.color} onChange={(e) => updateAnnotation(a.id, { color: e.target.value })} className="w-5 h-5 bg-transparent border-none cursor-pointer shrink-0" />
+                    <input
+                      key={`${a.id}-label`}
+                      defaultValue={a.label}
+                      onBlur={(e) => { if (e.target.value.trim() && e.target.value !== a.label) updateAnnotation(a.id, { label: e.target.value.trim() }); }}
+                      className="flex-1 min-w-0 bg-slate-950 border border-slate-800 rounded-sm px-2 py-0.5 text-[10px] text-slate-200 font-mono focus:border-emerald-500 outline-none"
+                    />
+                    <button onClick={() => setCursorTime(a.time)} className="text-[9px] font-mono text-amber-300 hover:text-amber-200 shrink-0" title="Move Cursor Here">{formatT(a.time)}</button>
+                    <button onClick={() => removeAnnotation(a.id)} className="p-1 text-slate-500 hover:text-rose-400 shrink-0" title="Delete Event">
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                  <input
+                    key={`${a.id}-note`}
+                    defaultValue={a.note ?? ''}
+                    placeholder="Note"
+                    onBlur={(e) => { if (e.target.value !== (a.note ?? '')) updateAnnotation(a.id, { note: e.target.value }); }}
+                    className="w-full bg-slate-950 border border-slate-800 rounded-sm px-2 py-0.5 text-[10px] text-slate-400 font-mono focus:border-emerald-500 outline-none"
+                  />
+                </div>
+              ))}
+            </div>
+            <button onClick={addAnnotation} className="w-full py-1.5 bg-slate-900 hover:bg-emerald-900/30 text-emerald-300 border border-slate-800 rounded-sm text-[10px] font-bold uppercase flex items-center justify-center gap-1">
+              <Plus className="w-3 h-3" /> Mark Event at Cursor
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* SCRUBBER */}
+      <div className="shrink-0 px-4 py-2 border-t border-slate-800 bg-slate-950/80 flex items-center gap-3">
+        <span className="text-[10px] font-mono text-slate-500 w-24">{formatT(fullRange.start)}</span>
+        <div className="relative flex-1 h-4 flex items-center">
+          {selection && (
+            <div
+              className="absolute h-1 bg-amber-400/40 rounded-full pointer-events-none"
+              style={{ left: `${((selection.start - fullRange.start) / span) * 100}%`, width: `${((selection.end - selection.start) / span) * 100}%` }}
+            />
+          )}
+          {annotations.map(a => (
+            <div
+              key={a.id}
+              className="absolute w-0.5 h-3 pointer-events-none"
+              style={{ left: `${((a.time - fullRange.start) / span) * 100}%`, backgroundColor: a.color }}
+            />
+          ))}
+          <input
+            type="range"
+            min={fullRange.start}
+            max={fullRange.end}
+            step={1}
+            value={cursorTime}
+            onChange={(e) => setCursorTime(Number(e.target.value))}
+            className="w-full h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-amber-400 relative"
+          />
+        </div>
+        <span className="text-[10px] font-mono text-slate-500 w-24 text-right">{formatT(fullRange.end)}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useState, useMemo } from 'react';
+import { Bell, X, Download, Eraser, Check } from 'lucide-react';
+import { AlertLogEntry, AlertSeverity } from '../types';
+import { ActiveAlert, summarizeAlertLog } from '../utils/alerts';
+import { TechTooltip } from './UIElements';
+
+interface AnnunciatorProps {
+  active: ActiveAlert[];
+  acknowledged: Set<string>;
+  history: AlertLogEntry[];
+  onAcknowledge: (alerts: ActiveAlert[]) => void;
+  onClearHistory: () => void;
+  onExport: () => void;
+}
+
+const SEVERITY_STYLES: Record<AlertSeverity, { lit: string, text: string, dot: string }> = {
+  warning: { lit: 'bg-rose-600 border-rose-400 text-white shadow-[0_0_12px_rgba(244,63,94,0.6)]', text: 'text-rose-300', dot: 'bg-rose-500' },
+  caution: { lit: 'bg-amber-500 border-amber-300 text-slate-950 shadow-[0_0_12px_rgba(245,158,11,0.5)]', text: 'text-amber-300', dot: 'bg-amber-400' },
+  advisory: { lit: 'bg-cyan-600 border-cyan-400 text-white', text: 'text-cyan-300', dot: 'bg-cyan-400' }
+};
+
+const LOG_TYPE_STYLES: Record<AlertLogEntry['type'], string> = {
+  raised: 'text-rose-300',
+  acknowledged: 'text-amber-300',
+  cleared: 'text-emerald-400'
+};
+
+const fmtT = (ms: number) => `T+ ${(ms / 1000).toFixed(1)}s`;
+const fmtValue = (v: number | undefined) => v === undefined ? '—' : Math.abs(v) >= 1000 ? v.toFixed(0) : v.toFixed(2);
+
+// AETHER: Master warning / master caution lights with the alert list behind them. A light flashes
+// while any alert of its level is unacknowledged; pressing it acknowledges them all.
+export const Annunciator: React.FC<AnnunciatorProps> = ({ active, acknowledged, history, onAcknowledge, onClearHistory, onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const summary = useMemo(() => summarizeAlertLog(history, active), [history, active]);
+
+  const renderMaster = (severity: 'warning' | 'caution', label: string) => {
+    const alerts = active.filter(a => a.rule.severity === severity);
+    const unacknowledged = alerts.filter(a => !acknowledged.has(a.rule.id));
+    const style = alerts.length === 0
+      ? 'bg-slate-900/80 border-slate-800 text-slate-600'
+      : `${SEVERITY_STYLES[severity].lit} ${unacknowledged.length > 0 ? 'animate-pulse' : 'opacity-70'}`;
+    return (
+      <TechTooltip content={alerts.length === 0 ? `No active ${severity}s` : unacknowledged.length > 0 ? `${alerts.map(a => a.rule.name).join(', ')} · press to acknowledge` : `${alerts.length} acknowledged`}>
+        <button
+          onClick={() => unacknowledged.length > 0 ? onAcknowledge(unacknowledged) : setIsOpen(true)}
+          className={`px-2 py-1 border rounded-sm text-[9px] font-bold font-tech uppercase tracking-wider leading-tight transition-colors ${style}`}
+        >
+          {label}
+        </button>
+      </TechTooltip>
+    );
+  };
+
+  return (
+    <div className="relative flex items-center gap-1">
+      {renderMaster('warning', 'Master Warn')}
+      {renderMaster('caution', 'Master Caut')}
+      <TechTooltip content="Alerts & History">
+        <button onClick={() => setIsOpen(o => !o)} className={`relative p-1.5 border rounded-sm transition-colors ${isOpen ? 'bg-slate-800 border-slate-600 text-white' : 'bg-slate-900/80 border-slate-800 text-slate-400 hover:text-white'}`}>
+          <Bell className="w-3.5 h-3.5" />
+          {active.length > 0 && <span className="absolute -top-1 -right-1 min-w-[14px] h-[14px] px-0.5 rounded-full bg-rose-600 text-[8px] font-bold text-white flex items-center justify-center">{active.length}</span>}
+        </button>
+      </TechTooltip>
+
+      {isOpen && (
+        <div className="absolute top-full left-0 mt-2 w-[460px] max-h-[70vh] flex flex-col bg-slate-950/95 border border-slate-700 rounded-sm shadow-2xl z-[60] animate-in fade-in slide-in-from-top-2">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-slate-800">
+            <h3 className="text-[11px] font-bold text-rose-400 uppercase flex items-center gap-2 font-tech tracking-wider"><Bell className="w-3.5 h-3.5" /> Annunciator</h3>
+            <div className="flex items-center gap-1">
+              <button onClick={onExport} disabled={history.length === 0} className="flex items-center gap-1 px-2 py-0.5 text-[9px] font-bold uppercase text-slate-400 hover:text-emerald-300 disabled:opacity-40" title="Download the alert history as CSV"><Download className="w-3 h-3" /> CSV</button>
+              <button onClick={onClearHistory} disabled={history.length === 0} className="flex items-center gap-1 px-2 py-0.5 text-[9px] font-bold uppercase text-slate-400 hover:text-rose-300 disabled:opacity-40" title="Clear the alert history"><Eraser className="w-3 h-3" /> Clear</button>
+              <button onClick={() => setIsOpen(false)} className="p-1 text-slate-500 hover:text-white"><X className="w-3.5 h-3.5" /></button>
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-y-auto custom-scrollbar p-3 space-y-4">
+            {/* ACTIVE */}
+            <div>
+              <div className="text-[9px] text-slate-500 font-bold uppercase mb-1">Active</div>
+              {active.length === 0 && <div className="text-[10px] text-slate-600 font-mono">All clear.</div>}
+              <div className="space-y-1">
+                {active.map(a => {
+                  const isAcked = acknowledged.has(a.rule.id);
+                  return (
+                    <div key={a.rule.id} className="flex items-center gap-2 px-2 py-1 border border-slate-800 rounded-sm bg-slate-900/50 text-[10px] font-mono">
+                      <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${SEVERITY_STYLES[a.rule.severity].dot} ${isAcked ? '' : 'animate-pulse'}`} />
+                      <span className={`flex-1 min-w-0 truncate ${SEVERITY_STYLES[a.rule.severity].text}`} title={a.message}>{a.rule.name}</span>
+                      <span className="text-slate-400">{fmtValue(a.value)}</span>
+                      <span className="text-slate-600">pk {fmtValue(a.peak)}</span>
+                      {isAcked
+                        ? <Check className="w-3 h-3 text-slate-500 shrink-0" />
+                        : <button onClick={() => onAcknowledge([a])} className="px-1.5 text-[8px] font-bold uppercase text-amber-300 border border-amber-700/60 rounded-sm hover:bg-amber-900/30 shrink-0">Ack</button>}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* PER-RULE SUMMARY */}
+            {summary.length > 0 && (
+              <div>
+                <div className="grid grid-cols-[1.6fr_36px_1fr_1fr_1fr_36px] gap-x-2 text-[8px] text-slate-500 font-bold uppercase mb-1 px-1">
+                  <span>Rule</span><span className="text-right">Count</span><span className="text-right">First</span><span className="text-right">Last</span><span className="text-right">Peak</span><span className="text-right">Ack</span>
+                </div>
+                {summary.map(s => (
+                  <div key={s.ruleId} className="grid grid-cols-[1.6fr_36px_1fr_1fr_1fr_36px] gap-x-2 px-1 py-0.5 border-b border-slate-800/50 text-[9px] font-mono text-slate-300">
+                    <span className={`truncate ${SEVERITY_STYLES[s.severity].text} ${s.active ? 'font-bold' : ''}`}>{s.name}</span>
+                    <span className="text-right">{s.occurrences}</span>
+                    <span className="text-right">{fmtT(s.firstAt)}</span>
+                    <span className="text-right">{fmtT(s.lastAt)}</span>
+                    <span className="text-right">{fmtValue(s.peak)}</span>
+                    <span className="text-right">{s.acknowledged}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* EVENT LOG */}
+            <div>
+              <div className="text-[9px] text-slate-500 font-bold uppercase mb-1">History</div>
+              {history.length === 0 && <div className="text-[10px] text-slate-600 font-mono">No alerts recorded.</div>}
+              <div className="space-y-0.5">
+                {[...history].reverse().map((e, i) => (
+                  <div key={history.length - i} className="grid grid-cols-[64px_64px_72px_1fr_56px] gap-x-2 text-[9px] font-mono px-1">
+                    <span className="text-slate-500">{new Date(e.time).toLocaleTimeString()}</span>
+                    <span className="text-slate-500">{fmtT(e.packetTime)}</span>
+                    <span className={`uppercase font-bold ${LOG_TYPE_STYLES[e.type]}`}>{e.type}</span>
+                    <span className="truncate text-slate-300" title={e.message}>{e.name}</span>
+                    <span className="text-right text-slate-400">{fmtValue(e.type === 'cleared' ? e.peak : e.value)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,14 +1,17 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Move3d, RefreshCw, Upload, Scaling, Eye, RotateCcw, X, Loader2, AlertCircle, Rotate3d, ArrowRight, Maximize2, Minimize2 } from 'lucide-react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Move3d, RefreshCw, Upload, Scaling, Eye, RotateCcw, X, Loader2, AlertCircle, Rotate3d, ArrowRight, Maximize2, Minimize2, Crosshair } from 'lucide-react';
 import * as THREE from 'three';
 import { STLLoader } from 'three/examples/jsm/loaders/STLLoader';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
 import { HardwareMode, Model3DConfig } from '../types';
+import { Quaternion, toSceneQuaternion } from '../utils/ahrs';
 
 interface AttitudeCubeProps {
   gx: number; // Pitch
   gy: number; // Roll
   gz: number; // Heading
+  quaternion?: Quaternion | null; // AETHER: AHRS attitude; overrides gx/gy/gz when present
+  onZeroAttitude?: () => void;
   vehicleIcon?: string; // AETHER: Added to control pitch offset
   showShadows?: boolean;
   hardwareMode?: HardwareMode;
@@ -31,6 +34,8 @@ export const AttitudeCube: React.FC<AttitudeCubeProps> = ({
   gx, 
   gy, 
   gz, 
+  quaternion,
+  onZeroAttitude,
   vehicleIcon = 'rocket', // Default 
   showShadows = true, 
   hardwareMode = 'hybrid',
@@ -55,6 +60,7 @@ export const AttitudeCube: React.FC<AttitudeCubeProps> = ({
   
   const targetRot = useRef({ x: 0, y: 0, z: 0 });
   const currentRot = useRef({ x: 0, y: 0, z: 0 });
+  const targetQuat = useRef<THREE.Quaternion | null>(null);
 
   const labelDivsRef = useRef<(HTMLDivElement | null)[]>([]);
   const markersRef = useRef<{ [key: string]: THREE.Mesh }>({});
@@ -147,6 +153,24 @@ export const AttitudeCube: React.FC<AttitudeCubeProps> = ({
       };
   }, [gx, gy, gz, vehicleIcon]);
 
+  const qw = quaternion?.[0], qx = quaternion?.[1], qy = quaternion?.[2], qz = quaternion?.[3];
+  const sceneQuat = useMemo(() => qw === undefined
+      ? null
+      : new THREE.Quaternion(...toSceneQuaternion([qw, qx!, qy!, qz!])), [qw, qx, qy, qz]);
+
+  useEffect(() => { targetQuat.current = sceneQuat; }, [sceneQuat]);
+
+  // Readout in the same convention as the raw angle inputs (inverse of the mapping above)
+  const readout = useMemo(() => {
+      if (!sceneQuat) return { pitch: gx, roll: gy, yaw: gz };
+      const e = new THREE.Euler().setFromQuaternion(sceneQuat, 'ZYX');
+      return {
+          pitch: THREE.MathUtils.radToDeg(e.x) + (vehicleIcon === 'rocket' ? 90 : 0),
+          roll: -THREE.MathUtils.radToDeg(e.z),
+          yaw: -THREE.MathUtils.radToDeg(e.y)
+      };
+  }, [sceneQuat, gx, gy, gz, vehicleIcon]);
+
   useEffect(() => {
     if (!containerRef.current) return;
 
@@ -287,7 +311,9 @@ export const AttitudeCube: React.FC<AttitudeCubeProps> = ({
       animationReqRef.current = requestAnimationFrame(animate);
       if (controlsRef.current) controlsRef.current.update();
 
-      if (pivotRef.current) {
+      if (pivotRef.current && targetQuat.current) {
+          pivotRef.current.quaternion.slerp(targetQuat.current, LERP_FACTOR);
+      } else if (pivotRef.current) {
           currentRot.current.x += (targetRot.current.x - currentRot.current.x) * LERP_FACTOR;
           currentRot.current.y += (targetRot.current.y - currentRot.current.y) * LERP_FACTOR;
           currentRot.current.z += (targetRot.current.z - currentRot.current.z) * LERP_FACTOR;
@@ -566,6 +592,7 @@ export const AttitudeCube: React.FC<AttitudeCubeProps> = ({
             <button onClick={() => { setShowResize(!showResize); setShowReorient(false); }} className={`p-1.5 rounded transition-colors border backdrop-blur-sm shadow-lg ${showResize ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-black/60 border-slate-700 text-slate-400 hover:text-white hover:bg-slate-700'}`}><Scaling className="w-3.5 h-3.5" /></button>
             {modelConfig?.isCustom && (<button onClick={() => { setShowReorient(!showReorient); setShowResize(false); }} className={`p-1.5 rounded transition-colors border backdrop-blur-sm shadow-lg ${showReorient ? 'bg-cyan-600 border-cyan-500 text-white' : 'bg-black/60 border-slate-700 text-slate-400 hover:text-white hover:bg-slate-700'}`}><Rotate3d className="w-3.5 h-3.5" /></button>)}
             <button onClick={resetView} className="p-1.5 rounded bg-black/60 hover:bg-slate-700 text-slate-400 hover:text-white transition-colors border border-slate-700 backdrop-blur-sm shadow-lg"><Eye className="w-3.5 h-3.5" /></button>
+            {onZeroAttitude && (<button onClick={onZeroAttitude} className="p-1.5 rounded bg-black/60 hover:bg-amber-900/50 text-slate-400 hover:text-amber-300 transition-colors border border-slate-700 backdrop-blur-sm shadow-lg" title="Zero Attitude on Pad (current pose becomes reference, gyro bias captured)"><Crosshair className="w-3.5 h-3.5" /></button>)}
             {modelConfig?.isCustom && (<button onClick={handleResetToDefault} className="p-1.5 rounded bg-black/60 hover:bg-rose-900/50 text-slate-400 hover:text-rose-400 transition-colors border border-slate-700 backdrop-blur-sm shadow-lg"><RefreshCw className="w-3.5 h-3.5" /></button>)}
         </div>
         {showResize && modelConfig && (
@@ -588,9 +615,9 @@ export const AttitudeCube: React.FC<AttitudeCubeProps> = ({
              </div>
         )}
         <div className="absolute bottom-6 left-3 text-right text-[10px] font-mono text-slate-500 pointer-events-none drop-shadow-md z-10">
-            <div className="flex items-center justify-end gap-2"><span className="w-1.5 h-1.5 rounded-full bg-red-500 shadow-[0_0_5px_rgba(239,68,68,0.5)]"></span><span>PITCH: {gx.toFixed(1)}°</span></div>
-            <div className="flex items-center justify-end gap-2"><span className="w-1.5 h-1.5 rounded-full bg-green-500 shadow-[0_0_5px_rgba(34,197,94,0.5)]"></span><span>ROLL: {gy.toFixed(1)}°</span></div>
-            <div className="flex items-center justify-end gap-2"><span className="w-1.5 h-1.5 rounded-full bg-blue-500 shadow-[0_0_5px_rgba(59,130,246,0.5)]"></span><span>YAW: {gz.toFixed(1)}°</span></div>
+            <div className="flex items-center justify-end gap-2"><span className="w-1.5 h-1.5 rounded-full bg-red-500 shadow-[0_0_5px_rgba(239,68,68,0.5)]"></span><span>PITCH: {readout.pitch.toFixed(1)}°</span></div>
+            <div className="flex items-center justify-end gap-2"><span className="w-1.5 h-1.5 rounded-full bg-green-500 shadow-[0_0_5px_rgba(34,197,94,0.5)]"></span><span>ROLL: {readout.roll.toFixed(1)}°</span></div>
+            <div className="flex items-center justify-end gap-2"><span className="w-1.5 h-1.5 rounded-full bg-blue-500 shadow-[0_0_5px_rgba(59,130,246,0.5)]"></span><span>YAW: {readout.yaw.toFixed(1)}°</span></div>
         </div>
         <div className="absolute bottom-2 left-3 text-[9px] font-mono text-slate-600 pointer-events-none z-10">{modelConfig?.fileName && <span className="text-indigo-400/80">Model: {modelConfig.fileName.length > 12 ? modelConfig.fileName.substring(0,12)+'...' : modelConfig.fileName}</span>}</div>
     </div>
@@ -0,0 +1,247 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { X, Terminal, Send, Save, Trash2, Eraser, Settings } from 'lucide-react';
+import { ChecksumMode, UplinkCommand, UplinkSettings } from '../types';
+import { UplinkEntry, UplinkStatus, templateParams, fillTemplate, frameCommand } from '../utils/uplink';
+
+interface CommandConsoleProps {
+  isOpen: boolean;
+  onClose: () => void;
+  uplink: UplinkSettings;
+  checksumMode: ChecksumMode;
+  canSend: boolean;
+  entries: UplinkEntry[];
+  onSend: (text: string, expectAck: boolean) => void;
+  onClear: () => void;
+  onUpdateUplink: (uplink: UplinkSettings) => void;
+}
+
+const generateId = () => Math.random().toString(36).substring(2, 9);
+
+const STATUS_STYLES: Record<UplinkStatus, string> = {
+  pending: 'text-amber-300 bg-amber-950/40 animate-pulse',
+  acked: 'text-emerald-400 bg-emerald-950/30',
+  nacked: 'text-rose-400 bg-rose-950/40',
+  timeout: 'text-rose-400 bg-rose-950/40',
+  error: 'text-rose-400 bg-rose-950/40',
+  sent: 'text-slate-300 bg-slate-800/60'
+};
+
+const statusLabel = (e: UplinkEntry) => {
+  switch (e.status) {
+    case 'pending': return e.attempts > 1 ? `Retry ${e.attempts - 1}/${e.maxAttempts - 1}` : 'Waiting';
+    case 'acked': return 'Ack';
+    case 'nacked': return 'Nack';
+    case 'timeout': return 'Timeout';
+    case 'error': return 'Error';
+    case 'sent': return 'Sent';
+  }
+};
+
+const inputClass = "bg-slate-950 border border-slate-700 rounded-sm px-2 py-1 text-[10px] font-mono text-white focus:outline-none focus:border-cyan-500";
+
+// AETHER: Uplink console. Commands are typed or picked from the library; {params} in a template get
+// an input each. Every command sent is listed with its attempts and the vehicle's reply.
+export const CommandConsole: React.FC<CommandConsoleProps> = ({ isOpen, onClose, uplink, checksumMode, canSend, entries, onSend, onClear, onUpdateUplink }) => {
+  const [template, setTemplate] = useState('');
+  const [params, setParams] = useState<Record<string, string>>({});
+  const [expectAck, setExpectAck] = useState(true);
+  const [saveName, setSaveName] = useState('');
+  const [showLinkSettings, setShowLinkSettings] = useState(false);
+  const logEndRef = useRef<HTMLDivElement>(null);
+
+  const paramNames = useMemo(() => templateParams(template), [template]);
+  const filled = useMemo(() => {
+    try {
+      return { text: fillTemplate(template, params), error: null };
+    } catch (e: any) {
+      return { text: '', error: e.message as string };
+    }
+  }, [template, params]);
+
+  useEffect(() => { logEndRef.current?.scrollIntoView({ block: 'nearest' }); }, [entries.length]);
+
+  if (!isOpen) return null;
+
+  const selectCommand = (cmd: UplinkCommand) => {
+    setTemplate(cmd.template);
+    setExpectAck(cmd.expectAck);
+    setSaveName(cmd.name);
+  };
+
+  const handleSend = () => {
+    if (!canSend || !filled.text) return;
+    onSend(filled.text, expectAck);
+  };
+
+  // Saving under an existing name replaces that entry
+  const handleSave = () => {
+    const name = saveName.trim();
+    if (!name || !template.trim()) return;
+    const existing = uplink.commands.find(c => c.name.toLowerCase() === name.toLowerCase());
+    const cmd: UplinkCommand = existing
+      ? { ...existing, template: template.trim(), expectAck }
+      : { id: generateId(), name, template: template.trim(), description: '', expectAck };
+    onUpdateUplink({
+      ...uplink,
+      commands: existing ? uplink.commands.map(c => c.id === existing.id ? cmd : c) : [...uplink.commands, cmd]
+    });
+  };
+
+  const handleDelete = (id: string) => onUpdateUplink({ ...uplink, commands: uplink.commands.filter(c => c.id !== id) });
+
+  const updateLink = <K extends keyof UplinkSettings>(key: K, value: UplinkSettings[K]) => onUpdateUplink({ ...uplink, [key]: value });
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/40 backdrop-blur-[2px] p-4 transition-all duration-300">
+      <div className="bg-slate-950/85 backdrop-blur-md border border-slate-800 shadow-2xl w-full max-w-5xl h-[80vh] overflow-hidden flex flex-col clip-corner-tl tech-border animate-in zoom-in-95 duration-200">
+        <div className="flex items-center justify-between p-4 border-b border-slate-800 bg-slate-950/50">
+          <div className="flex items-center gap-3">
+            <Terminal className="w-5 h-5 text-cyan-400" />
+            <div>
+              <h2 className="text-sm font-bold text-white font-space uppercase tracking-wider">Uplink Console</h2>
+              <p className="text-[10px] text-slate-500 font-mono">
+                {canSend ? 'Port open' : 'No serial port connected'} · checksum {checksumMode} · {uplink.timeoutMs} ms × {uplink.retries + 1} attempts
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={() => setShowLinkSettings(v => !v)} className={`p-1.5 transition-colors ${showLinkSettings ? 'text-cyan-300' : 'text-slate-400 hover:text-white'}`} title="Acknowledgement Settings">
+              <Settings className="w-4 h-4" />
+            </button>
+            <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {showLinkSettings && (
+          <div className="grid grid-cols-5 gap-3 px-4 py-3 border-b border-slate-800 bg-slate-900/20">
+            <label className="text-[9px] text-slate-500 font-bold uppercase space-y-1">
+              <span className="block">Ack Keyword</span>
+              <input value={uplink.ackKeyword} onChange={e => updateLink('ackKeyword', e.target.value.trim())} className={`${inputClass} w-full`} />
+            </label>
+            <label className="text-[9px] text-slate-500 font-bold uppercase space-y-1">
+              <span className="block">Nack Keyword</span>
+              <input value={uplink.nackKeyword} onChange={e => updateLink('nackKeyword', e.target.value.trim())} className={`${inputClass} w-full`} />
+            </label>
+            <label className="text-[9px] text-slate-500 font-bold uppercase space-y-1">
+              <span className="block">Timeout (ms)</span>
+              <input type="number" min={100} step={100} value={uplink.timeoutMs} onChange={e => updateLink('timeoutMs', Math.max(100, Number(e.target.value) || 0))} className={`${inputClass} w-full`} />
+            </label>
+            <label className="text-[9px] text-slate-500 font-bold uppercase space-y-1">
+              <span className="block">Retries</span>
+              <input type="number" min={0} max={10} value={uplink.retries} onChange={e => updateLink('retries', Math.min(10, Math.max(0, Math.round(Number(e.target.value) || 0))))} className={`${inputClass} w-full`} />
+            </label>
+            <label className="text-[9px] text-slate-500 font-bold uppercase space-y-1">
+              <span className="block">Line Ending</span>
+              <select value={uplink.lineEnding} onChange={e => updateLink('lineEnding', e.target.value as UplinkSettings['lineEnding'])} className={`${inputClass} w-full`}>
+                <option value="lf">LF (\n)</option>
+                <option value="crlf">CRLF (\r\n)</option>
+              </select>
+            </label>
+            <p className="col-span-5 text-[8px] text-slate-600 italic">
+              The vehicle replies "{uplink.ackKeyword} &lt;COMMAND&gt; [detail]" or "{uplink.nackKeyword} &lt;COMMAND&gt; [reason]" on the downlink. Replies are matched to the oldest waiting command whose keyword and arguments they echo (a bare keyword only when one such command is waiting) and are not parsed as telemetry. Pad safety commands are never retried automatically.
+            </p>
+          </div>
+        )}
+
+        <div className="flex-1 flex min-h-0">
+          {/* LIBRARY */}
+          <div className="w-60 shrink-0 border-r border-slate-800 flex flex-col min-h-0">
+            <div className="px-3 py-2 text-[9px] text-slate-500 font-bold uppercase">Library</div>
+            <div className="flex-1 overflow-y-auto custom-scrollbar px-2 space-y-1">
+              {uplink.commands.length === 0 && <div className="px-1 text-[10px] text-slate-600 font-mono">No saved commands.</div>}
+              {uplink.commands.map(cmd => (
+                <div key={cmd.id} className="group flex items-start gap-1 px-2 py-1.5 border border-slate-800 rounded-sm bg-slate-900/40 hover:border-cyan-700/60 cursor-pointer" onClick={() => selectCommand(cmd)}>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-[10px] font-bold text-slate-200 truncate">{cmd.name}</div>
+                    <div className="text-[9px] font-mono text-cyan-300 truncate">{cmd.template}</div>
+                    {cmd.description && <div className="text-[8px] text-slate-500 truncate">{cmd.description}</div>}
+                  </div>
+                  <button onClick={e => { e.stopPropagation(); handleDelete(cmd.id); }} className="p-0.5 text-slate-600 hover:text-rose-400 opacity-0 group-hover:opacity-100" title="Remove from Library">
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex-1 flex flex-col min-w-0 min-h-0">
+            {/* COMPOSER */}
+            <div className="p-3 border-b border-slate-800 space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  value={template}
+                  onChange={e => setTemplate(e.target.value)}
+                  onKeyDown={e => { if (e.key === 'Enter') handleSend(); }}
+                  placeholder="COMMAND {param}"
+                  className={`${inputClass} flex-1 text-xs py-1.5`}
+                />
+                <label className="flex items-center gap-1 text-[9px] text-slate-400 font-bold uppercase whitespace-nowrap">
+                  <input type="checkbox" checked={expectAck} onChange={e => setExpectAck(e.target.checked)} className="accent-cyan-500" /> Expect Ack
+                </label>
+                <button onClick={handleSend} disabled={!canSend || !filled.text} className="flex items-center gap-1 px-3 py-1.5 bg-cyan-900/40 hover:bg-cyan-800/50 text-cyan-200 border border-cyan-700 rounded-sm text-[10px] font-bold uppercase disabled:opacity-40 disabled:cursor-not-allowed">
+                  <Send className="w-3 h-3" /> Send
+                </button>
+              </div>
+
+              {paramNames.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2">
+                  {paramNames.map(name => (
+                    <label key={name} className="flex items-center gap-1 text-[9px] text-slate-500 font-bold uppercase">
+                      {name}
+                      <input
+                        value={params[name] ?? ''}
+                        onChange={e => setParams(p => ({ ...p, [name]: e.target.value }))}
+                        onKeyDown={e => { if (e.key === 'Enter') handleSend(); }}
+                        className={`${inputClass} w-24`}
+                      />
+                    </label>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex items-center gap-2">
+                <span className="flex-1 min-w-0 truncate text-[9px] font-mono text-slate-500">
+                  {filled.text ? <>Wire: <span className="text-slate-300">{frameCommand(filled.text, checksumMode)}</span></> : filled.error && template.trim() ? filled.error : ''}
+                </span>
+                <input value={saveName} onChange={e => setSaveName(e.target.value)} placeholder="Name" className={`${inputClass} w-32`} />
+                <button onClick={handleSave} disabled={!saveName.trim() || !template.trim()} className="flex items-center gap-1 px-2 py-1 text-[9px] font-bold uppercase text-slate-400 hover:text-cyan-300 border border-slate-700 rounded-sm disabled:opacity-40" title="Save to Library (an existing name is overwritten)">
+                  <Save className="w-3 h-3" /> Save
+                </button>
+              </div>
+            </div>
+
+            {/* LOG */}
+            <div className="flex items-center justify-between px-3 pt-2">
+              <div className="text-[9px] text-slate-500 font-bold uppercase">Sent Commands</div>
+              <button onClick={onClear} disabled={entries.length === 0} className="flex items-center gap-1 px-2 py-0.5 text-[9px] font-bold uppercase text-slate-400 hover:text-rose-300 disabled:opacity-40" title="Clear finished commands">
+                <Eraser className="w-3 h-3" /> Clear
+              </button>
+            </div>
+            <div className="grid grid-cols-[64px_1.4fr_1fr_56px_80px_1fr] gap-2 text-[8px] text-slate-600 font-bold uppercase px-3 py-1">
+              <span>Time</span><span>Command</span><span>Wire</span><span className="text-right">Tries</span><span className="text-center">Status</span><span>Reply</span>
+            </div>
+            <div className="flex-1 overflow-y-auto custom-scrollbar px-3 pb-3">
+              {entries.length === 0 && <div className="py-6 text-center text-[10px] text-slate-600 font-mono">Nothing sent yet.</div>}
+              {entries.map(e => (
+                <div key={e.id} className="grid grid-cols-[64px_1.4fr_1fr_56px_80px_1fr] gap-2 items-center py-1 border-b border-slate-800/50 text-[10px] font-mono">
+                  <span className="text-slate-500">{new Date(e.queuedAt).toLocaleTimeString()}</span>
+                  <span className="text-slate-200 truncate" title={e.text}>{e.text}</span>
+                  <span className="text-slate-500 truncate" title={e.framed}>{e.framed}</span>
+                  <span className="text-right text-slate-400">{e.attempts}/{e.maxAttempts}</span>
+                  <span className={`px-1.5 rounded text-[9px] uppercase font-bold text-center ${STATUS_STYLES[e.status]}`}>{statusLabel(e)}</span>
+                  <span className="text-slate-400 truncate" title={e.reply}>
+                    {e.repliedAt !== undefined && <span className="text-slate-600">{e.repliedAt - e.lastSentAt} ms </span>}
+                    {e.reply}
+                  </span>
+                </div>
+              ))}
+              <div ref={logEndRef} />
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
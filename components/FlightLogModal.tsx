@@ -0,0 +1,173 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, Database, Download, Trash2, RefreshCcw, Loader2, Microscope, Bell } from 'lucide-react';
+import { CustomChannelDef, TelemetryPacket, FlightEventSettings } from '../types';
+import { FlightSessionMeta, listFlightSessions, deleteFlightSession, exportFlightSessionCsv, loadFlightSession } from '../utils/flightLog';
+import { downloadBlob, buildAlertLogCsv } from '../utils/csvExport';
+import { ConfirmModal } from './UIElements';
+
+interface FlightLogModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  customChannels: CustomChannelDef[];
+  flightEventSettings: FlightEventSettings;
+  activeSessionId: string | null;
+  onToast: (message: string, type: 'success' | 'error' | 'info') => void;
+  onAnalyze: (session: FlightSessionMeta, packets: TelemetryPacket[]) => void;
+}
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const m = Math.floor(totalSeconds / 60);
+  const s = totalSeconds % 60;
+  return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+};
+
+const STATUS_STYLES: Record<FlightSessionMeta['status'], string> = {
+  recording: 'text-rose-400 bg-rose-950/40 animate-pulse',
+  complete: 'text-emerald-400 bg-emerald-950/30',
+  recovered: 'text-amber-400 bg-amber-950/30',
+  partial: 'text-rose-400 bg-rose-950/30'
+};
+
+// AETHER: Browser-persisted flight sessions (IndexedDB)
+export const FlightLogModal: React.FC<FlightLogModalProps> = ({ isOpen, onClose, customChannels, flightEventSettings, activeSessionId, onToast, onAnalyze }) => {
+  const [sessions, setSessions] = useState<FlightSessionMeta[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<FlightSessionMeta | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setSessions(await listFlightSessions());
+    } catch (e: any) {
+      onToast(`Flight log unavailable: ${e.message}`, 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [onToast]);
+
+  useEffect(() => { if (isOpen) refresh(); }, [isOpen, refresh]);
+
+  const handleExportAlerts = (session: FlightSessionMeta) => {
+    downloadBlob(new Blob([buildAlertLogCsv(session.alerts ?? [])], { type: 'text/csv;charset=utf-8;' }), `alerts_${session.vehicle.replace(/\W+/g, '_')}`, 'csv');
+  };
+
+  const handleExport = async (session: FlightSessionMeta) => {
+    setBusyId(session.id);
+    try {
+      const blob = await exportFlightSessionCsv(session, customChannels, flightEventSettings);
+      downloadBlob(blob, `flight_${session.vehicle.replace(/\W+/g, '_')}`, 'csv');
+      onToast("CSV Exported Successfully", 'success');
+    } catch (e: any) {
+      onToast(`Export failed: ${e.message}`, 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleAnalyze = async (session: FlightSessionMeta) => {
+    setBusyId(session.id);
+    try {
+      const packets = await loadFlightSession(session.id);
+      if (packets.length === 0) {
+        onToast("Session has no packets to analyze", 'info');
+        return;
+      }
+      onAnalyze(session, packets);
+    } catch (e: any) {
+      onToast(`Could not load session: ${e.message}`, 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    const session = pendingDelete;
+    setPendingDelete(null);
+    try {
+      await deleteFlightSession(session.id);
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+    } catch (e: any) {
+      onToast(`Delete failed: ${e.message}`, 'error');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/40 backdrop-blur-[2px] p-4 transition-all duration-300">
+      <div className="bg-slate-950/85 backdrop-blur-md border border-slate-800 shadow-2xl w-full max-w-3xl max-h-[80vh] overflow-hidden flex flex-col clip-corner-tl tech-border animate-in zoom-in-95 duration-200">
+        <div className="flex items-center justify-between p-4 border-b border-slate-800 bg-slate-950/50">
+          <div className="flex items-center gap-3">
+            <Database className="w-5 h-5 text-emerald-400" />
+            <div>
+              <h2 className="text-sm font-bold text-white font-space uppercase tracking-wider">Flight Logs</h2>
+              <p className="text-[10px] text-slate-500 font-mono">{sessions.length} stored sessions</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={refresh} className="p-1.5 text-slate-400 hover:text-white transition-colors" title="Refresh">
+              <RefreshCcw className="w-4 h-4" />
+            </button>
+            <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4">
+          <div className="grid grid-cols-[1.4fr_1fr_64px_72px_72px_80px_104px] gap-2 text-[9px] text-slate-600 font-bold uppercase mb-2 px-2">
+            <span>Started</span><span>Vehicle</span><span>Duration</span><span>Max Alt</span><span>Packets</span><span>Status</span><span></span>
+          </div>
+          {isLoading && sessions.length === 0 && (
+            <div className="flex items-center justify-center gap-2 py-8 text-xs text-slate-500 font-mono"><Loader2 className="w-4 h-4 animate-spin" /> Loading...</div>
+          )}
+          {!isLoading && sessions.length === 0 && (
+            <div className="py-8 text-center text-xs text-slate-500 font-mono">No recordings yet. Press LOG to start one.</div>
+          )}
+          {sessions.map(session => {
+            const isActive = session.id === activeSessionId;
+            return (
+              <div key={session.id} className="grid grid-cols-[1.4fr_1fr_64px_72px_72px_80px_104px] gap-2 items-center px-2 py-1.5 border-b border-slate-800/50 text-[10px] font-mono text-slate-300 hover:bg-slate-900/40">
+                <span>{new Date(session.startedAt).toLocaleString()}</span>
+                <span className="truncate">{session.vehicle}</span>
+                <span>{formatDuration(session.durationMs)}</span>
+                <span>{session.maxAltitude.toFixed(1)} m</span>
+                <span>{session.packetCount}</span>
+                <span className={`px-1.5 rounded text-[9px] uppercase font-bold text-center ${STATUS_STYLES[isActive ? 'recording' : session.status]}`}>{isActive ? 'recording' : session.status}</span>
+                <span className="flex items-center justify-end gap-1">
+                  <button onClick={() => handleAnalyze(session)} disabled={busyId !== null || isActive} className="p-1 text-slate-400 hover:text-emerald-300 disabled:opacity-40" title="Analyze Session">
+                    <Microscope className="w-3.5 h-3.5" />
+                  </button>
+                  {(session.alerts?.length ?? 0) > 0 && (
+                    <button onClick={() => handleExportAlerts(session)} className="p-1 text-rose-400 hover:text-rose-300" title={`Export Alert Log (${session.alerts!.filter(a => a.type === 'raised').length} raised)`}>
+                      <Bell className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                  <button onClick={() => handleExport(session)} disabled={busyId !== null} className="p-1 text-slate-400 hover:text-emerald-300 disabled:opacity-40" title="Export CSV">
+                    {busyId === session.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Download className="w-3.5 h-3.5" />}
+                  </button>
+                  <button onClick={() => setPendingDelete(session)} disabled={isActive} className="p-1 text-slate-400 hover:text-rose-400 disabled:opacity-40" title="Delete Session">
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <ConfirmModal
+        isOpen={pendingDelete !== null}
+        title="Delete Session?"
+        message={pendingDelete ? `Delete the ${pendingDelete.vehicle} recording from ${new Date(pendingDelete.startedAt).toLocaleString()} (${pendingDelete.packetCount} packets)? This cannot be undone.` : ''}
+        confirmText="Delete"
+        isDestructive
+        onConfirm={handleDelete}
+        onCancel={() => setPendingDelete(null)}
+      />
+    </div>
+  );
+};
@@ -2,8 +2,11 @@ import React, { useRef, useEffect, useState, useMemo } from 'react';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
 import { STLLoader } from 'three/examples/jsm/loaders/STLLoader';
-import { TelemetryPacket, AppSettings, Model3DConfig } from '../types';
+import { TelemetryPacket, AppSettings, Model3DConfig, VehicleTrack } from '../types';
 import { predictLanding, LandingPrediction, getWindAtAltitude } from '../utils/geo';
+import { attitudeOf, toSceneQuaternion } from '../utils/ahrs';
+import { DispersionResult } from '../utils/dispersion';
+import { getElevation, getElevationGrid, isTerrainActive } from '../utils/terrain';
 import { 
   Lock, Unlock, Info, Crosshair, Target, Navigation, 
   Upload, Scaling, Rotate3d, Eye, RefreshCw, X, Loader2, AlertCircle, Wind, Download, ArrowDown
@@ -11,7 +14,10 @@ import {
 
 interface FlightPathProps {
   history: TelemetryPacket[];
+  extraTracks?: VehicleTrack[]; // AETHER: Other vehicles, drawn as coloured overlays
+  cursor?: TelemetryPacket | null; // AETHER: Analysis cursor position
   prediction: LandingPrediction | null;
+  dispersion?: DispersionResult | null; // AETHER: Monte Carlo landing spread
   settings: AppSettings;
   active: boolean; 
   
@@ -21,10 +27,16 @@ interface FlightPathProps {
 }
 
 const MAX_FILE_SIZE = 15 * 1024 * 1024; // 15MB Limit
+const TERRAIN_GRID = 65;            // DEM samples per side of the terrain mesh
+const TERRAIN_MIN_HALF_SIZE = 1000; // m
+const TERRAIN_MARGIN = 500;         // m of terrain kept beyond the farthest fix
 
 export const FlightPathVisualizer: React.FC<FlightPathProps> = ({ 
   history, 
+  extraTracks = [],
+  cursor = null,
   prediction, 
+  dispersion = null,
   settings, 
   active,
   modelConfig,
@@ -44,8 +56,13 @@ export const FlightPathVisualizer: React.FC<FlightPathProps> = ({
   
   const pathLineRef = useRef<THREE.Line | null>(null);
   const predLineRef = useRef<THREE.Line | null>(null);
+  const extraTrackObjectsRef = useRef<Map<string, { line: THREE.Line, marker: THREE.Mesh }>>(new Map());
+  const cursorMarkerRef = useRef<THREE.Mesh | null>(null);
   
   const landingMarkerRef = useRef<THREE.Group | null>(null);
+  const dispersionGroupRef = useRef<THREE.Group | null>(null);
+  const terrainMeshRef = useRef<THREE.Mesh | null>(null);
+  const terrainExtentRef = useRef({ key: '', halfSize: 0, request: 0 });
   const shadowPlaneRef = useRef<THREE.Mesh | null>(null);
   
   const windParticlesRef = useRef<THREE.Points | null>(null);
@@ -149,6 +166,7 @@ export const FlightPathVisualizer: React.FC<FlightPathProps> = ({
     historyLine.frustumCulled = false;
     scene.add(historyLine);
     pathLineRef.current = historyLine;
+    extraTrackObjectsRef.current.clear();
 
     const predGeo = new THREE.BufferGeometry();
     const predPos = new Float32Array(2000 * 3);
@@ -178,6 +196,23 @@ export const FlightPathVisualizer: React.FC<FlightPathProps> = ({
     scene.add(markerGroup);
     landingMarkerRef.current = markerGroup;
 
+    const dispersionGroup = new THREE.Group();
+    scene.add(dispersionGroup);
+    dispersionGroupRef.current = dispersionGroup;
+
+    // Terrain is rebuilt for every new scene
+    terrainMeshRef.current = null;
+    terrainExtentRef.current = { key: '', halfSize: 0, request: terrainExtentRef.current.request + 1 };
+
+    const cursorMarker = new THREE.Mesh(
+        new THREE.SphereGeometry(1.2, 16, 16),
+        new THREE.MeshBasicMaterial({ color: 0xfbbf24, transparent: true, opacity: 0.9, depthTest: false })
+    );
+    cursorMarker.renderOrder = 10;
+    cursorMarker.visible = false;
+    scene.add(cursorMarker);
+    cursorMarkerRef.current = cursorMarker;
+
     const particleCount = settings.graphics.windParticleCount || 1000;
     const particlesGeo = new THREE.BufferGeometry();
     const particlePositions = new Float32Array(particleCount * 3);
@@ -382,10 +417,16 @@ export const FlightPathVisualizer: React.FC<FlightPathProps> = ({
           const headingRad = THREE.MathUtils.degToRad(-headingDeg); 
           const rollRad = THREE.MathUtils.degToRad(-rollDeg); 
           
-          vehicleRef.current.rotation.order = 'YXZ'; 
-          vehicleRef.current.rotation.y = headingRad;
-          vehicleRef.current.rotation.x = pitchRad;
-          vehicleRef.current.rotation.z = rollRad;
+          // AETHER: Prefer the AHRS quaternion when the packet carries one
+          const attitude = attitudeOf(lastPacket);
+          if (attitude) {
+              vehicleRef.current.quaternion.set(...toSceneQuaternion(attitude));
+          } else {
+              vehicleRef.current.rotation.order = 'YXZ'; 
+              vehicleRef.current.rotation.y = headingRad;
+              vehicleRef.current.rotation.x = pitchRad;
+              vehicleRef.current.rotation.z = rollRad;
+          }
 
           // Soft Lock Logic
           if (isLocked && controlsRef.current && cameraRef.current) {
@@ -434,6 +475,202 @@ export const FlightPathVisualizer: React.FC<FlightPathProps> = ({
 
   }, [history, prediction, isLocked, settings.graphics.vehicleIcon]); // Added vehicleIcon to dependency
 
+  useEffect(() => {
+      const marker = cursorMarkerRef.current;
+      if (!marker) return;
+      const hasPosition = cursor !== null && Math.abs(cursor.latitude) > 0.0001 && originRef.current !== null;
+      marker.visible = hasPosition;
+      if (hasPosition) {
+          const local = toLocal(cursor.latitude, cursor.longitude, cursor.relAltitude);
+          marker.position.set(local.x, local.y, local.z);
+      }
+  }, [cursor, history, active]);
+
+  // AETHER: Other vehicles share the primary's local origin (or the first extra fix if the primary has none yet)
+  useEffect(() => {
+      const scene = sceneRef.current;
+      if (!scene) return;
+
+      if (!originRef.current) {
+          for (const track of extraTracks) {
+              const first = track.history.find(p => Math.abs(p.latitude) > 0.0001);
+              if (first) {
+                  originRef.current = { lat: first.latitude, lon: first.longitude };
+                  break;
+              }
+          }
+      }
+      if (!originRef.current) return;
+
+      const objects = extraTrackObjectsRef.current;
+      const liveIds = new Set(extraTracks.map(t => t.id));
+      objects.forEach((obj, id) => {
+          if (liveIds.has(id)) return;
+          scene.remove(obj.line);
+          scene.remove(obj.marker);
+          obj.line.geometry.dispose();
+          (obj.line.material as THREE.Material).dispose();
+          disposeObject(obj.marker);
+          objects.delete(id);
+      });
+
+      extraTracks.forEach(track => {
+          let obj = objects.get(track.id);
+          if (!obj) {
+              const line = new THREE.Line(new THREE.BufferGeometry(), new THREE.LineBasicMaterial({ color: track.color, linewidth: 2 }));
+              line.frustumCulled = false;
+              const marker = new THREE.Mesh(new THREE.SphereGeometry(1.5, 12, 12), new THREE.MeshBasicMaterial({ color: track.color }));
+              scene.add(line);
+              scene.add(marker);
+              obj = { line, marker };
+              objects.set(track.id, obj);
+          }
+          (obj.line.material as THREE.LineBasicMaterial).color.set(track.color);
+          (obj.marker.material as THREE.MeshBasicMaterial).color.set(track.color);
+
+          const points: number[] = [];
+          track.history.forEach(p => {
+              if (Math.abs(p.latitude) <= 0.0001) return;
+              const local = toLocal(p.latitude, p.longitude, p.relAltitude);
+              points.push(local.x, local.y, local.z);
+          });
+          obj.line.geometry.setAttribute('position', new THREE.Float32BufferAttribute(points, 3));
+          obj.line.geometry.computeBoundingSphere();
+          obj.marker.visible = points.length > 0;
+          if (points.length > 0) obj.marker.position.set(points[points.length - 3], points[points.length - 2], points[points.length - 1]);
+      });
+  }, [extraTracks, active]);
+
+  // AETHER: DEM terrain under the track. Heights are relative to the pad, which is the scene's
+  // y = 0, and the mesh grows (with headroom) whenever the track nears its edge.
+  useEffect(() => {
+      const scene = sceneRef.current;
+      const origin = originRef.current;
+      const extent = terrainExtentRef.current;
+      const key = JSON.stringify(settings.terrain);
+
+      if (extent.key !== key || !scene || !origin || !isTerrainActive(settings.terrain)) {
+          if (terrainMeshRef.current) {
+              terrainMeshRef.current.parent?.remove(terrainMeshRef.current);
+              disposeObject(terrainMeshRef.current);
+              terrainMeshRef.current = null;
+          }
+          terrainExtentRef.current = { key, halfSize: 0, request: extent.request + 1 };
+          if (!scene || !origin || !isTerrainActive(settings.terrain)) return;
+      }
+
+      let reach = 0;
+      history.forEach(p => {
+          if (Math.abs(p.latitude) <= 0.0001) return;
+          const local = toLocal(p.latitude, p.longitude, 0);
+          reach = Math.max(reach, Math.abs(local.x), Math.abs(local.z));
+      });
+      const needed = Math.max(TERRAIN_MIN_HALF_SIZE, reach + TERRAIN_MARGIN);
+      if (needed <= terrainExtentRef.current.halfSize) return;
+
+      const halfSize = needed * 1.5;
+      const request = terrainExtentRef.current.request + 1;
+      terrainExtentRef.current = { key, halfSize, request };
+
+      const dLat = halfSize / 111132.92;
+      const dLon = halfSize / (111412.84 * Math.cos(origin.lat * Math.PI / 180));
+      Promise.all([
+          getElevation(origin.lat, origin.lon, settings.terrain),
+          getElevationGrid(origin.lat - dLat, origin.lon - dLon, origin.lat + dLat, origin.lon + dLon, TERRAIN_GRID, settings.terrain)
+      ]).then(([padElevation, grid]) => {
+          if (terrainExtentRef.current.request !== request || sceneRef.current !== scene) return;
+          if (padElevation === null) {
+              // Allow a retry once the DEM becomes reachable
+              terrainExtentRef.current = { key, halfSize: 0, request };
+              return;
+          }
+
+          const positions: number[] = [];
+          const colors: number[] = [];
+          const color = new THREE.Color();
+          const heights = grid.heights.map(h => h === null ? 0 : h - padElevation);
+          const low = Math.min(...heights), high = Math.max(...heights);
+          for (let r = 0; r < grid.size; r++) {
+              const lat = grid.north - (grid.north - grid.south) * r / (grid.size - 1);
+              for (let c = 0; c < grid.size; c++) {
+                  const h = heights[r * grid.size + c];
+                  const local = toLocal(lat, grid.west + (grid.east - grid.west) * c / (grid.size - 1), h);
+                  positions.push(local.x, local.y, local.z);
+                  // Low ground green through to high ground brown
+                  const t = high > low ? (h - low) / (high - low) : 0;
+                  color.setHSL((120 - t * 90) / 360, 0.35, 0.18 + t * 0.12);
+                  colors.push(color.r, color.g, color.b);
+              }
+          }
+          const indices: number[] = [];
+          for (let r = 0; r < grid.size - 1; r++) {
+              for (let c = 0; c < grid.size - 1; c++) {
+                  const a = r * grid.size + c, b = a + 1, d = a + grid.size, e = d + 1;
+                  indices.push(a, d, b, b, d, e);
+              }
+          }
+          const geo = new THREE.BufferGeometry();
+          geo.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+          geo.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+          geo.setIndex(indices);
+          geo.computeVertexNormals();
+          const mesh = new THREE.Mesh(geo, new THREE.MeshStandardMaterial({
+              vertexColors: true, flatShading: true, roughness: 0.95, transparent: true, opacity: 0.85, side: THREE.DoubleSide
+          }));
+
+          if (terrainMeshRef.current) {
+              scene.remove(terrainMeshRef.current);
+              disposeObject(terrainMeshRef.current);
+          }
+          scene.add(mesh);
+          terrainMeshRef.current = mesh;
+      });
+  }, [history, active, settings.terrain]);
+
+  // AETHER: Landing dispersion on the ground plane: sigma ellipses plus the landing-point density
+  useEffect(() => {
+      const group = dispersionGroupRef.current;
+      if (!group) return;
+      while (group.children.length > 0) {
+          const child = group.children[0] as THREE.Line | THREE.Points;
+          group.remove(child);
+          child.geometry.dispose();
+          (child.material as THREE.Material).dispose();
+      }
+      if (!dispersion || !originRef.current || !settings.landing.showPrediction) return;
+
+      dispersion.ellipses.forEach(ellipse => {
+          const points: number[] = [];
+          ellipse.outline.forEach(pt => {
+              const local = toLocal(pt.lat, pt.lon, 0);
+              points.push(local.x, 0.3, local.z);
+          });
+          const geo = new THREE.BufferGeometry();
+          geo.setAttribute('position', new THREE.Float32BufferAttribute(points, 3));
+          const loop = new THREE.LineLoop(geo, new THREE.LineBasicMaterial({ color: 0xf43f5e, transparent: true, opacity: 1 - (ellipse.sigma - 1) * 0.3 }));
+          loop.frustumCulled = false;
+          group.add(loop);
+      });
+
+      const positions: number[] = [];
+      const colors: number[] = [];
+      const color = new THREE.Color();
+      dispersion.heatmap.cells.forEach(cell => {
+          const local = toLocal(cell.lat, cell.lon, 0);
+          positions.push(local.x, 0.25, local.z);
+          color.setHSL((50 - cell.weight * 50) / 360, 0.95, 0.55);
+          colors.push(color.r, color.g, color.b);
+      });
+      const heatGeo = new THREE.BufferGeometry();
+      heatGeo.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+      heatGeo.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+      const heat = new THREE.Points(heatGeo, new THREE.PointsMaterial({
+          size: dispersion.heatmap.cellSize, vertexColors: true, transparent: true, opacity: 0.5, sizeAttenuation: true, depthWrite: false
+      }));
+      heat.frustumCulled = false;
+      group.add(heat);
+  }, [dispersion, active, settings.landing.showPrediction]);
+
   useEffect(() => {
       if (modelConfig?.isCustom) return;
 
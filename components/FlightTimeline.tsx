@@ -0,0 +1,48 @@
+import React from 'react';
+import { Flag } from 'lucide-react';
+import { FlightEvent, FlightPhase } from '../types';
+import { FLIGHT_EVENT_ORDER, FLIGHT_EVENT_LABELS, FLIGHT_PHASE_LABELS } from '../utils/flightEvents';
+
+interface FlightTimelineProps {
+  events: FlightEvent[];
+  phase: FlightPhase;
+  altitudeUnit: 'm' | 'ft';
+  onSelect?: (event: FlightEvent) => void;
+}
+
+// AETHER: Mission timeline strip. One slot per flight event, filled in as the detector confirms it;
+// times are counted from liftoff.
+export const FlightTimeline = React.memo<FlightTimelineProps>(({ events, phase, altitudeUnit, onSelect }) => {
+  const byType = new Map(events.map(e => [e.type, e]));
+  const liftoffTime = byType.get('liftoff')?.time ?? 0;
+  const toUnit = (m: number) => altitudeUnit === 'ft' ? m * 3.28084 : m;
+
+  return (
+    <div className="flex items-center gap-1.5 overflow-x-auto custom-scrollbar" title="Flight events detected from the primary stream">
+      <span className={`flex items-center gap-1.5 px-2 py-1 rounded-sm border text-[10px] font-mono font-bold uppercase shrink-0 ${phase === 'pad' ? 'bg-slate-900/60 border-slate-800 text-slate-400' : 'bg-amber-950/40 border-amber-700/60 text-amber-300'}`}>
+        <Flag className="w-3 h-3" /> {FLIGHT_PHASE_LABELS[phase]}
+      </span>
+      {FLIGHT_EVENT_ORDER.map((type, i) => {
+        const event = byType.get(type);
+        return (
+          <React.Fragment key={type}>
+            {i > 0 && <div className={`w-3 h-px shrink-0 ${event ? 'bg-emerald-700' : 'bg-slate-800'}`} />}
+            <div
+              onClick={event && onSelect ? () => onSelect(event) : undefined}
+              className={`flex items-center gap-1.5 px-2 py-1 rounded-sm border text-[10px] font-mono shrink-0 ${event ? 'bg-emerald-950/30 border-emerald-800/60 text-emerald-300' : 'bg-slate-900/40 border-slate-800 text-slate-600'} ${event && onSelect ? 'cursor-pointer hover:border-emerald-500' : ''}`}
+              title={event ? `${FLIGHT_EVENT_LABELS[type]}: T+ ${(event.time / 1000).toFixed(2)}s, ${event.vSpeed.toFixed(1)} m/s vertical, q ${(event.dynamicPressure / 1000).toFixed(2)} kPa` : `${FLIGHT_EVENT_LABELS[type]}: not detected yet`}
+            >
+              <span className="font-bold uppercase">{FLIGHT_EVENT_LABELS[type]}</span>
+              {event && (
+                <>
+                  <span className="text-slate-400">L+{((event.time - liftoffTime) / 1000).toFixed(1)}s</span>
+                  <span className="text-slate-500">{toUnit(event.altitude).toFixed(0)}{altitudeUnit}</span>
+                </>
+              )}
+            </div>
+          </React.Fragment>
+        );
+      })}
+    </div>
+  );
+});
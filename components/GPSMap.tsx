@@ -1,22 +1,29 @@
 
 import React, { useEffect, useRef, useMemo, useState } from 'react';
-import { TelemetryPacket, WindSettings, DescentSettings, LandingSettings, TerrainSettings, VehicleIconType } from '../types';
+import { TelemetryPacket, WindSettings, DescentSettings, LandingSettings, TerrainSettings, VehicleIconType, VehicleTrack } from '../types';
 import { 
   Map as MapIcon, Compass, Navigation, Lock, Unlock, Layers, Signal, RotateCcw, 
   Tag, Satellite, Home, Activity, Plus, Minus, ChevronUp, ChevronDown, 
   Crosshair, MapPin, MessageSquare, Wind, LocateFixed, X, Cpu, Info, Move, 
   ArrowUp, ArrowDown, Globe, Anchor, Target, Maximize2, Minimize2
 } from 'lucide-react';
-import { calculateDistance, calculateTotalDistance, calculateSmoothedSpeed, predictLanding, LandingPrediction, getWindAtAltitude } from '../utils/geo';
+import { calculateDistance, calculateTotalDistance, calculateSmoothedSpeed, LandingPrediction, getWindAtAltitude } from '../utils/geo';
+import { sharedCompute } from '../utils/compute';
+import { DispersionResult } from '../utils/dispersion';
 
 interface GPSMapProps {
   history: TelemetryPacket[];
+  extraTracks?: VehicleTrack[]; // AETHER: Other vehicles, drawn as coloured overlays
+  cursor?: TelemetryPacket | null; // AETHER: Analysis cursor position
   speedUnit: string;
   zoomSensitivity: number;
   wind: WindSettings;
   descent: DescentSettings;
   landing: LandingSettings;
   terrain: TerrainSettings;
+  dispersion?: DispersionResult | null; // AETHER: Monte Carlo landing spread; replaces the heuristic radius
+  groundAlt?: number; // AETHER: Terrain at the landing area relative to the pad (m)
+  linkBars?: number;  // AETHER: Telemetry link quality, 0-4 bars (utils/linkStats.ts)
   mapProvider: 'local' | 'osm' | 'carto';
   localMapPort?: number;
   vehicleIcon?: VehicleIconType; 
@@ -29,12 +36,17 @@ type MapSource = 'local' | 'osm' | 'carto';
 // AETHER: Wrapped in React.memo to prevent re-renders when unrelated settings (like Voice/Theme) change
 export const GPSMap = React.memo<GPSMapProps>(({ 
   history, 
+  extraTracks = [],
+  cursor = null,
   speedUnit, 
   zoomSensitivity, 
   wind, 
   descent, 
   landing, 
   terrain, 
+  dispersion = null,
+  groundAlt = 0,
+  linkBars = 0,
   mapProvider, 
   localMapPort = 8000,
   vehicleIcon = 'arrow',
@@ -55,7 +67,6 @@ export const GPSMap = React.memo<GPSMapProps>(({
   const [showCoordinates, setShowCoordinates] = useState(true); 
   const [showTooltips, setShowTooltips] = useState(false); 
   
-  const [signalStrength, setSignalStrength] = useState(0); 
   const [heading, setHeading] = useState(0);
   const [isLegendOpen, setIsLegendOpen] = useState(false);
 
@@ -64,6 +75,9 @@ export const GPSMap = React.memo<GPSMapProps>(({
   
   // AETHER: Throttling Ref to limit Physics Calculations
   const lastPredictionTime = useRef<number>(0);
+  const predictionInFlight = useRef(false);
+  const isMounted = useRef(true);
+  useEffect(() => () => { isMounted.current = false; }, []);
 
   // Map Tile Cache
   const tileCache = useRef<Map<string, HTMLImageElement>>(new Map());
@@ -90,6 +104,10 @@ export const GPSMap = React.memo<GPSMapProps>(({
 
   const hasFix = validHistory.length > 0;
 
+  const validExtraTracks = useMemo(() => extraTracks
+      .map(t => ({ ...t, history: t.history.filter(p => Math.abs(p.latitude) > 0.0001 || Math.abs(p.longitude) > 0.0001) }))
+      .filter(t => t.history.length > 0), [extraTracks]);
+
   // Calculate current active wind based on vehicle altitude
   const currentWind = useMemo(() => {
       const currentAlt = validHistory.length > 0 ? validHistory[validHistory.length - 1].relAltitude : 0;
@@ -111,9 +129,12 @@ export const GPSMap = React.memo<GPSMapProps>(({
     } else if (validHistory.length > 0) {
          const first = validHistory[0];
          if (first) return { lat: first.latitude, lon: first.longitude };
+    } else if (validExtraTracks.length > 0) {
+         const last = validExtraTracks[0].history[validExtraTracks[0].history.length - 1];
+         return { lat: last.latitude, lon: last.longitude };
     }
     return { lat: 0, lon: 0 };
-  }, [isLocked, validHistory, manualCenter]);
+  }, [isLocked, validHistory, manualCenter, validExtraTracks]);
 
   // Derived GPS Speed (Smoothed)
   const gpsDerivedSpeed = useMemo(() => {
@@ -140,30 +161,36 @@ export const GPSMap = React.memo<GPSMapProps>(({
       if (prediction !== null && (now - lastPredictionTime.current < landing.predictionInterval)) {
           return;
       }
+      if (predictionInFlight.current) return;
 
       const last = validHistory[validHistory.length - 1];
       if (!last) return; 
       
-      // 3. Execute Physics Engine with Full History
-      const pred = predictLanding(
-          last.latitude, 
-          last.longitude, 
-          last.relAltitude,
-          last.vSpeed, 
-          last.hSpeed, 
-          last.heading,
+      // 3. Execute Physics Engine (UI thread or compute worker, per calculation mode)
+      predictionInFlight.current = true;
+      lastPredictionTime.current = now;
+      sharedCompute.run('predictLanding', {
+          lat: last.latitude, 
+          lon: last.longitude, 
+          alt: last.relAltitude,
+          vSpeed: last.vSpeed, 
+          hSpeed: last.hSpeed, 
+          heading: last.heading,
           descent,
           wind,
           landing, // Pass full landing settings
-          0,
-          last.density, // Pass live air density
-          validHistory  // Pass history for vector calculation
-      );
-      
-      setPrediction(pred);
-      lastPredictionTime.current = now;
-
-  }, [validHistory, wind, descent, landing, hasFix]); 
+          groundAlt,
+          density: last.density, // Pass live air density
+          history: validHistory.slice(-3)  // Last fixes for the ground-track vector
+      }).then(pred => {
+          if (isMounted.current) setPrediction(pred);
+      }).catch(e => {
+          console.error("Landing prediction failed:", e);
+      }).finally(() => {
+          predictionInFlight.current = false;
+      });
+
+  }, [validHistory, wind, descent, landing, hasFix, groundAlt]); 
 
   useEffect(() => {
       if (!isLocked && hasFix && manualCenter.lat === 0 && manualCenter.lon === 0 && validHistory.length > 0) {
@@ -172,17 +199,6 @@ export const GPSMap = React.memo<GPSMapProps>(({
       }
   }, [isLocked, hasFix, validHistory, manualCenter.lat, manualCenter.lon]);
 
-  useEffect(() => {
-    if (!hasFix || isSignalLost) {
-        setSignalStrength(0);
-        return;
-    }
-    const interval = setInterval(() => {
-      setSignalStrength(Math.floor(Math.random() * 2) + 3); 
-    }, 3000);
-    return () => clearInterval(interval);
-  }, [hasFix, isSignalLost]);
-
   useEffect(() => {
     if (validHistory.length === 0) return;
     const lastPacket = validHistory[validHistory.length - 1];
@@ -457,6 +473,41 @@ export const GPSMap = React.memo<GPSMapProps>(({
       }
     }
 
+    // --- LANDING DISPERSION (heat map + 1σ/2σ/3σ ellipses) ---
+    if (dispersion && landing.showPrediction) {
+        ctx.save();
+        const cellPx = Math.max(2, dispersion.heatmap.cellSize / metersPerPixel);
+        dispersion.heatmap.cells.forEach(cell => {
+            const c = toScreen(cell.lat, cell.lon);
+            // Yellow for sparse cells through to red for the densest
+            ctx.fillStyle = `hsla(${50 - cell.weight * 50}, 95%, 55%, ${0.15 + cell.weight * 0.45})`;
+            ctx.fillRect(c.x - cellPx / 2, c.y - cellPx / 2, cellPx, cellPx);
+        });
+
+        dispersion.ellipses.forEach(ellipse => {
+            ctx.beginPath();
+            ellipse.outline.forEach((pt, i) => {
+                const sp = toScreen(pt.lat, pt.lon);
+                if (i === 0) ctx.moveTo(sp.x, sp.y); else ctx.lineTo(sp.x, sp.y);
+            });
+            ctx.closePath();
+            ctx.strokeStyle = '#f43f5e';
+            ctx.globalAlpha = 1 - (ellipse.sigma - 1) * 0.3;
+            ctx.lineWidth = ellipse.sigma === 1 ? 1.5 : 1;
+            ctx.setLineDash(ellipse.sigma === 1 ? [] : ellipse.sigma === 2 ? [6, 4] : [2, 4]);
+            ctx.stroke();
+
+            // Label on the northern-most point of the outline
+            const top = ellipse.outline.reduce((a, b) => b.lat > a.lat ? b : a);
+            const tp = toScreen(top.lat, top.lon);
+            ctx.fillStyle = '#fda4af';
+            ctx.font = 'bold 8px monospace';
+            ctx.textAlign = 'center';
+            ctx.fillText(`${ellipse.sigma}σ`, tp.x, tp.y - 3);
+        });
+        ctx.restore();
+    }
+
     if (prediction && landing.showPrediction && validHistory.length > 0) {
         ctx.beginPath();
         ctx.strokeStyle = '#06b6d4'; 
@@ -476,25 +527,28 @@ export const GPSMap = React.memo<GPSMapProps>(({
             ctx.setLineDash([]); 
 
             const impactPos = toScreen(prediction.lat, prediction.lon);
-            const radiusPx = prediction.confidenceRadius / metersPerPixel;
+            const radiusPx = dispersion ? 12 : prediction.confidenceRadius / metersPerPixel;
 
             ctx.save();
             ctx.translate(impactPos.x, impactPos.y);
 
-            const gradient = ctx.createRadialGradient(0, 0, 0, 0, 0, radiusPx);
-            gradient.addColorStop(0, 'rgba(244, 63, 94, 0.4)'); 
-            gradient.addColorStop(1, 'rgba(244, 63, 94, 0)');   
+            // Heuristic radius only when there is no dispersion cloud to show
+            if (!dispersion) {
+                const gradient = ctx.createRadialGradient(0, 0, 0, 0, 0, radiusPx);
+                gradient.addColorStop(0, 'rgba(244, 63, 94, 0.4)'); 
+                gradient.addColorStop(1, 'rgba(244, 63, 94, 0)');   
             
-            ctx.fillStyle = gradient;
-            ctx.beginPath();
-            ctx.arc(0, 0, radiusPx, 0, Math.PI * 2);
-            ctx.fill();
-
-            ctx.strokeStyle = '#f43f5e';
-            ctx.lineWidth = 1;
-            ctx.beginPath();
-            ctx.arc(0, 0, radiusPx, 0, Math.PI * 2);
-            ctx.stroke();
+                ctx.fillStyle = gradient;
+                ctx.beginPath();
+                ctx.arc(0, 0, radiusPx, 0, Math.PI * 2);
+                ctx.fill();
+
+                ctx.strokeStyle = '#f43f5e';
+                ctx.lineWidth = 1;
+                ctx.beginPath();
+                ctx.arc(0, 0, radiusPx, 0, Math.PI * 2);
+                ctx.stroke();
+            }
 
             drawLandingIcon(ctx, 0, 0, landing.indicatorShape);
             
@@ -507,6 +561,39 @@ export const GPSMap = React.memo<GPSMapProps>(({
         }
     }
 
+    // --- DRAW OTHER VEHICLES ---
+    validExtraTracks.forEach(track => {
+        ctx.save();
+        ctx.strokeStyle = track.color;
+        ctx.lineWidth = 2;
+        ctx.lineJoin = 'round';
+        ctx.lineCap = 'round';
+        ctx.beginPath();
+        track.history.forEach((p, i) => {
+            const pt = toScreen(p.latitude, p.longitude);
+            if (i === 0) ctx.moveTo(pt.x, pt.y);
+            else ctx.lineTo(pt.x, pt.y);
+        });
+        ctx.stroke();
+
+        const last = track.history[track.history.length - 1];
+        const pos = toScreen(last.latitude, last.longitude);
+        ctx.beginPath();
+        ctx.arc(pos.x, pos.y, 5, 0, Math.PI * 2);
+        ctx.fillStyle = track.color;
+        ctx.fill();
+        ctx.strokeStyle = '#0f172a';
+        ctx.lineWidth = 1.5;
+        ctx.stroke();
+
+        ctx.fillStyle = track.color;
+        ctx.font = 'bold 9px monospace';
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(track.name, pos.x + 8, pos.y);
+        ctx.restore();
+    });
+
     // --- DRAW VEHICLE ICON ---
     if (validHistory.length > 0) {
         const lastNode = validHistory[validHistory.length - 1];
@@ -573,6 +660,27 @@ export const GPSMap = React.memo<GPSMapProps>(({
         }
     }
 
+    // --- DRAW ANALYSIS CURSOR ---
+    if (cursor && (Math.abs(cursor.latitude) > 0.0001 || Math.abs(cursor.longitude) > 0.0001)) {
+        const pos = toScreen(cursor.latitude, cursor.longitude);
+        ctx.save();
+        ctx.beginPath();
+        ctx.arc(pos.x, pos.y, 7, 0, Math.PI * 2);
+        ctx.strokeStyle = '#fbbf24';
+        ctx.lineWidth = 2;
+        ctx.stroke();
+        ctx.beginPath();
+        ctx.arc(pos.x, pos.y, 2.5, 0, Math.PI * 2);
+        ctx.fillStyle = '#fbbf24';
+        ctx.fill();
+
+        ctx.font = 'bold 9px monospace';
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(`T+ ${(cursor.timeElapsed / 1000).toFixed(1)}s  ${cursor.relAltitude.toFixed(1)}m`, pos.x + 10, pos.y - 10);
+        ctx.restore();
+    }
+
     if (isHovering && mouseGeo) {
         ctx.save();
         ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
@@ -587,7 +695,7 @@ export const GPSMap = React.memo<GPSMapProps>(({
         ctx.restore();
     }
 
-  }, [validHistory, zoom, center, showMapTiles, showCoordinates, showTooltips, heading, isHovering, mouseGeo, hoveringHome, canvasRef.current?.width, prediction, landing, hasFix, redrawTrigger, mapProvider, isLocked, localMapPort, vehicleIcon, isMaximized]);
+  }, [validHistory, zoom, center, showMapTiles, showCoordinates, showTooltips, heading, isHovering, mouseGeo, hoveringHome, canvasRef.current?.width, prediction, dispersion, landing, hasFix, redrawTrigger, mapProvider, isLocked, localMapPort, vehicleIcon, isMaximized, validExtraTracks, cursor]);
 
   const drawVehicle = (ctx: CanvasRenderingContext2D, type: string) => {
       ctx.fillStyle = '#fff';
@@ -744,19 +852,25 @@ export const GPSMap = React.memo<GPSMapProps>(({
         <div className="flex flex-col items-end gap-2">
           {/* ... Signal Bars ... */}
           <div className="flex gap-1 items-end">
-             <Signal className={`w-3 h-3 ${signalStrength > 0 ? 'text-emerald-400' : 'text-slate-600'}`} />
+             <Signal className={`w-3 h-3 ${linkBars > 0 ? 'text-emerald-400' : 'text-slate-600'}`} />
              <div className="flex gap-[2px] items-end h-3">
-                <div className={`w-1 rounded-sm ${signalStrength >= 1 ? 'h-1.5 bg-emerald-400' : 'h-1.5 bg-slate-700'}`}></div>
-                <div className={`w-1 rounded-sm ${signalStrength >= 2 ? 'h-2 bg-emerald-400' : 'h-2 bg-slate-700'}`}></div>
-                <div className={`w-1 rounded-sm ${signalStrength >= 3 ? 'h-2.5 bg-emerald-400' : 'h-2.5 bg-slate-700'}`}></div>
-                <div className={`w-1 rounded-sm ${signalStrength >= 4 ? 'h-3 bg-emerald-400' : 'h-3 bg-slate-700'}`}></div>
+                <div className={`w-1 rounded-sm ${linkBars >= 1 ? 'h-1.5 bg-emerald-400' : 'h-1.5 bg-slate-700'}`}></div>
+                <div className={`w-1 rounded-sm ${linkBars >= 2 ? 'h-2 bg-emerald-400' : 'h-2 bg-slate-700'}`}></div>
+                <div className={`w-1 rounded-sm ${linkBars >= 3 ? 'h-2.5 bg-emerald-400' : 'h-2.5 bg-slate-700'}`}></div>
+                <div className={`w-1 rounded-sm ${linkBars >= 4 ? 'h-3 bg-emerald-400' : 'h-3 bg-slate-700'}`}></div>
              </div>
           </div>
           <span className="text-[9px] text-slate-400 font-mono mt-0.5 shadow-black drop-shadow-md">{hasFix && !isSignalLost ? 'GPS FIX' : 'NO SIGNAL'}</span>
+          {/* AETHER: Receiver quality from NMEA (when available) */}
+          {history.length > 0 && history[history.length - 1].satellites !== undefined && (
+              <span className="text-[8px] text-slate-500 font-mono shadow-black drop-shadow-md">
+                  SAT {history[history.length - 1].satellites} · HDOP {(history[history.length - 1].hdop ?? 0).toFixed(1)}
+              </span>
+          )}
         </div>
       </div>
       
-      {!hasFix && (
+      {!hasFix && validExtraTracks.length === 0 && (
         <div className="absolute inset-0 z-0 flex flex-col items-center justify-center pointer-events-none">
             <div className="relative">
                <div className="absolute inset-0 bg-cyan-500/20 rounded-full animate-ping"></div>
@@ -895,6 +1009,7 @@ export const GPSMap = React.memo<GPSMapProps>(({
                                 <div className="flex items-center gap-2"><div className="w-0 h-0 border-l-[4px] border-l-transparent border-r-[4px] border-r-transparent border-b-[8px] border-b-white"></div><span>Drone Pos</span></div>
                                 <div className="flex items-center gap-2"><Home className="w-3 h-3 text-emerald-500" /><span>Home Point</span></div>
                                 {prediction && landing.showPrediction && <div className="flex items-center gap-2"><Target className="w-3 h-3 text-rose-500" /><span className="text-rose-400">Impact Zone</span></div>}
+                                {dispersion && landing.showPrediction && <div className="flex items-center gap-2"><div className="w-4 h-2 rounded-full border border-rose-500 bg-gradient-to-r from-yellow-400/40 to-red-500/60"></div><span className="text-rose-400">Dispersion {dispersion.points.length}×</span></div>}
                             </div>
                         )}
                         <button onClick={() => setIsLegendOpen(!isLegendOpen)} className={`flex items-center gap-2 bg-black/60 backdrop-blur border border-slate-700 px-3 py-1.5 ${isLegendOpen ? 'rounded-b-lg border-t-0' : 'rounded-lg'} text-[10px] font-bold text-slate-400 hover:text-white transition-all hover:bg-slate-800 shadow-xl`}>
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Signal, X } from 'lucide-react';
+import { LinkStats } from '../utils/linkStats';
+import { TechTooltip } from './UIElements';
+
+export interface LinkSample {
+  time: number;            // Date.now()
+  packetRate: number;
+  lossPercent: number;
+  rssi?: number;
+}
+
+interface LinkHealthProps {
+  stats: LinkStats | null;
+  history: LinkSample[];
+  bars: number;
+}
+
+const WIDTH = 320;
+const HEIGHT = 110;
+const PAD = { left: 26, right: 26, top: 8, bottom: 12 };
+
+const fmtBytes = (b: number) => b >= 1024 * 1024 ? `${(b / 1024 / 1024).toFixed(1)} MB` : b >= 1024 ? `${(b / 1024).toFixed(1)} kB` : `${Math.round(b)} B`;
+
+const lossColor = (loss: number) => loss < 2 ? 'text-emerald-400' : loss < 10 ? 'text-amber-400' : 'text-rose-400';
+
+// AETHER: Link quality in the header (rate, loss, RSSI), with counters and a rolling chart behind it.
+// Packets/s is drawn against the left axis, loss % (0-100) and RSSI against the right.
+export const LinkHealth = React.memo<LinkHealthProps>(({ stats, history, bars }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const renderChart = () => {
+    if (history.length < 2) return <div className="text-[10px] text-slate-600 font-mono">Collecting samples...</div>;
+    const t0 = history[0].time;
+    const span = Math.max(1, history[history.length - 1].time - t0);
+    const maxRate = Math.max(1, ...history.map(s => s.packetRate)) * 1.1;
+    const x = (t: number) => PAD.left + (t - t0) / span * (WIDTH - PAD.left - PAD.right);
+    const yRate = (r: number) => HEIGHT - PAD.bottom - r / maxRate * (HEIGHT - PAD.top - PAD.bottom);
+    const yPct = (p: number) => HEIGHT - PAD.bottom - Math.min(100, Math.max(0, p)) / 100 * (HEIGHT - PAD.top - PAD.bottom);
+    // dBm from -120 (bottom) to -20 (top)
+    const yRssi = (r: number) => yPct(r + 120);
+    const line = (pick: (s: LinkSample) => number | undefined, y: (v: number) => number) =>
+      history.filter(s => pick(s) !== undefined).map(s => `${x(s.time)},${y(pick(s)!)}`).join(' ');
+    const hasRssi = history.some(s => s.rssi !== undefined);
+
+    return (
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full bg-slate-950/60 border border-slate-800 rounded-sm">
+        <line x1={PAD.left} y1={PAD.top} x2={PAD.left} y2={HEIGHT - PAD.bottom} stroke="#334155" strokeWidth={0.5} />
+        <line x1={WIDTH - PAD.right} y1={PAD.top} x2={WIDTH - PAD.right} y2={HEIGHT - PAD.bottom} stroke="#334155" strokeWidth={0.5} />
+        <line x1={PAD.left} y1={HEIGHT - PAD.bottom} x2={WIDTH - PAD.right} y2={HEIGHT - PAD.bottom} stroke="#334155" strokeWidth={0.5} />
+        <text x={PAD.left - 3} y={PAD.top + 4} textAnchor="end" fontSize={6} fill="#22d3ee" fontFamily="monospace">{maxRate.toFixed(0)}/s</text>
+        <text x={WIDTH - PAD.right + 3} y={PAD.top + 4} fontSize={6} fill="#fb7185" fontFamily="monospace">100%</text>
+        <text x={WIDTH - PAD.right} y={HEIGHT - 3} textAnchor="end" fontSize={6} fill="#64748b" fontFamily="monospace">{(span / 1000).toFixed(0)} s</text>
+        <polyline points={line(s => s.packetRate, yRate)} fill="none" stroke="#22d3ee" strokeWidth={1} />
+        <polyline points={line(s => s.lossPercent, yPct)} fill="none" stroke="#fb7185" strokeWidth={1} />
+        {hasRssi && <polyline points={line(s => s.rssi, yRssi)} fill="none" stroke="#fbbf24" strokeWidth={1} strokeDasharray="3 2" />}
+      </svg>
+    );
+  };
+
+  const stat = (label: string, value: string, className = 'text-slate-200') => (
+    <div className="px-2 py-1 border border-slate-800 rounded-sm bg-slate-900/50">
+      <div className="text-[8px] text-slate-500 font-bold uppercase">{label}</div>
+      <div className={`text-[11px] font-mono font-bold ${className}`}>{value}</div>
+    </div>
+  );
+
+  return (
+    <div className="relative">
+      <TechTooltip content={stats ? `Link: ${stats.packetRate.toFixed(1)} pkt/s · ${stats.lossPercent.toFixed(1)}% loss (${stats.lossSource})` : 'Link statistics need a serial connection'}>
+        <button onClick={() => setIsOpen(o => !o)} className={`flex items-center gap-2 px-2 py-1 border rounded-sm text-[9px] font-mono transition-colors clip-corner-br ${isOpen ? 'bg-slate-800 border-slate-600' : 'bg-slate-900/80 border-slate-800 hover:border-slate-600'}`}>
+          <span className="flex gap-[2px] items-end h-3">
+            {[1, 2, 3, 4].map(n => <span key={n} className={`w-1 rounded-sm ${bars >= n ? 'bg-emerald-400' : 'bg-slate-700'}`} style={{ height: `${4 + n * 2}px` }} />)}
+          </span>
+          {stats ? (
+            <>
+              <span className="text-cyan-400 font-bold">{stats.packetRate.toFixed(1)}<span className="text-slate-500">/s</span></span>
+              <span className={`font-bold ${lossColor(stats.lossPercent)}`}>{stats.lossPercent.toFixed(1)}%</span>
+              {stats.rssi !== undefined && <span className="text-amber-300 hidden 2xl:inline">{stats.rssi.toFixed(0)}dBm</span>}
+            </>
+          ) : <span className="text-slate-500">LINK —</span>}
+        </button>
+      </TechTooltip>
+
+      {isOpen && (
+        <div className="absolute top-full left-0 mt-2 w-[360px] bg-slate-950/95 border border-slate-700 rounded-sm shadow-2xl z-[60] animate-in fade-in slide-in-from-top-2">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-slate-800">
+            <h3 className="text-[11px] font-bold text-cyan-400 uppercase flex items-center gap-2 font-tech tracking-wider"><Signal className="w-3.5 h-3.5" /> Link Health</h3>
+            <button onClick={() => setIsOpen(false)} className="p-1 text-slate-500 hover:text-white"><X className="w-3.5 h-3.5" /></button>
+          </div>
+          <div className="p-3 space-y-3">
+            {!stats && <div className="text-[10px] text-slate-600 font-mono">Connect a serial port (or replay a raw capture) to measure the link.</div>}
+            {stats && (
+              <div className="grid grid-cols-4 gap-1.5">
+                {stat('Packets/s', stats.packetRate.toFixed(1), 'text-cyan-400')}
+                {stat('Bytes/s', fmtBytes(stats.byteRate))}
+                {stat('Loss', `${stats.lossPercent.toFixed(1)}%`, lossColor(stats.lossPercent))}
+                {stat('Lost', `${stats.lost}`, stats.lost > 0 ? 'text-rose-300' : 'text-slate-200')}
+                {stat('Received', `${stats.received}`)}
+                {stat('Checksum Fail', `${stats.checksumFailures}`, stats.checksumFailures > 0 ? 'text-amber-300' : 'text-slate-200')}
+                {stat('Rejected', `${stats.parseRejects}`, stats.parseRejects > 0 ? 'text-amber-300' : 'text-slate-200')}
+                {stat('Time Gaps', stats.lossSource === 'timing' ? `${stats.gaps}` : '—')}
+                {stat('RSSI', stats.rssi !== undefined ? `${stats.rssi.toFixed(0)} dBm` : '—', 'text-amber-300')}
+                {stat('SNR', stats.snr !== undefined ? `${stats.snr.toFixed(1)} dB` : '—', 'text-amber-300')}
+                {stat('Total', fmtBytes(stats.bytes))}
+                {stat('Loss From', stats.lossSource === 'sequence' ? 'Seq #' : 'Timing')}
+              </div>
+            )}
+            {renderChart()}
+            <div className="flex items-center gap-3 text-[8px] font-mono text-slate-500">
+              <span className="flex items-center gap-1"><span className="w-2 h-0.5 bg-cyan-400" /> pkt/s</span>
+              <span className="flex items-center gap-1"><span className="w-2 h-0.5 bg-rose-400" /> loss %</span>
+              <span className="flex items-center gap-1"><span className="w-2 h-0.5 bg-amber-400" /> RSSI (-120…-20 dBm)</span>
+            </div>
+            <p className="text-[8px] text-slate-600 italic">Loss counts skipped sequence numbers when the stream has a seq channel (or MAVLink frames), otherwise gaps in time elapsed. The "Link Degraded" alert rule watches the loss.</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,382 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, ShieldAlert, ShieldCheck, Flame, Settings, Download, Eraser, Plus, Trash2, Lock, Unlock } from 'lucide-react';
+import { PyroSettings, PyroChannel, PyroAuditEntry, CustomChannelDef, MissionClockState } from '../types';
+import { PyroAction, PyroState, PyroLinkQuality, pyroBlockers, linkBlockers, pyroCommandOf, MISSION_CLOCK_LABELS } from '../utils/pyro';
+import { UplinkEntry } from '../utils/uplink';
+import { ConfirmModal, TechTooltip } from './UIElements';
+
+interface PyroPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: PyroSettings;
+  customChannels: CustomChannelDef[];
+  state: PyroState;
+  portOpen: boolean;
+  clock: MissionClockState;
+  missionTimeLabel: string;
+  getLastPacketAt: () => number;
+  link: PyroLinkQuality | null;
+  inFlight: Record<string, UplinkEntry>;   // Outstanding command by target ('System' or channel id)
+  audit: PyroAuditEntry[];
+  onAction: (action: PyroAction, channel?: PyroChannel) => void;
+  onAbort: (action: PyroAction, channel: PyroChannel | undefined, stage: string) => void;
+  onUpdate: (pyro: PyroSettings) => void;
+  onExportAudit: () => void;
+  onClearAudit: () => void;
+}
+
+const generateId = () => Math.random().toString(36).substring(2, 9);
+
+const CLOCK_STATES: MissionClockState[] = ['reset', 'running', 'hold'];
+
+const AUDIT_STYLES: Record<PyroAuditEntry['action'], string> = {
+  arm: 'text-amber-300',
+  disarm: 'text-emerald-300',
+  fire: 'text-rose-400',
+  blocked: 'text-slate-400',
+  cancelled: 'text-slate-400',
+  acked: 'text-emerald-400',
+  nacked: 'text-rose-400',
+  timeout: 'text-rose-400',
+  error: 'text-rose-400'
+};
+
+const flagLabel = (flag: boolean | null, on: string, off: string) => flag === null ? '—' : flag ? on : off;
+
+const inputClass = "bg-slate-950 border border-slate-700 rounded-sm px-2 py-1 text-[10px] font-mono text-white focus:outline-none focus:border-rose-500";
+
+// AETHER: Pad safety panel. Fire commands take two steps: a confirmation dialog, then holding the
+// fire button down for holdToFireMs. Interlocks are re-checked by the station when the command goes out.
+export const PyroPanel: React.FC<PyroPanelProps> = ({
+  isOpen, onClose, settings, customChannels, state, portOpen, clock, missionTimeLabel, getLastPacketAt, link,
+  inFlight, audit, onAction, onAbort, onUpdate, onExportAudit, onClearAudit
+}) => {
+  const [now, setNow] = useState(Date.now());
+  const [confirming, setConfirming] = useState<{ action: PyroAction, channel?: PyroChannel } | null>(null);
+  const [holdChannel, setHoldChannel] = useState<PyroChannel | null>(null);
+  const [holdProgress, setHoldProgress] = useState(0);
+  const [showConfig, setShowConfig] = useState(false);
+  const [isClearOpen, setIsClearOpen] = useState(false);
+  const holdTimerRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(timer);
+  }, [isOpen]);
+
+  useEffect(() => () => { if (holdTimerRef.current) clearInterval(holdTimerRef.current); }, []);
+
+  if (!isOpen) return null;
+
+  const lastPacketAt = getLastPacketAt();
+  const gate = { portOpen, packetAge: lastPacketAt > 0 ? now - lastPacketAt : Infinity, link, clock, armed: state.armed };
+  const blockersOf = (action: PyroAction) => pyroBlockers(action, gate, settings);
+  const linkIssues = linkBlockers(gate, settings);
+  const linkHealthy = portOpen && linkIssues.length === 0;
+
+  const stopHold = () => {
+    if (holdTimerRef.current) clearInterval(holdTimerRef.current);
+    holdTimerRef.current = null;
+  };
+
+  const startHold = () => {
+    if (!holdChannel || holdTimerRef.current) return;
+    const started = Date.now();
+    holdTimerRef.current = window.setInterval(() => {
+      const progress = Math.min(1, (Date.now() - started) / settings.holdToFireMs);
+      setHoldProgress(progress);
+      if (progress >= 1) {
+        stopHold();
+        onAction('fire', holdChannel);
+        setHoldChannel(null);
+        setHoldProgress(0);
+      }
+    }, 30);
+  };
+
+  const releaseHold = () => {
+    if (!holdTimerRef.current || !holdChannel) return;
+    stopHold();
+    setHoldProgress(0);
+    onAbort('fire', holdChannel, 'released before hold completed');
+  };
+
+  const cancelHold = () => {
+    stopHold();
+    if (holdChannel) onAbort('fire', holdChannel, 'hold-to-fire dismissed');
+    setHoldChannel(null);
+    setHoldProgress(0);
+  };
+
+  const handleConfirm = () => {
+    if (!confirming) return;
+    if (confirming.action === 'fire') {
+      setHoldChannel(confirming.channel ?? null);
+    } else {
+      onAction(confirming.action);
+    }
+    setConfirming(null);
+  };
+
+  const handleConfirmCancel = () => {
+    if (confirming) onAbort(confirming.action, confirming.channel, 'confirmation cancelled');
+    setConfirming(null);
+  };
+
+  const confirmMessage = () => {
+    if (!confirming) return '';
+    const command = pyroCommandOf(confirming.action, settings, confirming.channel);
+    if (confirming.action === 'arm') return `Send "${command}" to arm the recovery electronics? Pyro channels become live on the vehicle.`;
+    const ch = confirming.channel!;
+    const continuity = state.continuity[ch.id];
+    return `Fire ${ch.name} ("${command}")? Continuity: ${flagLabel(continuity, 'OK', 'OPEN')}. After confirming, hold the fire button for ${(settings.holdToFireMs / 1000).toFixed(1)} s to send.`;
+  };
+
+  const update = <K extends keyof PyroSettings>(key: K, value: PyroSettings[K]) => onUpdate({ ...settings, [key]: value });
+  const updateChannel = (id: string, patch: Partial<PyroChannel>) => update('channels', settings.channels.map(c => c.id === id ? { ...c, ...patch } : c));
+
+  const renderInFlight = (target: string) => {
+    const entry = inFlight[target];
+    if (!entry) return null;
+    return <span className="text-[8px] font-bold uppercase text-amber-300 animate-pulse">Waiting Ack</span>;
+  };
+
+  const channelSelect = (value: string, onChange: (key: string) => void, emptyLabel: string) => (
+    <select value={value} onChange={e => onChange(e.target.value)} className={`${inputClass} w-full`}>
+      <option value="">{emptyLabel}</option>
+      {customChannels.map(c => <option key={c.key} value={c.key}>{c.label} ({c.key})</option>)}
+    </select>
+  );
+
+  const armBlockers = blockersOf('arm');
+  const fireBlockers = blockersOf('fire');
+  const disarmBlockers = blockersOf('disarm');
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/40 backdrop-blur-[2px] p-4 transition-all duration-300">
+      <div className="relative bg-slate-950/85 backdrop-blur-md border border-rose-900/60 shadow-2xl w-full max-w-4xl max-h-[85vh] overflow-hidden flex flex-col clip-corner-tl tech-border animate-in zoom-in-95 duration-200">
+        <div className="flex items-center justify-between p-4 border-b border-slate-800 bg-slate-950/50">
+          <div className="flex items-center gap-3">
+            <ShieldAlert className="w-5 h-5 text-rose-400" />
+            <div>
+              <h2 className="text-sm font-bold text-white font-space uppercase tracking-wider">Pad Safety</h2>
+              <p className="text-[10px] text-slate-500 font-mono">Arming and pyro channel control · every action is audited</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={() => setShowConfig(v => !v)} className={`p-1.5 transition-colors ${showConfig ? 'text-rose-300' : 'text-slate-400 hover:text-white'}`} title="Safety Configuration">
+              <Settings className="w-4 h-4" />
+            </button>
+            <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4">
+          {/* CONFIGURATION */}
+          {showConfig && (
+            <div className="bg-slate-900/20 border border-slate-800 p-4 rounded-sm space-y-3">
+              <div className="grid grid-cols-5 gap-3">
+                <label className="text-[9px] text-slate-500 font-bold uppercase space-y-1">
+                  <span className="block">Arm Command</span>
+                  <input value={settings.armCommand} onChange={e => update('armCommand', e.target.value)} className={`${inputClass} w-full`} />
+                </label>
+                <label className="text-[9px] text-slate-500 font-bold uppercase space-y-1">
+                  <span className="block">Disarm Command</span>
+                  <input value={settings.disarmCommand} onChange={e => update('disarmCommand', e.target.value)} className={`${inputClass} w-full`} />
+                </label>
+                <label className="text-[9px] text-slate-500 font-bold uppercase space-y-1">
+                  <span className="block">Armed State From</span>
+                  {channelSelect(settings.armedChannel, key => update('armedChannel', key), 'MAVLink heartbeat')}
+                </label>
+                <label className="text-[9px] text-slate-500 font-bold uppercase space-y-1">
+                  <span className="block">Max Link Age (ms)</span>
+                  <input type="number" min={200} step={100} value={settings.maxLinkAgeMs} onChange={e => update('maxLinkAgeMs', Math.max(200, Number(e.target.value) || 0))} className={`${inputClass} w-full`} />
+                </label>
+                <label className="text-[9px] text-slate-500 font-bold uppercase space-y-1">
+                  <span className="block">Max Link Loss (%)</span>
+                  <input type="number" min={0} max={100} step={1} value={settings.maxLinkLossPercent} onChange={e => update('maxLinkLossPercent', Math.min(100, Math.max(0, Number(e.target.value) || 0)))} className={`${inputClass} w-full`} />
+                </label>
+                <label className="text-[9px] text-slate-500 font-bold uppercase space-y-1">
+                  <span className="block">Max Checksum Fails (10 s)</span>
+                  <input type="number" min={0} step={1} value={settings.maxChecksumFailures} onChange={e => update('maxChecksumFailures', Math.max(0, Math.round(Number(e.target.value) || 0)))} className={`${inputClass} w-full`} />
+                </label>
+                <label className="text-[9px] text-slate-500 font-bold uppercase space-y-1">
+                  <span className="block">Hold To Fire (ms)</span>
+                  <input type="number" min={500} step={250} value={settings.holdToFireMs} onChange={e => update('holdToFireMs', Math.max(500, Number(e.target.value) || 0))} className={`${inputClass} w-full`} />
+                </label>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <span className="text-[9px] text-slate-500 font-bold uppercase">Fire allowed when clock is</span>
+                {CLOCK_STATES.map(s => {
+                  const on = settings.fireClockStates.includes(s);
+                  return (
+                    <button
+                      key={s}
+                      onClick={() => update('fireClockStates', on ? settings.fireClockStates.filter(x => x !== s) : [...settings.fireClockStates, s])}
+                      className={`px-2 py-0.5 rounded-sm border text-[9px] font-bold uppercase ${on ? 'bg-rose-900/40 border-rose-700 text-rose-200' : 'bg-slate-900 border-slate-700 text-slate-500'}`}
+                    >
+                      {MISSION_CLOCK_LABELS[s]}
+                    </button>
+                  );
+                })}
+              </div>
+
+              <div className="space-y-1">
+                <div className="grid grid-cols-[1fr_1fr_1.4fr_24px] gap-2 text-[8px] text-slate-500 font-bold uppercase">
+                  <span>Channel</span><span>Fire Command</span><span>Continuity From</span><span></span>
+                </div>
+                {settings.channels.map(ch => (
+                  <div key={ch.id} className="grid grid-cols-[1fr_1fr_1.4fr_24px] gap-2 items-center">
+                    <input value={ch.name} onChange={e => updateChannel(ch.id, { name: e.target.value })} className={inputClass} />
+                    <input value={ch.fireCommand} onChange={e => updateChannel(ch.id, { fireCommand: e.target.value })} className={inputClass} />
+                    {channelSelect(ch.continuityChannel, key => updateChannel(ch.id, { continuityChannel: key }), 'Not reported')}
+                    <button onClick={() => update('channels', settings.channels.filter(c => c.id !== ch.id))} className="p-1 text-slate-500 hover:text-rose-400" title="Remove Channel">
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => update('channels', [...settings.channels, { id: generateId(), name: `Pyro ${settings.channels.length + 1}`, fireCommand: `FIRE ${settings.channels.length + 1}`, continuityChannel: '' }])}
+                  className="flex items-center gap-1 px-2 py-1 text-[9px] font-bold uppercase text-slate-400 hover:text-rose-300 border border-dashed border-slate-700 rounded-sm"
+                >
+                  <Plus className="w-3 h-3" /> Add Channel
+                </button>
+              </div>
+              <p className="text-[8px] text-slate-600 italic">Armed and continuity flags are read from custom channels (non-zero = set). Commands go out through the uplink console and wait for its acknowledgement.</p>
+            </div>
+          )}
+
+          {/* STATUS */}
+          <div className="grid grid-cols-3 gap-3">
+            <div title={portOpen ? linkIssues.join('\n') : undefined} className={`p-3 border rounded-sm ${linkHealthy ? 'border-emerald-800/60 bg-emerald-950/20' : 'border-rose-900/60 bg-rose-950/20'}`}>
+              <div className="text-[9px] text-slate-500 font-bold uppercase">Link</div>
+              <div className={`text-sm font-bold font-mono ${linkHealthy ? 'text-emerald-400' : 'text-rose-400'}`}>
+                {!portOpen ? 'NO PORT' : Number.isFinite(gate.packetAge) ? `${(gate.packetAge / 1000).toFixed(1)} s` : 'NO DATA'}
+                {portOpen && link && <span className="text-[10px] text-slate-500 ml-2">{link.lossPercent.toFixed(1)}% loss · {link.recentChecksumFailures} CRC</span>}
+              </div>
+            </div>
+            <div className={`p-3 border rounded-sm ${settings.fireClockStates.includes(clock) ? 'border-amber-800/60 bg-amber-950/20' : 'border-slate-800 bg-slate-900/30'}`}>
+              <div className="text-[9px] text-slate-500 font-bold uppercase">Mission Clock</div>
+              <div className="text-sm font-bold font-mono text-slate-200">{MISSION_CLOCK_LABELS[clock]} <span className="text-slate-500">{missionTimeLabel}</span></div>
+            </div>
+            <div className={`p-3 border rounded-sm ${state.armed ? 'border-rose-700 bg-rose-950/30' : 'border-slate-800 bg-slate-900/30'}`}>
+              <div className="text-[9px] text-slate-500 font-bold uppercase flex items-center justify-between">Vehicle {renderInFlight('System')}</div>
+              <div className={`text-sm font-bold font-mono flex items-center gap-2 ${state.armed ? 'text-rose-400 animate-pulse' : state.armed === false ? 'text-emerald-400' : 'text-slate-500'}`}>
+                {state.armed ? <Unlock className="w-4 h-4" /> : <Lock className="w-4 h-4" />}
+                {flagLabel(state.armed, 'ARMED', 'SAFE')}
+              </div>
+            </div>
+          </div>
+
+          {/* ARM / DISARM */}
+          <div className="grid grid-cols-2 gap-3">
+            <TechTooltip content={armBlockers.length > 0 ? armBlockers.join(' · ') : `Send "${settings.armCommand}"`}>
+              <button onClick={() => setConfirming({ action: 'arm' })} disabled={armBlockers.length > 0} className="w-full flex items-center justify-center gap-2 py-2 bg-amber-900/30 hover:bg-amber-800/40 text-amber-200 border border-amber-700 rounded-sm text-xs font-bold uppercase disabled:opacity-40 disabled:cursor-not-allowed">
+                <Unlock className="w-4 h-4" /> Arm
+              </button>
+            </TechTooltip>
+            <TechTooltip content={disarmBlockers.length > 0 ? disarmBlockers.join(' · ') : `Send "${settings.disarmCommand}"`}>
+              <button onClick={() => onAction('disarm')} disabled={disarmBlockers.length > 0} className="w-full flex items-center justify-center gap-2 py-2 bg-emerald-900/30 hover:bg-emerald-800/40 text-emerald-200 border border-emerald-700 rounded-sm text-xs font-bold uppercase disabled:opacity-40 disabled:cursor-not-allowed">
+                <ShieldCheck className="w-4 h-4" /> Disarm
+              </button>
+            </TechTooltip>
+          </div>
+
+          {/* CHANNELS */}
+          <div className="grid grid-cols-2 gap-3">
+            {settings.channels.map(ch => {
+              const continuity = state.continuity[ch.id];
+              return (
+                <div key={ch.id} className="p-3 border border-slate-800 rounded-sm bg-slate-900/30 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs font-bold text-slate-200 uppercase">{ch.name}</span>
+                    {renderInFlight(ch.id)}
+                    <span className={`px-1.5 rounded text-[9px] font-bold uppercase ${continuity === null ? 'text-slate-500 bg-slate-800/60' : continuity ? 'text-emerald-400 bg-emerald-950/40' : 'text-rose-400 bg-rose-950/40'}`}>
+                      Cont {flagLabel(continuity, 'OK', 'OPEN')}
+                    </span>
+                  </div>
+                  <div className="text-[9px] font-mono text-slate-500">{ch.fireCommand}</div>
+                  <TechTooltip content={fireBlockers.length > 0 ? fireBlockers.join(' · ') : 'Confirm, then hold to fire'}>
+                    <button onClick={() => setConfirming({ action: 'fire', channel: ch })} disabled={fireBlockers.length > 0} className="w-full flex items-center justify-center gap-2 py-1.5 bg-rose-900/30 hover:bg-rose-800/40 text-rose-200 border border-rose-700 rounded-sm text-[10px] font-bold uppercase disabled:opacity-40 disabled:cursor-not-allowed">
+                      <Flame className="w-3.5 h-3.5" /> Fire
+                    </button>
+                  </TechTooltip>
+                </div>
+              );
+            })}
+          </div>
+          {fireBlockers.length > 0 && (
+            <div className="text-[9px] font-mono text-slate-500">Fire blocked: {fireBlockers.join(' · ')}</div>
+          )}
+
+          {/* AUDIT LOG */}
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <div className="text-[9px] text-slate-500 font-bold uppercase">Audit Log</div>
+              <div className="flex items-center gap-1">
+                <button onClick={onExportAudit} disabled={audit.length === 0} className="flex items-center gap-1 px-2 py-0.5 text-[9px] font-bold uppercase text-slate-400 hover:text-emerald-300 disabled:opacity-40" title="Download the audit log as CSV"><Download className="w-3 h-3" /> CSV</button>
+                <button onClick={() => setIsClearOpen(true)} disabled={audit.length === 0} className="flex items-center gap-1 px-2 py-0.5 text-[9px] font-bold uppercase text-slate-400 hover:text-rose-300 disabled:opacity-40" title="Clear the audit log"><Eraser className="w-3 h-3" /> Clear</button>
+              </div>
+            </div>
+            {audit.length === 0 && <div className="text-[10px] text-slate-600 font-mono">No actions recorded.</div>}
+            <div className="space-y-0.5 max-h-[200px] overflow-y-auto custom-scrollbar">
+              {[...audit].reverse().map((e, i) => (
+                <div key={audit.length - i} className="grid grid-cols-[64px_72px_64px_80px_96px_1fr] gap-x-2 text-[9px] font-mono px-1">
+                  <span className="text-slate-500">{new Date(e.time).toLocaleTimeString()}</span>
+                  <span className="text-slate-500">T{e.missionTime < 0 ? '-' : '+'}{Math.abs(e.missionTime)}s</span>
+                  <span className={`uppercase font-bold ${AUDIT_STYLES[e.action]}`}>{e.action}</span>
+                  <span className="text-slate-300 truncate">{e.target}</span>
+                  <span className="text-slate-400 truncate" title={e.command}>{e.command}</span>
+                  <span className="text-slate-500 truncate" title={e.detail}>{e.detail}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* HOLD TO FIRE */}
+        {holdChannel && (
+          <div className="absolute inset-0 z-10 flex items-center justify-center bg-black/60">
+            <div className="w-80 p-5 bg-slate-950 border border-rose-700 rounded-sm space-y-4 text-center">
+              <div className="text-sm font-bold text-rose-300 uppercase font-space tracking-wider">Fire {holdChannel.name}</div>
+              <button
+                onPointerDown={startHold}
+                onPointerUp={releaseHold}
+                onPointerLeave={releaseHold}
+                className="relative w-full py-4 overflow-hidden bg-rose-950 border-2 border-rose-600 rounded-sm text-rose-100 text-xs font-bold uppercase select-none touch-none"
+              >
+                <span className="absolute inset-y-0 left-0 bg-rose-600/60" style={{ width: `${holdProgress * 100}%` }} />
+                <span className="relative flex items-center justify-center gap-2"><Flame className="w-4 h-4" /> Hold {(settings.holdToFireMs / 1000).toFixed(1)} s to Fire</span>
+              </button>
+              <button onClick={cancelHold} className="px-4 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-sm text-[10px] font-bold uppercase">Cancel</button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <ConfirmModal
+        isOpen={confirming !== null}
+        title={confirming?.action === 'fire' ? `Fire ${confirming.channel?.name}?` : 'Arm Vehicle?'}
+        message={confirmMessage()}
+        confirmText={confirming?.action === 'fire' ? 'Continue' : 'Arm'}
+        isDestructive
+        onConfirm={handleConfirm}
+        onCancel={handleConfirmCancel}
+      />
+
+      <ConfirmModal
+        isOpen={isClearOpen}
+        title="Clear Audit Log?"
+        message={`Remove all ${audit.length} audit entries? Export them first if they are needed for the flight record.`}
+        confirmText="Clear"
+        isDestructive
+        onConfirm={() => { onClearAudit(); setIsClearOpen(false); }}
+        onCancel={() => setIsClearOpen(false)}
+      />
+    </div>
+  );
+};
@@ -6,27 +6,45 @@ import {
   Thermometer, ArrowUpDown, Cloud, ChevronDown, Split, AlertTriangle, Wind, 
   Monitor, Layers, Box, Zap, Globe, Sparkles, Cpu, CircuitBoard, Gamepad2, 
   Plane, Rocket, Anchor, Activity, Lightbulb, Eye, Check, Volume2, Mic, 
-  ShieldCheck, Clock, Crosshair, Mountain, ArrowDown, Navigation, Target, Car, Fan, Ship, MapPin, Hash, Ruler, Flame, MoveVertical, Circle
+  ShieldCheck, Clock, Crosshair, Mountain, Bell, ArrowDown, Navigation, Target, Car, Fan, Ship, MapPin, Hash, Ruler, Flame, MoveVertical, Circle, Radio, Flag, Sigma
 } from 'lucide-react';
 import { 
   AppSettings, GraphConfig, CsvField, SpeedUnit, TempUnit, AltUnit, DensityUnit, 
-  GraphicsSettings, HardwareMode, SimulationPreset, VoiceSettings, WindLayer, VehicleIconType, ChecksumMode 
+  GraphicsSettings, HardwareMode, SimulationPreset, VoiceSettings, WindLayer, VehicleIconType, ChecksumMode,
+  BinaryFrameLayout, BinaryFieldDef, BinaryFieldType, BinaryCrcMode, FieldAlias, CustomChannelDef, VehicleSourceConfig, StreamProtocol, LineFormat,
+  AlertRule, AlertDerivedField, AlertCondition, AlertSeverity, FlightPhase
 } from '../types';
-import { FIELD_LABELS, SKIP_FIELD, DEFAULT_SETTINGS } from '../constants';
+import { SKIP_FIELD, DEFAULT_SETTINGS, BAUD_RATES, FIELD_LABELS } from '../constants';
+import { BINARY_FIELD_SIZES, getPayloadSize, getCrcSize, parseSyncWord } from '../utils/binaryDecoder';
+import { CsvMappingSuggestion, ColumnSuggestion } from '../utils/csvAutoMap';
+import { getFieldLabel, getMappableFields, toChannelField } from '../utils/channels';
+import { validateExpression } from '../utils/expression';
 import { ConfirmModal } from './UIElements';
+import { registerDemFiles, getRegisteredDemFileCount } from '../utils/terrain';
+import { WindBand, windBandsToLayers } from '../utils/windEstimate';
+import { ALERT_DERIVED_FIELDS, ALERT_CONDITION_LABELS, ALERT_SEVERITY_ORDER, alertMessageOf, getAlertFieldLabel, withThresholdLimits } from '../utils/alerts';
+import { FLIGHT_PHASE_LABELS } from '../utils/flightEvents';
+import { WindProfile } from './WindProfile';
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
   settings: AppSettings;
   onUpdate: (newSettings: AppSettings) => void;
+  csvSuggestion?: CsvMappingSuggestion | null;
+  onRequestAutoMap?: () => void;
+  onDismissSuggestion?: () => void;
+  windEstimate?: WindBand[];   // AETHER: measured from the live stream's drift
 }
 
 // Helper for stable IDs
 const generateId = () => Math.random().toString(36).substring(2, 9);
+const VEHICLE_COLORS = ['#f472b6', '#a3e635', '#fb923c', '#c084fc', '#facc15'];
 
-export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings, onUpdate }) => {
+export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings, onUpdate, csvSuggestion, onRequestAutoMap, onDismissSuggestion, windEstimate }) => {
   const [localItems, setLocalItems] = useState<{ id: string; field: CsvField }[]>([]);
+  // AETHER: Editable copy of the auto-map suggestion
+  const [draftColumns, setDraftColumns] = useState<ColumnSuggestion[]>([]);
   const [isInitialized, setIsInitialized] = useState(false);
   const [draggedItemId, setDraggedItemId] = useState<string | null>(null);
   
@@ -46,6 +64,9 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, s
   }>({ isOpen: false, title: '', message: '', onConfirm: () => {} });
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // AETHER: DEM tiles picked from a local folder (held for this session)
+  const demFolderRef = useRef<HTMLInputElement | null>(null);
+  const [demFileCount, setDemFileCount] = useState(getRegisteredDemFileCount);
 
   useEffect(() => {
     if (isOpen && !isInitialized) {
@@ -68,6 +89,10 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, s
     }
   }, [isOpen, isInitialized, settings.csvOrder]);
 
+  useEffect(() => {
+    setDraftColumns(csvSuggestion ? csvSuggestion.columns.map(c => ({ ...c })) : []);
+  }, [csvSuggestion]);
+
   const syncToParent = useCallback((newItems: { id: string; field: CsvField }[]) => {
       const newOrder = newItems.map(i => i.field);
       onUpdate({ ...settings, csvOrder: newOrder });
@@ -132,6 +157,21 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, s
       });
   };
 
+  const applyWindEstimate = () => {
+      if (!windEstimate || windEstimate.length === 0) return;
+      setConfirmModal({
+          isOpen: true,
+          title: "Apply Measured Wind?",
+          message: `Replace the ${settings.wind.layers.length} configured wind layer(s) with ${windEstimate.length} measured band(s) and switch to gradient mode?`,
+          isDestructive: false,
+          confirmText: "Apply",
+          onConfirm: () => {
+              onUpdate({ ...settings, wind: { ...settings.wind, mode: 'gradient', layers: windBandsToLayers(windEstimate) } });
+              setConfirmModal(prev => ({ ...prev, isOpen: false }));
+          }
+      });
+  };
+
   const updateWindLayer = (index: number, field: keyof WindLayer, value: number) => {
       const newLayers = [...settings.wind.layers];
       newLayers[index] = { ...newLayers[index], [field]: value };
@@ -144,6 +184,118 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, s
       });
   };
 
+  // --- AETHER: Binary Frame Layout ---
+  const updateBinaryLayout = <K extends keyof BinaryFrameLayout>(key: K, value: BinaryFrameLayout[K]) => {
+      onUpdate({
+          ...settings,
+          protocol: {
+              ...settings.protocol,
+              binary: { ...settings.protocol.binary, [key]: value }
+          }
+      });
+  };
+
+  const addBinaryField = () => {
+      const newField: BinaryFieldDef = { field: SKIP_FIELD, type: 'uint8', scale: 1, offset: 0 };
+      updateBinaryLayout('fields', [...settings.protocol.binary.fields, newField]);
+  };
+
+  const removeBinaryField = (index: number) => {
+      const newFields = [...settings.protocol.binary.fields];
+      newFields.splice(index, 1);
+      updateBinaryLayout('fields', newFields);
+  };
+
+  const updateBinaryField = <K extends keyof BinaryFieldDef>(index: number, key: K, value: BinaryFieldDef[K]) => {
+      const newFields = [...settings.protocol.binary.fields];
+      newFields[index] = { ...newFields[index], [key]: value };
+      updateBinaryLayout('fields', newFields);
+  };
+
+  // --- AETHER: Key Alias Table ---
+  const addAlias = () => {
+      const newAlias: FieldAlias = { key: '', field: 'relAltitude' };
+      updateNested('protocol', 'aliases', [...settings.protocol.aliases, newAlias]);
+  };
+
+  const removeAlias = (index: number) => {
+      const newAliases = [...settings.protocol.aliases];
+      newAliases.splice(index, 1);
+      updateNested('protocol', 'aliases', newAliases);
+  };
+
+  const updateAlias = (index: number, key: keyof FieldAlias, value: string) => {
+      const newAliases = [...settings.protocol.aliases];
+      newAliases[index] = { ...newAliases[index], [key]: value };
+      updateNested('protocol', 'aliases', newAliases);
+  };
+
+  // --- AETHER: Custom Channels Handlers ---
+  const addCustomChannel = () => {
+      const index = settings.customChannels.length + 1;
+      const newChannel: CustomChannelDef = {
+          key: `ch${index}`, label: `Channel ${index}`, units: '', min: 0, max: 100,
+          color: '#a78bfa', showChart: true, showCard: true
+      };
+      onUpdate({ ...settings, customChannels: [...settings.customChannels, newChannel] });
+  };
+
+  const removeCustomChannel = (index: number) => {
+      const removed = toChannelField(settings.customChannels[index].key);
+      const newChannels = [...settings.customChannels];
+      newChannels.splice(index, 1);
+      // Columns mapped to the removed channel fall back to SKIP
+      const newOrder = settings.csvOrder.map(f => f === removed ? SKIP_FIELD : f) as CsvField[];
+      setLocalItems(prev => prev.map(i => i.field === removed ? { ...i, field: SKIP_FIELD } : i));
+      onUpdate({ ...settings, customChannels: newChannels, csvOrder: newOrder });
+  };
+
+  const updateCustomChannel = (index: number, key: keyof CustomChannelDef, value: any) => {
+      const newChannels = [...settings.customChannels];
+      const previous = newChannels[index];
+      newChannels[index] = { ...previous, [key]: value };
+      if (key === 'key') {
+          // Keep the CSV map pointing at the renamed channel
+          const from = toChannelField(previous.key);
+          const to = toChannelField(value);
+          const newOrder = settings.csvOrder.map(f => f === from ? to : f);
+          setLocalItems(prev => prev.map(i => i.field === from ? { ...i, field: to } : i));
+          onUpdate({ ...settings, customChannels: newChannels, csvOrder: newOrder });
+          return;
+      }
+      onUpdate({ ...settings, customChannels: newChannels });
+  };
+
+  // --- AETHER: Additional Vehicle Handlers ---
+  const addVehicle = () => {
+      const index = settings.vehicles.extra.length + 2;
+      const newVehicle: VehicleSourceConfig = {
+          id: generateId(),
+          name: `Vehicle ${index}`,
+          color: VEHICLE_COLORS[(index - 2) % VEHICLE_COLORS.length],
+          serial: { baudRate: 9600, dataBits: 8, stopBits: 1, parity: 'none', flowControl: 'none' },
+          csvOrder: [...settings.csvOrder],
+          separator: settings.separator,
+          protocol: { ...settings.protocol }
+      };
+      updateNested('vehicles', 'extra', [...settings.vehicles.extra, newVehicle]);
+  };
+
+  const removeVehicle = (index: number) => {
+      const newVehicles = [...settings.vehicles.extra];
+      newVehicles.splice(index, 1);
+      updateNested('vehicles', 'extra', newVehicles);
+  };
+
+  const updateVehicle = (index: number, updates: Partial<VehicleSourceConfig>) => {
+      const newVehicles = [...settings.vehicles.extra];
+      newVehicles[index] = { ...newVehicles[index], ...updates };
+      updateNested('vehicles', 'extra', newVehicles);
+  };
+
+  const parseVehicleCsvOrder = (text: string): CsvField[] =>
+      text.split(',').map(f => f.trim()).filter(f => f.length > 0).map(f => (f === '-' ? SKIP_FIELD : f) as CsvField);
+
   // ------------------------------------------------
 
   const handleDensityChange = (val: 'high' | 'medium' | 'low') => {
@@ -242,15 +394,47 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, s
 
   const handleThresholdChange = (key: keyof AppSettings['thresholds'], value: string) => {
       const numVal = parseFloat(value);
+      const thresholds = { ...settings.thresholds, [key]: isNaN(numVal) ? 0 : numVal };
       onUpdate({
           ...settings,
-          thresholds: {
-              ...settings.thresholds,
-              [key]: isNaN(numVal) ? 0 : numVal
-          }
+          thresholds,
+          // AETHER: The default alert rules follow the limit they were built from
+          alerts: { ...settings.alerts, rules: withThresholdLimits(settings.alerts.rules, thresholds, key) }
       });
   };
 
+  // --- Alert Rules ---
+  const [expandedRuleId, setExpandedRuleId] = useState<string | null>(null);
+
+  const alertFields = useMemo((): AlertRule['field'][] => [
+      ...(Object.keys(FIELD_LABELS) as CsvField[]).filter(f => f !== SKIP_FIELD),
+      ...settings.customChannels.filter(c => c.key.trim()).map(c => toChannelField(c.key)),
+      ...(Object.keys(ALERT_DERIVED_FIELDS) as AlertDerivedField[])
+  ], [settings.customChannels]);
+
+  const updateAlertRules = (rules: AlertRule[]) => onUpdate({ ...settings, alerts: { ...settings.alerts, rules } });
+
+  const updateAlertRule = (id: string, patch: Partial<AlertRule>) => {
+      updateAlertRules(settings.alerts.rules.map(r => r.id === id ? { ...r, ...patch } : r));
+  };
+
+  const addAlertRule = () => {
+      const rule: AlertRule = {
+          id: generateId(), name: 'New Rule', enabled: true, field: 'relAltitude', condition: 'above',
+          threshold: 0, hysteresis: 0, holdMs: 0, severity: 'caution', phases: [], message: '', voice: true, visual: true
+      };
+      updateAlertRules([...settings.alerts.rules, rule]);
+      setExpandedRuleId(rule.id);
+  };
+
+  const removeAlertRule = (id: string) => {
+      updateAlertRules(settings.alerts.rules.filter(r => r.id !== id));
+  };
+
+  const toggleRulePhase = (rule: AlertRule, phase: FlightPhase) => {
+      updateAlertRule(rule.id, { phases: rule.phases.includes(phase) ? rule.phases.filter(p => p !== phase) : [...rule.phases, phase] });
+  };
+
   const handleExportSettings = () => {
     const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(settings, null, 2));
     const downloadAnchorNode = document.createElement('a');
@@ -261,6 +445,14 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, s
     downloadAnchorNode.remove();
   };
   
+  const handleDemFolder = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.files) return;
+    const added = registerDemFiles(Array.from(e.target.files));
+    setDemFileCount(getRegisteredDemFileCount());
+    alert(added > 0 ? `${added} DEM tile(s) loaded.` : "No .hgt or .tif tiles found in that folder.");
+    e.target.value = '';
+  };
+
   const handleImportClick = () => {
     fileInputRef.current?.click();
   };
@@ -277,7 +469,22 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, s
             
             if (importedSettings && Array.isArray(importedSettings.csvOrder)) {
                  importedSettings.configName = file.name;
-                 onUpdate(importedSettings);
+                 // Fill sections missing from files saved by older versions
+                 onUpdate({
+                     ...DEFAULT_SETTINGS,
+                     ...importedSettings,
+                     protocol: { ...DEFAULT_SETTINGS.protocol, ...(importedSettings.protocol || {}) },
+                     uplink: { ...DEFAULT_SETTINGS.uplink, ...(importedSettings.uplink || {}) },
+                     pyro: { ...DEFAULT_SETTINGS.pyro, ...(importedSettings.pyro || {}) },
+                     vehicles: { ...DEFAULT_SETTINGS.vehicles, ...(importedSettings.vehicles || {}) },
+                     flightEvents: { ...DEFAULT_SETTINGS.flightEvents, ...(importedSettings.flightEvents || {}) },
+                     estimator: { ...DEFAULT_SETTINGS.estimator, ...(importedSettings.estimator || {}) },
+                     ahrs: { ...DEFAULT_SETTINGS.ahrs, ...(importedSettings.ahrs || {}) },
+                     dispersion: { ...DEFAULT_SETTINGS.dispersion, ...(importedSettings.dispersion || {}) },
+                     alerts: importedSettings.alerts
+                         ? { ...DEFAULT_SETTINGS.alerts, ...importedSettings.alerts }
+                         : { ...DEFAULT_SETTINGS.alerts, rules: withThresholdLimits(DEFAULT_SETTINGS.alerts.rules, { ...DEFAULT_SETTINGS.thresholds, ...(importedSettings.thresholds || {}) }) }
+                 });
                  const newLocalItems = importedSettings.csvOrder.map((f: CsvField) => ({ id: generateId(), field: f }));
                  setLocalItems(newLocalItems);
                  alert(`Settings loaded from ${file.name}`);
@@ -333,8 +540,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, s
 
   const handleAddAll = () => {
     const currentFields = localItems.map(i => i.field);
-    const allFields = Object.keys(FIELD_LABELS).filter(f => f !== SKIP_FIELD) as CsvField[];
-    const missingFields = allFields.filter(f => !currentFields.includes(f));
+    const missingFields = mappableFields.filter(f => f !== SKIP_FIELD && !currentFields.includes(f));
     
     if (missingFields.length === 0) return;
 
@@ -382,11 +588,25 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, s
     syncToParent(newItems);
   };
 
+  const updateDraftColumn = (index: number, field: CsvField) => {
+    setDraftColumns(prev => prev.map((c, i) => i === index ? { field, reason: 'manual' } : c));
+  };
+
+  const applySuggestion = () => {
+    if (!csvSuggestion || draftColumns.length === 0) return;
+    const newItems = draftColumns.map(c => ({ id: generateId(), field: c.field }));
+    setLocalItems(newItems);
+    onUpdate({ ...settings, csvOrder: newItems.map(i => i.field), separator: csvSuggestion.separator });
+    if (onDismissSuggestion) onDismissSuggestion();
+  };
+
+  const mappableFields = useMemo(() => getMappableFields(settings.customChannels), [settings.customChannels]);
+  const fieldLabel = (field: string) => getFieldLabel(field, settings.customChannels);
+
   const availableFields = useMemo(() => {
     const currentFields = localItems.map(i => i.field);
-    const allFields = Object.keys(FIELD_LABELS).filter(f => f !== SKIP_FIELD) as CsvField[];
-    return allFields.filter(f => !currentFields.includes(f));
-  }, [localItems]);
+    return mappableFields.filter(f => f !== SKIP_FIELD && !currentFields.includes(f));
+  }, [localItems, mappableFields]);
 
   const renderThresholdInputs = (label: string, minKey: keyof AppSettings['thresholds'], maxKey: keyof AppSettings['thresholds']) => (
     <div className="flex items-center gap-2">
@@ -640,6 +860,11 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, s
                             <span className="text-[9px] text-indigo-400 font-mono">{settings.hardware.calculation.toUpperCase()}</span>
                         </div>
                         {renderHardwareButtons('calculation', settings.hardware.calculation)}
+                        <p className="text-[8px] text-slate-600 italic mt-1">
+                            {settings.hardware.calculation === 'cpu' && '* Prediction, estimation and simulation on the UI thread; only landing dispersion runs in a worker.'}
+                            {settings.hardware.calculation === 'hybrid' && '* Landing prediction, dispersion and batch estimation in a worker; simulator on the UI thread.'}
+                            {settings.hardware.calculation === 'gpu' && '* Prediction, estimation and the simulator all in workers; the UI thread only renders.'}
+                        </p>
                      </div>
                      <div>
                         <div className="flex justify-between items-center mb-1">
@@ -684,10 +909,9 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, s
                       </div>
                       <div className="bg-slate-950 p-2 rounded-sm border border-slate-800 grid grid-cols-2 gap-2">
                           <label className="flex items-center gap-2 cursor-pointer"><input type="checkbox" checked={settings.voice.alerts.connection} onChange={() => handleVoiceAlertToggle('connection')} className="w-3 h-3 accent-amber-500" /><span className="text-[9px] text-slate-400">Connection</span></label>
-                          <label className="flex items-center gap-2 cursor-pointer"><input type="checkbox" checked={settings.voice.alerts.thermal} onChange={() => handleVoiceAlertToggle('thermal')} className="w-3 h-3 accent-amber-500" /><span className="text-[9px] text-slate-400">Thermal</span></label>
-                          <label className="flex items-center gap-2 cursor-pointer"><input type="checkbox" checked={settings.voice.alerts.altitude} onChange={() => handleVoiceAlertToggle('altitude')} className="w-3 h-3 accent-amber-500" /><span className="text-[9px] text-slate-400">Altitude</span></label>
-                          <label className="flex items-center gap-2 cursor-pointer"><input type="checkbox" checked={settings.voice.alerts.dynamics} onChange={() => handleVoiceAlertToggle('dynamics')} className="w-3 h-3 accent-amber-500" /><span className="text-[9px] text-slate-400">Dynamics</span></label>
+                          <label className="flex items-center gap-2 cursor-pointer"><input type="checkbox" checked={settings.voice.alerts.rules} onChange={() => handleVoiceAlertToggle('rules')} className="w-3 h-3 accent-amber-500" /><span className="text-[9px] text-slate-400">Alert Rules</span></label>
                           <label className="flex items-center gap-2 cursor-pointer"><input type="checkbox" checked={settings.voice.alerts.mission} onChange={() => handleVoiceAlertToggle('mission')} className="w-3 h-3 accent-amber-500" /><span className="text-[9px] text-slate-400">Mission Timer</span></label>
+                          <label className="flex items-center gap-2 cursor-pointer"><input type="checkbox" checked={settings.voice.alerts.events} onChange={() => handleVoiceAlertToggle('events')} className="w-3 h-3 accent-amber-500" /><span className="text-[9px] text-slate-400">Flight Events</span></label>
                       </div>
                       <button onClick={testVoice} className="w-full py-1.5 border border-slate-700 hover:bg-amber-900/20 text-amber-500 text-[10px] font-bold uppercase rounded-sm transition-colors flex items-center justify-center gap-2">
                           <Volume2 className="w-3 h-3" /> Test Voice
@@ -961,6 +1185,42 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, s
                           </div>
                       </div>
 
+                      {/* LANDING DISPERSION */}
+                      <div className="bg-slate-900/20 border border-slate-800 p-4 rounded-sm">
+                          <h4 className="text-[11px] font-bold text-rose-400 uppercase mb-3 flex items-center gap-2 font-tech tracking-wider"><Target className="w-3.5 h-3.5" /> Landing Dispersion</h4>
+                          <div className="space-y-3">
+                              <label className="flex items-center justify-between cursor-pointer">
+                                  <span className="text-[10px] text-slate-400 font-bold uppercase">Monte Carlo Ellipses</span>
+                                  <input type="checkbox" checked={settings.dispersion.enabled} onChange={(e) => updateNested('dispersion', 'enabled', e.target.checked)} className="accent-rose-500" />
+                              </label>
+                              <div className="flex justify-between items-center">
+                                  <label className="text-[10px] text-slate-500 font-bold uppercase">Samples</label>
+                                  <input type="number" step="50" min="0" value={settings.dispersion.samples} onChange={(e) => updateNested('dispersion', 'samples', parseFloat(e.target.value))} className="w-20 bg-slate-950 border-b border-slate-700 px-2 py-1 text-[10px] text-white font-mono outline-none focus:border-rose-500" />
+                              </div>
+                              <div className="flex justify-between items-center">
+                                  <label className="text-[10px] text-slate-500 font-bold uppercase">Wind Speed σ (%)</label>
+                                  <input type="number" step="5" min="0" value={Math.round(settings.dispersion.windSpeedSigma * 100)} onChange={(e) => updateNested('dispersion', 'windSpeedSigma', parseFloat(e.target.value) / 100)} className="w-20 bg-slate-950 border-b border-slate-700 px-2 py-1 text-[10px] text-white font-mono outline-none focus:border-rose-500" />
+                              </div>
+                              <div className="flex justify-between items-center">
+                                  <label className="text-[10px] text-slate-500 font-bold uppercase">Wind Dir σ (°)</label>
+                                  <input type="number" step="1" min="0" value={settings.dispersion.windDirSigma} onChange={(e) => updateNested('dispersion', 'windDirSigma', parseFloat(e.target.value))} className="w-20 bg-slate-950 border-b border-slate-700 px-2 py-1 text-[10px] text-white font-mono outline-none focus:border-rose-500" />
+                              </div>
+                              <div className="flex justify-between items-center">
+                                  <label className="text-[10px] text-slate-500 font-bold uppercase">Drag Cd σ (%)</label>
+                                  <input type="number" step="1" min="0" value={Math.round(settings.dispersion.dragSigma * 100)} onChange={(e) => updateNested('dispersion', 'dragSigma', parseFloat(e.target.value) / 100)} className="w-20 bg-slate-950 border-b border-slate-700 px-2 py-1 text-[10px] text-white font-mono outline-none focus:border-rose-500" />
+                              </div>
+                              <div className="flex justify-between items-center">
+                                  <label className="text-[10px] text-slate-500 font-bold uppercase">Mass σ (%)</label>
+                                  <input type="number" step="1" min="0" value={Math.round(settings.dispersion.massSigma * 100)} onChange={(e) => updateNested('dispersion', 'massSigma', parseFloat(e.target.value) / 100)} className="w-20 bg-slate-950 border-b border-slate-700 px-2 py-1 text-[10px] text-white font-mono outline-none focus:border-rose-500" />
+                              </div>
+                              <div className="flex justify-between items-center">
+                                  <label className="text-[10px] text-slate-500 font-bold uppercase">Velocity σ (m/s)</label>
+                                  <input type="number" step="0.5" min="0" value={settings.dispersion.velocitySigma} onChange={(e) => updateNested('dispersion', 'velocitySigma', parseFloat(e.target.value))} className="w-20 bg-slate-950 border-b border-slate-700 px-2 py-1 text-[10px] text-white font-mono outline-none focus:border-rose-500" />
+                              </div>
+                              <p className="text-[8px] text-slate-600 italic mt-2">* Runs in a background worker at the prediction update rate and replaces the fixed confidence radius on the map and 3D view.</p>
+                          </div>
+                      </div>
+
                       {/* WIND GRADIENT ENGINE */}
                       <div className="bg-slate-900/20 border border-slate-800 p-4 rounded-sm flex flex-col">
                           <div className="flex justify-between items-center mb-3">
@@ -1000,6 +1260,14 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, s
                                   <button onClick={addWindLayer} className="mt-2 w-full py-1 border border-dashed border-slate-700 text-slate-500 hover:text-white hover:border-slate-500 text-[9px] uppercase font-bold rounded-sm flex items-center justify-center gap-1 transition-colors"><Plus className="w-3 h-3" /> Add Layer</button>
                               </div>
                           )}
+
+                          {windEstimate && (
+                              <div className="mt-4 pt-3 border-t border-slate-800">
+                                  <span className="text-[10px] text-slate-400 font-bold uppercase block mb-2">Measured From Drift</span>
+                                  <WindProfile bands={windEstimate} wind={settings.wind} onApply={windEstimate.length > 0 ? applyWindEstimate : undefined} />
+                                  <p className="text-[8px] text-slate-600 italic mt-2">* From the primary stream's GPS track under canopy or balloon ascent, over the buffered history only. The flight log analysis measures whole recordings.</p>
+                              </div>
+                          )}
                       </div>
 
                       {/* TERRAIN AWARENESS */}
@@ -1014,16 +1282,132 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, s
                                   <label className="text-[10px] text-slate-500 font-bold uppercase">Provider</label>
                                   <select value={settings.terrain.provider} onChange={(e) => updateNested('terrain', 'provider', e.target.value)} className="w-24 bg-slate-950 border border-slate-700 rounded-sm px-1 py-1 text-[9px] text-white outline-none">
                                       <option value="none">None</option>
-                                      <option value="online">Online (Google/Mapbox)</option>
-                                      <option value="local">Local Server</option>
+                                      <option value="online">Online (Terrarium)</option>
+                                      <option value="local">Local DEM Tiles</option>
                                   </select>
                               </div>
                               {settings.terrain.provider === 'local' && (
-                                  <div className="animate-in fade-in slide-in-from-top-1">
-                                      <label className="text-[9px] text-slate-500 font-bold uppercase block mb-1">Local Elevation URL</label>
-                                      <input type="text" value={settings.terrain.localUrl} onChange={(e) => updateNested('terrain', 'localUrl', e.target.value)} className="w-full bg-slate-950 border border-slate-700 px-2 py-1 text-[9px] text-emerald-400 font-mono outline-none" />
+                                  <div className="animate-in fade-in slide-in-from-top-1 space-y-3">
+                                      <div className="flex justify-between items-center">
+                                          <label className="text-[10px] text-slate-500 font-bold uppercase">Tile Format</label>
+                                          <select value={settings.terrain.tileFormat} onChange={(e) => updateNested('terrain', 'tileFormat', e.target.value)} className="w-24 bg-slate-950 border border-slate-700 rounded-sm px-1 py-1 text-[9px] text-white outline-none">
+                                              <option value="hgt">SRTM .hgt</option>
+                                              <option value="tif">GeoTIFF</option>
+                                          </select>
+                                      </div>
+                                      <div>
+                                          <label className="text-[9px] text-slate-500 font-bold uppercase block mb-1">Tile Server URL</label>
+                                          <input type="text" value={settings.terrain.localUrl} onChange={(e) => updateNested('terrain', 'localUrl', e.target.value)} className="w-full bg-slate-950 border border-slate-700 px-2 py-1 text-[9px] text-emerald-400 font-mono outline-none" />
+                                      </div>
+                                      <div className="flex justify-between items-center">
+                                          <span className="text-[9px] text-slate-500 font-mono">{demFileCount} tile(s) from folder</span>
+                                          <button onClick={() => demFolderRef.current?.click()} className="flex items-center gap-1.5 px-2 py-1 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-sm text-[9px] font-bold uppercase text-emerald-400 transition-colors"><Upload className="w-3 h-3" /> Load Folder</button>
+                                          <input type="file" multiple ref={el => { demFolderRef.current = el; el?.setAttribute('webkitdirectory', ''); }} onChange={handleDemFolder} className="hidden" />
+                                      </div>
                                   </div>
                               )}
+                              <p className="text-[8px] text-slate-600 italic mt-2">* 1° tiles named like N14E121.hgt. Folder tiles are used first and last for this session only; the server is asked for the rest.</p>
+                          </div>
+                      </div>
+
+                      {/* FLIGHT EVENT DETECTION */}
+                      <div className="bg-slate-900/20 border border-slate-800 p-4 rounded-sm">
+                          <h4 className="text-[11px] font-bold text-amber-400 uppercase mb-3 flex items-center gap-2 font-tech tracking-wider"><Flag className="w-3.5 h-3.5" /> Flight Event Detection</h4>
+                          <div className="space-y-3">
+                              <div className="flex justify-between items-center">
+                                  <label className="text-[10px] text-slate-500 font-bold uppercase">Liftoff Climb (m/s)</label>
+                                  <input type="number" step="0.5" value={settings.flightEvents.liftoffVSpeed} onChange={(e) => updateNested('flightEvents', 'liftoffVSpeed', parseFloat(e.target.value))} className="w-20 bg-slate-950 border-b border-slate-700 px-2 py-1 text-[10px] text-white font-mono outline-none focus:border-amber-500" />
+                              </div>
+                              <div className="flex justify-between items-center">
+                                  <label className="text-[10px] text-slate-500 font-bold uppercase">Liftoff Altitude (m)</label>
+                                  <input type="number" step="0.5" value={settings.flightEvents.liftoffAltitude} onChange={(e) => updateNested('flightEvents', 'liftoffAltitude', parseFloat(e.target.value))} className="w-20 bg-slate-950 border-b border-slate-700 px-2 py-1 text-[10px] text-white font-mono outline-none focus:border-amber-500" />
+                              </div>
+                              <div className="flex justify-between items-center">
+                                  <label className="text-[10px] text-slate-500 font-bold uppercase">Deploy Rate Drop (%)</label>
+                                  <input type="number" step="5" min="5" max="95" value={Math.round(settings.flightEvents.deployRateDrop * 100)} onChange={(e) => updateNested('flightEvents', 'deployRateDrop', parseFloat(e.target.value) / 100)} className="w-20 bg-slate-950 border-b border-slate-700 px-2 py-1 text-[10px] text-white font-mono outline-none focus:border-amber-500" />
+                              </div>
+                              <div className="flex justify-between items-center">
+                                  <label className="text-[10px] text-slate-500 font-bold uppercase">Min Deploy Rate (m/s)</label>
+                                  <input type="number" step="0.5" value={settings.flightEvents.minDeployRate} onChange={(e) => updateNested('flightEvents', 'minDeployRate', parseFloat(e.target.value))} className="w-20 bg-slate-950 border-b border-slate-700 px-2 py-1 text-[10px] text-white font-mono outline-none focus:border-amber-500" />
+                              </div>
+                              <div className="flex justify-between items-center">
+                                  <label className="text-[10px] text-slate-500 font-bold uppercase">Landed Below (m/s)</label>
+                                  <input type="number" step="0.1" value={settings.flightEvents.landingVSpeed} onChange={(e) => updateNested('flightEvents', 'landingVSpeed', parseFloat(e.target.value))} className="w-20 bg-slate-950 border-b border-slate-700 px-2 py-1 text-[10px] text-white font-mono outline-none focus:border-amber-500" />
+                              </div>
+                              <div className="flex justify-between items-center">
+                                  <label className="text-[10px] text-slate-500 font-bold uppercase">Landed Hold (ms)</label>
+                                  <input type="number" step="100" value={settings.flightEvents.landingHoldMs} onChange={(e) => updateNested('flightEvents', 'landingHoldMs', parseFloat(e.target.value))} className="w-20 bg-slate-950 border-b border-slate-700 px-2 py-1 text-[10px] text-white font-mono outline-none focus:border-amber-500" />
+                              </div>
+                              <p className="text-[8px] text-slate-600 italic mt-2">* Drogue and main are detected when the descent rate drops by this fraction from its peak.</p>
+                          </div>
+                      </div>
+
+                      {/* STATE ESTIMATOR */}
+                      <div className="bg-slate-900/20 border border-slate-800 p-4 rounded-sm">
+                          <h4 className="text-[11px] font-bold text-sky-400 uppercase mb-3 flex items-center gap-2 font-tech tracking-wider"><Sigma className="w-3.5 h-3.5" /> State Estimator</h4>
+                          <div className="space-y-3">
+                              <label className="flex items-center justify-between cursor-pointer">
+                                  <span className="text-[10px] text-slate-400 font-bold uppercase">Kalman Filter</span>
+                                  <input type="checkbox" checked={settings.estimator.enabled} onChange={(e) => updateNested('estimator', 'enabled', e.target.checked)} className="accent-sky-500" />
+                              </label>
+                              <div className="flex justify-between items-center">
+                                  <label className="text-[10px] text-slate-500 font-bold uppercase">Baro Noise (m)</label>
+                                  <input type="number" step="0.1" min="0.01" value={settings.estimator.baroNoise} onChange={(e) => updateNested('estimator', 'baroNoise', parseFloat(e.target.value))} className="w-20 bg-slate-950 border-b border-slate-700 px-2 py-1 text-[10px] text-white font-mono outline-none focus:border-sky-500" />
+                              </div>
+                              <div className="flex justify-between items-center">
+                                  <label className="text-[10px] text-slate-500 font-bold uppercase">GPS Alt Noise (m)</label>
+                                  <input type="number" step="0.5" min="0.01" value={settings.estimator.gpsNoise} onChange={(e) => updateNested('estimator', 'gpsNoise', parseFloat(e.target.value))} className="w-20 bg-slate-950 border-b border-slate-700 px-2 py-1 text-[10px] text-white font-mono outline-none focus:border-sky-500" />
+                              </div>
+                              <div className="flex justify-between items-center">
+                                  <label className="text-[10px] text-slate-500 font-bold uppercase">Accel Noise (m/s²)</label>
+                                  <input type="number" step="0.1" min="0.01" value={settings.estimator.accelNoise} onChange={(e) => updateNested('estimator', 'accelNoise', parseFloat(e.target.value))} className="w-20 bg-slate-950 border-b border-slate-700 px-2 py-1 text-[10px] text-white font-mono outline-none focus:border-sky-500" />
+                              </div>
+                              <div className="flex justify-between items-center">
+                                  <label className="text-[10px] text-slate-500 font-bold uppercase">Process Noise (m/s³)</label>
+                                  <input type="number" step="1" min="0.01" value={settings.estimator.processNoise} onChange={(e) => updateNested('estimator', 'processNoise', parseFloat(e.target.value))} className="w-20 bg-slate-950 border-b border-slate-700 px-2 py-1 text-[10px] text-white font-mono outline-none focus:border-sky-500" />
+                              </div>
+                              <label className="flex items-center justify-between cursor-pointer">
+                                  <span className="text-[10px] text-slate-400 font-bold uppercase">Fuse GPS Altitude</span>
+                                  <input type="checkbox" checked={settings.estimator.useGps} onChange={(e) => updateNested('estimator', 'useGps', e.target.checked)} className="accent-sky-500" />
+                              </label>
+                              <div className="flex justify-between items-center">
+                                  <label className="text-[10px] text-slate-500 font-bold uppercase">Accel Up Axis</label>
+                                  <select value={settings.estimator.accelAxis} onChange={(e) => updateNested('estimator', 'accelAxis', e.target.value)} className="w-24 bg-slate-950 border border-slate-700 rounded-sm px-1 py-1 text-[9px] text-white outline-none">
+                                      <option value="none">Not Used</option>
+                                      <option value="ax">Accel X</option>
+                                      <option value="ay">Accel Y</option>
+                                      <option value="az">Accel Z</option>
+                                  </select>
+                              </div>
+                              <p className="text-[8px] text-slate-600 italic mt-2">* Raise process noise if the filtered trace lags at ignition; lower it for a smoother trace.</p>
+                          </div>
+                      </div>
+
+                      {/* ATTITUDE (AHRS) */}
+                      <div className="bg-slate-900/20 border border-slate-800 p-4 rounded-sm">
+                          <h4 className="text-[11px] font-bold text-violet-400 uppercase mb-3 flex items-center gap-2 font-tech tracking-wider"><Crosshair className="w-3.5 h-3.5" /> Attitude (AHRS)</h4>
+                          <div className="space-y-3">
+                              <label className="flex items-center justify-between cursor-pointer">
+                                  <span className="text-[10px] text-slate-400 font-bold uppercase">Integrate Gyro Rates</span>
+                                  <input type="checkbox" checked={settings.ahrs.enabled} onChange={(e) => updateNested('ahrs', 'enabled', e.target.checked)} className="accent-violet-500" />
+                              </label>
+                              <label className="flex items-center justify-between cursor-pointer">
+                                  <span className="text-[10px] text-slate-400 font-bold uppercase">Accel Correction</span>
+                                  <input type="checkbox" checked={settings.ahrs.useAccel} onChange={(e) => updateNested('ahrs', 'useAccel', e.target.checked)} className="accent-violet-500" />
+                              </label>
+                              <div className="flex justify-between items-center">
+                                  <label className="text-[10px] text-slate-500 font-bold uppercase">Accel Gain</label>
+                                  <input type="number" step="0.1" min="0" value={settings.ahrs.accelGain} onChange={(e) => updateNested('ahrs', 'accelGain', parseFloat(e.target.value))} className="w-20 bg-slate-950 border-b border-slate-700 px-2 py-1 text-[10px] text-white font-mono outline-none focus:border-violet-500" />
+                              </div>
+                              <label className="flex items-center justify-between cursor-pointer">
+                                  <span className="text-[10px] text-slate-400 font-bold uppercase">Heading Correction</span>
+                                  <input type="checkbox" checked={settings.ahrs.useHeading} onChange={(e) => updateNested('ahrs', 'useHeading', e.target.checked)} className="accent-violet-500" />
+                              </label>
+                              <div className="flex justify-between items-center">
+                                  <label className="text-[10px] text-slate-500 font-bold uppercase">Heading Gain</label>
+                                  <input type="number" step="0.05" min="0" value={settings.ahrs.headingGain} onChange={(e) => updateNested('ahrs', 'headingGain', parseFloat(e.target.value))} className="w-20 bg-slate-950 border-b border-slate-700 px-2 py-1 text-[10px] text-white font-mono outline-none focus:border-violet-500" />
+                              </div>
+                              <p className="text-[8px] text-slate-600 italic mt-2">* Enable only when GX/GY/GZ carry body rates in deg/s. Zero the attitude on the pad from the 3D attitude view.</p>
                           </div>
                       </div>
                   </div>
@@ -1061,6 +1445,80 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, s
                                 </div>
                             </div>
                         </div>
+                        <p className="text-[8px] text-slate-600 italic mt-2">* Stat cards highlight outside these limits. Changing one also moves the default alert rule built from it.</p>
+                      </div>
+
+                      {/* ALERT RULES */}
+                      <div className="bg-slate-900/20 border border-slate-800 p-4 rounded-sm">
+                        <div className="flex justify-between items-center mb-3">
+                            <h4 className="text-[11px] font-bold text-rose-400 uppercase flex items-center gap-2 font-tech tracking-wider">
+                                <Bell className="w-3.5 h-3.5" /> Alert Rules
+                            </h4>
+                            <div className="flex items-center gap-2">
+                                <label className="text-[9px] text-slate-500 font-bold uppercase" title="Unacknowledged warnings are announced again at this interval (0: once)">Repeat (ms)</label>
+                                <input type="number" min="0" step="500" value={settings.alerts.repeatInterval} onChange={(e) => updateNested('alerts', 'repeatInterval', Math.max(0, parseInt(e.target.value) || 0))} className="w-16 bg-slate-950 border-b border-slate-700 px-2 py-1 text-[10px] text-white font-mono outline-none focus:border-rose-500" />
+                            </div>
+                        </div>
+                        <div className="space-y-1 max-h-[320px] overflow-y-auto custom-scrollbar pr-1">
+                            {settings.alerts.rules.map(rule => (
+                                <div key={rule.id} className={`border rounded-sm ${expandedRuleId === rule.id ? 'border-rose-500/40 bg-slate-950/60' : 'border-slate-800 bg-slate-950/30'}`}>
+                                    <div className="flex items-center gap-2 px-2 py-1">
+                                        <input type="checkbox" checked={rule.enabled} onChange={(e) => updateAlertRule(rule.id, { enabled: e.target.checked })} className="w-3 h-3 accent-rose-500 shrink-0" title="Enabled" />
+                                        <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${rule.severity === 'warning' ? 'bg-rose-500' : rule.severity === 'caution' ? 'bg-amber-400' : 'bg-cyan-400'}`} title={rule.severity} />
+                                        <button onClick={() => setExpandedRuleId(expandedRuleId === rule.id ? null : rule.id)} className={`flex-1 min-w-0 text-left text-[10px] font-mono truncate ${rule.enabled ? 'text-slate-200' : 'text-slate-600'}`}>
+                                            {rule.name} <span className="text-slate-500">· {getAlertFieldLabel(rule.field, settings.customChannels)} {ALERT_CONDITION_LABELS[rule.condition].toLowerCase()} {rule.threshold}</span>
+                                        </button>
+                                        <ChevronDown className={`w-3 h-3 text-slate-500 shrink-0 transition-transform ${expandedRuleId === rule.id ? 'rotate-180' : ''}`} />
+                                        <button onClick={() => removeAlertRule(rule.id)} className="text-slate-600 hover:text-rose-400 shrink-0" title="Delete Rule"><Trash2 className="w-3 h-3" /></button>
+                                    </div>
+                                    {expandedRuleId === rule.id && (
+                                        <div className="px-2 pb-2 pt-1 space-y-2 border-t border-slate-800 animate-in fade-in">
+                                            <div className="flex gap-2">
+                                                <input type="text" value={rule.name} onChange={(e) => updateAlertRule(rule.id, { name: e.target.value })} placeholder="Name" className="flex-1 min-w-0 bg-slate-950 border-b border-slate-700 px-1 py-0.5 text-[10px] text-white font-mono outline-none focus:border-rose-500" />
+                                                <select value={rule.severity} onChange={(e) => updateAlertRule(rule.id, { severity: e.target.value as AlertSeverity })} className="w-20 bg-slate-950 border border-slate-700 rounded-sm px-1 py-0.5 text-[9px] text-white outline-none uppercase">
+                                                    {ALERT_SEVERITY_ORDER.map(sev => <option key={sev} value={sev}>{sev}</option>)}
+                                                </select>
+                                            </div>
+                                            <div className="grid grid-cols-2 gap-2">
+                                                <select value={rule.field} onChange={(e) => updateAlertRule(rule.id, { field: e.target.value as AlertRule['field'] })} className="bg-slate-950 border border-slate-700 rounded-sm px-1 py-0.5 text-[9px] text-white outline-none">
+                                                    {!alertFields.includes(rule.field) && <option value={rule.field}>{rule.field} (missing)</option>}
+                                                    {alertFields.map(f => <option key={f} value={f}>{getAlertFieldLabel(f, settings.customChannels)}</option>)}
+                                                </select>
+                                                <select value={rule.condition} onChange={(e) => updateAlertRule(rule.id, { condition: e.target.value as AlertCondition })} className="bg-slate-950 border border-slate-700 rounded-sm px-1 py-0.5 text-[9px] text-white outline-none">
+                                                    {(Object.keys(ALERT_CONDITION_LABELS) as AlertCondition[]).map(c => <option key={c} value={c}>{ALERT_CONDITION_LABELS[c]}</option>)}
+                                                </select>
+                                            </div>
+                                            <div className="grid grid-cols-3 gap-2">
+                                                <label className="text-[8px] text-slate-500 font-bold uppercase">Threshold
+                                                    <input type="number" step="any" value={rule.threshold} onChange={(e) => updateAlertRule(rule.id, { threshold: parseFloat(e.target.value) || 0 })} className="w-full bg-slate-950 border-b border-slate-700 px-1 py-0.5 text-[10px] text-rose-300 font-mono outline-none focus:border-rose-500" />
+                                                </label>
+                                                <label className="text-[8px] text-slate-500 font-bold uppercase" title="The alert clears only once the value is back past the threshold by this much">Hysteresis
+                                                    <input type="number" step="any" min="0" disabled={rule.condition === 'stale'} value={rule.hysteresis} onChange={(e) => updateAlertRule(rule.id, { hysteresis: Math.max(0, parseFloat(e.target.value) || 0) })} className="w-full bg-slate-950 border-b border-slate-700 px-1 py-0.5 text-[10px] text-white font-mono outline-none focus:border-rose-500 disabled:opacity-40" />
+                                                </label>
+                                                <label className="text-[8px] text-slate-500 font-bold uppercase" title="The condition must stay true this long before the alert is raised">Hold (ms)
+                                                    <input type="number" step="100" min="0" value={rule.holdMs} onChange={(e) => updateAlertRule(rule.id, { holdMs: Math.max(0, parseInt(e.target.value) || 0) })} className="w-full bg-slate-950 border-b border-slate-700 px-1 py-0.5 text-[10px] text-white font-mono outline-none focus:border-rose-500" />
+                                                </label>
+                                            </div>
+                                            <div>
+                                                <span className="text-[8px] text-slate-500 font-bold uppercase block mb-1">Flight Phases {rule.phases.length === 0 && <span className="text-slate-600 normal-case font-normal">(all)</span>}</span>
+                                                <div className="flex flex-wrap gap-1">
+                                                    {(Object.keys(FLIGHT_PHASE_LABELS) as FlightPhase[]).map(phase => (
+                                                        <button key={phase} onClick={() => toggleRulePhase(rule, phase)} className={`px-1.5 py-0.5 rounded-sm border text-[8px] font-bold uppercase transition-colors ${rule.phases.includes(phase) ? 'bg-rose-900/40 border-rose-600 text-rose-200' : 'border-slate-800 text-slate-500 hover:text-slate-300'}`}>{FLIGHT_PHASE_LABELS[phase]}</button>
+                                                    ))}
+                                                </div>
+                                            </div>
+                                            <input type="text" value={rule.message} onChange={(e) => updateAlertRule(rule.id, { message: e.target.value })} placeholder={alertMessageOf({ ...rule, message: '' }, settings.customChannels)} className="w-full bg-slate-950 border-b border-slate-700 px-1 py-0.5 text-[10px] text-amber-200 font-mono outline-none focus:border-rose-500" title="Spoken and shown when the alert is raised; leave empty for a generated message" />
+                                            <div className="flex gap-4">
+                                                <label className="flex items-center gap-1.5 cursor-pointer"><input type="checkbox" checked={rule.voice} onChange={(e) => updateAlertRule(rule.id, { voice: e.target.checked })} className="w-3 h-3 accent-amber-500" /><span className="text-[9px] text-slate-400">Voice</span></label>
+                                                <label className="flex items-center gap-1.5 cursor-pointer"><input type="checkbox" checked={rule.visual} onChange={(e) => updateAlertRule(rule.id, { visual: e.target.checked })} className="w-3 h-3 accent-rose-500" /><span className="text-[9px] text-slate-400">Visual</span></label>
+                                            </div>
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                        <button onClick={addAlertRule} className="mt-2 w-full py-1 border border-dashed border-slate-700 text-slate-500 hover:text-white hover:border-slate-500 text-[9px] uppercase font-bold rounded-sm flex items-center justify-center gap-1 transition-colors"><Plus className="w-3 h-3" /> Add Rule</button>
+                        <p className="text-[8px] text-slate-600 italic mt-2">* Rules watch the primary stream. Rates are per second of packet time; stale fires when a value has not changed for the threshold in ms. Custom channel ranges alert on their own.</p>
                       </div>
 
                       <div className="bg-slate-900/20 border border-slate-800 p-4 rounded-sm">
@@ -1125,82 +1583,358 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, s
                       </div>
                   </div>
 
-                  {/* ... CSV Parser ... */}
-                  <div className="flex flex-col flex-1 bg-slate-900/20 border border-slate-800 p-4 rounded-sm min-h-[300px]">
-                    <div className="flex justify-between items-center mb-4">
-                        <h4 className="text-[11px] font-bold text-emerald-400 uppercase flex items-center gap-2 font-tech tracking-wider">
-                            <FileSpreadsheet className="w-3.5 h-3.5" /> Data Parser (CSV Map)
-                        </h4>
-                        <div className="flex items-center gap-2">
-                            <label className="text-[10px] font-bold text-slate-500 uppercase">Separator</label>
-                            <select 
-                                value={settings.separator || ','}
-                                onChange={handleSeparatorChange}
-                                className="bg-slate-950 border border-slate-700 rounded-sm px-2 py-1 text-[10px] text-white outline-none focus:border-emerald-500 font-mono"
+                  <div className="flex flex-col flex-1 gap-4">
+                    {/* ... CSV Parser ... */}
+                    <div className="flex flex-col flex-1 bg-slate-900/20 border border-slate-800 p-4 rounded-sm min-h-[300px]">
+                      <div className="flex justify-between items-center mb-4">
+                          <h4 className="text-[11px] font-bold text-emerald-400 uppercase flex items-center gap-2 font-tech tracking-wider">
+                              <FileSpreadsheet className="w-3.5 h-3.5" /> Data Parser (CSV Map)
+                          </h4>
+                          <div className="flex items-center gap-2">
+                              {onRequestAutoMap && (
+                                  <button
+                                      onClick={onRequestAutoMap}
+                                      title="Guess the column layout from the header row or recent lines"
+                                      className="flex items-center gap-1 px-2 py-1 bg-slate-950 hover:bg-emerald-900/30 border border-slate-700 hover:border-emerald-500/50 text-[10px] font-bold text-emerald-300 uppercase rounded-sm transition-colors tracking-wider"
+                                  >
+                                      <Sparkles className="w-3 h-3" /> Auto-Map
+                                  </button>
+                              )}
+                              <label className="text-[10px] font-bold text-slate-500 uppercase">Separator</label>
+                              <select 
+                                  value={settings.separator || ','}
+                                  onChange={handleSeparatorChange}
+                                  className="bg-slate-950 border border-slate-700 rounded-sm px-2 py-1 text-[10px] text-white outline-none focus:border-emerald-500 font-mono"
+                              >
+                                  <option value=",">Comma (,)</option>
+                                  <option value=";">Semi (;)</option>
+                                  <option value=":">Colon (:)</option>
+                                  <option value="|">Pipe (|)</option>
+                                  <option value="\t">Tab</option>
+                                  <option value=" ">Space</option>
+                              </select>
+                          </div>
+                      </div>
+
+                      {csvSuggestion && draftColumns.length > 0 && (
+                          <div className="mb-4 bg-emerald-950/20 border border-emerald-900/50 p-3 rounded-sm">
+                              <div className="flex justify-between items-center mb-2">
+                                  <span className="text-[10px] font-bold text-emerald-300 uppercase tracking-wider">
+                                      Suggested Map · {csvSuggestion.source === 'header' ? 'Header Row' : `${csvSuggestion.sampleCount} Sample Lines`}
+                                  </span>
+                                  <span className="text-[10px] text-slate-500 font-mono">SEP "{csvSuggestion.separator}"</span>
+                              </div>
+                              <div className="max-h-[180px] overflow-y-auto custom-scrollbar space-y-1 mb-3">
+                                  {draftColumns.map((col, index) => (
+                                      <div key={index} className="flex items-center gap-2 text-[10px] font-mono">
+                                          <span className="text-slate-600 font-bold w-6 text-center font-space">{index}</span>
+                                          <select
+                                              value={col.field}
+                                              onChange={(e) => updateDraftColumn(index, e.target.value as CsvField)}
+                                              className="flex-1 bg-slate-950 border border-slate-700 rounded-sm px-1 py-0.5 text-white outline-none focus:border-emerald-500"
+                                          >
+                                              {mappableFields.map(f => <option key={f} value={f}>{fieldLabel(f)}</option>)}
+                                          </select>
+                                          <span className="w-32 truncate text-slate-500" title={col.reason}>{col.reason}</span>
+                                      </div>
+                                  ))}
+                              </div>
+                              <div className="flex gap-2">
+                                  <button onClick={applySuggestion} className="flex-1 py-1.5 bg-emerald-900/30 hover:bg-emerald-900/50 text-emerald-300 border border-emerald-800 rounded-sm text-[10px] font-bold uppercase transition-colors tracking-wider flex items-center justify-center gap-1"><Check className="w-3 h-3" /> Apply</button>
+                                  <button onClick={onDismissSuggestion} className="flex-1 py-1.5 bg-slate-900 hover:bg-rose-900/30 text-rose-300 border border-slate-800 rounded-sm text-[10px] font-bold uppercase transition-colors tracking-wider">Discard</button>
+                              </div>
+                          </div>
+                      )}
+
+                      <div className="flex-1 bg-black/40 p-2 border border-slate-800 overflow-y-auto custom-scrollbar shadow-inner mb-4">
+                          {localItems.map((item, index) => (
+                            <div
+                              key={item.id}
+                              draggable
+                              onDragStart={(e) => onDragStart(e, item.id)}
+                              onDragOver={(e) => onDragOver(e, item.id)}
+                              onDragEnd={onDragEnd}
+                              className={`flex items-center gap-2 p-2 mb-1 border-l-2 text-xs font-mono cursor-move select-none transition-all group ${
+                                draggedItemId === item.id
+                                  ? 'bg-indigo-900/40 border-indigo-500 text-indigo-200 opacity-50' 
+                                  : item.field === SKIP_FIELD 
+                                    ? 'bg-slate-900/30 border-slate-700 border-dashed text-slate-500'
+                                    : 'bg-slate-900/80 border-slate-600 text-slate-300 hover:bg-slate-800 hover:border-emerald-500 hover:text-white'
+                              }`}
                             >
-                                <option value=",">Comma (,)</option>
-                                <option value=";">Semi (;)</option>
-                                <option value=":">Colon (:)</option>
-                                <option value="|">Pipe (|)</option>
-                                <option value="\t">Tab</option>
-                                <option value=" ">Space</option>
-                            </select>
-                        </div>
+                              <span className="text-slate-600 font-bold w-6 text-[10px] text-center font-space">{index}</span>
+                              <GripVertical className="w-3 h-3 text-slate-600" />
+                              {item.field === SKIP_FIELD ? (
+                                  <span className="italic text-slate-500">SKIP_INDEX</span>
+                              ) : (
+                                  <span className="font-bold text-emerald-400">{fieldLabel(item.field)}</span>
+                              )}
+                              <button 
+                                onClick={() => removeField(item.id)}
+                                className="ml-auto p-1 text-slate-600 hover:text-rose-400 hover:bg-rose-950 rounded transition-colors"
+                              >
+                                  <Trash2 className="w-3 h-3" />
+                              </button>
+                            </div>
+                          ))}
+                      </div>
+
+                      <div className="space-y-3">
+                          <div className="flex gap-2">
+                              <button onClick={handleAddAll} disabled={availableFields.length === 0} className="flex-1 py-2 bg-slate-900 hover:bg-indigo-900/30 text-indigo-300 border border-slate-800 rounded-sm text-[10px] font-bold uppercase transition-colors disabled:opacity-50 tracking-wider">Add All</button>
+                              <button onClick={handleRemoveAll} disabled={localItems.length === 0} className="flex-1 py-2 bg-slate-900 hover:bg-rose-900/30 text-rose-300 border border-slate-800 rounded-sm text-[10px] font-bold uppercase transition-colors disabled:opacity-50 tracking-wider">Clear</button>
+                          </div>
+                          <div className="border-t border-slate-800 pt-3">
+                              <span className="text-[10px] font-bold text-slate-500 uppercase block mb-2">Available Fields</span>
+                              <div className="flex flex-wrap gap-1.5 max-h-[80px] overflow-y-auto custom-scrollbar">
+                                  {availableFields.map(field => (
+                                      <button
+                                        key={field}
+                                        onClick={() => addField(field)}
+                                        className="px-2 py-1 bg-slate-950 hover:bg-emerald-900/30 border border-slate-800 hover:border-emerald-500/50 text-[10px] text-slate-400 hover:text-emerald-300 rounded-sm transition-colors font-mono"
+                                      >
+                                          + {fieldLabel(field)}
+                                      </button>
+                                  ))}
+                                  <button onClick={() => addField(SKIP_FIELD)} className="px-2 py-1 bg-slate-950 border border-dashed border-slate-700 text-[10px] text-slate-500 rounded-sm hover:text-white font-mono">+ SKIP</button>
+                              </div>
+                          </div>
+                      </div>
                     </div>
 
-                    <div className="flex-1 bg-black/40 p-2 border border-slate-800 overflow-y-auto custom-scrollbar shadow-inner mb-4">
-                        {localItems.map((item, index) => (
-                          <div
-                            key={item.id}
-                            draggable
-                            onDragStart={(e) => onDragStart(e, item.id)}
-                            onDragOver={(e) => onDragOver(e, item.id)}
-                            onDragEnd={onDragEnd}
-                            className={`flex items-center gap-2 p-2 mb-1 border-l-2 text-xs font-mono cursor-move select-none transition-all group ${
-                              draggedItemId === item.id
-                                ? 'bg-indigo-900/40 border-indigo-500 text-indigo-200 opacity-50' 
-                                : item.field === SKIP_FIELD 
-                                  ? 'bg-slate-900/30 border-slate-700 border-dashed text-slate-500'
-                                  : 'bg-slate-900/80 border-slate-600 text-slate-300 hover:bg-slate-800 hover:border-emerald-500 hover:text-white'
-                            }`}
+                    {/* AETHER: Wire Protocol / Binary Frame Layout */}
+                    <div className="bg-slate-900/20 border border-slate-800 p-4 rounded-sm">
+                      <div className="flex justify-between items-center mb-3">
+                          <h4 className="text-[11px] font-bold text-emerald-400 uppercase flex items-center gap-2 font-tech tracking-wider">
+                              <CircuitBoard className="w-3.5 h-3.5" /> Wire Protocol
+                          </h4>
+                          <select 
+                              value={settings.protocol.mode}
+                              onChange={(e) => updateNested('protocol', 'mode', e.target.value)}
+                              className="bg-slate-950 border border-slate-700 rounded-sm px-2 py-1 text-[10px] text-white outline-none focus:border-emerald-500 font-mono"
+                              title="Applied on next connection"
                           >
-                            <span className="text-slate-600 font-bold w-6 text-[10px] text-center font-space">{index}</span>
-                            <GripVertical className="w-3 h-3 text-slate-600" />
-                            {item.field === SKIP_FIELD ? (
-                                <span className="italic text-slate-500">SKIP_INDEX</span>
-                            ) : (
-                                <span className="font-bold text-emerald-400">{FIELD_LABELS[item.field]}</span>
-                            )}
-                            <button 
-                              onClick={() => removeField(item.id)}
-                              className="ml-auto p-1 text-slate-600 hover:text-rose-400 hover:bg-rose-950 rounded transition-colors"
-                            >
-                                <Trash2 className="w-3 h-3" />
-                            </button>
+                              <option value="text">Text Lines (CSV)</option>
+                              <option value="binary">Binary Frames</option>
+                              <option value="mavlink">MAVLink v2</option>
+                          </select>
+                      </div>
+
+                      {settings.protocol.mode === 'binary' ? (
+                          <div className="space-y-3">
+                              <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+                                  <div className="flex justify-between items-center">
+                                      <label className="text-[10px] text-slate-500 font-bold uppercase">Sync (Hex)</label>
+                                      <input type="text" value={settings.protocol.binary.syncWord} onChange={(e) => updateBinaryLayout('syncWord', e.target.value.toUpperCase())} className={`w-20 bg-slate-950 border-b px-2 py-1 text-[10px] font-mono outline-none ${parseSyncWord(settings.protocol.binary.syncWord).length > 0 ? 'border-slate-700 text-white focus:border-emerald-500' : 'border-rose-500 text-rose-400'}`} />
+                                  </div>
+                                  <div className="flex justify-between items-center">
+                                      <label className="text-[10px] text-slate-500 font-bold uppercase">Frame Type</label>
+                                      <input type="number" min="-1" max="255" value={settings.protocol.binary.frameType} onChange={(e) => updateBinaryLayout('frameType', parseInt(e.target.value) || 0)} className="w-20 bg-slate-950 border-b border-slate-700 px-2 py-1 text-[10px] text-white font-mono outline-none focus:border-emerald-500" title="-1 accepts any type byte" />
+                                  </div>
+                                  <div className="flex justify-between items-center">
+                                      <label className="text-[10px] text-slate-500 font-bold uppercase">Length Field</label>
+                                      <select value={settings.protocol.binary.lengthBytes} onChange={(e) => updateBinaryLayout('lengthBytes', parseInt(e.target.value) as BinaryFrameLayout['lengthBytes'])} className="w-20 bg-slate-950 border border-slate-700 rounded-sm px-1 py-1 text-[9px] text-white outline-none">
+                                          <option value={1}>1 Byte</option>
+                                          <option value={2}>2 Bytes</option>
+                                      </select>
+                                  </div>
+                                  <div className="flex justify-between items-center">
+                                      <label className="text-[10px] text-slate-500 font-bold uppercase">Endianness</label>
+                                      <select value={settings.protocol.binary.littleEndian ? 'le' : 'be'} onChange={(e) => updateBinaryLayout('littleEndian', e.target.value === 'le')} className="w-20 bg-slate-950 border border-slate-700 rounded-sm px-1 py-1 text-[9px] text-white outline-none">
+                                          <option value="le">Little</option>
+                                          <option value="be">Big</option>
+                                      </select>
+                                  </div>
+                                  <div className="flex justify-between items-center">
+                                      <label className="text-[10px] text-slate-500 font-bold uppercase">CRC</label>
+                                      <select value={settings.protocol.binary.crc} onChange={(e) => updateBinaryLayout('crc', e.target.value as BinaryCrcMode)} className="w-20 bg-slate-950 border border-slate-700 rounded-sm px-1 py-1 text-[9px] text-white outline-none">
+                                          <option value="none">None</option>
+                                          <option value="xor8">XOR-8</option>
+                                          <option value="sum8">SUM-8</option>
+                                          <option value="crc16">CRC-16</option>
+                                      </select>
+                                  </div>
+                                  <div className="flex justify-between items-center">
+                                      <label className="text-[10px] text-slate-500 font-bold uppercase">Frame Size</label>
+                                      <span className="text-[10px] font-mono text-emerald-400">
+                                          {parseSyncWord(settings.protocol.binary.syncWord).length + settings.protocol.binary.lengthBytes + 1 + getPayloadSize(settings.protocol.binary) + getCrcSize(settings.protocol.binary.crc)} B
+                                      </span>
+                                  </div>
+                              </div>
+
+                              <div className="bg-black/40 p-2 border border-slate-800 max-h-[220px] overflow-y-auto custom-scrollbar shadow-inner">
+                                  <div className="grid grid-cols-[24px_1fr_70px_60px_50px_20px] gap-1 text-[8px] text-slate-600 font-bold uppercase mb-1 px-1">
+                                      <span>#</span><span>Field</span><span>Type</span><span>Scale</span><span>Offset</span><span></span>
+                                  </div>
+                                  {settings.protocol.binary.fields.map((def, index) => (
+                                      <div key={index} className="grid grid-cols-[24px_1fr_70px_60px_50px_20px] gap-1 items-center mb-1 px-1">
+                                          <span className="text-[9px] text-slate-600 font-mono">{index}</span>
+                                          <select value={def.field} onChange={(e) => updateBinaryField(index, 'field', e.target.value as CsvField)} className={`bg-slate-950 border border-slate-800 rounded-sm px-1 py-0.5 text-[9px] outline-none ${def.field === SKIP_FIELD ? 'text-slate-500 italic' : 'text-emerald-400'}`}>
+                                              {mappableFields.map(f => <option key={f} value={f}>{f === SKIP_FIELD ? 'PADDING' : fieldLabel(f)}</option>)}
+                                          </select>
+                                          <select value={def.type} onChange={(e) => updateBinaryField(index, 'type', e.target.value as BinaryFieldType)} className="bg-slate-950 border border-slate-800 rounded-sm px-1 py-0.5 text-[9px] text-white font-mono outline-none">
+                                              {(Object.keys(BINARY_FIELD_SIZES) as BinaryFieldType[]).map(t => <option key={t} value={t}>{t}</option>)}
+                                          </select>
+                                          <input type="number" step="any" value={def.scale} onChange={(e) => updateBinaryField(index, 'scale', parseFloat(e.target.value) || 0)} className="bg-slate-950 border-b border-slate-800 px-1 py-0.5 text-[9px] text-white font-mono outline-none focus:border-emerald-500" />
+                                          <input type="number" step="any" value={def.offset} onChange={(e) => updateBinaryField(index, 'offset', parseFloat(e.target.value) || 0)} className="bg-slate-950 border-b border-slate-800 px-1 py-0.5 text-[9px] text-white font-mono outline-none focus:border-emerald-500" />
+                                          <button onClick={() => removeBinaryField(index)} className="p-0.5 text-slate-600 hover:text-rose-400"><Trash2 className="w-3 h-3" /></button>
+                                      </div>
+                                  ))}
+                              </div>
+                              <button onClick={addBinaryField} className="w-full py-1.5 bg-slate-900 hover:bg-emerald-900/30 text-emerald-300 border border-slate-800 rounded-sm text-[10px] font-bold uppercase transition-colors tracking-wider flex items-center justify-center gap-1"><Plus className="w-3 h-3" /> Add Field</button>
+                              <p className="text-[8px] text-slate-600 italic">* Frame: [sync][length][type][payload][crc]. CRC covers length, type and payload. Value = raw × scale + offset.</p>
                           </div>
-                        ))}
+                      ) : settings.protocol.mode === 'mavlink' ? (
+                          <p className="text-[8px] text-slate-600 italic">* Decodes HEARTBEAT, ATTITUDE, GLOBAL_POSITION_INT, SCALED_PRESSURE and VFR_HUD. Flight mode and armed state are shown in the header.</p>
+                      ) : (
+                          <div className="space-y-3">
+                              <div className="flex justify-between items-center">
+                                  <label className="text-[10px] text-slate-500 font-bold uppercase">Line Format</label>
+                                  <select value={settings.protocol.lineFormat} onChange={(e) => updateNested('protocol', 'lineFormat', e.target.value)} className="w-32 bg-slate-950 border border-slate-700 rounded-sm px-1 py-1 text-[9px] text-white outline-none">
+                                      <option value="csv">CSV (Column Map)</option>
+                                      <option value="keyvalue">Key = Value</option>
+                                      <option value="json">JSON Lines</option>
+                                      <option value="auto">Auto Detect</option>
+                                  </select>
+                              </div>
+
+                              {settings.protocol.lineFormat !== 'csv' && (
+                                  <>
+                                      <div className="bg-black/40 p-2 border border-slate-800 max-h-[180px] overflow-y-auto custom-scrollbar shadow-inner">
+                                          <div className="grid grid-cols-[1fr_16px_1fr_20px] gap-1 text-[8px] text-slate-600 font-bold uppercase mb-1 px-1">
+                                              <span>Key</span><span></span><span>Field</span><span></span>
+                                          </div>
+                                          {settings.protocol.aliases.map((alias, index) => (
+                                              <div key={index} className="grid grid-cols-[1fr_16px_1fr_20px] gap-1 items-center mb-1 px-1">
+                                                  <input type="text" value={alias.key} placeholder="key" onChange={(e) => updateAlias(index, 'key', e.target.value)} className="bg-slate-950 border-b border-slate-800 px-1 py-0.5 text-[9px] text-white font-mono outline-none focus:border-emerald-500" />
+                                                  <span className="text-[9px] text-slate-600 text-center">→</span>
+                                                  <select value={alias.field} onChange={(e) => updateAlias(index, 'field', e.target.value)} className={`bg-slate-950 border border-slate-800 rounded-sm px-1 py-0.5 text-[9px] outline-none ${alias.field === SKIP_FIELD ? 'text-slate-500 italic' : 'text-emerald-400'}`}>
+                                                      {mappableFields.map(f => <option key={f} value={f}>{f === SKIP_FIELD ? 'IGNORE' : fieldLabel(f)}</option>)}
+                                                  </select>
+                                                  <button onClick={() => removeAlias(index)} className="p-0.5 text-slate-600 hover:text-rose-400"><Trash2 className="w-3 h-3" /></button>
+                                              </div>
+                                          ))}
+                                      </div>
+                                      <button onClick={addAlias} className="w-full py-1.5 bg-slate-900 hover:bg-emerald-900/30 text-emerald-300 border border-slate-800 rounded-sm text-[10px] font-bold uppercase transition-colors tracking-wider flex items-center justify-center gap-1"><Plus className="w-3 h-3" /> Add Alias</button>
+                                  </>
+                              )}
+                              <p className="text-[8px] text-slate-600 italic">
+                                  {settings.protocol.lineFormat === 'csv'
+                                      ? '* Newline-terminated lines decoded with the CSV map above. Protocol changes apply on the next connection.'
+                                      : '* Keys match field names or aliases (case-insensitive). Unknown keys are kept as custom channels; nested JSON keys use dots (gps.lat).'}
+                              </p>
+                          </div>
+                      )}
                     </div>
 
-                    <div className="space-y-3">
-                        <div className="flex gap-2">
-                            <button onClick={handleAddAll} disabled={availableFields.length === 0} className="flex-1 py-2 bg-slate-900 hover:bg-indigo-900/30 text-indigo-300 border border-slate-800 rounded-sm text-[10px] font-bold uppercase transition-colors disabled:opacity-50 tracking-wider">Add All</button>
-                            <button onClick={handleRemoveAll} disabled={localItems.length === 0} className="flex-1 py-2 bg-slate-900 hover:bg-rose-900/30 text-rose-300 border border-slate-800 rounded-sm text-[10px] font-bold uppercase transition-colors disabled:opacity-50 tracking-wider">Clear</button>
-                        </div>
-                        <div className="border-t border-slate-800 pt-3">
-                            <span className="text-[10px] font-bold text-slate-500 uppercase block mb-2">Available Fields</span>
-                            <div className="flex flex-wrap gap-1.5 max-h-[80px] overflow-y-auto custom-scrollbar">
-                                {availableFields.map(field => (
-                                    <button
-                                      key={field}
-                                      onClick={() => addField(field)}
-                                      className="px-2 py-1 bg-slate-950 hover:bg-emerald-900/30 border border-slate-800 hover:border-emerald-500/50 text-[10px] text-slate-400 hover:text-emerald-300 rounded-sm transition-colors font-mono"
-                                    >
-                                        + {FIELD_LABELS[field]}
-                                    </button>
-                                ))}
-                                <button onClick={() => addField(SKIP_FIELD)} className="px-2 py-1 bg-slate-950 border border-dashed border-slate-700 text-[10px] text-slate-500 rounded-sm hover:text-white font-mono">+ SKIP</button>
-                            </div>
-                        </div>
+                    {/* AETHER: Custom Channels */}
+                    <div className="bg-slate-900/20 border border-slate-800 p-4 rounded-sm">
+                      <div className="flex justify-between items-center mb-3">
+                          <h4 className="text-[11px] font-bold text-emerald-400 uppercase flex items-center gap-2 font-tech tracking-wider">
+                              <Hash className="w-3.5 h-3.5" /> Custom Channels
+                          </h4>
+                          <span className="text-[9px] text-slate-500 font-mono">{settings.customChannels.length} DEFINED</span>
+                      </div>
+                      <div className="space-y-3">
+                          {settings.customChannels.length > 0 && (
+                              <div className="bg-black/40 p-2 border border-slate-800 max-h-[220px] overflow-y-auto custom-scrollbar shadow-inner">
+                                  <div className="grid grid-cols-[1fr_1fr_48px_48px_48px_20px_20px_20px_20px] gap-1 text-[8px] text-slate-600 font-bold uppercase mb-1 px-1">
+                                      <span>Key</span><span>Label</span><span>Units</span><span>Min</span><span>Max</span><span></span><span title="Chart">CH</span><span title="Stat Card">SC</span><span></span>
+                                  </div>
+                                  {settings.customChannels.map((ch, index) => {
+                                      const exprError = ch.expression?.trim() ? validateExpression(ch.expression) : null;
+                                      return (
+                                      <div key={index} className="mb-2 pb-1 border-b border-slate-800/50">
+                                          <div className="grid grid-cols-[1fr_1fr_48px_48px_48px_20px_20px_20px_20px] gap-1 items-center mb-1 px-1">
+                                              <input type="text" value={ch.key} placeholder="key" onChange={(e) => updateCustomChannel(index, 'key', e.target.value.replace(/\s/g, ''))} className="bg-slate-950 border-b border-slate-800 px-1 py-0.5 text-[9px] text-white font-mono outline-none focus:border-emerald-500" />
+                                              <input type="text" value={ch.label} placeholder="Label" onChange={(e) => updateCustomChannel(index, 'label', e.target.value)} className="bg-slate-950 border-b border-slate-800 px-1 py-0.5 text-[9px] text-white outline-none focus:border-emerald-500" />
+                                              <input type="text" value={ch.units} placeholder="V" onChange={(e) => updateCustomChannel(index, 'units', e.target.value)} className="bg-slate-950 border-b border-slate-800 px-1 py-0.5 text-[9px] text-white font-mono outline-none focus:border-emerald-500" />
+                                              <input type="number" value={ch.min} onChange={(e) => updateCustomChannel(index, 'min', parseFloat(e.target.value) || 0)} className="bg-slate-950 border-b border-slate-800 px-1 py-0.5 text-[9px] text-white font-mono outline-none focus:border-emerald-500" />
+                                              <input type="number" value={ch.max} onChange={(e) => updateCustomChannel(index, 'max', parseFloat(e.target.value) || 0)} className="bg-slate-950 border-b border-slate-800 px-1 py-0.5 text-[9px] text-white font-mono outline-none focus:border-emerald-500" />
+                                              <input type="color" value={ch.color} onChange={(e) => updateCustomChannel(index, 'color', e.target.value)} className="w-4 h-4 bg-transparent border-none cursor-pointer" />
+                                              <input type="checkbox" checked={ch.showChart} onChange={(e) => updateCustomChannel(index, 'showChart', e.target.checked)} className="accent-emerald-500" />
+                                              <input type="checkbox" checked={ch.showCard} onChange={(e) => updateCustomChannel(index, 'showCard', e.target.checked)} className="accent-emerald-500" />
+                                              <button onClick={() => removeCustomChannel(index)} className="p-0.5 text-slate-600 hover:text-rose-400"><Trash2 className="w-3 h-3" /></button>
+                                          </div>
+                                          <div className="flex items-center gap-1 px-1">
+                                              <span className="text-[9px] text-slate-600 font-mono italic w-6">f(x)</span>
+                                              <input type="text" value={ch.expression || ''} placeholder="Stream value (or e.g. movingAvg(temperature, 10))" onChange={(e) => updateCustomChannel(index, 'expression', e.target.value)} className={`flex-1 bg-slate-950 border-b px-1 py-0.5 text-[9px] font-mono outline-none ${exprError ? 'border-rose-700 text-rose-300' : 'border-slate-800 text-indigo-300 focus:border-emerald-500'}`} />
+                                          </div>
+                                          {exprError && <p className="text-[8px] text-rose-400 font-mono px-1 mt-0.5 pl-8">{exprError}</p>}
+                                      </div>
+                                      );
+                                  })}
+                              </div>
+                          )}
+                          <button onClick={addCustomChannel} className="w-full py-1.5 bg-slate-900 hover:bg-emerald-900/30 text-emerald-300 border border-slate-800 rounded-sm text-[10px] font-bold uppercase transition-colors tracking-wider flex items-center justify-center gap-1"><Plus className="w-3 h-3" /> Add Channel</button>
+                          <p className="text-[8px] text-slate-600 italic">* Map channels in the CSV map, binary layout or alias table. Key/JSON lines fill a channel whose key matches directly.</p>
+                          <p className="text-[8px] text-slate-600 italic">* f(x) makes a derived channel: + - * / ^ %, comparisons, a ? b : c, math functions and derivative(x), movingAvg(x, n), delta(x), prev(x), integral(x), peak(x). Names refer to packet fields and earlier channels.</p>
+                      </div>
+                    </div>
+
+                    {/* AETHER: Multiple Vehicles */}
+                    <div className="bg-slate-900/20 border border-slate-800 p-4 rounded-sm">
+                      <div className="flex justify-between items-center mb-3">
+                          <h4 className="text-[11px] font-bold text-emerald-400 uppercase flex items-center gap-2 font-tech tracking-wider">
+                              <Radio className="w-3.5 h-3.5" /> Vehicles
+                          </h4>
+                          <span className="text-[9px] text-slate-500 font-mono">{settings.vehicles.extra.length + 1} STREAMS</span>
+                      </div>
+                      <div className="space-y-3">
+                          <div className="flex items-center gap-2 px-1">
+                              <input type="color" value={settings.vehicles.primaryColor} onChange={(e) => updateNested('vehicles', 'primaryColor', e.target.value)} className="w-4 h-4 bg-transparent border-none cursor-pointer" />
+                              <input type="text" value={settings.vehicles.primaryName} onChange={(e) => updateNested('vehicles', 'primaryName', e.target.value)} className="flex-1 bg-slate-950 border-b border-slate-800 px-1 py-0.5 text-[9px] text-white outline-none focus:border-emerald-500" />
+                              <span className="text-[8px] text-slate-600 font-mono uppercase">Primary link</span>
+                          </div>
+                          {settings.vehicles.extra.length > 0 && (
+                              <div className="bg-black/40 p-2 border border-slate-800 max-h-[260px] overflow-y-auto custom-scrollbar shadow-inner">
+                                  {settings.vehicles.extra.map((v, index) => (
+                                      <div key={v.id} className="mb-2 pb-2 border-b border-slate-800/50 space-y-1">
+                                          <div className="grid grid-cols-[20px_1fr_72px_32px_20px] gap-1 items-center px-1">
+                                              <input type="color" value={v.color} onChange={(e) => updateVehicle(index, { color: e.target.value })} className="w-4 h-4 bg-transparent border-none cursor-pointer" />
+                                              <input type="text" value={v.name} onChange={(e) => updateVehicle(index, { name: e.target.value })} className="bg-slate-950 border-b border-slate-800 px-1 py-0.5 text-[9px] text-white outline-none focus:border-emerald-500" />
+                                              <select value={v.serial.baudRate} onChange={(e) => updateVehicle(index, { serial: { ...v.serial, baudRate: parseInt(e.target.value) } })} className="bg-slate-950 border-b border-slate-800 px-1 py-0.5 text-[9px] text-white font-mono outline-none">
+                                                  {BAUD_RATES.map(rate => <option key={rate} value={rate}>{rate}</option>)}
+                                              </select>
+                                              <input type="text" value={v.separator} title="Separator" onChange={(e) => updateVehicle(index, { separator: e.target.value })} className="bg-slate-950 border-b border-slate-800 px-1 py-0.5 text-[9px] text-white font-mono text-center outline-none focus:border-emerald-500" />
+                                              <button onClick={() => removeVehicle(index)} className="p-0.5 text-slate-600 hover:text-rose-400"><Trash2 className="w-3 h-3" /></button>
+                                          </div>
+                                          <div className="grid grid-cols-[1fr_1fr_1fr_auto] gap-1 px-1 items-center">
+                                              <select value={v.protocol.mode} onChange={(e) => updateVehicle(index, { protocol: { ...v.protocol, mode: e.target.value as StreamProtocol } })} className="bg-slate-950 border-b border-slate-800 px-1 py-0.5 text-[9px] text-white font-mono outline-none">
+                                                  <option value="text">Text Lines</option>
+                                                  <option value="binary">Binary Frames</option>
+                                                  <option value="mavlink">MAVLink</option>
+                                              </select>
+                                              <select value={v.protocol.lineFormat} disabled={v.protocol.mode !== 'text'} onChange={(e) => updateVehicle(index, { protocol: { ...v.protocol, lineFormat: e.target.value as LineFormat } })} className="bg-slate-950 border-b border-slate-800 px-1 py-0.5 text-[9px] text-white font-mono outline-none disabled:opacity-40">
+                                                  <option value="csv">CSV</option>
+                                                  <option value="keyvalue">key=value</option>
+                                                  <option value="json">JSON Lines</option>
+                                                  <option value="auto">Auto</option>
+                                              </select>
+                                              <select value={v.checksum ? v.checksum.mode : ''} title="Checksum mode" onChange={(e) => updateVehicle(index, { checksum: e.target.value ? { mode: e.target.value as ChecksumMode, validate: v.checksum?.validate ?? settings.checksum.validate } : undefined })} className="bg-slate-950 border-b border-slate-800 px-1 py-0.5 text-[9px] text-white font-mono outline-none">
+                                                  <option value="">CS: Primary</option>
+                                                  <option value="none">CS: None</option>
+                                                  <option value="nmea">CS: NMEA</option>
+                                                  <option value="mod256">CS: MOD 256</option>
+                                              </select>
+                                              <input type="checkbox" title="Validate checksum" disabled={!v.checksum} checked={(v.checksum ?? settings.checksum).validate} onChange={(e) => v.checksum && updateVehicle(index, { checksum: { ...v.checksum, validate: e.target.checked } })} className="accent-indigo-500 disabled:opacity-40" />
+                                          </div>
+                                          <input
+                                              key={`${v.id}-${v.csvOrder.join(',')}`}
+                                              type="text"
+                                              defaultValue={v.csvOrder.map(f => f === SKIP_FIELD ? '-' : f).join(', ')}
+                                              onBlur={(e) => updateVehicle(index, { csvOrder: parseVehicleCsvOrder(e.target.value) })}
+                                              title="CSV column order (field names, '-' to skip, ch:key for channels)"
+                                              className="w-full bg-slate-950 border-b border-slate-800 px-1 py-0.5 text-[9px] text-indigo-300 font-mono outline-none focus:border-emerald-500"
+                                          />
+                                          <button onClick={() => updateVehicle(index, { csvOrder: [...settings.csvOrder], separator: settings.separator })} className="text-[8px] text-slate-500 hover:text-emerald-300 uppercase font-bold px-1">Copy primary CSV map</button>
+                                      </div>
+                                  ))}
+                              </div>
+                          )}
+                          <button onClick={addVehicle} className="w-full py-1.5 bg-slate-900 hover:bg-emerald-900/30 text-emerald-300 border border-slate-800 rounded-sm text-[10px] font-bold uppercase transition-colors tracking-wider flex items-center justify-center gap-1"><Plus className="w-3 h-3" /> Add Vehicle</button>
+                          <p className="text-[8px] text-slate-600 italic">* Each extra vehicle gets its own link chip above the stat cards. Maps overlay every track; charts and stat cards show the selected vehicle.</p>
+                      </div>
                     </div>
                   </div>
               </div>
@@ -15,6 +15,9 @@ interface StatCardProps {
   onAcknowledge?: () => void;
   onDoubleClick?: () => void;
   isMuted?: boolean; 
+
+  // AETHER: Secondary line under the value (e.g. raw reading next to a filtered one)
+  detail?: string;
 }
 
 export const StatCard: React.FC<StatCardProps> = ({ 
@@ -27,7 +30,8 @@ export const StatCard: React.FC<StatCardProps> = ({
   isActive = false,
   onAcknowledge,
   onDoubleClick,
-  isMuted = false
+  isMuted = false,
+  detail
 }) => {
   
   // Base Styles: Left border is 2px (accent), others are 1px (default)
@@ -136,6 +140,7 @@ export const StatCard: React.FC<StatCardProps> = ({
         </span>
         {unit && <span className={unitClass}>{unit}</span>}
       </div>
+      {detail && <span className="text-[9px] font-mono text-slate-500 mt-1 whitespace-nowrap">{detail}</span>}
 
       <div className={`absolute bottom-0 right-0 w-2 h-2 border-b border-r ${cornerClass}`}></div>
     </div>
@@ -15,7 +15,9 @@ import {
   ActiveElement
 } from 'chart.js';
 import { Line } from 'react-chartjs-2';
-import { TelemetryPacket, GraphConfig, ThresholdSettings } from '../types';
+import { TelemetryPacket, GraphConfig, ThresholdSettings, ChannelField } from '../types';
+import { getFieldValue } from '../utils/channels';
+import { findLineAtTime } from '../utils/playback';
 import { LucideIcon, MousePointerClick, Eye, EyeOff, Filter, Baseline, Crosshair, Pin, PinOff, Maximize2, Minimize2 } from 'lucide-react';
 
 ChartJS.register(
@@ -30,13 +32,14 @@ ChartJS.register(
 );
 
 interface LineConfig {
-  key: keyof TelemetryPacket;
+  key: Exclude<keyof TelemetryPacket, 'channels'> | ChannelField;
   name: string;
   color: string;
   yAxisId?: string;
   dot?: boolean;
   strokeDasharray?: string; // Mapped to borderDash
   strokeWidth?: number;
+  limits?: { min: number; max: number }; // AETHER: Reference lines for custom channel ranges
 }
 
 interface TelemetryChartProps {
@@ -53,6 +56,19 @@ interface TelemetryChartProps {
   unit?: string;
   onMaximize?: () => void;
   isMaximized?: boolean;
+
+  // AETHER: Analysis workspace linkage. Times are packet timeElapsed (ms).
+  cursorTime?: number | null;
+  onCursorChange?: (time: number) => void;
+  selection?: { start: number; end: number } | null;
+  onSelectRange?: (start: number, end: number) => void;
+  markers?: ChartMarker[];
+}
+
+export interface ChartMarker {
+  time: number;
+  label: string;
+  color: string;
 }
 
 // --- GRADIENT GENERATOR ---
@@ -246,6 +262,68 @@ const crosshairPlugin = {
   }
 };
 
+// --- CUSTOM PLUGIN: ANALYSIS OVERLAY (linked cursor, selected range, event markers) ---
+const analysisOverlayPlugin = {
+  id: 'analysisOverlay',
+  afterDatasetsDraw(chart: any, args: any, options: any) {
+    const times: number[] | undefined = options.times;
+    if (!times || times.length === 0) return;
+
+    const { ctx, scales } = chart;
+    const { left, right, top, bottom } = chart.chartArea;
+    const xOf = (time: number) => scales.x.getPixelForValue(Math.min(times.length - 1, findLineAtTime(times, time)));
+
+    ctx.save();
+
+    if (options.selection) {
+        const x0 = Math.max(left, xOf(options.selection.start));
+        const x1 = Math.min(right, xOf(options.selection.end));
+        ctx.fillStyle = 'rgba(251, 191, 36, 0.12)';
+        ctx.fillRect(x0, top, Math.max(1, x1 - x0), bottom - top);
+        ctx.strokeStyle = 'rgba(251, 191, 36, 0.5)';
+        ctx.lineWidth = 1;
+        ctx.setLineDash([]);
+        ctx.strokeRect(x0, top, Math.max(1, x1 - x0), bottom - top);
+    }
+
+    (options.markers || []).forEach((marker: ChartMarker) => {
+        const x = xOf(marker.time);
+        if (x < left || x > right) return;
+        ctx.beginPath();
+        ctx.strokeStyle = marker.color;
+        ctx.lineWidth = 1;
+        ctx.setLineDash([3, 3]);
+        ctx.moveTo(x, top);
+        ctx.lineTo(x, bottom);
+        ctx.stroke();
+
+        ctx.font = 'bold 9px "JetBrains Mono"';
+        const textWidth = ctx.measureText(marker.label).width;
+        ctx.fillStyle = 'rgba(15, 23, 42, 0.85)';
+        ctx.fillRect(x + 2, top, textWidth + 6, 14);
+        ctx.fillStyle = marker.color;
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(marker.label, x + 5, top + 7);
+    });
+
+    if (options.cursorTime !== null && options.cursorTime !== undefined) {
+        const x = xOf(options.cursorTime);
+        if (x >= left && x <= right) {
+            ctx.beginPath();
+            ctx.strokeStyle = '#fbbf24';
+            ctx.lineWidth = 1.5;
+            ctx.setLineDash([]);
+            ctx.moveTo(x, top);
+            ctx.lineTo(x, bottom);
+            ctx.stroke();
+        }
+    }
+
+    ctx.restore();
+  }
+};
+
 export const TelemetryChart = React.memo<TelemetryChartProps>(({ 
   title, 
   icon: Icon, 
@@ -256,7 +334,12 @@ export const TelemetryChart = React.memo<TelemetryChartProps>(({
   thresholds,
   unit = '',
   onMaximize,
-  isMaximized = false
+  isMaximized = false,
+  cursorTime = null,
+  onCursorChange,
+  selection = null,
+  onSelectRange,
+  markers
 }) => {
   const chartRef = useRef<any>(null);
   const [hiddenSeries, setHiddenSeries] = useState<string[]>([]);
@@ -280,8 +363,7 @@ export const TelemetryChart = React.memo<TelemetryChartProps>(({
         if (d.relAltitude > maxAlt) maxAlt = d.relAltitude;
 
         lines.forEach(line => {
-            // @ts-ignore
-            const val = d[line.key] as number;
+            const val = getFieldValue(d, line.key) as number;
             if (val > globalMax) globalMax = val;
             if (line.key === 'temperature' || line.key === 'thermistorTemp') {
                 if (!maxTemps[line.key] || val > maxTemps[line.key]) {
@@ -318,6 +400,7 @@ export const TelemetryChart = React.memo<TelemetryChartProps>(({
     const step = Math.max(dynamicStep, density === 'high' ? 1 : (density === 'medium' ? 2 : 5));
     
     const labels: string[] = [];
+    const times: number[] = [];
     const datasets: any[] = [];
 
     lines.forEach(line => {
@@ -344,16 +427,19 @@ export const TelemetryChart = React.memo<TelemetryChartProps>(({
     for (let i = startIndex; i < totalLen; i += step) {
         const packet = data[i];
         labels.push((packet.timeElapsed / 1000).toFixed(1));
+        times.push(packet.timeElapsed);
         
         datasets.forEach((ds, idx) => {
-            // @ts-ignore
-            ds.data.push(packet[lines[idx].key]);
+            // Custom channels missing from a packet leave a gap (null)
+            ds.data.push(getFieldValue(packet, lines[idx].key) ?? null);
         });
     }
 
-    return { labels, datasets };
+    return { labels, datasets, times };
   }, [data, density, timeWindow, lines, isMaximized]);
 
+  const lineData = useMemo(() => ({ labels: chartData.labels, datasets: chartData.datasets }), [chartData]);
+
   // --- Effect: Handle Pinned Tooltip Persistence ---
   useEffect(() => {
       const chart = chartRef.current;
@@ -407,10 +493,60 @@ export const TelemetryChart = React.memo<TelemetryChartProps>(({
               if (thresholds.maxSpeed) linesArr.push({ value: thresholds.maxSpeed, color: '#ef4444', label: `VNE: ${thresholds.maxSpeed}`, align: 'right', dash: [2, 2] });
           }
       }
+      if (showRefLines) {
+          lines.forEach(l => {
+              if (!l.limits) return;
+              linesArr.push({ value: l.limits.max, color: l.color, label: `${l.name} MAX: ${l.limits.max}`, align: 'right', dash: [2, 2], scaleId: l.yAxisId || 'left' });
+              linesArr.push({ value: l.limits.min, color: l.color, label: `${l.name} MIN: ${l.limits.min}`, align: 'right', dash: [2, 2], scaleId: l.yAxisId || 'left' });
+          });
+      }
       return linesArr;
   }, [showRefLines, thresholds, stats, lines, unit]);
 
+  // --- Analysis: hover drives the shared cursor, drag selects a time range ---
+  const isLinked = onCursorChange !== undefined || onSelectRange !== undefined || markers !== undefined;
+  const overlayTimes = isLinked ? chartData.times : undefined;
+  const dragStartRef = useRef<number | null>(null);
+  const suppressClickRef = useRef(false);
+  const [dragRange, setDragRange] = useState<{ start: number; end: number } | null>(null);
+
+  const timeAtPixel = useCallback((clientX: number): number | null => {
+      const chart = chartRef.current;
+      if (!chart || chartData.times.length === 0) return null;
+      const rect = chart.canvas.getBoundingClientRect();
+      const index = Math.round(chart.scales.x.getValueForPixel(clientX - rect.left));
+      return chartData.times[Math.max(0, Math.min(chartData.times.length - 1, index))];
+  }, [chartData]);
+
+  const handleDragStart = (e: React.MouseEvent) => {
+      if (!onSelectRange || e.button !== 0) return;
+      dragStartRef.current = e.clientX;
+      setDragRange(null);
+  };
+
+  const handleDragMove = (e: React.MouseEvent) => {
+      if (dragStartRef.current === null || Math.abs(e.clientX - dragStartRef.current) < 5) return;
+      const a = timeAtPixel(dragStartRef.current);
+      const b = timeAtPixel(e.clientX);
+      if (a !== null && b !== null) setDragRange({ start: Math.min(a, b), end: Math.max(a, b) });
+  };
+
+  const handleDragEnd = () => {
+      if (dragStartRef.current === null) return;
+      dragStartRef.current = null;
+      if (dragRange && onSelectRange) {
+          // The click that ends a drag must not pin the tooltip
+          suppressClickRef.current = true;
+          onSelectRange(dragRange.start, dragRange.end);
+      }
+      setDragRange(null);
+  };
+
   const handleChartClick = useCallback((event: any, elements: any[], chart: any) => {
+      if (suppressClickRef.current) {
+          suppressClickRef.current = false;
+          return;
+      }
       if (pinnedIndex !== null) {
           setPinnedIndex(null); 
       } else {
@@ -426,6 +562,9 @@ export const TelemetryChart = React.memo<TelemetryChartProps>(({
     maintainAspectRatio: false,
     animation: false,
     onClick: handleChartClick, 
+    onHover: onCursorChange ? (event: any, elements: any[]) => {
+        if (elements.length > 0 && overlayTimes) onCursorChange(overlayTimes[elements[0].index]);
+    } : undefined,
     events: pinnedIndex !== null ? ['click', 'touchstart', 'touchend'] : ['mousemove', 'mouseout', 'click', 'touchstart', 'touchmove'],
     interaction: {
       mode: pinnedIndex !== null ? 'index' : 'index', 
@@ -472,6 +611,13 @@ export const TelemetryChart = React.memo<TelemetryChartProps>(({
           width: 1,
           dash: [4, 4],
           pinnedState: { isPinned: pinnedIndex !== null, index: pinnedIndex }
+      },
+      // @ts-ignore
+      analysisOverlay: {
+          times: overlayTimes,
+          cursorTime,
+          selection: dragRange ?? selection,
+          markers
       }
     },
     scales: {
@@ -517,7 +663,7 @@ export const TelemetryChart = React.memo<TelemetryChartProps>(({
         max: yAxisConfig?.right?.yMax === 'auto' ? undefined : Number(yAxisConfig?.right?.yMax),
       }
     }
-  }), [yAxisConfig, refLinesConfig, pinnedIndex, handleChartClick, isMaximized]);
+  }), [yAxisConfig, refLinesConfig, pinnedIndex, handleChartClick, isMaximized, onCursorChange, overlayTimes, cursorTime, dragRange, selection, markers]);
 
   const toggleSeries = (key: string) => {
     const chart = chartRef.current;
@@ -594,14 +740,20 @@ export const TelemetryChart = React.memo<TelemetryChartProps>(({
        </div>
        
        {/* CHART BODY */}
-       <div className="flex-1 w-full min-h-[150px] relative">
+       <div 
+         className="flex-1 w-full min-h-[150px] relative"
+         onMouseDown={handleDragStart}
+         onMouseMove={handleDragMove}
+         onMouseUp={handleDragEnd}
+         onMouseLeave={handleDragEnd}
+       >
          <div className="absolute inset-0">
            {chartData.datasets.length > 0 ? (
                <Line 
                  ref={chartRef}
-                 data={chartData} 
+                 data={lineData} 
                  options={options} 
-                 plugins={[referenceLinesPlugin, crosshairPlugin]}
+                 plugins={[referenceLinesPlugin, crosshairPlugin, analysisOverlayPlugin]}
                />
            ) : (
                <div className="flex items-center justify-center h-full text-slate-600 text-xs italic">
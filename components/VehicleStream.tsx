@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { Scan, Link, Unlink } from 'lucide-react';
+import { useSerial } from '../hooks/useSerial';
+import { ConnectionStatus, TelemetryPacket, VehicleSourceConfig, HardwareMode, ChecksumSettings } from '../types';
+
+interface VehicleStreamProps {
+  config: VehicleSourceConfig;
+  isSelected: boolean;
+  streamThrottle: number;
+  calculationMode: HardwareMode;
+  primaryChecksum: ChecksumSettings;
+  onSelect: (id: string) => void;
+  onData: (id: string, packet: TelemetryPacket) => void;
+}
+
+// AETHER: One serial link per additional vehicle. Each chip owns its own useSerial instance.
+export const VehicleStream: React.FC<VehicleStreamProps> = ({ config, isSelected, streamThrottle, calculationMode, primaryChecksum, onSelect, onData }) => {
+  const [portIndex, setPortIndex] = useState('');
+  const checksum = config.checksum ?? primaryChecksum;
+
+  const { status, errorMessage, connect, disconnect, availablePorts, requestAccess } = useSerial({
+    serialConfig: config.serial,
+    csvOrder: config.csvOrder,
+    separator: config.separator,
+    streamThrottle,
+    calculationMode,
+    protocol: config.protocol,
+    checksumMode: checksum.mode,
+    validateChecksum: checksum.validate,
+    onDataReceived: (packet) => onData(config.id, packet),
+    autoReconnect: false
+  });
+
+  const isConnected = status === ConnectionStatus.CONNECTED;
+  const statusColor = isConnected ? 'bg-emerald-400' : status === ConnectionStatus.ERROR ? 'bg-rose-500 animate-pulse' : 'bg-slate-600';
+
+  return (
+    <div
+      className={`flex items-center gap-2 px-2 py-1 rounded-sm border text-[10px] font-mono transition-colors ${isSelected ? 'bg-slate-800 border-slate-500' : 'bg-slate-900/60 border-slate-800 hover:border-slate-600'}`}
+      title={errorMessage || `${config.name}: ${status}`}
+    >
+      <button onClick={() => onSelect(config.id)} className="flex items-center gap-1.5 font-bold uppercase text-slate-200">
+        <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: config.color }} />
+        {config.name}
+        <span className={`w-1.5 h-1.5 rounded-full ${statusColor}`} />
+      </button>
+      <select
+        className="bg-transparent text-slate-400 outline-none cursor-pointer"
+        value={portIndex}
+        onChange={(e) => setPortIndex(e.target.value)}
+        disabled={isConnected}
+      >
+        <option value="" className="bg-slate-900">PORT</option>
+        {availablePorts.map((_, index) => (
+          <option key={index} value={index} className="bg-slate-900">Device {index + 1}</option>
+        ))}
+      </select>
+      <button onClick={() => requestAccess()} disabled={isConnected} className="p-0.5 text-emerald-400 hover:text-white disabled:opacity-40" title="Request access to a new serial device">
+        <Scan className="w-3 h-3" />
+      </button>
+      {isConnected ? (
+        <button onClick={() => disconnect()} className="p-0.5 text-rose-400 hover:text-white" title="Disconnect">
+          <Unlink className="w-3 h-3" />
+        </button>
+      ) : (
+        <button onClick={() => connect(availablePorts[parseInt(portIndex)])} disabled={portIndex === ''} className="p-0.5 text-indigo-400 hover:text-white disabled:opacity-40" title="Connect">
+          <Link className="w-3 h-3" />
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import React from 'react';
+import { Download } from 'lucide-react';
+import { WindSettings } from '../types';
+import { WindBand } from '../utils/windEstimate';
+import { getWindAtAltitude } from '../utils/geo';
+
+interface WindProfileProps {
+  bands: WindBand[];
+  wind: WindSettings;
+  onApply?: () => void;
+}
+
+const WIDTH = 240;
+const HEIGHT = 140;
+const PAD = { left: 30, right: 8, top: 8, bottom: 16 };
+const TICK = 7;  // px length of a direction tick
+
+// AETHER: Estimated wind per altitude band (dots, with a tick pointing downwind) against the
+// configured profile (line), plus a table of both.
+export const WindProfile = React.memo<WindProfileProps>(({ bands, wind, onApply }) => {
+  if (bands.length === 0) {
+    return <div className="text-[10px] text-slate-500 font-mono">No drift measured yet. Needs GPS fixes under canopy after apogee, or during a balloon ascent.</div>;
+  }
+
+  const topAlt = bands[bands.length - 1].altitude * 1.1;
+  const configured = Array.from({ length: 21 }, (_, i) => {
+    const altitude = topAlt * i / 20;
+    return { altitude, ...getWindAtAltitude(altitude, wind) };
+  });
+  const maxSpeed = Math.max(1, ...bands.map(b => b.speed + b.spread), ...configured.map(c => c.speed)) * 1.1;
+  const x = (speed: number) => PAD.left + speed / maxSpeed * (WIDTH - PAD.left - PAD.right);
+  const y = (altitude: number) => HEIGHT - PAD.bottom - altitude / topAlt * (HEIGHT - PAD.top - PAD.bottom);
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full bg-slate-950/60 border border-slate-800 rounded-sm">
+        <line x1={PAD.left} y1={PAD.top} x2={PAD.left} y2={HEIGHT - PAD.bottom} stroke="#334155" strokeWidth={0.5} />
+        <line x1={PAD.left} y1={HEIGHT - PAD.bottom} x2={WIDTH - PAD.right} y2={HEIGHT - PAD.bottom} stroke="#334155" strokeWidth={0.5} />
+        <text x={PAD.left - 3} y={PAD.top + 4} textAnchor="end" fontSize={6} fill="#64748b" fontFamily="monospace">{topAlt.toFixed(0)}m</text>
+        <text x={PAD.left - 3} y={HEIGHT - PAD.bottom} textAnchor="end" fontSize={6} fill="#64748b" fontFamily="monospace">0</text>
+        <text x={WIDTH - PAD.right} y={HEIGHT - 5} textAnchor="end" fontSize={6} fill="#64748b" fontFamily="monospace">{maxSpeed.toFixed(0)} m/s</text>
+
+        <polyline points={configured.map(c => `${x(c.speed)},${y(c.altitude)}`).join(' ')} fill="none" stroke="#818cf8" strokeWidth={1} strokeDasharray="3 2" />
+
+        {bands.map(b => {
+          const to = (b.direction + 180) * Math.PI / 180;
+          const cx = x(b.speed), cy = y(b.altitude);
+          return (
+            <g key={b.altitude}>
+              <line x1={x(Math.max(0, b.speed - b.spread))} y1={cy} x2={x(b.speed + b.spread)} y2={cy} stroke="#22d3ee" strokeOpacity={0.4} strokeWidth={1} />
+              <line x1={cx} y1={cy} x2={cx + Math.sin(to) * TICK} y2={cy - Math.cos(to) * TICK} stroke="#fbbf24" strokeWidth={1} />
+              <circle cx={cx} cy={cy} r={1.8} fill="#22d3ee" />
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="grid grid-cols-[1fr_1.2fr_1.2fr] gap-x-2 text-[8px] font-bold text-slate-500 uppercase px-1">
+        <span>Alt (m)</span><span>Measured</span><span>Configured</span>
+      </div>
+      <div className="max-h-[100px] overflow-y-auto custom-scrollbar">
+        {[...bands].reverse().map(b => {
+          const cfg = getWindAtAltitude(b.altitude, wind);
+          return (
+            <div key={b.altitude} className="grid grid-cols-[1fr_1.2fr_1.2fr] gap-x-2 px-1 py-0.5 border-b border-slate-800/50 text-[9px] font-mono" title={`${b.samples} samples, ±${b.spread.toFixed(1)} m/s`}>
+              <span className="text-slate-400">{b.altitude.toFixed(0)}</span>
+              <span className="text-cyan-400">{b.speed.toFixed(1)} <span className="text-amber-400">{b.direction.toFixed(0)}°</span></span>
+              <span className="text-indigo-300">{cfg.speed.toFixed(1)} <span className="text-slate-400">{cfg.dir.toFixed(0)}°</span></span>
+            </div>
+          );
+        })}
+      </div>
+
+      {onApply && (
+        <button onClick={onApply} className="w-full py-1.5 bg-slate-900 hover:bg-cyan-900/30 text-cyan-300 border border-slate-800 rounded-sm text-[10px] font-bold uppercase flex items-center justify-center gap-1">
+          <Download className="w-3 h-3" /> Apply as Wind Layers
+        </button>
+      )}
+    </div>
+  );
+});
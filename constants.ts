@@ -15,6 +15,7 @@ export const BAUD_RATES = [
 
 export const MAX_DATA_POINTS = 500;
 export const SKIP_FIELD = '__SKIP__';
+export const CHANNEL_PREFIX = 'ch:';
 
 export const DEFAULT_CSV_ORDER: CsvField[] = [
   'pressure', 
@@ -52,6 +53,22 @@ export const FIELD_LABELS: Record<string, string> = {
   vSpeed: "Vertical Speed",
   hSpeed: "Horizontal Speed",
   density: "Air Density",
+  gpsAltitude: "GPS Altitude",
+  fixQuality: "GPS Fix Quality",
+  satellites: "Satellites",
+  hdop: "HDOP",
+  course: "Course (COG)",
+  groundSpeed: "Ground Speed",
+  ax: "Accel X",
+  ay: "Accel Y",
+  az: "Accel Z",
+  estAltitude: "Filtered Altitude",
+  estVSpeed: "Filtered V-Speed",
+  estAccel: "Filtered V-Accel",
+  qw: "Attitude Qw",
+  qx: "Attitude Qx",
+  qy: "Attitude Qy",
+  qz: "Attitude Qz",
   [SKIP_FIELD]: "NULL (Skip Index)"
 };
 
@@ -92,6 +109,28 @@ export const DEFAULT_SETTINGS: AppSettings = {
     maxGForce: 12, 
     minGForce: -2 
   },
+
+  // AETHER: Built from the limits above; the low-side ones were never announced before and start disabled
+  alerts: {
+    repeatInterval: 3000,
+    rules: [
+      { id: 'high-temp', name: 'High Temperature', enabled: true, field: 'temperature', condition: 'above', threshold: 60, hysteresis: 2, holdMs: 0, severity: 'warning', phases: [], message: 'Warning. High Temperature.', voice: true, visual: true },
+      { id: 'low-temp', name: 'Low Temperature', enabled: false, field: 'temperature', condition: 'below', threshold: 0, hysteresis: 2, holdMs: 0, severity: 'caution', phases: [], message: '', voice: true, visual: true },
+      { id: 'max-alt', name: 'Altitude Limit', enabled: true, field: 'relAltitude', condition: 'above', threshold: 1500, hysteresis: 10, holdMs: 0, severity: 'caution', phases: [], message: 'Attention. Altitude Limit Exceeded.', voice: true, visual: true },
+      { id: 'over-speed', name: 'Over Speed', enabled: true, field: 'hSpeed', condition: 'above', threshold: 340, hysteresis: 5, holdMs: 0, severity: 'warning', phases: [], message: 'Warning. Over speed.', voice: true, visual: true },
+      { id: 'over-vspeed', name: 'Vertical Over Speed', enabled: true, field: 'vSpeed', condition: 'above', threshold: 100, hysteresis: 5, holdMs: 0, severity: 'warning', phases: [], message: 'Warning. Over speed.', voice: true, visual: true },
+      { id: 'over-pressure', name: 'Over Pressure', enabled: true, field: 'pressure', condition: 'above', threshold: 110000, hysteresis: 500, holdMs: 0, severity: 'warning', phases: [], message: 'Warning. Over Pressure.', voice: true, visual: true },
+      { id: 'low-pressure', name: 'Low Pressure', enabled: false, field: 'pressure', condition: 'below', threshold: 50000, hysteresis: 500, holdMs: 0, severity: 'caution', phases: [], message: '', voice: true, visual: true },
+      { id: 'max-q', name: 'Max Q Exceeded', enabled: true, field: 'dynamicPressure', condition: 'above', threshold: 20, hysteresis: 1, holdMs: 0, severity: 'warning', phases: [], message: 'Warning. Dynamic pressure limit.', voice: true, visual: true },
+      { id: 'max-g', name: 'G Limit', enabled: true, field: 'gForce', condition: 'above', threshold: 12, hysteresis: 0.5, holdMs: 100, severity: 'warning', phases: [], message: 'Warning. G limit.', voice: true, visual: true },
+      { id: 'min-g', name: 'Negative G Limit', enabled: false, field: 'gForce', condition: 'below', threshold: -2, hysteresis: 0.5, holdMs: 100, severity: 'caution', phases: [], message: '', voice: true, visual: true },
+      { id: 'high-density', name: 'High Air Density', enabled: false, field: 'density', condition: 'above', threshold: 1.5, hysteresis: 0.05, holdMs: 0, severity: 'advisory', phases: [], message: '', voice: false, visual: true },
+      { id: 'low-density', name: 'Low Air Density', enabled: false, field: 'density', condition: 'below', threshold: 0, hysteresis: 0.05, holdMs: 0, severity: 'advisory', phases: [], message: '', voice: false, visual: true },
+      { id: 'main-descent', name: 'Fast Descent Under Main', enabled: true, field: 'vSpeed', condition: 'below', threshold: -15, hysteresis: 1, holdMs: 2000, severity: 'caution', phases: ['main'], message: 'Caution. High descent rate under main.', voice: true, visual: true },
+      { id: 'stale', name: 'Telemetry Stale', enabled: true, field: 'timeElapsed', condition: 'stale', threshold: 3000, hysteresis: 0, holdMs: 0, severity: 'caution', phases: [], message: 'Caution. Telemetry stale.', voice: false, visual: true },
+      { id: 'link-loss', name: 'Link Degraded', enabled: true, field: 'linkLoss', condition: 'above', threshold: 20, hysteresis: 5, holdMs: 3000, severity: 'caution', phases: [], message: 'Caution. Telemetry link degraded.', voice: true, visual: true }
+    ]
+  },
   
   wind: {
     mode: 'single',
@@ -119,10 +158,21 @@ export const DEFAULT_SETTINGS: AppSettings = {
     gpsWeight: 0.7
   },
 
+  dispersion: {
+    enabled: false,
+    samples: 200,
+    windSpeedSigma: 0.25,
+    windDirSigma: 15,
+    dragSigma: 0.1,
+    massSigma: 0.05,
+    velocitySigma: 2
+  },
+
   terrain: {
     enabled: false, 
     provider: 'local',
-    localUrl: 'http://localhost:5000/api/elevation'
+    localUrl: 'http://localhost:5000/dem',
+    tileFormat: 'hgt'
   },
 
   simulation: {
@@ -157,10 +207,9 @@ export const DEFAULT_SETTINGS: AppSettings = {
     pitch: 1.0,
     alerts: {
       connection: true,
-      thermal: true,
-      altitude: true,
-      dynamics: true,
-      mission: true 
+      rules: true,
+      mission: true,
+      events: true
     }
   },
 
@@ -169,11 +218,131 @@ export const DEFAULT_SETTINGS: AppSettings = {
     validate: false
   },
 
+  uplink: {
+    commands: [
+      { id: 'ping', name: 'Ping', template: 'PING', description: 'Link check', expectAck: true },
+      { id: 'arm', name: 'Arm', template: 'ARM', description: 'Arm the flight computer', expectAck: true },
+      { id: 'disarm', name: 'Disarm', template: 'DISARM', description: 'Disarm the flight computer', expectAck: true },
+      { id: 'cal', name: 'Calibrate', template: 'CAL', description: 'Zero the barometer and IMU on the pad', expectAck: true },
+      { id: 'set-rate', name: 'Set Rate', template: 'SET_RATE {rate}', description: 'Telemetry rate (Hz)', expectAck: true },
+      { id: 'buzzer', name: 'Buzzer', template: 'BUZZER {seconds}', description: 'Sound the recovery buzzer', expectAck: false }
+    ],
+    ackKeyword: 'ACK',
+    nackKeyword: 'NACK',
+    timeoutMs: 1500,
+    retries: 2,
+    lineEnding: 'lf'
+  },
+
+  pyro: {
+    armCommand: 'ARM',
+    disarmCommand: 'DISARM',
+    armedChannel: '',
+    channels: [
+      { id: 'drogue', name: 'Drogue', fireCommand: 'FIRE 1', continuityChannel: '' },
+      { id: 'main', name: 'Main', fireCommand: 'FIRE 2', continuityChannel: '' }
+    ],
+    fireClockStates: ['hold'],
+    maxLinkAgeMs: 2000,
+    maxLinkLossPercent: 10,
+    maxChecksumFailures: 5,
+    holdToFireMs: 2000
+  },
+
+  protocol: {
+    mode: 'text',
+    lineFormat: 'csv',
+    aliases: [
+      { key: 'alt', field: 'relAltitude' },
+      { key: 'abs_alt', field: 'absAltitude' },
+      { key: 'press', field: 'pressure' },
+      { key: 'baro', field: 'pressure' },
+      { key: 'temp', field: 'temperature' },
+      { key: 'therm', field: 'thermistorTemp' },
+      { key: 'lat', field: 'latitude' },
+      { key: 'lon', field: 'longitude' },
+      { key: 'lng', field: 'longitude' },
+      { key: 'gps.lat', field: 'latitude' },
+      { key: 'gps.lon', field: 'longitude' },
+      { key: 'gps.alt', field: 'gpsAltitude' },
+      { key: 'hdg', field: 'heading' },
+      { key: 'vs', field: 'vSpeed' },
+      { key: 'climb', field: 'vSpeed' },
+      { key: 'gs', field: 'hSpeed' },
+      { key: 't', field: 'timeElapsed' },
+      { key: 'time', field: 'timeElapsed' },
+      { key: 'rho', field: 'density' },
+      { key: 'roll', field: 'gy' },
+      { key: 'pitch', field: 'gx' },
+      { key: 'yaw', field: 'gz' },
+      { key: 'acc.x', field: 'ax' },
+      { key: 'acc.y', field: 'ay' },
+      { key: 'acc.z', field: 'az' }
+    ],
+    binary: {
+      syncWord: 'AA55',
+      lengthBytes: 1,
+      frameType: 1,
+      littleEndian: true,
+      crc: 'crc16',
+      fields: [
+        { field: 'timeElapsed', type: 'uint32', scale: 1, offset: 0 },
+        { field: 'pressure', type: 'float32', scale: 1, offset: 0 },
+        { field: 'temperature', type: 'int16', scale: 0.01, offset: 0 },
+        { field: 'latitude', type: 'int32', scale: 1e-7, offset: 0 },
+        { field: 'longitude', type: 'int32', scale: 1e-7, offset: 0 },
+        { field: 'absAltitude', type: 'float32', scale: 1, offset: 0 },
+        { field: 'relAltitude', type: 'float32', scale: 1, offset: 0 },
+        { field: 'vSpeed', type: 'int16', scale: 0.01, offset: 0 },
+        { field: 'hSpeed', type: 'int16', scale: 0.01, offset: 0 },
+        { field: 'heading', type: 'uint16', scale: 0.01, offset: 0 },
+        { field: 'gx', type: 'int16', scale: 0.1, offset: 0 },
+        { field: 'gy', type: 'int16', scale: 0.1, offset: 0 },
+        { field: 'gz', type: 'int16', scale: 0.1, offset: 0 }
+      ]
+    }
+  },
+
+  customChannels: [],
+
+  vehicles: {
+    primaryName: 'Vehicle 1',
+    primaryColor: '#22d3ee',
+    extra: []
+  },
+
   mission: {
     countDownStart: 10,
     unit: 'minutes' // Added default
   },
 
+  flightEvents: {
+    liftoffVSpeed: 5,
+    liftoffAltitude: 3,
+    deployRateDrop: 0.35,
+    minDeployRate: 5,
+    landingVSpeed: 1,
+    landingHoldMs: 2000
+  },
+
+  estimator: {
+    enabled: true,
+    baroNoise: 1.5,
+    gpsNoise: 8,
+    accelNoise: 1.0,
+    processNoise: 10,
+    useGps: true,
+    accelAxis: 'az'
+  },
+
+  ahrs: {
+    enabled: false,
+    useAccel: true,
+    accelGain: 1.0,
+    useHeading: false,
+    headingGain: 0.2
+  },
+
   graphics: {
     animations: true,
     glowEffects: true,
@@ -0,0 +1,68 @@
+import { useState, useRef, useEffect } from 'react';
+import { TelemetryPacket, AppSettings } from '../types';
+import { DispersionRequest, DispersionResult } from '../utils/dispersion';
+import { sharedCompute } from '../utils/compute';
+import { filteredAltitude, filteredVSpeed } from '../utils/stateEstimator';
+
+const MIN_ALTITUDE = 5; // m; matches predictLanding's own cut-off
+
+/**
+ * AETHER: Landing dispersion for the latest packet of `history`, computed by the shared compute
+ * client in its worker whatever the calculation mode (on the UI thread, with fewer samples, only
+ * if the worker is unavailable).
+ * Runs at most once per landing.predictionInterval and never queues: while a run is in flight,
+ * newer packets are skipped and the next one after it completes starts the next run.
+ */
+export const useLandingDispersion = (history: TelemetryPacket[], settings: AppSettings, active: boolean, groundAlt = 0): DispersionResult | null => {
+    const [result, setResult] = useState<DispersionResult | null>(null);
+    const busyRef = useRef(false);
+    const lastRunRef = useRef(0);
+    const activeRef = useRef(active);
+
+    useEffect(() => {
+        activeRef.current = active;
+        lastRunRef.current = 0;
+        if (!active) setResult(null);
+    }, [active]);
+
+    const { descent, wind, landing, dispersion } = settings;
+
+    // New settings should show up on the next packet rather than after the interval
+    useEffect(() => { lastRunRef.current = 0; }, [descent, wind, landing, dispersion, groundAlt]);
+
+    useEffect(() => {
+        if (!active || busyRef.current) return;
+        const now = Date.now();
+        if (now - lastRunRef.current < landing.predictionInterval) return;
+
+        const last = history[history.length - 1];
+        if (!last || Math.abs(last.latitude) < 0.0001 || filteredAltitude(last) < MIN_ALTITUDE) {
+            setResult(null);
+            return;
+        }
+
+        const request: DispersionRequest = {
+            time: last.timeElapsed,
+            lat: last.latitude,
+            lon: last.longitude,
+            alt: filteredAltitude(last),
+            vSpeed: filteredVSpeed(last),
+            hSpeed: last.hSpeed,
+            heading: last.heading,
+            density: last.density,
+            // The predictor only looks at the last few fixes for the ground-track vector
+            history: history.slice(-3).map(p => ({ latitude: p.latitude, longitude: p.longitude, timeElapsed: p.timeElapsed })),
+            descent, wind, landing,
+            groundAlt,
+            config: dispersion
+        };
+        busyRef.current = true;
+        lastRunRef.current = now;
+        sharedCompute.run('dispersion', request)
+            .then(next => { if (activeRef.current) setResult(next); })
+            .catch(e => console.error("Landing dispersion failed:", e))
+            .finally(() => { busyRef.current = false; });
+    }, [history, descent, wind, landing, dispersion, active, groundAlt]);
+
+    return result;
+};
@@ -1,6 +1,17 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
-import { ConnectionStatus, TelemetryPacket, CsvField, SerialConfig, SimulationPreset, HardwareMode, ChecksumMode, WindSettings, DescentSettings, SimulationConfig } from '../types';
-import { parseTelemetryLine, generateMockData, setSimScenario } from '../utils/parser';
+import { ConnectionStatus, TelemetryPacket, CsvField, SerialConfig, SimulationPreset, HardwareMode, ChecksumMode, WindSettings, DescentSettings, SimulationConfig, ProtocolSettings, VehicleState } from '../types';
+import { parseTelemetryLine } from '../utils/parser';
+import { createComputeClient } from '../utils/compute';
+import { FrameDecoder, createBinaryFrameDecoder } from '../utils/binaryDecoder';
+import { createMavlinkDecoder } from '../utils/mavlink';
+import { isNmeaSentence, createNmeaContext, selectNmeaContext } from '../utils/nmea';
+import { isHeaderRow } from '../utils/csvAutoMap';
+import { createLinkMonitor } from '../utils/linkStats';
+import { createRawCaptureRecorder, RawCapture, RawCaptureRecorder } from '../utils/rawCapture';
+import { buildPlaybackTimeline, findLineAtTime, clampPlaybackSpeed, LoopRegion } from '../utils/playback';
+import { DEFAULT_SETTINGS } from '../constants';
+
+const FILE_TICK_MS = 20;
 
 interface UseSerialProps {
   serialConfig: SerialConfig;
@@ -20,8 +31,19 @@ interface UseSerialProps {
   checksumMode?: ChecksumMode;
   validateChecksum?: boolean;
 
+  // AETHER: Wire protocol (text lines or binary frames)
+  protocol?: ProtocolSettings;
+
   onDataReceived: (data: TelemetryPacket) => void;
   onAutoReconnectAttempt?: () => void;
+  onHeaderDetected?: (headerLine: string) => void;
+  // File playback jumped back; the last `rewoundPackets` packets emitted will be emitted again.
+  // Counted rather than timed, since timestamps repeat after a logger reboot
+  onPlaybackSeek?: (rewoundPackets: number) => void;
+  // Offered every received text line first; returning true (e.g. an uplink ACK) skips parsing it
+  onLineReceived?: (line: string) => boolean;
+  // Secondary streams must not grab whichever port happens to be first
+  autoReconnect?: boolean;
 }
 
 export const useSerial = ({ 
@@ -41,8 +63,14 @@ export const useSerial = ({
   checksumMode = 'none',
   validateChecksum = false,
 
+  protocol = DEFAULT_SETTINGS.protocol,
+
   onDataReceived, 
-  onAutoReconnectAttempt 
+  onAutoReconnectAttempt,
+  onHeaderDetected,
+  onPlaybackSeek,
+  onLineReceived,
+  autoReconnect = true
 }: UseSerialProps) => {
   const [status, setStatus] = useState<ConnectionStatus>(ConnectionStatus.DISCONNECTED);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
@@ -50,12 +78,19 @@ export const useSerial = ({
   const [isPaused, setIsPaused] = useState(false);
   const [availablePorts, setAvailablePorts] = useState<any[]>([]);
   
-  const [isAutoReconnectEnabled, setIsAutoReconnectEnabled] = useState(true);
+  const [isAutoReconnectEnabled, setIsAutoReconnectEnabled] = useState(autoReconnect);
   const [simProgress, setSimProgress] = useState(0); 
   const [fileLength, setFileLength] = useState(0);
+  const [fileDuration, setFileDuration] = useState(0);
+  const [playbackSpeed, setPlaybackSpeedState] = useState(1);
+  const [loopRegion, setLoopRegionState] = useState<LoopRegion | null>(null);
+  const [vehicleState, setVehicleState] = useState<VehicleState | null>(null);
+  const [isRawCapturing, setIsRawCapturing] = useState(false);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [replayProgress, setReplayProgress] = useState(0);
 
   const portRef = useRef<any>(null); 
-  const readerRef = useRef<ReadableStreamDefaultReader<string> | null>(null);
+  const readerRef = useRef<ReadableStreamDefaultReader<any> | null>(null);
   const keepReadingRef = useRef(false);
   
   const simulationIntervalRef = useRef<number | null>(null);
@@ -64,6 +99,12 @@ export const useSerial = ({
 
   const fileLinesRef = useRef<string[]>([]);
   const fileIndexRef = useRef<number>(0);
+  // AETHER: File playback follows packet timestamps
+  const fileTimesRef = useRef<number[]>([]);
+  const filePacketsRef = useRef<(TelemetryPacket | null)[]>([]);
+  const playheadRef = useRef(0);
+  const playbackSpeedRef = useRef(1);
+  const loopRegionRef = useRef<LoopRegion | null>(null);
   const isFileModeRef = useRef<boolean>(false);
   
   // Refs for Props (to access in callbacks/intervals)
@@ -82,9 +123,34 @@ export const useSerial = ({
   
   const checksumModeRef = useRef(checksumMode);
   const validateChecksumRef = useRef(validateChecksum);
+  const protocolRef = useRef(protocol);
+  const frameDecoderRef = useRef<FrameDecoder | null>(null);
   
   const onDataReceivedRef = useRef(onDataReceived);
   const onAutoReconnectAttemptRef = useRef(onAutoReconnectAttempt);
+  const onHeaderDetectedRef = useRef(onHeaderDetected);
+  const onPlaybackSeekRef = useRef(onPlaybackSeek);
+  const onLineReceivedRef = useRef(onLineReceived);
+
+  // AETHER: Rolling window of raw text lines for CSV auto-mapping
+  const sampleLinesRef = useRef<string[]>([]);
+
+  // AETHER: GPS state is per stream so concurrent vehicles don't share fixes
+  const nmeaContextRef = useRef(createNmeaContext());
+
+  // AETHER: Stream decoding state shared by the port reader and raw replay
+  const isBinaryStreamRef = useRef(false);
+  const textDecoderRef = useRef<TextDecoder>(new TextDecoder());
+  const textBufferRef = useRef('');
+  const awaitingHeaderRef = useRef(true);
+  const rawRecorderRef = useRef<RawCaptureRecorder | null>(null);
+  const linkMonitorRef = useRef(createLinkMonitor());
+  const replayTimerRef = useRef<number | null>(null);
+
+  // AETHER: Each stream owns its simulator, on the thread the calculation mode picks
+  const computeRef = useRef(createComputeClient(calculationMode));
+  const simGenerationRef = useRef(0);
+  const simStepInFlightRef = useRef(false);
 
   useEffect(() => { csvOrderRef.current = csvOrder; }, [csvOrder]);
   useEffect(() => { separatorRef.current = separator; }, [separator]);
@@ -96,6 +162,10 @@ export const useSerial = ({
 
   useEffect(() => { checksumModeRef.current = checksumMode; }, [checksumMode]);
   useEffect(() => { validateChecksumRef.current = validateChecksum; }, [validateChecksum]);
+  useEffect(() => { protocolRef.current = protocol; }, [protocol]);
+
+  useEffect(() => { computeRef.current.setMode(calculationMode); }, [calculationMode]);
+  useEffect(() => () => computeRef.current.terminate(), []);
 
   useEffect(() => {
       let minDelay = 0;
@@ -109,13 +179,32 @@ export const useSerial = ({
      if (simPreset !== simPresetRef.current) {
          simPresetRef.current = simPreset;
          if (isSimulating && !isFileModeRef.current) {
-             setSimScenario(simPreset);
+             computeRef.current.run('simReset', simPreset);
          }
      }
   }, [simPreset, isSimulating]);
   
   useEffect(() => { onDataReceivedRef.current = onDataReceived; }, [onDataReceived]);
   useEffect(() => { onAutoReconnectAttemptRef.current = onAutoReconnectAttempt; }, [onAutoReconnectAttempt]);
+  useEffect(() => { onHeaderDetectedRef.current = onHeaderDetected; }, [onHeaderDetected]);
+  useEffect(() => { onPlaybackSeekRef.current = onPlaybackSeek; }, [onPlaybackSeek]);
+  useEffect(() => { onLineReceivedRef.current = onLineReceived; }, [onLineReceived]);
+
+  // Header rows are reported for auto-mapping instead of being parsed as zeros. Only the first
+  // line of a stream or file may be one: all-text lines later on (status messages, replies) are data.
+  const reportHeaderRow = (line: string): boolean => {
+      if (protocolRef.current.lineFormat !== 'csv' || !isHeaderRow(line, separatorRef.current)) return false;
+      if (onHeaderDetectedRef.current) onHeaderDetectedRef.current(line.trim());
+      return true;
+  };
+
+  const consumeHeaderRow = (line: string): boolean => {
+      if (!awaitingHeaderRef.current || !line.trim()) return false;
+      awaitingHeaderRef.current = false;
+      return reportHeaderRow(line);
+  };
+
+  const getSampleLines = useCallback(() => [...sampleLinesRef.current], []);
   
   const reconnectIntervalRef = useRef<number | null>(null);
 
@@ -246,7 +335,7 @@ export const useSerial = ({
       portRef.current = port;
       keepReadingRef.current = true;
       setStatus(ConnectionStatus.CONNECTED);
-      lastStreamEmitRef.current = 0; 
+      resetStreamDecoders();
       
       if (reconnectIntervalRef.current) {
         clearInterval(reconnectIntervalRef.current);
@@ -283,9 +372,90 @@ export const useSerial = ({
     setErrorMessage(null);
     await cleanup();
     stopSimulation();
+    stopReplay();
+    setVehicleState(null);
     setStatus(ConnectionStatus.DISCONNECTED);
   }, [cleanup]);
 
+  // Protocol is latched when a stream (port or replay) starts
+  const resetStreamDecoders = () => {
+      const mode = protocolRef.current.mode;
+      isBinaryStreamRef.current = mode !== 'text';
+      frameDecoderRef.current = mode === 'mavlink'
+          ? createMavlinkDecoder(setVehicleState)
+          : mode === 'binary' ? createBinaryFrameDecoder(() => protocolRef.current.binary) : null;
+      textDecoderRef.current = new TextDecoder();
+      textBufferRef.current = '';
+      awaitingHeaderRef.current = true;
+      lastStreamEmitRef.current = 0;
+      nmeaContextRef.current = createNmeaContext();
+      sampleLinesRef.current = [];
+      linkMonitorRef.current.reset();
+  };
+
+  const MAX_BUFFER_SIZE = 1 * 1024 * 1024; 
+
+  // Decodes one chunk of received bytes: binary/MAVLink frames, or text lines
+  const processChunk = (value: Uint8Array) => {
+      const link = linkMonitorRef.current;
+      link.addBytes(value.length, Date.now());
+
+      if (isBinaryStreamRef.current) {
+          if (!frameDecoderRef.current) return;
+          const packets = frameDecoderRef.current.push(value);
+          const now = Date.now();
+          packets.forEach(p => link.addPacket(p, now));
+          link.addFrameStats(frameDecoderRef.current.getStats(), now);
+          // Always decode so the byte buffer stays in sync, but only emit the newest frame when throttled
+          if (packets.length > 0 && now - lastStreamEmitRef.current >= effectiveThrottleRef.current) {
+              if (onDataReceivedRef.current) onDataReceivedRef.current(packets[packets.length - 1]);
+              lastStreamEmitRef.current = now;
+          }
+          return;
+      }
+
+      const buffer = textBufferRef.current + textDecoderRef.current.decode(value, { stream: true });
+      if (buffer.length > MAX_BUFFER_SIZE) {
+          textBufferRef.current = ''; // Prevent memory overflow on spam
+          return;
+      }
+
+      const lines = buffer.split('\n');
+      
+      // Process all complete lines
+      for (let i = 0; i < lines.length - 1; i++) {
+        sampleLinesRef.current.push(lines[i]);
+        if (sampleLinesRef.current.length > 50) sampleLinesRef.current.shift();
+        if (onLineReceivedRef.current && onLineReceivedRef.current(lines[i])) continue;
+        if (consumeHeaderRow(lines[i])) continue;
+
+        const now = Date.now();
+        const isThrottled = now - lastStreamEmitRef.current < effectiveThrottleRef.current;
+
+        // Every line is parsed (keeping the GPS state current and the link accounting complete);
+        // throttling only limits how many packets are emitted
+        selectNmeaContext(nmeaContextRef.current);
+        const packet = parseTelemetryLine(
+            lines[i], 
+            csvOrderRef.current, 
+            separatorRef.current,
+            checksumModeRef.current,
+            validateChecksumRef.current,
+            protocolRef.current.lineFormat,
+            protocolRef.current.aliases,
+            reason => link.addReject(reason, now)
+        );
+        if (packet) link.addPacket(packet, now);
+        
+        if (packet && !isThrottled) {
+          if (onDataReceivedRef.current) onDataReceivedRef.current(packet);
+          lastStreamEmitRef.current = now;
+        }
+      }
+      // Keep the last partial line
+      textBufferRef.current = lines[lines.length - 1];
+  };
+
   const readLoop = async (port: any) => {
     if (port.readable.locked) {
         setErrorMessage("Port stream is locked. Try disconnecting and reconnecting.");
@@ -293,49 +463,17 @@ export const useSerial = ({
         return;
     }
 
-    const textDecoder = new TextDecoderStream();
-    const readableStreamClosed = port.readable.pipeTo(textDecoder.writable);
-    const reader = textDecoder.readable.getReader();
+    // AETHER: Bytes are read raw (text is decoded in processChunk) so they can be captured as received
+    const reader: ReadableStreamDefaultReader<Uint8Array> = port.readable.getReader();
     readerRef.current = reader;
 
-    let buffer = '';
-    const MAX_BUFFER_SIZE = 1 * 1024 * 1024; 
-
     try {
       while (keepReadingRef.current) {
         const { value, done } = await reader.read();
         if (done) break;
-        
-        if (value) {
-            buffer += value;
-            if (buffer.length > MAX_BUFFER_SIZE) {
-                buffer = ''; // Prevent memory overflow on spam
-                continue;
-            }
-
-            const lines = buffer.split('\n');
-            
-            // Process all complete lines
-            for (let i = 0; i < lines.length - 1; i++) {
-              const now = Date.now();
-              if (now - lastStreamEmitRef.current >= effectiveThrottleRef.current) {
-                  const packet = parseTelemetryLine(
-                      lines[i], 
-                      csvOrderRef.current, 
-                      separatorRef.current,
-                      checksumModeRef.current,
-                      validateChecksumRef.current
-                  );
-                  
-                  if (packet) {
-                    if (onDataReceivedRef.current) onDataReceivedRef.current(packet);
-                    lastStreamEmitRef.current = now;
-                  }
-              }
-            }
-            // Keep the last partial line
-            buffer = lines[lines.length - 1];
-        }
+        if (!value) continue;
+        if (rawRecorderRef.current) rawRecorderRef.current.push(value);
+        processChunk(value);
       }
     } catch (error: any) {
       if (error.name === 'NetworkError') {
@@ -359,6 +497,84 @@ export const useSerial = ({
     }
   };
 
+  /** Link quality of the port (or raw replay) stream since it started */
+  const getLinkStats = useCallback(() => linkMonitorRef.current.snapshot(Date.now()), []);
+
+  // --- AETHER: Uplink ---
+  // Each write takes the port's writer lock and releases it; writes are chained so they never overlap
+  const writeChainRef = useRef<Promise<void>>(Promise.resolve());
+  const textEncoderRef = useRef(new TextEncoder());
+
+  const writeLine = useCallback((text: string): Promise<void> => {
+      const write = async () => {
+          const port = portRef.current;
+          if (!port || !port.writable) throw new Error("No serial port open for writing.");
+          const writer: WritableStreamDefaultWriter<Uint8Array> = port.writable.getWriter();
+          try {
+              await writer.write(textEncoderRef.current.encode(text));
+          } finally {
+              writer.releaseLock();
+          }
+      };
+      const result = writeChainRef.current.then(write);
+      writeChainRef.current = result.catch(() => {});
+      return result;
+  }, []);
+
+  // --- AETHER: Raw capture & replay ---
+  const startRawCapture = useCallback(() => {
+      rawRecorderRef.current = createRawCaptureRecorder();
+      setIsRawCapturing(true);
+  }, []);
+
+  const stopRawCapture = useCallback((): RawCapture | null => {
+      const recorder = rawRecorderRef.current;
+      rawRecorderRef.current = null;
+      setIsRawCapturing(false);
+      return recorder ? recorder.finish() : null;
+  }, []);
+
+  const getRawCaptureBytes = useCallback(() => rawRecorderRef.current ? rawRecorderRef.current.getByteCount() : 0, []);
+
+  const stopReplay = useCallback(() => {
+      if (replayTimerRef.current) {
+          clearTimeout(replayTimerRef.current);
+          replayTimerRef.current = null;
+      }
+      setIsReplaying(false);
+  }, []);
+
+  /** Feeds a raw capture back through the current parser settings at its original timing. */
+  const startReplay = useCallback((capture: RawCapture) => {
+      if (portRef.current || isSimulating) return;
+      stopReplay();
+      resetStreamDecoders();
+      setErrorMessage(null);
+      setIsReplaying(true);
+      setReplayProgress(0);
+      setStatus(ConnectionStatus.CONNECTED);
+
+      const origin = performance.now();
+      let index = 0;
+      const tick = () => {
+          const elapsed = performance.now() - origin;
+          while (index < capture.chunks.length && capture.chunks[index].t <= elapsed) {
+              processChunk(capture.chunks[index].data);
+              index++;
+          }
+          setReplayProgress(capture.chunks.length > 0 ? index / capture.chunks.length : 1);
+          if (index >= capture.chunks.length) {
+              replayTimerRef.current = null;
+              setIsReplaying(false);
+              setStatus(ConnectionStatus.DISCONNECTED);
+              setErrorMessage("Raw replay finished.");
+              return;
+          }
+          replayTimerRef.current = window.setTimeout(tick, Math.min(50, capture.chunks[index].t - elapsed));
+      };
+      tick();
+  }, [isSimulating, stopReplay]);
+
   const triggerAutoReconnect = useCallback(() => {
      if (reconnectIntervalRef.current || !isAutoReconnectEnabled) return;
      
@@ -396,21 +612,91 @@ export const useSerial = ({
     return () => navigator.serial.removeEventListener('disconnect', handleDisconnect);
   }, [triggerAutoReconnect]);
 
+  const parseFileLine = (line: string) => {
+      selectNmeaContext(nmeaContextRef.current);
+      return parseTelemetryLine(
+          line, 
+          csvOrderRef.current, 
+          separatorRef.current,
+          checksumModeRef.current,
+          validateChecksumRef.current,
+          protocolRef.current.lineFormat,
+          protocolRef.current.aliases
+      );
+  };
+
+  const emitFileLine = (index: number) => {
+      const packet = filePacketsRef.current[index];
+      if (packet && onDataReceivedRef.current) onDataReceivedRef.current({ ...packet });
+  };
+
+  // A loaded file is parsed once, in order, with a fresh GPS context; playback emits the stored
+  // packets and the timeline comes from their times (headers and NMEA carry none)
+  const readFileLines = (lines: string[]) => {
+      nmeaContextRef.current = createNmeaContext();
+      const lineTimes = new Array<number | null>(lines.length);
+      filePacketsRef.current = lines.map((line, i) => {
+          const packet = i === 0 && reportHeaderRow(line) ? null : parseFileLine(line);
+          lineTimes[i] = packet && packet.timeElapsed > 0 && !isNmeaSentence(line.trim()) ? packet.timeElapsed : null;
+          return packet;
+      });
+      const timeline = buildPlaybackTimeline(lineTimes, simIntervalRef.current);
+      fileTimesRef.current = timeline.times;
+      setFileDuration(getFileDuration());
+  };
+
+  const getFileDuration = () => {
+      const times = fileTimesRef.current;
+      return times.length > 0 ? times[times.length - 1] : 0;
+  };
+
+  /** Moves the playhead without emitting; the next tick resumes from the first line at or after `time`. */
+  const jumpToTime = (time: number) => {
+      const duration = getFileDuration();
+      const previousIndex = fileIndexRef.current;
+      playheadRef.current = Math.max(0, Math.min(duration, time));
+      fileIndexRef.current = findLineAtTime(fileTimesRef.current, playheadRef.current);
+      setSimProgress(duration > 0 ? playheadRef.current / duration : 0);
+      let rewound = 0;
+      for (let i = fileIndexRef.current; i < previousIndex; i++) {
+          if (filePacketsRef.current[i]) rewound++;
+      }
+      if (rewound > 0 && onPlaybackSeekRef.current) onPlaybackSeekRef.current(rewound);
+  };
+
+  // A mapping or protocol change re-reads the loaded file; playback carries on from the same time
+  useEffect(() => {
+      if (!isFileModeRef.current || fileLinesRef.current.length === 0) return;
+      readFileLines(fileLinesRef.current);
+      fileIndexRef.current = findLineAtTime(fileTimesRef.current, playheadRef.current);
+  }, [csvOrder, separator, protocol, checksumMode, validateChecksum]);
+
+  const MAX_LINES_PER_TICK = 2000;
+
   const runSimulationTick = useCallback(() => {
     if (isFileModeRef.current) {
-        if (fileIndexRef.current < fileLinesRef.current.length) {
-            const line = fileLinesRef.current[fileIndexRef.current];
-            const packet = parseTelemetryLine(
-                line, 
-                csvOrderRef.current, 
-                separatorRef.current,
-                checksumModeRef.current,
-                validateChecksumRef.current
-            );
-            if (packet && onDataReceivedRef.current) onDataReceivedRef.current(packet);
+        const times = fileTimesRef.current;
+        const now = Date.now();
+        const dt = now - lastSimTickRef.current;
+        lastSimTickRef.current = now;
+        const duration = getFileDuration();
+        playheadRef.current += dt * playbackSpeedRef.current;
+
+        const loop = loopRegionRef.current;
+        if (loop && duration > 0 && playheadRef.current >= loop.end * duration) {
+            jumpToTime(loop.start * duration);
+            return;
+        }
+
+        let emitted = 0;
+        while (fileIndexRef.current < times.length && times[fileIndexRef.current] <= playheadRef.current && emitted < MAX_LINES_PER_TICK) {
+            emitFileLine(fileIndexRef.current);
             fileIndexRef.current++;
-            setSimProgress(fileIndexRef.current / fileLinesRef.current.length);
-        } else {
+            emitted++;
+        }
+        setSimProgress(duration > 0 ? Math.min(1, playheadRef.current / duration) : fileIndexRef.current / Math.max(1, times.length));
+
+        if (fileIndexRef.current >= times.length) {
             stopSimulation();
             setErrorMessage("Simulation playback finished.");
         }
@@ -448,12 +734,21 @@ export const useSerial = ({
             }
         };
 
-        const mockData = generateMockData(
-            accumulatedSimTimeRef.current, 
-            simPresetRef.current, 
-            simContext
-        );
-        if (onDataReceivedRef.current) onDataReceivedRef.current(mockData);
+        // Off-thread steps never queue up: a tick that finds one in flight only advances the clock
+        if (simStepInFlightRef.current) return;
+        simStepInFlightRef.current = true;
+        const generation = simGenerationRef.current;
+        computeRef.current.run('simStep', {
+            time: accumulatedSimTimeRef.current,
+            preset: simPresetRef.current,
+            context: simContext
+        }).then(mockData => {
+            if (generation === simGenerationRef.current && onDataReceivedRef.current) onDataReceivedRef.current(mockData);
+        }).catch(e => {
+            console.error("Simulation step failed:", e);
+        }).finally(() => {
+            simStepInFlightRef.current = false;
+        });
     }
   }, []);
 
@@ -465,19 +760,25 @@ export const useSerial = ({
     
     accumulatedSimTimeRef.current = 0;
     lastSimTickRef.current = Date.now();
+    nmeaContextRef.current = createNmeaContext();
+    simGenerationRef.current++;
     
     if (fileContent) {
         isFileModeRef.current = true;
         const lines = fileContent.split('\n').filter(l => l.trim().length > 0);
         fileLinesRef.current = lines;
+        sampleLinesRef.current = lines.slice(0, 50);
         setFileLength(lines.length);
+        readFileLines(lines);
         fileIndexRef.current = 0;
+        playheadRef.current = 0;
         setSimProgress(0);
+        lastSimTickRef.current = Date.now();
     } else {
         isFileModeRef.current = false;
         fileLinesRef.current = [];
         setFileLength(0);
-        setSimScenario(simPresetRef.current);
+        computeRef.current.run('simReset', simPresetRef.current);
     }
   }, []);
 
@@ -488,8 +789,13 @@ export const useSerial = ({
     }
     setIsSimulating(false);
     setIsPaused(false);
+    simGenerationRef.current++;
     isFileModeRef.current = false;
     fileLinesRef.current = [];
+    filePacketsRef.current = [];
+    fileTimesRef.current = [];
+    loopRegionRef.current = null;
+    setLoopRegionState(null);
     setStatus(ConnectionStatus.DISCONNECTED);
   }, []);
 
@@ -503,17 +809,60 @@ export const useSerial = ({
       });
   }, []);
 
+  // Seeks by time, not line index
   const seekSimulation = useCallback((percentage: number) => {
     if (!isFileModeRef.current || fileLinesRef.current.length === 0) return;
-    const newIndex = Math.floor(percentage * fileLinesRef.current.length);
-    fileIndexRef.current = newIndex;
-    setSimProgress(percentage);
+    jumpToTime(percentage * getFileDuration());
+  }, []);
+
+  /** Pauses and steps one frame (all lines sharing a timestamp) forwards or backwards. */
+  const stepFrame = useCallback((direction: 1 | -1) => {
+    if (!isFileModeRef.current || fileLinesRef.current.length === 0) return;
+    setIsPaused(true);
+    const times = fileTimesRef.current;
+    const duration = getFileDuration();
+
+    if (direction > 0) {
+        if (fileIndexRef.current >= times.length) return;
+        const frameTime = times[fileIndexRef.current];
+        while (fileIndexRef.current < times.length && times[fileIndexRef.current] === frameTime) {
+            emitFileLine(fileIndexRef.current);
+            fileIndexRef.current++;
+        }
+        playheadRef.current = frameTime;
+        setSimProgress(duration > 0 ? frameTime / duration : fileIndexRef.current / times.length);
+        return;
+    }
+
+    // Back: rewind to the frame before the last one shown; the history is trimmed to it, so nothing is re-emitted
+    const lastShown = fileIndexRef.current - 1;
+    if (lastShown < 0) return;
+    const previousFrameEnd = findLineAtTime(times, times[lastShown]) - 1;
+    if (previousFrameEnd < 0) return;
+    const frameTime = times[previousFrameEnd];
+    jumpToTime(frameTime);
+    fileIndexRef.current = previousFrameEnd + 1;
+  }, []);
+
+  const setPlaybackSpeed = useCallback((speed: number) => {
+    const clamped = clampPlaybackSpeed(speed);
+    playbackSpeedRef.current = clamped;
+    setPlaybackSpeedState(clamped);
+  }, []);
+
+  const setLoopRegion = useCallback((region: LoopRegion | null) => {
+    const normalized = region && region.end > region.start ? region : null;
+    loopRegionRef.current = normalized;
+    setLoopRegionState(normalized);
   }, []);
 
   useEffect(() => {
       if (isSimulating && !isPaused) {
           if (simulationIntervalRef.current) clearInterval(simulationIntervalRef.current);
-          const tickRate = Math.max(simInterval, effectiveThrottleRef.current);
+          // File playback is timestamp-driven, so it ticks finely; the preset simulator keeps simInterval
+          const tickRate = isFileModeRef.current
+              ? Math.max(FILE_TICK_MS, effectiveThrottleRef.current)
+              : Math.max(simInterval, effectiveThrottleRef.current);
           simulationIntervalRef.current = window.setInterval(runSimulationTick, tickRate);
       } else {
           if (simulationIntervalRef.current) {
@@ -543,10 +892,28 @@ export const useSerial = ({
     stopSimulation,
     seekSimulation,
     simProgress,
+    fileDuration,
+    playbackSpeed,
+    setPlaybackSpeed,
+    stepFrame,
+    loopRegion,
+    setLoopRegion,
     availablePorts,
     refreshPorts: checkPorts,
     requestAccess, 
     isAutoReconnectEnabled,
-    toggleAutoReconnect
+    toggleAutoReconnect,
+    vehicleState,
+    getSampleLines,
+    isRawCapturing,
+    startRawCapture,
+    stopRawCapture,
+    getRawCaptureBytes,
+    isReplaying,
+    replayProgress,
+    startReplay,
+    stopReplay,
+    writeLine,
+    getLinkStats
   };
 };
\ No newline at end of file
@@ -0,0 +1,35 @@
+import { useState, useEffect, useMemo } from 'react';
+import { TelemetryPacket, TerrainSettings } from '../types';
+import { getElevation, isTerrainActive } from '../utils/terrain';
+
+// ~10 m; finer target movement does not trigger a new lookup
+const TARGET_PRECISION = 1e4;
+
+/**
+ * AETHER: Ground level at `target` relative to the launch pad (m), for predictLanding's groundAlt.
+ * Both ends come from the same DEM, so the pad's MSL elevation never has to be known. Returns 0
+ * while terrain is off or either point has no data.
+ */
+export const useTerrainGround = (history: TelemetryPacket[], target: { lat: number, lon: number } | null, terrain: TerrainSettings): number => {
+    const [groundAlt, setGroundAlt] = useState(0);
+
+    const pad = useMemo(() => history.find(p => Math.abs(p.latitude) > 0.0001) ?? null, [history]);
+    const padLat = pad?.latitude, padLon = pad?.longitude;
+    const targetLat = target ? Math.round(target.lat * TARGET_PRECISION) / TARGET_PRECISION : null;
+    const targetLon = target ? Math.round(target.lon * TARGET_PRECISION) / TARGET_PRECISION : null;
+
+    useEffect(() => {
+        if (!isTerrainActive(terrain) || padLat === undefined || padLon === undefined || targetLat === null || targetLon === null) {
+            setGroundAlt(0);
+            return;
+        }
+        let cancelled = false;
+        Promise.all([getElevation(padLat, padLon, terrain), getElevation(targetLat, targetLon, terrain)]).then(([padElevation, groundElevation]) => {
+            if (cancelled) return;
+            setGroundAlt(padElevation !== null && groundElevation !== null ? groundElevation - padElevation : 0);
+        });
+        return () => { cancelled = true; };
+    }, [terrain, padLat, padLon, targetLat, targetLon]);
+
+    return groundAlt;
+};
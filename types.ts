@@ -16,10 +16,41 @@ export interface TelemetryPacket {
   vSpeed: number;
   hSpeed: number;
   density: number;
+
+  // AETHER: GPS receiver data (NMEA)
+  gpsAltitude?: number;
+  fixQuality?: number;
+  satellites?: number;
+  hdop?: number;
+  course?: number;      // Course over ground (deg)
+  groundSpeed?: number; // m/s
+
+  // AETHER: Accelerometer, body frame (m/s² specific force: the up axis reads +g at rest)
+  ax?: number;
+  ay?: number;
+  az?: number;
+
+  // AETHER: State estimator output, filled in by the ground station (utils/stateEstimator.ts)
+  estAltitude?: number;  // m, relative to the pad
+  estVSpeed?: number;    // m/s
+  estAccel?: number;     // m/s², vertical, gravity removed
+
+  // AETHER: AHRS attitude quaternion, body to East-North-Up (utils/ahrs.ts)
+  qw?: number;
+  qx?: number;
+  qy?: number;
+  qz?: number;
+
+  // AETHER: Named channels outside the fixed schema (e.g. unknown keys)
+  channels?: Record<string, number>;
+  
   id?: string; 
 }
 
-export type CsvField = keyof TelemetryPacket | '__SKIP__';
+// AETHER: Custom channels are addressed as 'ch:<key>' in CSV maps, binary layouts and aliases
+export type ChannelField = `ch:${string}`;
+
+export type CsvField = Exclude<keyof TelemetryPacket, 'channels'> | '__SKIP__' | ChannelField;
 
 export enum ConnectionStatus {
   DISCONNECTED = 'Disconnected',
@@ -79,6 +110,51 @@ export interface ThresholdSettings {
   minGForce: number;
 }
 
+// AETHER: Rule-based alert engine (utils/alerts.ts)
+export type AlertSeverity = 'advisory' | 'caution' | 'warning';
+
+export type AlertCondition = 'above' | 'below' | 'rateAbove' | 'rateBelow' | 'stale';
+
+/** Alert rule fields that combine several packet values or come from the station (see utils/alerts.ts) */
+export type AlertDerivedField = 'dynamicPressure' | 'gForce' | 'linkLoss' | 'linkRate';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  field: CsvField | AlertDerivedField;
+  condition: AlertCondition;
+  threshold: number;        // value for above/below, units per second for rates, ms for stale
+  hysteresis: number;       // clears only once back past the threshold by this much (same units)
+  holdMs: number;           // condition must stay true this long before the alert is raised
+  severity: AlertSeverity;
+  phases: FlightPhase[];    // empty: every phase
+  message: string;          // spoken and shown; empty generates one from the rule
+  voice: boolean;
+  visual: boolean;
+}
+
+// AETHER: Alert history, kept by the annunciator and stored with the flight log session
+export type AlertLogType = 'raised' | 'acknowledged' | 'cleared';
+
+export interface AlertLogEntry {
+  type: AlertLogType;
+  time: number;             // station clock (epoch ms)
+  packetTime: number;       // timeElapsed of the primary packet at the time (ms)
+  ruleId: string;
+  name: string;
+  severity: AlertSeverity;
+  condition: AlertCondition;
+  message: string;
+  value?: number;           // raised: the value that raised it; cleared: the value that cleared it
+  peak?: number;            // cleared: the most extreme value while it was active
+}
+
+export interface AlertSettings {
+  rules: AlertRule[];
+  repeatInterval: number;   // ms between repeated callouts of an unacknowledged warning; 0 announces once
+}
+
 export interface WindLayer {
   altitude: number; // m
   speed: number;    // m/s
@@ -114,12 +190,24 @@ export interface LandingSettings {
   gpsWeight: number; // 0.0 to 1.0 (1.0 = 100% GPS, 0.0 = 100% IMU)
 }
 
+// AETHER: Monte Carlo landing dispersion (1σ of each perturbation)
+export interface DispersionSettings {
+  enabled: boolean;
+  samples: number;          // predictor runs per update
+  windSpeedSigma: number;   // fraction of the configured wind speed
+  windDirSigma: number;     // degrees
+  dragSigma: number;        // fraction of Cd
+  massSigma: number;        // fraction of mass
+  velocitySigma: number;    // m/s, applied to the initial vertical and horizontal speed
+}
+
 export type TerrainProvider = 'none' | 'online' | 'local';
 
 export interface TerrainSettings {
   enabled: boolean;
   provider: TerrainProvider;
-  localUrl: string; 
+  localUrl: string; // base URL serving 1° DEM tiles (N14E121.hgt / .tif)
+  tileFormat: 'hgt' | 'tif';
 }
 
 export interface VoiceSettings {
@@ -130,10 +218,9 @@ export interface VoiceSettings {
   pitch: number;     
   alerts: {
     connection: boolean; 
-    thermal: boolean;    
-    altitude: boolean;   
-    dynamics: boolean;
+    rules: boolean;      // AETHER: Alert rule callouts (per-rule voice flags still apply)
     mission: boolean; 
+    events: boolean;     // AETHER: Flight phase callouts (liftoff, apogee, deployments...)
   };
 }
 
@@ -144,11 +231,145 @@ export interface ChecksumSettings {
   validate: boolean; 
 }
 
+// AETHER: Uplink command console
+export interface UplinkCommand {
+  id: string;
+  name: string;
+  template: string;       // e.g. "SET_RATE {rate}"; each {param} is filled in before sending
+  description: string;
+  expectAck: boolean;     // false = fire and forget
+}
+
+export interface UplinkSettings {
+  commands: UplinkCommand[];
+  ackKeyword: string;     // Vehicle replies "<ackKeyword> <COMMAND> [detail]" when it accepts a command
+  nackKeyword: string;    // ...and "<nackKeyword> <COMMAND> [reason]" when it rejects one
+  timeoutMs: number;      // Wait per attempt before resending
+  retries: number;        // Resends after the first attempt
+  lineEnding: 'lf' | 'crlf';
+}
+
+// AETHER: Pad safety (arming and pyro channels), sent over the uplink
+export interface PyroChannel {
+  id: string;
+  name: string;               // e.g. "Drogue"
+  fireCommand: string;        // e.g. "FIRE 1"
+  continuityChannel: string;  // Custom channel key, non-zero = continuity; '' = not reported
+}
+
+export interface PyroSettings {
+  armCommand: string;
+  disarmCommand: string;
+  armedChannel: string;       // Custom channel key, non-zero = armed; '' = MAVLink heartbeat armed flag
+  channels: PyroChannel[];
+  fireClockStates: MissionClockState[];  // Mission clock states in which fire commands are allowed
+  maxLinkAgeMs: number;       // Newest packet must be younger than this for the link to count as healthy
+  maxLinkLossPercent: number; // Measured loss above this makes the link unhealthy
+  maxChecksumFailures: number; // Checksum failures in the last 10 s above this make the link unhealthy
+  holdToFireMs: number;
+}
+
+export type PyroAuditAction = 'arm' | 'disarm' | 'fire' | 'blocked' | 'cancelled' | 'acked' | 'nacked' | 'timeout' | 'error';
+
+export interface PyroAuditEntry {
+  time: number;         // Date.now()
+  missionTime: number;  // s, negative before T-0
+  action: PyroAuditAction;
+  target: string;       // 'System' for arm/disarm, else the channel name
+  command: string;
+  detail: string;
+}
+
+// AETHER: Binary Framed Protocol
+// Frame: [sync word][length][type][payload][crc]
+export type StreamProtocol = 'text' | 'binary' | 'mavlink';
+export type BinaryFieldType = 'uint8' | 'int8' | 'uint16' | 'int16' | 'uint32' | 'int32' | 'float32' | 'float64';
+export type BinaryCrcMode = 'none' | 'xor8' | 'sum8' | 'crc16';
+
+export interface BinaryFieldDef {
+  field: CsvField;        // Target packet field (SKIP = padding)
+  type: BinaryFieldType;
+  scale: number;          // value = raw * scale + offset
+  offset: number;
+}
+
+export interface BinaryFrameLayout {
+  syncWord: string;       // Hex bytes, e.g. "AA55"
+  lengthBytes: 1 | 2;     // Size of the payload length field
+  frameType: number;      // Accepted type byte (-1 = any)
+  littleEndian: boolean;
+  crc: BinaryCrcMode;     // Covers length + type + payload
+  fields: BinaryFieldDef[];
+}
+
+// AETHER: Text line formats. 'auto' detects per line ({...} = JSON, k=v = key/value, else CSV)
+export type LineFormat = 'csv' | 'keyvalue' | 'json' | 'auto';
+
+export interface FieldAlias {
+  key: string;      // Incoming key (case-insensitive)
+  field: CsvField;  // Target packet field
+}
+
+export interface ProtocolSettings {
+  mode: StreamProtocol;
+  binary: BinaryFrameLayout;
+  lineFormat: LineFormat;
+  aliases: FieldAlias[];
+}
+
+// AETHER: Autopilot state reported by MAVLink HEARTBEAT
+export interface VehicleState {
+  flightMode: string;
+  armed: boolean;
+  systemStatus: string;
+  lastHeartbeat: number; // Date.now() of last heartbeat
+}
+
+// AETHER: User-declared telemetry channel (battery, RSSI, servos, humidity...)
+export interface CustomChannelDef {
+  key: string;        // Stored as packet.channels[key]
+  label: string;
+  units: string;
+  min: number;        // Expected range: below/above raises the StatCard alert
+  max: number;
+  color: string;
+  showChart: boolean;
+  showCard: boolean;
+  expression?: string; // AETHER: Derived channel, computed per packet instead of read from the stream
+}
+
+// AETHER: Additional concurrent vehicle stream (the primary uses the top-level serial/CSV settings)
+export interface VehicleSourceConfig {
+  id: string;
+  name: string;
+  color: string;
+  serial: SerialConfig;
+  csvOrder: CsvField[];
+  separator: string;
+  protocol: ProtocolSettings;
+  checksum?: ChecksumSettings;  // unset: the primary link's checksum settings
+}
+
+export interface FleetSettings {
+  primaryName: string;
+  primaryColor: string;
+  extra: VehicleSourceConfig[];
+}
+
+export interface VehicleTrack {
+  id: string;
+  name: string;
+  color: string;
+  history: TelemetryPacket[];
+}
+
 export interface MissionTimerSettings {
   countDownStart: number; 
   unit: 'minutes' | 'seconds'; // Added unit selection
 }
 
+export type MissionClockState = 'reset' | 'running' | 'hold';
+
 export type VehicleIconType = 'arrow' | 'rocket' | 'plane' | 'drone' | 'car' | 'helicopter' | 'ship';
 
 export interface GraphicsSettings {
@@ -252,10 +473,12 @@ export interface AppSettings {
   streamThrottle: number;
   units: UnitSettings; 
   thresholds: ThresholdSettings; 
+  alerts: AlertSettings;
   
   wind: WindSettings;       
   descent: DescentSettings; 
   landing: LandingSettings; 
+  dispersion: DispersionSettings;
   terrain: TerrainSettings;
   
   // AETHER: New Sim Config
@@ -263,11 +486,73 @@ export interface AppSettings {
   
   voice: VoiceSettings;
   checksum: ChecksumSettings;
+  protocol: ProtocolSettings;
+  uplink: UplinkSettings;
+  pyro: PyroSettings;
+  customChannels: CustomChannelDef[];
+  vehicles: FleetSettings;
   mission: MissionTimerSettings;
+  flightEvents: FlightEventSettings;
+  estimator: EstimatorSettings;
+  ahrs: AhrsSettings;
   graphics: GraphicsSettings; 
   hardware: HardwareSettings; 
 }
 
+// AETHER: Flight phase detection
+export type FlightPhase = 'pad' | 'boost' | 'coast' | 'descent' | 'drogue' | 'main' | 'landed';
+
+export type FlightEventType = 'liftoff' | 'burnout' | 'maxQ' | 'apogee' | 'drogue' | 'main' | 'landing';
+
+export interface FlightEvent {
+  type: FlightEventType;
+  time: number;             // packet timeElapsed (ms)
+  altitude: number;         // relAltitude (m)
+  vSpeed: number;           // m/s
+  hSpeed: number;           // m/s
+  dynamicPressure: number;  // Pa
+}
+
+export interface FlightEventSettings {
+  liftoffVSpeed: number;    // m/s climb rate that counts as off the pad
+  liftoffAltitude: number;  // m above the pad
+  deployRateDrop: number;   // fraction the descent rate must fall from its peak to count as a deployment
+  minDeployRate: number;    // m/s peak descent rate below which rate changes are ignored
+  landingVSpeed: number;    // m/s
+  landingHoldMs: number;    // time the vehicle must stay still to count as landed
+}
+
+// AETHER: Kalman state estimator (altitude / vertical speed / vertical acceleration)
+export type AccelAxis = 'none' | 'ax' | 'ay' | 'az';
+
+export interface EstimatorSettings {
+  enabled: boolean;
+  baroNoise: number;      // m, 1σ of the barometric altitude
+  gpsNoise: number;       // m, 1σ of the GPS altitude
+  accelNoise: number;     // m/s², 1σ of the accelerometer
+  processNoise: number;   // m/s³, white-jerk spectral density
+  useGps: boolean;
+  accelAxis: AccelAxis;   // body axis pointing up the airframe; 'none' ignores the accelerometer
+}
+
+// AETHER: Ground-side attitude estimation from gyro rates
+export interface AhrsSettings {
+  enabled: boolean;       // gx/gy/gz carry rates (deg/s) rather than angles
+  useAccel: boolean;
+  accelGain: number;      // rad/s per unit of tilt error
+  useHeading: boolean;
+  headingGain: number;    // rad/s per radian of heading error
+}
+
+// AETHER: Post-flight analysis
+export interface FlightAnnotation {
+  id: string;
+  time: number;   // packet timeElapsed (ms)
+  label: string;
+  note?: string;
+  color: string;
+}
+
 export interface ToastMessage {
   id: string;
   message: string;
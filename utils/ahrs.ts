@@ -0,0 +1,163 @@
+import { TelemetryPacket, AhrsSettings } from '../types';
+
+// AETHER: Attitude and heading reference (Mahony complementary filter)
+// Integrates the body rates in gx/gy/gz (deg/s) into a quaternion. The accelerometer pulls the
+// estimate back towards gravity whenever it reads close to 1 g, and the compass heading (when
+// enabled) corrects yaw. Coasting and boost readings are far from 1 g and are ignored, so the
+// filter runs on the gyro alone through powered flight.
+//
+// Frames: world is East-North-Up; body is the sensor frame, with body Z up the airframe (the
+// axis the state estimator also reads). Quaternions are [w, x, y, z] and rotate body vectors
+// into the world frame.
+
+export type Quaternion = [number, number, number, number];
+type Vec3 = [number, number, number];
+
+const G = 9.81;
+const DEG = Math.PI / 180;
+const ACCEL_TRUST = 0.15;          // accelerometer is used while |a| is within 15% of 1 g
+const MIN_HEADING_PROJECTION = 0.3; // body X must be at least this horizontal for heading to apply
+const MAX_DT = 1;                  // s; longer gaps are not integrated
+const GYRO_MEAN_WEIGHT = 0.02;     // running mean of raw rates, taken as the bias on zeroing
+
+export const IDENTITY_QUATERNION: Quaternion = [1, 0, 0, 0];
+
+export const multiplyQuaternions = (a: Quaternion, b: Quaternion): Quaternion => [
+    a[0] * b[0] - a[1] * b[1] - a[2] * b[2] - a[3] * b[3],
+    a[0] * b[1] + a[1] * b[0] + a[2] * b[3] - a[3] * b[2],
+    a[0] * b[2] - a[1] * b[3] + a[2] * b[0] + a[3] * b[1],
+    a[0] * b[3] + a[1] * b[2] - a[2] * b[1] + a[3] * b[0]
+];
+
+export const conjugate = (q: Quaternion): Quaternion => [q[0], -q[1], -q[2], -q[3]];
+
+const normalize = (q: Quaternion): Quaternion => {
+    const n = Math.hypot(q[0], q[1], q[2], q[3]);
+    return n > 0 ? [q[0] / n, q[1] / n, q[2] / n, q[3] / n] : IDENTITY_QUATERNION;
+};
+
+/** Body vector to world frame */
+export const rotateVector = (q: Quaternion, v: Vec3): Vec3 => {
+    const r = multiplyQuaternions(multiplyQuaternions(q, [0, v[0], v[1], v[2]]), conjugate(q));
+    return [r[1], r[2], r[3]];
+};
+
+const cross = (a: Vec3, b: Vec3): Vec3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+
+/** Shortest rotation taking unit vector `from` onto unit vector `to` */
+const rotationBetween = (from: Vec3, to: Vec3): Quaternion => {
+    const d = from[0] * to[0] + from[1] * to[1] + from[2] * to[2];
+    if (d < -0.999999) return [0, 1, 0, 0]; // opposite: half turn about any perpendicular axis
+    const c = cross(from, to);
+    return normalize([1 + d, c[0], c[1], c[2]]);
+};
+
+/** Compass heading (deg, clockwise from north) of the body X axis, or null when it points near vertical */
+const headingOf = (q: Quaternion): number | null => {
+    const x = rotateVector(q, [1, 0, 0]);
+    if (Math.hypot(x[0], x[1]) < MIN_HEADING_PROJECTION) return null;
+    return Math.atan2(x[0], x[1]) / DEG;
+};
+
+const wrap180 = (deg: number) => ((deg + 540) % 360) - 180;
+
+export interface AhrsCalibration {
+    zero: Quaternion;     // sensor attitude taken as the vehicle's reference pose
+    gyroBias: Vec3;       // deg/s
+}
+
+export interface Ahrs {
+    /** Integrates one packet; returns the vehicle attitude (calibration applied). */
+    update: (packet: TelemetryPacket) => Quaternion;
+    getAttitude: () => Quaternion;
+    /** Takes the current attitude as the reference pose and the recent mean rates as gyro bias. */
+    zero: () => void;
+    getCalibration: () => AhrsCalibration;
+    reset: () => void;
+}
+
+export const createAhrs = (config: AhrsSettings, calibration?: AhrsCalibration): Ahrs => {
+    let q: Quaternion;
+    let lastTime: number | null;
+    let gyroMean: Vec3;
+    let cal: AhrsCalibration = calibration ?? { zero: IDENTITY_QUATERNION, gyroBias: [0, 0, 0] };
+
+    const reset = () => {
+        q = IDENTITY_QUATERNION;
+        lastTime = null;
+        gyroMean = [0, 0, 0];
+    };
+    reset();
+
+    const readAccel = (p: TelemetryPacket): Vec3 | null =>
+        p.ax !== undefined && p.ay !== undefined && p.az !== undefined ? [p.ax, p.ay, p.az] : null;
+
+    const attitude = (): Quaternion => normalize(multiplyQuaternions(q, conjugate(cal.zero)));
+
+    const update = (packet: TelemetryPacket): Quaternion => {
+        const accel = config.useAccel ? readAccel(packet) : null;
+        const accelNorm = accel ? Math.hypot(accel[0], accel[1], accel[2]) : 0;
+        const accelTrusted = accel !== null && Math.abs(accelNorm - G) < ACCEL_TRUST * G;
+
+        if (lastTime === null) {
+            // Start level with the measured gravity when we have it
+            if (accelTrusted) q = rotationBetween([accel![0] / accelNorm, accel![1] / accelNorm, accel![2] / accelNorm], [0, 0, 1]);
+            lastTime = packet.timeElapsed;
+            return attitude();
+        }
+
+        const dt = (packet.timeElapsed - lastTime) / 1000;
+        lastTime = packet.timeElapsed;
+
+        const raw: Vec3 = [packet.gx, packet.gy, packet.gz];
+        gyroMean = gyroMean.map((m, i) => m + GYRO_MEAN_WEIGHT * (raw[i] - m)) as Vec3;
+        if (dt <= 0 || dt > MAX_DT) return attitude();
+
+        const omega: Vec3 = raw.map((r, i) => (r - cal.gyroBias[i]) * DEG) as Vec3;
+
+        if (accelTrusted) {
+            // Error between measured and predicted "up" in the body frame
+            const measured: Vec3 = [accel![0] / accelNorm, accel![1] / accelNorm, accel![2] / accelNorm];
+            const predicted = rotateVector(conjugate(q), [0, 0, 1]);
+            const e = cross(measured, predicted);
+            for (let i = 0; i < 3; i++) omega[i] += config.accelGain * e[i];
+        }
+
+        if (config.useHeading && Number.isFinite(packet.heading)) {
+            const estimated = headingOf(q);
+            if (estimated !== null) {
+                // A clockwise heading change is a negative turn about world up
+                const err = wrap180(packet.heading - estimated) * DEG;
+                const e = rotateVector(conjugate(q), [0, 0, -err]);
+                for (let i = 0; i < 3; i++) omega[i] += config.headingGain * e[i];
+            }
+        }
+
+        const dq = multiplyQuaternions(q, [0, omega[0], omega[1], omega[2]]);
+        q = normalize([q[0] + 0.5 * dq[0] * dt, q[1] + 0.5 * dq[1] * dt, q[2] + 0.5 * dq[2] * dt, q[3] + 0.5 * dq[3] * dt]);
+        return attitude();
+    };
+
+    return {
+        update,
+        getAttitude: attitude,
+        zero: () => { cal = { zero: q, gyroBias: [...gyroMean] as Vec3 }; },
+        getCalibration: () => cal,
+        reset
+    };
+};
+
+export const withAttitude = (packet: TelemetryPacket, q: Quaternion): TelemetryPacket => ({
+    ...packet, qw: q[0], qx: q[1], qy: q[2], qz: q[3]
+});
+
+export const withoutAttitude = ({ qw, qx, qy, qz, ...packet }: TelemetryPacket): TelemetryPacket => packet;
+
+export const attitudeOf = (p: TelemetryPacket | null | undefined): Quaternion | null =>
+    p && p.qw !== undefined && p.qx !== undefined && p.qy !== undefined && p.qz !== undefined ? [p.qw, p.qx, p.qy, p.qz] : null;
+
+/**
+ * Same rotation in three.js scene axes (x = East, y = Up, z = South), as [x, y, z, w] for
+ * THREE.Quaternion.set.
+ */
+export const toSceneQuaternion = (q: Quaternion): [number, number, number, number] => [q[1], q[3], -q[2], q[0]];
@@ -0,0 +1,342 @@
+import { TelemetryPacket, AlertRule, AlertDerivedField, AlertCondition, AlertSeverity, FlightPhase, CustomChannelDef, ThresholdSettings, AlertLogEntry } from '../types';
+import { getFieldValue, getFieldLabel, toChannelField } from './channels';
+import { dynamicPressureOf } from './flightEvents';
+import { filteredVSpeed } from './stateEstimator';
+
+// AETHER: Rule-based alert engine
+// Each rule watches one field (a packet field, a custom or derived channel, or one of the values
+// below that only exist as a combination of fields) and is raised once its condition has held
+// for holdMs. It clears only once the value is back past the threshold by the rule's hysteresis.
+
+const G = 9.81;
+
+/** Values the dashboard derives from several fields, usable as rule fields */
+export const ALERT_DERIVED_FIELDS: Record<AlertDerivedField, string> = {
+    dynamicPressure: 'Dynamic Pressure (kPa)',
+    gForce: 'G-Force',
+    linkLoss: 'Link Loss (%)',
+    linkRate: 'Link Rate (pkt/s)'
+};
+
+/** Values measured by the station rather than carried in packets (see utils/linkStats.ts) */
+export interface StationValues {
+    linkLoss?: number;
+    linkRate?: number;
+}
+
+export const ALERT_CONDITION_LABELS: Record<AlertCondition, string> = {
+    above: 'Above',
+    below: 'Below',
+    rateAbove: 'Rate Above (/s)',
+    rateBelow: 'Rate Below (/s)',
+    stale: 'Stale For (ms)'
+};
+
+export const ALERT_SEVERITY_ORDER: AlertSeverity[] = ['advisory', 'caution', 'warning'];
+
+/**
+ * Total acceleration in g between two consecutive packets, negative while the vertical component
+ * points down (coasting against drag, free fall); readings under 0.1 g show as 0.
+ */
+export const gLoadOf = (curr: TelemetryPacket, prev: TelemetryPacket | null): number => {
+    if (!prev) return 1;
+    let dt = (curr.timeElapsed - prev.timeElapsed) / 1000;
+    if (dt <= 0) dt = 0.1;
+    // Estimated vertical acceleration when available, else differentiated speed
+    const accelV = curr.estAccel ?? (filteredVSpeed(curr) - filteredVSpeed(prev)) / dt;
+    const accelH = (curr.hSpeed - prev.hSpeed) / dt;
+    const gLoad = Math.hypot(accelV, accelH) / G;
+    return gLoad < 0.1 ? 0 : accelV < 0 ? -gLoad : gLoad;
+};
+
+const isAlertDerivedField = (field: string): field is AlertDerivedField =>
+    Object.prototype.hasOwnProperty.call(ALERT_DERIVED_FIELDS, field);
+
+const alertFieldValue = (field: AlertRule['field'], packet: TelemetryPacket, prev: TelemetryPacket | null, station: StationValues): number | undefined => {
+    if (field === 'dynamicPressure') return dynamicPressureOf(packet) / 1000;
+    if (field === 'gForce') return gLoadOf(packet, prev);
+    if (field === 'linkLoss' || field === 'linkRate') return station[field];
+    const value = getFieldValue(packet, field);
+    return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+};
+
+export const getAlertFieldLabel = (field: string, channels: CustomChannelDef[]): string =>
+    isAlertDerivedField(field) ? ALERT_DERIVED_FIELDS[field] : getFieldLabel(field, channels);
+
+/** The rule's own message, or one generated from its field and condition */
+export const alertMessageOf = (rule: AlertRule, channels: CustomChannelDef[]): string => {
+    if (rule.message.trim()) return rule.message.trim();
+    const label = getAlertFieldLabel(rule.field, channels);
+    const prefix = rule.severity === 'warning' ? 'Warning' : rule.severity === 'caution' ? 'Caution' : 'Advisory';
+    switch (rule.condition) {
+        case 'above': return `${prefix}. ${label} high.`;
+        case 'below': return `${prefix}. ${label} low.`;
+        case 'rateAbove': return `${prefix}. ${label} rising fast.`;
+        case 'rateBelow': return `${prefix}. ${label} falling fast.`;
+        case 'stale': return `${prefix}. ${label} stale.`;
+    }
+};
+
+/** Which Safety Limit each default rule was built from */
+const THRESHOLD_RULES: Record<string, keyof ThresholdSettings> = {
+    'high-temp': 'maxTemperature',
+    'low-temp': 'minTemperature',
+    'max-alt': 'maxAltitude',
+    'over-speed': 'maxSpeed',
+    'over-vspeed': 'maxVerticalSpeed',
+    'over-pressure': 'maxPressure',
+    'low-pressure': 'minPressure',
+    'max-q': 'maxDynamicPressure',
+    'max-g': 'maxGForce',
+    'min-g': 'minGForce',
+    'high-density': 'maxDensity',
+    'low-density': 'minDensity'
+};
+
+/**
+ * Copies the Safety Limits (or just `only`) into the thresholds of the rules built from them;
+ * other rules are untouched.
+ */
+export const withThresholdLimits = (rules: AlertRule[], thresholds: ThresholdSettings, only?: keyof ThresholdSettings): AlertRule[] => rules.map(rule => {
+    const key = THRESHOLD_RULES[rule.id];
+    return key && (!only || key === only) ? { ...rule, threshold: thresholds[key] } : rule;
+});
+
+/** Out-of-range rules for custom channels, so each channel's min/max keeps alerting as before */
+export const channelRangeRules = (channels: CustomChannelDef[]): AlertRule[] => channels
+    .filter(ch => ch.key.trim())
+    .flatMap(ch => (['above', 'below'] as const).map(condition => ({
+        id: `channel:${ch.key}:${condition}`,
+        name: `${ch.label || ch.key} Range`,
+        enabled: true,
+        field: toChannelField(ch.key),
+        condition,
+        threshold: condition === 'above' ? ch.max : ch.min,
+        hysteresis: 0,
+        holdMs: 0,
+        severity: 'caution' as const,
+        phases: [],
+        message: `Warning. ${ch.label || ch.key} out of range.`,
+        voice: true,
+        visual: false
+    })));
+
+export interface ActiveAlert {
+    rule: AlertRule;
+    message: string;
+    since: number;             // station time the alert was raised (ms)
+    value: number | undefined; // latest value (rate per second for rate rules, age in ms for stale)
+    peak: number | undefined;  // most extreme value since it was raised
+}
+
+export interface AlertTransition {
+    type: 'raised' | 'cleared';
+    alert: ActiveAlert;
+    time: number;              // station time (ms)
+    packetTime: number;        // timeElapsed of the packet that caused it (the last one, for stale rules)
+}
+
+/** Lower is worse for below/rateBelow rules, higher for the rest */
+const isMoreExtreme = (condition: AlertCondition, value: number, than: number | undefined): boolean => {
+    if (than === undefined) return true;
+    return condition === 'below' || condition === 'rateBelow' ? value < than : value > than;
+};
+
+export interface AlertEngine {
+    /** Feeds one packet of the primary stream; returns the alerts raised or cleared by it. */
+    update: (packet: TelemetryPacket, phase: FlightPhase, now: number, station?: StationValues) => AlertTransition[];
+    /** Re-checks stale-data rules between packets (the link may have gone quiet). */
+    tick: (now: number) => AlertTransition[];
+    getActive: () => ActiveAlert[];
+    reset: () => void;
+}
+
+interface RuleState {
+    pendingSince: number | null;
+    active: ActiveAlert | null;
+    lastValue: number | undefined;
+    lastChange: number | null;     // station time the value last changed (stale rules)
+    prevSample: { value: number, time: number } | null;  // packet time (rate rules)
+}
+
+const newState = (): RuleState => ({ pendingSince: null, active: null, lastValue: undefined, lastChange: null, prevSample: null });
+
+/** Is the condition met (to raise), and is it still met once hysteresis is allowed for (to keep)? */
+const evaluate = (rule: AlertRule, value: number, active: boolean): boolean => {
+    const h = Math.max(0, rule.hysteresis);
+    switch (rule.condition) {
+        case 'above':
+        case 'rateAbove':
+            return active ? value > rule.threshold - h : value > rule.threshold;
+        case 'below':
+        case 'rateBelow':
+            return active ? value < rule.threshold + h : value < rule.threshold;
+        case 'stale':
+            return value > rule.threshold;
+    }
+};
+
+export const createAlertEngine = (rules: AlertRule[], channels: CustomChannelDef[]): AlertEngine => {
+    const enabled = rules.filter(r => r.enabled && r.field);
+    let states = new Map<string, RuleState>();
+    let prevPacket: TelemetryPacket | null = null;
+    let phase: FlightPhase = 'pad';
+
+    const stateOf = (rule: AlertRule): RuleState => {
+        let state = states.get(rule.id);
+        if (!state) states.set(rule.id, state = newState());
+        return state;
+    };
+
+    const inPhase = (rule: AlertRule) => rule.phases.length === 0 || rule.phases.includes(phase);
+
+    let packetTime = 0;
+
+    /** Advances one rule given whether its condition currently holds */
+    const step = (rule: AlertRule, state: RuleState, met: boolean, value: number | undefined, now: number, out: AlertTransition[]) => {
+        if (state.active) {
+            if (met) {
+                state.active.value = value;
+                if (value !== undefined && isMoreExtreme(rule.condition, value, state.active.peak)) state.active.peak = value;
+                return;
+            }
+            out.push({ type: 'cleared', alert: { ...state.active, value }, time: now, packetTime });
+            state.active = null;
+            state.pendingSince = null;
+            return;
+        }
+        if (!met) {
+            state.pendingSince = null;
+            return;
+        }
+        if (state.pendingSince === null) state.pendingSince = now;
+        if (now - state.pendingSince < rule.holdMs) return;
+        state.active = { rule, message: alertMessageOf(rule, channels), since: now, value, peak: value };
+        out.push({ type: 'raised', alert: { ...state.active }, time: now, packetTime });
+    };
+
+    const checkStale = (rule: AlertRule, state: RuleState, now: number, out: AlertTransition[]) => {
+        if (state.lastChange === null) return;  // nothing received since the reset
+        const age = now - state.lastChange;
+        step(rule, state, evaluate(rule, age, !!state.active), age, now, out);
+    };
+
+    const update = (packet: TelemetryPacket, nextPhase: FlightPhase, now: number, station: StationValues = {}): AlertTransition[] => {
+        phase = nextPhase;
+        packetTime = packet.timeElapsed;
+        const out: AlertTransition[] = [];
+        enabled.forEach(rule => {
+            const state = stateOf(rule);
+            const value = alertFieldValue(rule.field, packet, prevPacket, station);
+
+            if (rule.condition === 'stale') {
+                if (value !== undefined && (value !== state.lastValue || state.lastChange === null)) state.lastChange = now;
+                state.lastValue = value;
+            }
+            if (!inPhase(rule)) {
+                step(rule, state, false, value, now, out);
+                return;
+            }
+
+            if (rule.condition === 'stale') {
+                checkStale(rule, state, now, out);
+            } else if (rule.condition === 'rateAbove' || rule.condition === 'rateBelow') {
+                if (value === undefined) return;
+                const prev = state.prevSample;
+                state.prevSample = { value, time: packet.timeElapsed };
+                const dt = prev ? (packet.timeElapsed - prev.time) / 1000 : 0;
+                if (!prev || dt <= 0) return;
+                const rate = (value - prev.value) / dt;
+                step(rule, state, evaluate(rule, rate, !!state.active), rate, now, out);
+            } else {
+                // A missing value (field not in this packet) leaves the rule as it was
+                if (value === undefined) return;
+                step(rule, state, evaluate(rule, value, !!state.active), value, now, out);
+            }
+        });
+        prevPacket = packet;
+        return out;
+    };
+
+    const tick = (now: number): AlertTransition[] => {
+        const out: AlertTransition[] = [];
+        enabled.forEach(rule => {
+            if (rule.condition === 'stale' && inPhase(rule)) checkStale(rule, stateOf(rule), now, out);
+        });
+        return out;
+    };
+
+    const getActive = (): ActiveAlert[] => {
+        const active: ActiveAlert[] = [];
+        states.forEach(state => { if (state.active) active.push({ ...state.active }); });
+        return active.sort((a, b) => ALERT_SEVERITY_ORDER.indexOf(b.rule.severity) - ALERT_SEVERITY_ORDER.indexOf(a.rule.severity) || a.since - b.since);
+    };
+
+    const reset = () => {
+        states = new Map();
+        prevPacket = null;
+        packetTime = 0;
+        phase = 'pad';
+    };
+
+    return { update, tick, getActive, reset };
+};
+
+/** A history entry for a transition (or, with `type` 'acknowledged', for the operator muting it) */
+export const toAlertLogEntry = (type: AlertLogEntry['type'], alert: ActiveAlert, time: number, packetTime: number): AlertLogEntry => ({
+    type,
+    time,
+    packetTime,
+    ruleId: alert.rule.id,
+    name: alert.rule.name,
+    severity: alert.rule.severity,
+    condition: alert.rule.condition,
+    message: alert.message,
+    value: alert.value,
+    peak: type === 'cleared' ? alert.peak : undefined
+});
+
+export interface AlertSummary {
+    ruleId: string;
+    name: string;
+    severity: AlertSeverity;
+    occurrences: number;
+    acknowledged: number;
+    firstAt: number;           // packet time of the first raise (ms)
+    lastAt: number;            // packet time of the last raise (ms)
+    peak: number | undefined;
+    active: boolean;
+}
+
+/** One line per rule that fired: how often, first and last occurrence and the worst value seen. */
+export const summarizeAlertLog = (log: AlertLogEntry[], active: ActiveAlert[] = []): AlertSummary[] => {
+    const byRule = new Map<string, AlertSummary & { condition: AlertCondition }>();
+    const note = (ruleId: string, condition: AlertCondition, value: number | undefined) => {
+        const summary = byRule.get(ruleId);
+        if (summary && value !== undefined && isMoreExtreme(condition, value, summary.peak)) summary.peak = value;
+    };
+    log.forEach(entry => {
+        let summary = byRule.get(entry.ruleId);
+        if (entry.type === 'raised') {
+            if (!summary) {
+                summary = { ruleId: entry.ruleId, name: entry.name, severity: entry.severity, condition: entry.condition, occurrences: 0, acknowledged: 0, firstAt: entry.packetTime, lastAt: entry.packetTime, peak: undefined, active: false };
+                byRule.set(entry.ruleId, summary);
+            }
+            summary.occurrences++;
+            summary.lastAt = entry.packetTime;
+            note(entry.ruleId, entry.condition, entry.value);
+        } else if (summary) {
+            if (entry.type === 'acknowledged') summary.acknowledged++;
+            else note(entry.ruleId, entry.condition, entry.peak);
+        }
+    });
+    active.forEach(a => {
+        const summary = byRule.get(a.rule.id);
+        if (!summary) return;
+        summary.active = true;
+        note(a.rule.id, a.rule.condition, a.peak);
+    });
+    return Array.from(byRule.values())
+        .map(({ condition, ...summary }) => summary)
+        .sort((a, b) => ALERT_SEVERITY_ORDER.indexOf(b.severity) - ALERT_SEVERITY_ORDER.indexOf(a.severity) || a.firstAt - b.firstAt);
+};
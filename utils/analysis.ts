@@ -0,0 +1,86 @@
+import { TelemetryPacket, CsvField } from '../types';
+import { getFieldValue } from './channels';
+
+// AETHER: Post-flight analysis helpers
+// All times are packet timeElapsed (ms). Sessions are assumed to be in receive order,
+// so time lookups are binary searches over a non-decreasing timeElapsed.
+
+export interface TimeRange {
+    start: number;
+    end: number;
+}
+
+export interface FieldStats {
+    field: CsvField;
+    samples: number;
+    min: number;
+    max: number;
+    mean: number;
+    first: number;
+    last: number;
+    delta: number;      // last - first
+    minTime: number;
+    maxTime: number;
+}
+
+export interface RangeStats {
+    start: number;
+    end: number;
+    duration: number;
+    packetCount: number;
+    fields: FieldStats[];
+}
+
+/** Index of the first packet at or after `time`. */
+export const findPacketIndex = (packets: TelemetryPacket[], time: number): number => {
+    let lo = 0;
+    let hi = packets.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (packets[mid].timeElapsed < time) lo = mid + 1;
+        else hi = mid;
+    }
+    return lo;
+};
+
+/** Packet closest in time to `time`, or null for an empty session. */
+export const packetAtTime = (packets: TelemetryPacket[], time: number): TelemetryPacket | null => {
+    if (packets.length === 0) return null;
+    const i = findPacketIndex(packets, time);
+    if (i >= packets.length) return packets[packets.length - 1];
+    if (i === 0) return packets[0];
+    return time - packets[i - 1].timeElapsed <= packets[i].timeElapsed - time ? packets[i - 1] : packets[i];
+};
+
+export const normalizeRange = (a: number, b: number): TimeRange => ({ start: Math.min(a, b), end: Math.max(a, b) });
+
+/** Min/max/mean and first-to-last delta of each field over [start, end]. Missing values are skipped. */
+export const computeRangeStats = (packets: TelemetryPacket[], range: TimeRange, fields: CsvField[]): RangeStats => {
+    const from = findPacketIndex(packets, range.start);
+    const to = findPacketIndex(packets, range.end + 0.001);
+
+    const stats = fields.map(field => {
+        let samples = 0, sum = 0;
+        let min = Infinity, max = -Infinity, minTime = 0, maxTime = 0;
+        let first = NaN, last = NaN;
+        for (let i = from; i < to; i++) {
+            const value = getFieldValue(packets[i], field);
+            if (value === undefined || !Number.isFinite(value)) continue;
+            if (samples === 0) first = value;
+            last = value;
+            samples++;
+            sum += value;
+            if (value < min) { min = value; minTime = packets[i].timeElapsed; }
+            if (value > max) { max = value; maxTime = packets[i].timeElapsed; }
+        }
+        return samples === 0
+            ? { field, samples, min: NaN, max: NaN, mean: NaN, first, last, delta: NaN, minTime, maxTime }
+            : { field, samples, min, max, mean: sum / samples, first, last, delta: last - first, minTime, maxTime };
+    });
+
+    return { start: range.start, end: range.end, duration: range.end - range.start, packetCount: to - from, fields: stats };
+};
+
+/** Whole-session range, from the first to the last packet. */
+export const sessionRange = (packets: TelemetryPacket[]): TimeRange =>
+    packets.length === 0 ? { start: 0, end: 0 } : { start: packets[0].timeElapsed, end: packets[packets.length - 1].timeElapsed };
@@ -0,0 +1,192 @@
+import { TelemetryPacket, BinaryFrameLayout, BinaryFieldType, BinaryCrcMode } from '../types';
+import { SKIP_FIELD } from '../constants';
+import { createEmptyPacket, syncTimeFields, throttleLog } from './parser';
+import { setFieldValue } from './channels';
+
+// AETHER: Pluggable byte-stream decoder. Anything that turns raw serial
+// chunks into packets (binary frames, MAVLink, ...) implements this.
+export interface FrameDecoderStats {
+    crcFailures: number;
+    // Protocols whose frames carry a sequence counter report how many frames it skipped
+    sequenceFrames?: number;
+    sequenceLost?: number;
+}
+
+export interface FrameDecoder {
+    push: (chunk: Uint8Array) => TelemetryPacket[];
+    reset: () => void;
+    /** Running counts since the last reset */
+    getStats: () => FrameDecoderStats;
+}
+
+export const BINARY_FIELD_SIZES: Record<BinaryFieldType, number> = {
+    uint8: 1,
+    int8: 1,
+    uint16: 2,
+    int16: 2,
+    uint32: 4,
+    int32: 4,
+    float32: 4,
+    float64: 8
+};
+
+const MAX_PAYLOAD_SIZE = 1024;
+const MAX_BUFFER_SIZE = 64 * 1024;
+
+/** "AA 55" / "0xAA55" -> [0xAA, 0x55]. Invalid input yields an empty array. */
+export const parseSyncWord = (hex: string): number[] => {
+    const clean = hex.replace(/0x/gi, '').replace(/[^0-9a-f]/gi, '');
+    if (clean.length === 0 || clean.length % 2 !== 0) return [];
+    const bytes: number[] = [];
+    for (let i = 0; i < clean.length; i += 2) {
+        bytes.push(parseInt(clean.substring(i, i + 2), 16));
+    }
+    return bytes;
+};
+
+export const getPayloadSize = (layout: BinaryFrameLayout): number =>
+    layout.fields.reduce((sum, f) => sum + BINARY_FIELD_SIZES[f.type], 0);
+
+export const getCrcSize = (mode: BinaryCrcMode): number =>
+    mode === 'crc16' ? 2 : mode === 'none' ? 0 : 1;
+
+/** CRC over bytes[start, end). crc16 is CCITT-FALSE (poly 0x1021, init 0xFFFF). */
+export const computeFrameCrc = (bytes: Uint8Array, start: number, end: number, mode: BinaryCrcMode): number => {
+    let crc = 0;
+    switch (mode) {
+        case 'xor8':
+            for (let i = start; i < end; i++) crc ^= bytes[i];
+            return crc;
+        case 'sum8':
+            for (let i = start; i < end; i++) crc = (crc + bytes[i]) & 0xFF;
+            return crc;
+        case 'crc16':
+            crc = 0xFFFF;
+            for (let i = start; i < end; i++) {
+                crc ^= bytes[i] << 8;
+                for (let b = 0; b < 8; b++) {
+                    crc = (crc & 0x8000) ? ((crc << 1) ^ 0x1021) & 0xFFFF : (crc << 1) & 0xFFFF;
+                }
+            }
+            return crc;
+        default:
+            return 0;
+    }
+};
+
+const readValue = (view: DataView, offset: number, type: BinaryFieldType, little: boolean): number => {
+    switch (type) {
+        case 'uint8': return view.getUint8(offset);
+        case 'int8': return view.getInt8(offset);
+        case 'uint16': return view.getUint16(offset, little);
+        case 'int16': return view.getInt16(offset, little);
+        case 'uint32': return view.getUint32(offset, little);
+        case 'int32': return view.getInt32(offset, little);
+        case 'float32': return view.getFloat32(offset, little);
+        case 'float64': return view.getFloat64(offset, little);
+    }
+};
+
+/** Maps a frame payload onto a packet using the field table of the layout. */
+export const decodePayload = (payload: Uint8Array, layout: BinaryFrameLayout): TelemetryPacket | null => {
+    if (payload.length < getPayloadSize(layout)) {
+        throttleLog(`[Binary] Payload too short: ${payload.length}B, layout needs ${getPayloadSize(layout)}B`);
+        return null;
+    }
+
+    const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+    const packet = createEmptyPacket();
+    let offset = 0;
+
+    for (const def of layout.fields) {
+        if (def.field !== SKIP_FIELD && def.field !== 'id') {
+            const raw = readValue(view, offset, def.type, layout.littleEndian);
+            const value = raw * def.scale + def.offset;
+            setFieldValue(packet, def.field, isFinite(value) ? value : 0);
+        }
+        offset += BINARY_FIELD_SIZES[def.type];
+    }
+
+    syncTimeFields(packet);
+    return packet;
+};
+
+/**
+ * Streaming decoder for [sync][len][type][payload][crc] frames.
+ * Bytes are buffered across chunks; on a bad length or CRC the decoder
+ * drops one byte and hunts for the next sync word.
+ */
+export const createBinaryFrameDecoder = (getLayout: () => BinaryFrameLayout): FrameDecoder => {
+    let buffer = new Uint8Array(0);
+    let crcFailures = 0;
+
+    const push = (chunk: Uint8Array): TelemetryPacket[] => {
+        const packets: TelemetryPacket[] = [];
+        const layout = getLayout();
+        const sync = parseSyncWord(layout.syncWord);
+        if (sync.length === 0) {
+            throttleLog("[Binary] Invalid sync word:", layout.syncWord);
+            return packets;
+        }
+
+        const merged = new Uint8Array(buffer.length + chunk.length);
+        merged.set(buffer, 0);
+        merged.set(chunk, buffer.length);
+        const data = merged.length > MAX_BUFFER_SIZE ? merged.subarray(merged.length - MAX_BUFFER_SIZE) : merged;
+
+        const headerSize = sync.length + layout.lengthBytes + 1;
+        const crcSize = getCrcSize(layout.crc);
+        let pos = 0;
+
+        while (data.length - pos >= headerSize) {
+            // Hunt for sync word
+            let matched = true;
+            for (let i = 0; i < sync.length; i++) {
+                if (data[pos + i] !== sync[i]) { matched = false; break; }
+            }
+            if (!matched) { pos++; continue; }
+
+            const lenOffset = pos + sync.length;
+            const payloadLen = layout.lengthBytes === 2
+                ? (layout.littleEndian ? data[lenOffset] | (data[lenOffset + 1] << 8) : (data[lenOffset] << 8) | data[lenOffset + 1])
+                : data[lenOffset];
+
+            if (payloadLen > MAX_PAYLOAD_SIZE) { pos++; continue; }
+
+            const frameEnd = pos + headerSize + payloadLen + crcSize;
+            if (frameEnd > data.length) break; // Wait for rest of frame
+
+            if (crcSize > 0) {
+                const crcStart = pos + headerSize + payloadLen;
+                const expected = computeFrameCrc(data, lenOffset, crcStart, layout.crc);
+                const received = crcSize === 2
+                    ? (layout.littleEndian ? data[crcStart] | (data[crcStart + 1] << 8) : (data[crcStart] << 8) | data[crcStart + 1])
+                    : data[crcStart];
+                if (expected !== received) {
+                    throttleLog(`[Binary] CRC mismatch! Calc: ${expected.toString(16)}, Recv: ${received.toString(16)}`);
+                    crcFailures++;
+                    pos++;
+                    continue;
+                }
+            }
+
+            const frameType = data[pos + sync.length + layout.lengthBytes];
+            if (layout.frameType < 0 || frameType === layout.frameType) {
+                const payload = data.subarray(pos + headerSize, pos + headerSize + payloadLen);
+                const packet = decodePayload(payload, layout);
+                if (packet) packets.push(packet);
+            }
+            pos = frameEnd;
+        }
+
+        buffer = data.slice(pos);
+        return packets;
+    };
+
+    const reset = () => {
+        buffer = new Uint8Array(0);
+        crcFailures = 0;
+    };
+
+    return { push, reset, getStats: () => ({ crcFailures }) };
+};
@@ -0,0 +1,42 @@
+import { TelemetryPacket, CsvField, ChannelField, CustomChannelDef } from '../types';
+import { CHANNEL_PREFIX, FIELD_LABELS } from '../constants';
+
+// AETHER: Helpers for addressing fixed packet fields and custom channels uniformly
+
+export const isChannelField = (field: string): field is ChannelField => field.startsWith(CHANNEL_PREFIX);
+
+export const toChannelField = (key: string): ChannelField => `${CHANNEL_PREFIX}${key}` as ChannelField;
+
+export const channelKeyOf = (field: ChannelField): string => field.substring(CHANNEL_PREFIX.length);
+
+/** Writes a mapped value; 'ch:<key>' goes to packet.channels, SKIP and 'id' are ignored. */
+export const setFieldValue = (packet: TelemetryPacket, field: CsvField, value: number) => {
+    if (isChannelField(field)) {
+        if (!packet.channels) packet.channels = {};
+        packet.channels[channelKeyOf(field)] = value;
+    } else if (field !== '__SKIP__' && field !== 'id') {
+        packet[field] = value;
+    }
+};
+
+/** Reads a numeric value for charts/cards. Missing custom channels return undefined. */
+export const getFieldValue = (packet: TelemetryPacket, field: CsvField): number | undefined => {
+    if (isChannelField(field)) return packet.channels?.[channelKeyOf(field)];
+    if (field === '__SKIP__' || field === 'id') return undefined;
+    return packet[field];
+};
+
+export const getFieldLabel = (field: string, channels: CustomChannelDef[] = []): string => {
+    if (isChannelField(field)) {
+        const key = channelKeyOf(field);
+        const def = channels.find(c => c.key === key);
+        return def ? (def.label || def.key) : key;
+    }
+    return FIELD_LABELS[field] || field;
+};
+
+/** All mappable targets: fixed fields followed by stream-fed (non-derived) channels. */
+export const getMappableFields = (channels: CustomChannelDef[]): CsvField[] => [
+    ...(Object.keys(FIELD_LABELS) as CsvField[]),
+    ...channels.filter(c => c.key.trim() && !c.expression?.trim()).map(c => toChannelField(c.key))
+];
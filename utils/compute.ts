@@ -0,0 +1,189 @@
+import { TelemetryPacket, HardwareMode, SimulationPreset, DescentSettings, WindSettings, LandingSettings, EstimatorSettings } from '../types';
+import { predictLanding, LandingPrediction } from './geo';
+import { generateMockData, setSimScenario, SimContext } from './parser';
+import { runDispersion, DispersionRequest, DispersionResult } from './dispersion';
+import { estimateHistory } from './stateEstimator';
+
+// AETHER: Compute layer
+// Physics, simulation and estimation jobs behind one typed message protocol. The calculation
+// mode decides where each service runs: on the UI thread or in a dedicated Web Worker. Callers
+// always get a Promise, so they do not care which.
+
+export interface PredictLandingInput {
+    lat: number;
+    lon: number;
+    alt: number;
+    vSpeed: number;
+    hSpeed: number;
+    heading: number;
+    descent: DescentSettings;
+    wind: WindSettings;
+    landing: LandingSettings;
+    groundAlt: number;
+    density: number;
+    history: { latitude: number, longitude: number, timeElapsed: number }[];
+}
+
+/** Every job with its input and output types */
+export interface ComputeJobs {
+    predictLanding: { input: PredictLandingInput, output: LandingPrediction | null };
+    dispersion: { input: DispersionRequest, output: DispersionResult | null };
+    simReset: { input: SimulationPreset, output: void };
+    simStep: { input: { time: number, preset: SimulationPreset, context: SimContext }, output: TelemetryPacket };
+    estimateHistory: { input: { packets: TelemetryPacket[], config: EstimatorSettings }, output: TelemetryPacket[] };
+}
+
+export type ComputeJob = keyof ComputeJobs;
+export type ComputeInput<K extends ComputeJob> = ComputeJobs[K]['input'];
+export type ComputeOutput<K extends ComputeJob> = ComputeJobs[K]['output'];
+
+export type ComputeService = 'predictor' | 'dispersion' | 'simulator' | 'estimator';
+export type ComputePlacement = 'main' | 'worker';
+
+export interface ComputeRequest<K extends ComputeJob = ComputeJob> {
+    id: number;
+    job: K;
+    input: ComputeInput<K>;
+}
+
+export type ComputeResponse =
+    | { id: number, ok: true, result: unknown }
+    | { id: number, ok: false, error: string };
+
+const JOB_SERVICE: Record<ComputeJob, ComputeService> = {
+    predictLanding: 'predictor',
+    dispersion: 'dispersion',
+    simReset: 'simulator',
+    simStep: 'simulator',
+    estimateHistory: 'estimator'
+};
+
+/**
+ * CPU keeps everything on the UI thread; Hybrid moves the predictors and batch estimation off it;
+ * GPU (accelerated) also moves the simulator, leaving the UI thread only rendering and I/O.
+ * Dispersion (thousands of predictor runs per update) is too heavy for the UI thread in any mode.
+ */
+const PLACEMENT: Record<HardwareMode, Record<ComputeService, ComputePlacement>> = {
+    cpu: { predictor: 'main', dispersion: 'worker', simulator: 'main', estimator: 'main' },
+    hybrid: { predictor: 'worker', dispersion: 'worker', simulator: 'main', estimator: 'worker' },
+    gpu: { predictor: 'worker', dispersion: 'worker', simulator: 'worker', estimator: 'worker' }
+};
+
+/** Sample cap for dispersion runs that fall back to the UI thread (no worker available) */
+const MAIN_THREAD_DISPERSION_SAMPLES = 200;
+
+const forMainThread = <K extends ComputeJob>(job: K, input: ComputeInput<K>): ComputeInput<K> => {
+    if (job !== 'dispersion') return input;
+    const request = input as DispersionRequest;
+    const config = { ...request.config, samples: Math.min(request.config.samples, MAIN_THREAD_DISPERSION_SAMPLES) };
+    return { ...request, config } as ComputeInput<K>;
+};
+
+export const placementOf = (mode: HardwareMode, service: ComputeService): ComputePlacement => PLACEMENT[mode][service];
+
+/** Runs a job in the current thread. The worker host calls this too. */
+export const runComputeJob = <K extends ComputeJob>(job: K, input: ComputeInput<K>): ComputeOutput<K> => {
+    const handlers: { [J in ComputeJob]: (input: ComputeInput<J>) => ComputeOutput<J> } = {
+        predictLanding: i => predictLanding(
+            i.lat, i.lon, i.alt, i.vSpeed, i.hSpeed, i.heading,
+            i.descent, i.wind, i.landing, i.groundAlt, i.density, i.history
+        ),
+        dispersion: i => runDispersion(i),
+        simReset: preset => setSimScenario(preset),
+        simStep: i => generateMockData(i.time, i.preset, i.context),
+        estimateHistory: i => estimateHistory(i.packets, i.config)
+    };
+    return handlers[job](input);
+};
+
+export interface ComputeClient {
+    run: <K extends ComputeJob>(job: K, input: ComputeInput<K>) => Promise<ComputeOutput<K>>;
+    setMode: (mode: HardwareMode) => void;
+    getPlacement: (service: ComputeService) => ComputePlacement;
+    terminate: () => void;
+}
+
+/**
+ * One client owns at most one worker (created on first use). Stateful services are pinned to
+ * wherever their last reset ran, so a mode change never splits the simulator's state across two
+ * threads; the new placement applies from the next reset.
+ */
+export const createComputeClient = (initialMode: HardwareMode): ComputeClient => {
+    let mode = initialMode;
+    let worker: Worker | null = null;
+    let workerFailed = false;
+    let nextId = 1;
+    const pending = new Map<number, { resolve: (value: any) => void, reject: (error: Error) => void }>();
+    const pinned: Partial<Record<ComputeService, ComputePlacement>> = {};
+
+    const failPending = (error: Error) => {
+        pending.forEach(p => p.reject(error));
+        pending.clear();
+    };
+
+    const getWorker = (): Worker | null => {
+        if (worker || workerFailed) return worker;
+        try {
+            worker = new Worker(new URL('./compute.worker.ts', import.meta.url), { type: 'module' });
+        } catch (e) {
+            console.warn("Compute worker unavailable, running on the UI thread:", e);
+            workerFailed = true;
+            return null;
+        }
+        worker.onmessage = (e: MessageEvent<ComputeResponse>) => {
+            const response = e.data;
+            const entry = pending.get(response.id);
+            if (!entry) return;
+            pending.delete(response.id);
+            if (response.ok === true) entry.resolve(response.result);
+            else entry.reject(new Error(response.error));
+        };
+        worker.onerror = (e) => {
+            console.error("Compute worker failed, falling back to the UI thread:", e.message);
+            worker?.terminate();
+            worker = null;
+            workerFailed = true;
+            failPending(new Error(`Compute worker failed: ${e.message}`));
+        };
+        return worker;
+    };
+
+    const getPlacement = (service: ComputeService): ComputePlacement => {
+        const placement = pinned[service] ?? placementOf(mode, service);
+        return placement === 'worker' && workerFailed ? 'main' : placement;
+    };
+
+    const run = <K extends ComputeJob>(job: K, input: ComputeInput<K>): Promise<ComputeOutput<K>> => {
+        const service = JOB_SERVICE[job];
+        if (job === 'simReset') pinned.simulator = placementOf(mode, 'simulator');
+
+        const target = getPlacement(service) === 'worker' ? getWorker() : null;
+        if (!target) {
+            try {
+                return Promise.resolve(runComputeJob(job, forMainThread(job, input)));
+            } catch (e) {
+                return Promise.reject(e);
+            }
+        }
+        const id = nextId++;
+        return new Promise<ComputeOutput<K>>((resolve, reject) => {
+            pending.set(id, { resolve, reject });
+            const request: ComputeRequest<K> = { id, job, input };
+            target.postMessage(request);
+        });
+    };
+
+    return {
+        run,
+        setMode: (next: HardwareMode) => { mode = next; },
+        getPlacement,
+        terminate: () => {
+            worker?.terminate();
+            worker = null;
+            failPending(new Error("Compute client terminated"));
+        }
+    };
+};
+
+/** Shared client for the stateless predictor and estimator jobs; App keeps its mode in step with the settings. */
+export const sharedCompute = createComputeClient('hybrid');
@@ -0,0 +1,16 @@
+import { runComputeJob, ComputeRequest, ComputeResponse } from './compute';
+
+// AETHER: Compute worker host. Requests are handled strictly in order, so a simulator step
+// always sees the state left by the previous one.
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<ComputeRequest>) => {
+    const { id, job, input } = e.data;
+    let response: ComputeResponse;
+    try {
+        response = { id, ok: true, result: runComputeJob(job, input) };
+    } catch (err) {
+        response = { id, ok: false, error: err instanceof Error ? err.message : String(err) };
+    }
+    ctx.postMessage(response);
+};
@@ -0,0 +1,210 @@
+import { CsvField, FieldAlias } from '../types';
+import { FIELD_LABELS, SKIP_FIELD } from '../constants';
+import { isNmeaSentence } from './nmea';
+
+// AETHER: CSV column auto-mapping
+// 1. Header row: match column names against field names, FIELD_LABELS and the alias table.
+// 2. No header: guess from value ranges over a window of sample lines.
+
+export interface ColumnSuggestion {
+    field: CsvField;
+    reason: string;
+}
+
+export interface CsvMappingSuggestion {
+    source: 'header' | 'heuristic';
+    separator: string;
+    columns: ColumnSuggestion[];
+    sampleCount: number;
+}
+
+const SEPARATOR_CANDIDATES = [',', ';', '\\t', '|', ' '];
+const MAX_SAMPLE_LINES = 50;
+
+const toActualSeparator = (separator: string) => separator === '\\t' ? '\t' : separator;
+
+/** Lowercase, strip units in brackets and all non-alphanumerics: "Rel. Alt (m)" -> "relalt" */
+const normalizeName = (name: string) =>
+    name.replace(/\(.*?\)|\[.*?\]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const isNumericCell = (cell: string) => cell.trim() !== '' && !isNaN(Number(cell.trim()));
+
+/** Picks the separator that splits every sample line into the same (largest) number of cells. */
+export const detectSeparator = (lines: string[]): string => {
+    let best = ',';
+    let bestCount = 1;
+    SEPARATOR_CANDIDATES.forEach(sep => {
+        const actual = toActualSeparator(sep);
+        const counts = lines.map(l => l.split(actual).length);
+        const min = Math.min(...counts);
+        const consistent = counts.every(c => c === counts[0]);
+        if (consistent && min > bestCount) {
+            best = sep;
+            bestCount = min;
+        }
+    });
+    return best;
+};
+
+/** A header row has at least 3 cells and no numeric cell. */
+export const isHeaderRow = (line: string, separator: string): boolean => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('{') || isNmeaSentence(trimmed)) return false;
+    const cells = trimmed.split(toActualSeparator(separator));
+    return cells.length >= 3 && cells.every(c => !isNumericCell(c));
+};
+
+export const suggestFromHeader = (cells: string[], aliases: FieldAlias[]): ColumnSuggestion[] => {
+    const lookup = new Map<string, CsvField>();
+    Object.keys(FIELD_LABELS).forEach(f => {
+        if (f === SKIP_FIELD) return;
+        lookup.set(normalizeName(f), f as CsvField);
+        lookup.set(normalizeName(FIELD_LABELS[f]), f as CsvField);
+    });
+    aliases.forEach(a => { if (a.key.trim()) lookup.set(normalizeName(a.key), a.field); });
+
+    // Abbreviations ("Rel Alt") resolve when they prefix exactly one known name
+    const resolve = (name: string): CsvField | undefined => {
+        if (lookup.has(name)) return lookup.get(name);
+        if (name.length < 3) return undefined;
+        const matches = new Set<CsvField>();
+        lookup.forEach((field, key) => { if (key.startsWith(name)) matches.add(field); });
+        return matches.size === 1 ? [...matches][0] : undefined;
+    };
+
+    const used = new Set<CsvField>();
+    return cells.map(cell => {
+        const field = resolve(normalizeName(cell));
+        if (field && field !== SKIP_FIELD && !used.has(field)) {
+            used.add(field);
+            return { field, reason: `header "${cell.trim()}"` };
+        }
+        return { field: SKIP_FIELD, reason: `unknown header "${cell.trim()}"` };
+    });
+};
+
+interface ColumnStats {
+    min: number;
+    max: number;
+    mean: number;
+    std: number;
+    first: number;
+    monotonic: boolean;
+    maxDecimals: number;
+}
+
+const computeStats = (values: number[]): ColumnStats => {
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    const variance = values.reduce((a, b) => a + (b - mean) * (b - mean), 0) / values.length;
+    // Strictly increasing: noisy sensors (e.g. pressure on descent) rarely qualify
+    let monotonic = values.length > 2;
+    for (let i = 1; i < values.length && monotonic; i++) {
+        if (values[i] <= values[i - 1]) monotonic = false;
+    }
+    const maxDecimals = Math.max(...values.map(v => {
+        const s = String(v);
+        const dot = s.indexOf('.');
+        return dot === -1 ? 0 : s.length - dot - 1;
+    }));
+    return {
+        min: Math.min(...values),
+        max: Math.max(...values),
+        mean,
+        std: Math.sqrt(variance),
+        first: values[0],
+        monotonic,
+        maxDecimals
+    };
+};
+
+/**
+ * Value-range heuristics. Only fields with a distinctive signature are
+ * guessed; everything else stays SKIP for the user to fill in.
+ */
+export const suggestFromSamples = (rows: number[][]): ColumnSuggestion[] => {
+    const columnCount = Math.min(...rows.map(r => r.length));
+    const stats = Array.from({ length: columnCount }, (_, c) => computeStats(rows.map(r => r[c])));
+    const result: ColumnSuggestion[] = stats.map(() => ({ field: SKIP_FIELD, reason: 'no match' }));
+    const assigned = new Set<number>();
+
+    const assign = (col: number, field: CsvField, reason: string) => {
+        result[col] = { field, reason };
+        assigned.add(col);
+    };
+    const free = (predicate: (s: ColumnStats) => boolean) =>
+        stats.map((s, i) => i).filter(i => !assigned.has(i) && predicate(stats[i]));
+
+    // Coordinates: high precision, bounded, nearly constant over a short window
+    const coordCols = free(s => s.maxDecimals >= 4 && Math.abs(s.min) <= 180 && Math.abs(s.max) <= 180 && s.std < 0.5 && Math.abs(s.mean) > 0.01);
+    const lonCol = coordCols.find(i => Math.abs(stats[i].mean) > 90);
+    const latCol = coordCols.find(i => i !== lonCol && Math.abs(stats[i].mean) <= 90);
+    if (latCol !== undefined) assign(latCol, 'latitude', 'lat range, high precision');
+    const lonCandidate = lonCol !== undefined ? lonCol : coordCols.find(i => i !== latCol);
+    if (lonCandidate !== undefined) assign(lonCandidate, 'longitude', 'lon range, high precision');
+
+    // Time: strictly advancing counters; run time must be integral so a climbing altitude is not taken
+    const timeCols = free(s => s.monotonic && s.min >= 0 && s.maxDecimals <= 3);
+    if (timeCols[0] !== undefined) assign(timeCols[0], 'timeElapsed', 'monotonic counter');
+    const runCol = timeCols.slice(1).find(i => stats[i].maxDecimals === 0);
+    if (runCol !== undefined) assign(runCol, 'runTime', 'monotonic counter');
+
+    // Pressure in Pa (~1e5 at sea level)
+    const pressureCols = free(s => s.mean > 20000 && s.mean < 110000);
+    if (pressureCols[0] !== undefined) assign(pressureCols[0], 'pressure', '≈1e5 Pa range');
+
+    // Air density (kg/m³)
+    const densityCols = free(s => s.min > 0.05 && s.max < 1.6 && s.maxDecimals >= 2 && s.std < 0.2);
+    if (densityCols[0] !== undefined) assign(densityCols[0], 'density', '0.05–1.6 kg/m³');
+
+    // Temperatures: plausible ambient range with low variance
+    const tempCols = free(s => s.min > -50 && s.max < 90 && s.std < 10 && !s.monotonic && Math.abs(s.mean) > 1);
+    if (tempCols[0] !== undefined) assign(tempCols[0], 'temperature', '-50–90 °C, stable');
+    if (tempCols[1] !== undefined) assign(tempCols[1], 'thermistorTemp', '-50–90 °C, stable');
+
+    // Altitudes: absolute sits well above zero, relative starts near zero
+    const altCols = free(s => s.min > -500 && s.max < 50000 && s.maxDecimals >= 1 && s.std > 0);
+    const relCol = altCols.find(i => Math.abs(stats[i].first) < 5 && stats[i].max > 5);
+    if (relCol !== undefined) assign(relCol, 'relAltitude', 'starts near 0 m');
+    const absCol = altCols.find(i => i !== relCol && stats[i].min > 5 && stats[i].mean > 20);
+    if (absCol !== undefined) assign(absCol, 'absAltitude', 'positive, above ground');
+
+    return result;
+};
+
+/**
+ * Builds a mapping suggestion from raw lines (stream window or file head).
+ * Separator is detected unless the lines already split with the given one.
+ */
+export const suggestCsvMapping = (rawLines: string[], currentSeparator: string, aliases: FieldAlias[]): CsvMappingSuggestion | null => {
+    const lines = rawLines
+        .map(l => l.trim())
+        .filter(l => l.length > 0 && !isNmeaSentence(l) && !l.startsWith('{'))
+        .slice(0, MAX_SAMPLE_LINES + 1);
+    if (lines.length === 0) return null;
+
+    const currentWorks = lines.every(l => l.split(toActualSeparator(currentSeparator)).length >= 3);
+    const separator = currentWorks ? currentSeparator : detectSeparator(lines);
+    const actual = toActualSeparator(separator);
+
+    if (isHeaderRow(lines[0], separator)) {
+        return {
+            source: 'header',
+            separator,
+            columns: suggestFromHeader(lines[0].split(actual), aliases),
+            sampleCount: 1
+        };
+    }
+
+    // Strip trailing "*CS" checksums before reading values
+    const rows = lines
+        .map(l => l.replace(/\*[0-9A-Fa-f]{2}$/, '').split(actual).map(c => parseFloat(c.trim())))
+        .filter(r => r.length >= 3 && r.every(v => !isNaN(v)));
+    if (rows.length < 3) return null;
+
+    return {
+        source: 'heuristic',
+        separator,
+        columns: suggestFromSamples(rows),
+        sampleCount: rows.length
+    };
+};
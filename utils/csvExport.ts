@@ -0,0 +1,105 @@
+import { TelemetryPacket, CustomChannelDef, FlightEvent, AlertLogEntry, PyroAuditEntry } from '../types';
+import { FIELD_LABELS, SKIP_FIELD } from '../constants';
+import { FLIGHT_EVENT_LABELS } from './flightEvents';
+
+// AETHER: CSV export helpers shared by the live buffer and stored flight logs
+
+export const EXPORT_FIELDS = Object.keys(FIELD_LABELS).filter(f => f !== SKIP_FIELD) as (keyof TelemetryPacket)[];
+
+/** Trailing column naming the flight event(s) detected at that row */
+export const EVENT_COLUMN = 'Flight Event';
+
+/** Export columns for custom channels: declared channels first, then any other names present in the data */
+export const collectChannelKeys = (data: TelemetryPacket[], declared: CustomChannelDef[]): string[] => {
+    const keys = new Set<string>(declared.filter(c => c.key.trim()).map(c => c.key));
+    data.forEach(p => { if (p.channels) Object.keys(p.channels).forEach(k => keys.add(k)); });
+    return Array.from(keys);
+};
+
+export const channelHeader = (key: string, declared: CustomChannelDef[]): string => {
+    const def = declared.find(c => c.key === key);
+    if (!def) return key;
+    const label = def.label || def.key;
+    const header = def.units ? `${label} (${def.units})` : label;
+    return /[",]/.test(header) ? `"${header.replace(/"/g, '""')}"` : header;
+};
+
+export const buildCsvHeader = (channelKeys: string[], declared: CustomChannelDef[]): string =>
+    [...EXPORT_FIELDS.map(f => FIELD_LABELS[f]), ...channelKeys.map(k => channelHeader(k, declared)), EVENT_COLUMN].join(",");
+
+/** Quotes a text cell and guards it against spreadsheet formula injection */
+const csvText = (text: string): string => {
+    let val = text;
+    if (['=', '+', '-', '@'].includes(val.charAt(0))) {
+        val = "'" + val;
+    }
+    if (val.includes('"') || val.includes(',')) {
+        val = `"${val.replace(/"/g, '""')}"`;
+    }
+    return val;
+};
+
+/** One CSV row. Strings are quoted and guarded against spreadsheet formula injection. */
+export const formatCsvRow = (p: TelemetryPacket, channelKeys: string[], eventLabel = ''): string =>
+    [...EXPORT_FIELDS.map(f => {
+        const val = p[f];
+        if (val === undefined) return '';
+        return typeof val === 'string' ? csvText(val) : val;
+    }), ...channelKeys.map(k => p.channels?.[k] ?? ''), csvText(eventLabel)].join(",");
+
+/**
+ * Returns a per-row labeller that places each event on the first row at or after its time. Rows must be fed in order.
+ * Alerts from the session's history are labelled where they were raised and cleared.
+ */
+export const createEventLabeler = (events: FlightEvent[], alerts: AlertLogEntry[] = []) => {
+    const pending = [
+        ...events.map(e => ({ time: e.time, label: FLIGHT_EVENT_LABELS[e.type] })),
+        ...alerts.filter(a => a.type !== 'acknowledged').map(a => ({ time: a.packetTime, label: `${a.name} ${a.type === 'raised' ? 'ALERT' : 'CLEAR'}` }))
+    ].sort((a, b) => a.time - b.time);
+    let next = 0;
+    return (p: TelemetryPacket): string => {
+        const labels: string[] = [];
+        while (next < pending.length && pending[next].time <= p.timeElapsed) labels.push(pending[next++].label);
+        return labels.join(' / ');
+    };
+};
+
+/** The alert history as its own CSV, one row per raise, acknowledgement and clear */
+export const buildAlertLogCsv = (log: AlertLogEntry[]): string => [
+    'Station Time,Packet Time (ms),Type,Rule,Severity,Message,Value,Peak',
+    ...log.map(e => [
+        new Date(e.time).toISOString(),
+        e.packetTime,
+        e.type,
+        csvText(e.name),
+        e.severity,
+        csvText(e.message),
+        e.value ?? '',
+        e.peak ?? ''
+    ].join(','))
+].join('\n');
+
+/** The pad safety audit log, one row per action, block, abort and vehicle reply */
+export const buildPyroAuditCsv = (log: PyroAuditEntry[]): string => [
+    'Station Time,Mission Time (s),Action,Target,Command,Detail',
+    ...log.map(e => [
+        new Date(e.time).toISOString(),
+        e.missionTime,
+        e.action,
+        csvText(e.target),
+        csvText(e.command),
+        csvText(e.detail)
+    ].join(','))
+].join('\n');
+
+export const downloadBlob = (blob: Blob, filenamePrefix: string, extension: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.setAttribute("href", url);
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+    link.setAttribute("download", `${filenamePrefix}_${timestamp}.${extension}`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
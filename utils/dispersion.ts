@@ -0,0 +1,168 @@
+import { DescentSettings, WindSettings, LandingSettings, DispersionSettings } from '../types';
+import { predictLanding } from './geo';
+
+// AETHER: Monte Carlo landing dispersion
+// Runs the landing predictor many times with perturbed wind, drag, mass and initial velocity,
+// then summarises the landing points as covariance ellipses and a density grid. Every update
+// draws the same random sequence, so the cloud only moves when the inputs do.
+
+const METERS_PER_DEG_LAT = 111320;
+const MIN_SAMPLES = 10;
+const MAX_SAMPLES = 2000;
+const SEED = 0x5eed;
+const HEAT_GRID = 24;            // cells across the widest extent of the cloud
+const OUTLINE_POINTS = 48;
+
+export interface DispersionRequest {
+    time: number;                // timeElapsed of the packet the run starts from (ms)
+    lat: number;
+    lon: number;
+    alt: number;
+    vSpeed: number;
+    hSpeed: number;
+    heading: number;
+    density: number;
+    history: { latitude: number, longitude: number, timeElapsed: number }[];
+    descent: DescentSettings;
+    wind: WindSettings;
+    landing: LandingSettings;
+    groundAlt: number;
+    config: DispersionSettings;
+}
+
+export interface GeoPoint {
+    lat: number;
+    lon: number;
+}
+
+export interface DispersionEllipse {
+    sigma: 1 | 2 | 3;
+    semiMajor: number;           // m
+    semiMinor: number;           // m
+    orientation: number;         // deg clockwise from north of the major axis
+    outline: GeoPoint[];
+}
+
+export interface DispersionResult {
+    time: number;
+    mean: GeoPoint;
+    points: GeoPoint[];
+    ellipses: DispersionEllipse[];
+    heatmap: {
+        cellSize: number;        // m
+        cells: (GeoPoint & { weight: number })[];   // weight is 0..1 of the densest cell
+    };
+}
+
+/** Small seeded PRNG (mulberry32) */
+const createRandom = (seed: number) => {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6D2B79F5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+/** Standard normal deviates (Box-Muller) */
+const createGaussian = (random: () => number) => () => {
+    const u = Math.max(random(), Number.EPSILON);
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+};
+
+/** One wind error for the whole profile: every layer is scaled and veered together */
+const perturbWind = (wind: WindSettings, speedScale: number, veer: number): WindSettings => {
+    const dir = (d: number) => ((d + veer) % 360 + 360) % 360;
+    return {
+        ...wind,
+        speed: (wind.speed ?? wind.windSpeed ?? 0) * speedScale,
+        direction: dir(wind.direction ?? wind.windDirection ?? 0),
+        layers: (wind.layers || []).map(l => ({ ...l, speed: l.speed * speedScale, direction: dir(l.direction) }))
+    };
+};
+
+export const runDispersion = (request: DispersionRequest): DispersionResult | null => {
+    const { config } = request;
+    const count = Math.round(Math.min(MAX_SAMPLES, Math.max(MIN_SAMPLES, config.samples || 0)));
+    const gaussian = createGaussian(createRandom(SEED));
+    const points: GeoPoint[] = [];
+
+    for (let i = 0; i < count; i++) {
+        const wind = perturbWind(request.wind, Math.max(0, 1 + gaussian() * config.windSpeedSigma), gaussian() * config.windDirSigma);
+        const descent: DescentSettings = {
+            ...request.descent,
+            dragCoefficient: request.descent.dragCoefficient * Math.max(0.1, 1 + gaussian() * config.dragSigma),
+            mass: request.descent.mass * Math.max(0.1, 1 + gaussian() * config.massSigma)
+        };
+        const vSpeed = request.vSpeed + gaussian() * config.velocitySigma;
+        const hSpeed = Math.max(0, request.hSpeed + gaussian() * config.velocitySigma);
+
+        const pred = predictLanding(
+            request.lat, request.lon, request.alt,
+            vSpeed, hSpeed, request.heading,
+            descent, wind, request.landing,
+            request.groundAlt, request.density, request.history
+        );
+        if (pred) points.push({ lat: pred.lat, lon: pred.lon });
+    }
+    if (points.length < MIN_SAMPLES) return null;
+
+    // Local east/north offsets (m) around the mean landing point
+    const mean = {
+        lat: points.reduce((s, p) => s + p.lat, 0) / points.length,
+        lon: points.reduce((s, p) => s + p.lon, 0) / points.length
+    };
+    const metersPerDegLon = METERS_PER_DEG_LAT * Math.cos(mean.lat * Math.PI / 180);
+    const toGeo = (east: number, north: number): GeoPoint => ({
+        lat: mean.lat + north / METERS_PER_DEG_LAT,
+        lon: mean.lon + east / metersPerDegLon
+    });
+    const offsets = points.map(p => [(p.lon - mean.lon) * metersPerDegLon, (p.lat - mean.lat) * METERS_PER_DEG_LAT]);
+
+    let see = 0, snn = 0, sen = 0;
+    offsets.forEach(([e, n]) => { see += e * e; snn += n * n; sen += e * n; });
+    see /= points.length - 1; snn /= points.length - 1; sen /= points.length - 1;
+
+    // Eigen-decomposition of the 2x2 covariance; the angle is of the major axis from east
+    const half = (see + snn) / 2;
+    const root = Math.sqrt(((see - snn) / 2) ** 2 + sen * sen);
+    const major = Math.sqrt(Math.max(0, half + root));
+    const minor = Math.sqrt(Math.max(0, half - root));
+    const angle = 0.5 * Math.atan2(2 * sen, see - snn);
+    const [cosA, sinA] = [Math.cos(angle), Math.sin(angle)];
+
+    // k·σ along each principal axis (2D containment: ~39%, 86%, 99%)
+    const ellipses: DispersionEllipse[] = ([1, 2, 3] as const).map(sigma => ({
+        sigma,
+        semiMajor: sigma * major,
+        semiMinor: sigma * minor,
+        orientation: ((90 - angle * 180 / Math.PI) % 180 + 180) % 180,
+        outline: Array.from({ length: OUTLINE_POINTS }, (_, i) => {
+            const t = (i / OUTLINE_POINTS) * 2 * Math.PI;
+            const a = sigma * major * Math.cos(t), b = sigma * minor * Math.sin(t);
+            return toGeo(a * cosA - b * sinA, a * sinA + b * cosA);
+        })
+    }));
+
+    // Density grid over the cloud's bounding box
+    const extent = Math.max(1, ...offsets.map(([e, n]) => Math.max(Math.abs(e), Math.abs(n)))) * 2;
+    const cellSize = extent / HEAT_GRID;
+    const bins = new Map<string, { e: number, n: number, count: number }>();
+    offsets.forEach(([e, n]) => {
+        const ce = Math.floor(e / cellSize), cn = Math.floor(n / cellSize);
+        const key = `${ce},${cn}`;
+        const bin = bins.get(key);
+        if (bin) bin.count++;
+        else bins.set(key, { e: ce, n: cn, count: 1 });
+    });
+    let densest = 0;
+    bins.forEach(b => { densest = Math.max(densest, b.count); });
+    const cells = Array.from(bins.values()).map(b => ({
+        ...toGeo((b.e + 0.5) * cellSize, (b.n + 0.5) * cellSize),
+        weight: b.count / densest
+    }));
+
+    return { time: request.time, mean, points, ellipses, heatmap: { cellSize, cells } };
+};
@@ -0,0 +1,392 @@
+import { TelemetryPacket, CustomChannelDef } from '../types';
+
+// AETHER: Sandboxed expression engine for derived channels
+// Expressions are tokenised and parsed into a closure tree; nothing reaches eval/Function.
+// Identifiers resolve to packet fields, then custom channels (incl. earlier derived ones).
+//
+//   0.5 * density * vSpeed^2 / 1000
+//   derivative(relAltitude)
+//   movingAvg(temperature, 10)
+
+type TokenType = 'number' | 'ident' | 'op' | 'lparen' | 'rparen' | 'comma' | 'question' | 'colon' | 'eof';
+
+interface Token {
+    type: TokenType;
+    value: string;
+    pos: number;
+}
+
+export interface EvalContext {
+    packet: TelemetryPacket;
+    time: number; // seconds, from packet.timeElapsed
+}
+
+type Node = (ctx: EvalContext) => number;
+
+export interface CompiledExpression {
+    source: string;
+    evaluate: (ctx: EvalContext) => number;
+    reset: () => void;      // Clears history held by derivative/movingAvg/... call sites
+    identifiers: string[];  // Referenced fields/channels
+}
+
+const MAX_EXPRESSION_LENGTH = 500;
+const MAX_WINDOW = 1000;
+
+const CONSTANTS: Record<string, number> = {
+    pi: Math.PI,
+    e: Math.E,
+    g: 9.80665
+};
+
+const MATH_FUNCTIONS: Record<string, { arity: [number, number]; fn: (...args: number[]) => number }> = {
+    abs: { arity: [1, 1], fn: Math.abs },
+    sqrt: { arity: [1, 1], fn: Math.sqrt },
+    pow: { arity: [2, 2], fn: Math.pow },
+    exp: { arity: [1, 1], fn: Math.exp },
+    log: { arity: [1, 1], fn: Math.log },
+    log10: { arity: [1, 1], fn: Math.log10 },
+    sin: { arity: [1, 1], fn: Math.sin },
+    cos: { arity: [1, 1], fn: Math.cos },
+    tan: { arity: [1, 1], fn: Math.tan },
+    asin: { arity: [1, 1], fn: Math.asin },
+    acos: { arity: [1, 1], fn: Math.acos },
+    atan: { arity: [1, 1], fn: Math.atan },
+    atan2: { arity: [2, 2], fn: Math.atan2 },
+    floor: { arity: [1, 1], fn: Math.floor },
+    ceil: { arity: [1, 1], fn: Math.ceil },
+    round: { arity: [1, 1], fn: Math.round },
+    sign: { arity: [1, 1], fn: Math.sign },
+    min: { arity: [2, 8], fn: Math.min },
+    max: { arity: [2, 8], fn: Math.max },
+    hypot: { arity: [2, 3], fn: Math.hypot },
+    clamp: { arity: [3, 3], fn: (v, lo, hi) => Math.min(hi, Math.max(lo, v)) },
+    rad: { arity: [1, 1], fn: (d) => d * Math.PI / 180 },
+    deg: { arity: [1, 1], fn: (r) => r * 180 / Math.PI }
+};
+
+// History functions keep per-call-site state across packets
+const HISTORY_FUNCTIONS = ['derivative', 'movingAvg', 'delta', 'prev', 'integral', 'peak'];
+
+export const EXPRESSION_FUNCTIONS = [...Object.keys(MATH_FUNCTIONS), ...HISTORY_FUNCTIONS];
+
+// --- Tokenizer ---
+
+const tokenize = (source: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < source.length) {
+        const c = source[i];
+        if (/\s/.test(c)) { i++; continue; }
+
+        if (/[0-9.]/.test(c)) {
+            const match = source.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/);
+            if (!match) throw new Error(`Invalid number at ${i}`);
+            tokens.push({ type: 'number', value: match[0], pos: i });
+            i += match[0].length;
+            continue;
+        }
+        if (/[A-Za-z_]/.test(c)) {
+            // Dotted names reach nested JSON channels (gps.sats)
+            const match = source.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*/)!;
+            tokens.push({ type: 'ident', value: match[0], pos: i });
+            i += match[0].length;
+            continue;
+        }
+
+        const two = source.substr(i, 2);
+        if (['<=', '>=', '==', '!=', '&&', '||', '**'].includes(two)) {
+            tokens.push({ type: 'op', value: two === '**' ? '^' : two, pos: i });
+            i += 2;
+            continue;
+        }
+        if ('+-*/%^<>!'.includes(c)) { tokens.push({ type: 'op', value: c, pos: i }); i++; continue; }
+        if (c === '(') { tokens.push({ type: 'lparen', value: c, pos: i }); i++; continue; }
+        if (c === ')') { tokens.push({ type: 'rparen', value: c, pos: i }); i++; continue; }
+        if (c === ',') { tokens.push({ type: 'comma', value: c, pos: i }); i++; continue; }
+        if (c === '?') { tokens.push({ type: 'question', value: c, pos: i }); i++; continue; }
+        if (c === ':') { tokens.push({ type: 'colon', value: c, pos: i }); i++; continue; }
+
+        throw new Error(`Unexpected character '${c}' at ${i}`);
+    }
+    tokens.push({ type: 'eof', value: '', pos: source.length });
+    return tokens;
+};
+
+// --- Field access ---
+
+const readIdentifier = (packet: TelemetryPacket, name: string): number => {
+    const direct = (packet as unknown as Record<string, unknown>)[name];
+    if (typeof direct === 'number') return direct;
+    const channel = packet.channels?.[name];
+    return channel !== undefined ? channel : NaN;
+};
+
+// --- History call sites ---
+
+interface Sample { t: number; v: number; }
+
+const createHistorySite = (name: string, args: Node[], resets: (() => void)[]): Node => {
+    let last: Sample | null = null;
+    let window: number[] = [];
+    let sum = 0;
+    let accumulated = 0;
+    let peak = -Infinity;
+    resets.push(() => { last = null; window = []; sum = 0; accumulated = 0; peak = -Infinity; });
+
+    return (ctx) => {
+        const v = args[0](ctx);
+        const t = ctx.time;
+        let result: number;
+
+        switch (name) {
+            case 'derivative': {
+                const dt = last ? t - last.t : 0;
+                result = last && dt > 0 ? (v - last.v) / dt : 0;
+                break;
+            }
+            case 'delta':
+                result = last ? v - last.v : 0;
+                break;
+            case 'prev':
+                result = last ? last.v : v;
+                break;
+            case 'integral': {
+                const dt = last ? t - last.t : 0;
+                if (last && dt > 0) accumulated += (v + last.v) / 2 * dt; // Trapezoid
+                result = accumulated;
+                break;
+            }
+            case 'peak':
+                if (isFinite(v)) peak = Math.max(peak, v);
+                result = peak === -Infinity ? v : peak;
+                break;
+            case 'movingAvg':
+            default: {
+                const n = Math.max(1, Math.min(MAX_WINDOW, Math.round(args[1](ctx))));
+                if (isFinite(v)) {
+                    window.push(v);
+                    sum += v;
+                }
+                while (window.length > n) sum -= window.shift()!;
+                result = window.length > 0 ? sum / window.length : v;
+                break;
+            }
+        }
+
+        // Same timestamp (duplicate/throttled packet): keep the previous sample as reference
+        if (!last || t !== last.t) last = { t, v };
+        return result;
+    };
+};
+
+// --- Parser (precedence climbing) ---
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+    '||': 1, '&&': 2,
+    '==': 3, '!=': 3,
+    '<': 4, '>': 4, '<=': 4, '>=': 4,
+    '+': 5, '-': 5,
+    '*': 6, '/': 6, '%': 6,
+    '^': 8 // Above unary minus: -x^2 = -(x^2)
+};
+
+const applyBinary = (op: string, a: number, b: number): number => {
+    switch (op) {
+        case '+': return a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/': return a / b;
+        case '%': return a % b;
+        case '^': return Math.pow(a, b);
+        case '<': return a < b ? 1 : 0;
+        case '>': return a > b ? 1 : 0;
+        case '<=': return a <= b ? 1 : 0;
+        case '>=': return a >= b ? 1 : 0;
+        case '==': return a === b ? 1 : 0;
+        case '!=': return a !== b ? 1 : 0;
+        case '&&': return a && b ? 1 : 0;
+        case '||': return a || b ? 1 : 0;
+        default: return NaN;
+    }
+};
+
+/** Compiles an expression; throws Error with the offending position on syntax errors. */
+export const compileExpression = (source: string): CompiledExpression => {
+    if (source.length > MAX_EXPRESSION_LENGTH) throw new Error(`Expression longer than ${MAX_EXPRESSION_LENGTH} characters`);
+
+    const tokens = tokenize(source);
+    const resets: (() => void)[] = [];
+    const identifiers = new Set<string>();
+    let pos = 0;
+
+    const peek = () => tokens[pos];
+    const next = () => tokens[pos++];
+    const expect = (type: TokenType, what: string) => {
+        const t = next();
+        if (t.type !== type) throw new Error(`Expected ${what} at ${t.pos}${t.value ? `, found '${t.value}'` : ''}`);
+        return t;
+    };
+
+    const parseExpression = (): Node => {
+        const condition = parseBinary(0);
+        if (peek().type !== 'question') return condition;
+        next();
+        const whenTrue = parseExpression();
+        expect('colon', "':'");
+        const whenFalse = parseExpression();
+        return (ctx) => condition(ctx) ? whenTrue(ctx) : whenFalse(ctx);
+    };
+
+    const parseBinary = (minPrecedence: number): Node => {
+        let left = parseUnary();
+        while (true) {
+            const t = peek();
+            const precedence = t.type === 'op' ? BINARY_PRECEDENCE[t.value] : undefined;
+            if (precedence === undefined || precedence < minPrecedence) break;
+            next();
+            // '^' is right-associative
+            const right = parseBinary(t.value === '^' ? precedence : precedence + 1);
+            const lhs = left;
+            const op = t.value;
+            left = (ctx) => applyBinary(op, lhs(ctx), right(ctx));
+        }
+        return left;
+    };
+
+    const parseUnary = (): Node => {
+        const t = peek();
+        if (t.type === 'op' && (t.value === '-' || t.value === '+' || t.value === '!')) {
+            next();
+            const operand = parseBinary(7);
+            if (t.value === '-') return (ctx) => -operand(ctx);
+            if (t.value === '!') return (ctx) => operand(ctx) ? 0 : 1;
+            return operand;
+        }
+        return parsePrimary();
+    };
+
+    const parseArguments = (): Node[] => {
+        expect('lparen', "'('");
+        const args: Node[] = [];
+        if (peek().type !== 'rparen') {
+            args.push(parseExpression());
+            while (peek().type === 'comma') {
+                next();
+                args.push(parseExpression());
+            }
+        }
+        expect('rparen', "')'");
+        return args;
+    };
+
+    const parsePrimary = (): Node => {
+        const t = next();
+        switch (t.type) {
+            case 'number': {
+                const value = parseFloat(t.value);
+                return () => value;
+            }
+            case 'lparen': {
+                const inner = parseExpression();
+                expect('rparen', "')'");
+                return inner;
+            }
+            case 'ident': {
+                if (peek().type === 'lparen') {
+                    const args = parseArguments();
+                    if (HISTORY_FUNCTIONS.includes(t.value)) {
+                        const expected = t.value === 'movingAvg' ? 2 : 1;
+                        if (args.length !== expected) throw new Error(`${t.value}() takes ${expected} argument${expected > 1 ? 's' : ''}`);
+                        return createHistorySite(t.value, args, resets);
+                    }
+                    const def = MATH_FUNCTIONS[t.value];
+                    if (!def) throw new Error(`Unknown function '${t.value}' at ${t.pos}`);
+                    if (args.length < def.arity[0] || args.length > def.arity[1]) {
+                        throw new Error(`${t.value}() takes ${def.arity[0] === def.arity[1] ? def.arity[0] : `${def.arity[0]}-${def.arity[1]}`} arguments`);
+                    }
+                    return (ctx) => def.fn(...args.map(a => a(ctx)));
+                }
+                if (t.value in CONSTANTS) {
+                    const value = CONSTANTS[t.value];
+                    return () => value;
+                }
+                const name = t.value;
+                identifiers.add(name);
+                return (ctx) => readIdentifier(ctx.packet, name);
+            }
+            case 'eof':
+                throw new Error('Unexpected end of expression');
+            default:
+                throw new Error(`Unexpected '${t.value}' at ${t.pos}`);
+        }
+    };
+
+    if (peek().type === 'eof') throw new Error('Expression is empty');
+    const root = parseExpression();
+    if (peek().type !== 'eof') throw new Error(`Unexpected '${peek().value}' at ${peek().pos}`);
+
+    return {
+        source,
+        evaluate: root,
+        reset: () => resets.forEach(r => r()),
+        identifiers: Array.from(identifiers)
+    };
+};
+
+/** Returns the compile error message, or null if the expression is valid. */
+export const validateExpression = (source: string): string | null => {
+    try {
+        compileExpression(source);
+        return null;
+    } catch (e) {
+        return e instanceof Error ? e.message : String(e);
+    }
+};
+
+export interface DerivedChannelEvaluator {
+    apply: (packet: TelemetryPacket) => TelemetryPacket;
+    reset: () => void;
+}
+
+/**
+ * Evaluates every custom channel that has an expression, in declaration order,
+ * and writes the results into packet.channels. Invalid expressions are skipped.
+ */
+export const createDerivedChannelEvaluator = (channels: CustomChannelDef[]): DerivedChannelEvaluator => {
+    const compiled: { key: string; expr: CompiledExpression }[] = [];
+    channels.forEach(ch => {
+        if (!ch.key.trim() || !ch.expression || !ch.expression.trim()) return;
+        try {
+            compiled.push({ key: ch.key, expr: compileExpression(ch.expression) });
+        } catch {
+            // Reported in the settings UI; the channel simply stays empty
+        }
+    });
+
+    let lastTime = -Infinity;
+
+    const reset = () => {
+        compiled.forEach(c => c.expr.reset());
+        lastTime = -Infinity;
+    };
+
+    const apply = (packet: TelemetryPacket): TelemetryPacket => {
+        if (compiled.length === 0) return packet;
+        const out: TelemetryPacket = { ...packet, channels: { ...(packet.channels || {}) } };
+        // Streams without a time field fall back to arrival time
+        const ctx: EvalContext = { packet: out, time: out.timeElapsed > 0 ? out.timeElapsed / 1000 : Date.now() / 1000 };
+        // Clock went backwards: new session or file replay seek
+        if (ctx.time < lastTime) reset();
+        lastTime = ctx.time;
+
+        compiled.forEach(({ key, expr }) => {
+            const value = expr.evaluate(ctx);
+            // Written immediately so later channels can reference earlier ones
+            if (isFinite(value)) out.channels![key] = value;
+        });
+        return out;
+    };
+
+    return { apply, reset };
+};
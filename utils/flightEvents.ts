@@ -0,0 +1,244 @@
+import { TelemetryPacket, FlightEvent, FlightEventType, FlightEventSettings, FlightPhase } from '../types';
+import { filteredAltitude, filteredVSpeed } from './stateEstimator';
+
+// AETHER: Flight phase state machine
+// Fed one packet at a time, so the same detector runs on the live stream and on stored
+// sessions. Transitions must hold for CONFIRM_SAMPLES packets; the event is stamped with
+// the first of them. Altitude and vertical speed are the state estimator's output when the
+// packet carries it; vertical speed and acceleration are smoothed before any comparison.
+//
+//   pad -> boost -> coast -> descent -> drogue -> main -> landed
+//
+// Burnout and max-Q are optional along the way: if they are never seen, apogee still ends
+// the ascent. Deployments are sustained drops in descent rate from its running peak.
+
+const CONFIRM_SAMPLES = 3;
+const SMOOTHING = 0.3;             // EMA weight of the newest sample
+const MAX_Q_FALLOFF = 0.8;         // max-Q is confirmed once q drops below this fraction of the peak
+const SEA_LEVEL_DENSITY = 1.225;   // kg/m³, used when the packet carries no density
+
+export const FLIGHT_EVENT_ORDER: FlightEventType[] = ['liftoff', 'burnout', 'maxQ', 'apogee', 'drogue', 'main', 'landing'];
+
+export const FLIGHT_EVENT_LABELS: Record<FlightEventType, string> = {
+    liftoff: 'Liftoff',
+    burnout: 'Burnout',
+    maxQ: 'Max Q',
+    apogee: 'Apogee',
+    drogue: 'Drogue',
+    main: 'Main',
+    landing: 'Landing'
+};
+
+export const FLIGHT_PHASE_LABELS: Record<FlightPhase, string> = {
+    pad: 'On Pad',
+    boost: 'Powered Ascent',
+    coast: 'Coast',
+    descent: 'Free Fall',
+    drogue: 'Under Drogue',
+    main: 'Under Main',
+    landed: 'Landed'
+};
+
+export interface FlightEventDetector {
+    /** Feeds one packet; returns the events confirmed by it (usually none). */
+    push: (packet: TelemetryPacket) => FlightEvent[];
+    getPhase: () => FlightPhase;
+    getEvents: () => FlightEvent[];
+    reset: () => void;
+}
+
+export const dynamicPressureOf = (p: TelemetryPacket): number => {
+    const rho = p.density > 0 ? p.density : SEA_LEVEL_DENSITY;
+    const vz = filteredVSpeed(p);
+    return 0.5 * rho * (vz * vz + p.hSpeed * p.hSpeed);
+};
+
+const toEvent = (type: FlightEventType, p: TelemetryPacket): FlightEvent => ({
+    type,
+    time: p.timeElapsed,
+    altitude: filteredAltitude(p),
+    vSpeed: filteredVSpeed(p),
+    hSpeed: p.hSpeed,
+    dynamicPressure: dynamicPressureOf(p)
+});
+
+/** Returns the first packet of a run once `condition` has held for CONFIRM_SAMPLES packets. */
+const createConfirmer = () => {
+    let first: TelemetryPacket | null = null;
+    let count = 0;
+    const check = (condition: boolean, packet: TelemetryPacket): TelemetryPacket | null => {
+        if (!condition) {
+            first = null;
+            count = 0;
+            return null;
+        }
+        if (!first) first = packet;
+        if (++count < CONFIRM_SAMPLES) return null;
+        const confirmed = first;
+        first = null;
+        count = 0;
+        return confirmed;
+    };
+    return check;
+};
+
+export const createFlightEventDetector = (config: FlightEventSettings): FlightEventDetector => {
+    let phase: FlightPhase;
+    let events: FlightEvent[];
+    let prev: TelemetryPacket | null;
+    let vSmooth: number;
+    let accelSmooth: number;
+    let peak: TelemetryPacket | null;
+    let maxQPacket: TelemetryPacket | null;
+    let maxQValue: number;
+    let maxQDone: boolean;
+    let peakDescentRate: number;
+    let settling: boolean;
+    let stillSince: TelemetryPacket | null;
+    let liftoff: ReturnType<typeof createConfirmer>;
+    let burnout: ReturnType<typeof createConfirmer>;
+    let apogee: ReturnType<typeof createConfirmer>;
+    let deploy: ReturnType<typeof createConfirmer>;
+
+    const reset = () => {
+        phase = 'pad';
+        events = [];
+        prev = null;
+        vSmooth = 0;
+        accelSmooth = 0;
+        peak = null;
+        maxQPacket = null;
+        maxQValue = 0;
+        maxQDone = false;
+        peakDescentRate = 0;
+        settling = false;
+        stillSince = null;
+        liftoff = createConfirmer();
+        burnout = createConfirmer();
+        apogee = createConfirmer();
+        deploy = createConfirmer();
+    };
+    reset();
+
+    const push = (packet: TelemetryPacket): FlightEvent[] => {
+        const fired: FlightEvent[] = [];
+        const emit = (type: FlightEventType, at: TelemetryPacket) => {
+            const event = toEvent(type, at);
+            fired.push(event);
+            events.push(event);
+            // Max-Q is confirmed late, after burnout may already be logged
+            events.sort((a, b) => a.time - b.time);
+        };
+
+        const altitude = filteredAltitude(packet);
+        const vSpeed = filteredVSpeed(packet);
+        if (prev) {
+            const dt = (packet.timeElapsed - prev.timeElapsed) / 1000;
+            vSmooth += SMOOTHING * (vSpeed - vSmooth);
+            const accel = packet.estAccel ?? (dt > 0 ? (vSpeed - filteredVSpeed(prev)) / dt : null);
+            if (accel !== null) accelSmooth += SMOOTHING * (accel - accelSmooth);
+        } else {
+            vSmooth = vSpeed;
+        }
+        prev = packet;
+
+        if (phase === 'pad') {
+            const first = liftoff(vSmooth > config.liftoffVSpeed && altitude > config.liftoffAltitude, packet);
+            if (first) {
+                emit('liftoff', first);
+                phase = 'boost';
+                peak = packet;
+            }
+            return fired;
+        }
+
+        if (phase === 'boost' || phase === 'coast') {
+            if (!peak || altitude > filteredAltitude(peak)) peak = packet;
+
+            if (!maxQDone) {
+                const q = dynamicPressureOf(packet);
+                if (q > maxQValue) {
+                    maxQValue = q;
+                    maxQPacket = packet;
+                } else if (maxQPacket && q < maxQValue * MAX_Q_FALLOFF) {
+                    emit('maxQ', maxQPacket);
+                    maxQDone = true;
+                }
+            }
+
+            if (phase === 'boost') {
+                const first = burnout(accelSmooth < 0 && vSmooth > 0, packet);
+                if (first) {
+                    emit('burnout', first);
+                    phase = 'coast';
+                }
+            }
+
+            const top = apogee(vSmooth < 0 && altitude < filteredAltitude(peak), packet);
+            if (top) {
+                if (!maxQDone && maxQPacket) {
+                    emit('maxQ', maxQPacket);
+                    maxQDone = true;
+                }
+                emit('apogee', peak);
+                phase = 'descent';
+                peakDescentRate = 0;
+            }
+            return fired;
+        }
+
+        if (phase === 'landed') return fired;
+
+        // --- Descent: deployments, then landing ---
+        const rate = -vSmooth;
+        if (phase !== 'main') {
+            // After a deployment the rate keeps falling for a while; follow it down so the
+            // same deceleration is not counted twice, then track the new peak again
+            if (settling && rate < peakDescentRate) {
+                peakDescentRate = rate;
+            } else {
+                settling = false;
+                if (rate > peakDescentRate) peakDescentRate = rate;
+            }
+            // Above the pad and still clearly falling, so touchdown is not mistaken for a deployment
+            const deployed = deploy(
+                peakDescentRate >= config.minDeployRate &&
+                rate < peakDescentRate * (1 - config.deployRateDrop) &&
+                rate > config.landingVSpeed * 2 &&
+                altitude > config.liftoffAltitude,
+                packet
+            );
+            if (deployed) {
+                const type = phase === 'descent' ? 'drogue' : 'main';
+                emit(type, deployed);
+                phase = type;
+                peakDescentRate = rate;
+                settling = true;
+            }
+        }
+
+        if (Math.abs(vSmooth) >= config.landingVSpeed) {
+            stillSince = null;
+        } else if (!stillSince) {
+            stillSince = packet;
+        } else if (packet.timeElapsed - stillSince.timeElapsed >= config.landingHoldMs) {
+            emit('landing', stillSince);
+            phase = 'landed';
+        }
+        return fired;
+    };
+
+    return {
+        push,
+        getPhase: () => phase,
+        getEvents: () => events,
+        reset
+    };
+};
+
+/** Runs the detector over a whole recording. */
+export const detectFlightEvents = (packets: TelemetryPacket[], config: FlightEventSettings): FlightEvent[] => {
+    const detector = createFlightEventDetector(config);
+    packets.forEach(p => detector.push(p));
+    return detector.getEvents();
+};
@@ -0,0 +1,288 @@
+import { TelemetryPacket, CustomChannelDef, FlightAnnotation, FlightEventSettings, AlertLogEntry } from '../types';
+import { buildCsvHeader, formatCsvRow, createEventLabeler } from './csvExport';
+import { createFlightEventDetector } from './flightEvents';
+
+// AETHER: Persistent flight log store (IndexedDB)
+// Packets are appended in chunks keyed [sessionId, seq] so a session can be read back
+// (or exported) one chunk at a time. Session metadata is rewritten on every flush, so a
+// tab crash loses at most one flush interval of data.
+
+const DB_NAME = 'hiraya-flight-log';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+const CHUNK_STORE = 'chunks';
+
+const CHUNK_SIZE = 500;
+const FLUSH_INTERVAL_MS = 2000;
+
+export type FlightSessionStatus = 'recording' | 'complete' | 'recovered' | 'partial';
+
+export interface FlightSessionMeta {
+    id: string;
+    vehicle: string;
+    startedAt: number;   // epoch ms
+    endedAt: number;
+    durationMs: number;  // from packet timeElapsed when available, else wall clock
+    packetCount: number;  // packets stored (pushed packets whose chunk failed to write are not counted)
+    chunkCount: number;
+    maxAltitude: number;
+    channelKeys: string[];
+    status: FlightSessionStatus;
+    annotations?: FlightAnnotation[];  // added in the analysis workspace after the flight
+    alerts?: AlertLogEntry[];          // alert history while recording
+    lostPackets?: number;              // packets whose chunk could not be written (status 'partial')
+}
+
+interface FlightChunk {
+    sessionId: string;
+    seq: number;
+    packets: TelemetryPacket[];
+}
+
+export interface FlightRecorder {
+    readonly sessionId: string;
+    push: (packet: TelemetryPacket) => void;
+    logAlert: (entry: AlertLogEntry) => void;
+    flush: () => Promise<void>;
+    /**
+     * Writes the rest and marks the session complete, or 'partial' if any chunk failed to write.
+     * A session without packets is deleted instead.
+     */
+    finish: () => Promise<FlightSessionMeta>;
+    getPacketCount: () => number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+export const isFlightLogAvailable = () => typeof indexedDB !== 'undefined';
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!isFlightLogAvailable()) return Promise.reject(new Error("IndexedDB is not available in this browser."));
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+                if (!db.objectStoreNames.contains(CHUNK_STORE)) db.createObjectStore(CHUNK_STORE, { keyPath: ['sessionId', 'seq'] });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const chunkRange = (sessionId: string) => IDBKeyRange.bound([sessionId, 0], [sessionId, Number.MAX_SAFE_INTEGER]);
+
+/**
+ * Starts a new session and returns a recorder that buffers packets and writes them in chunks.
+ * `onWriteError` is called on the first failed write (quota, aborted transaction), so the loss
+ * can be reported while the recording is still running.
+ */
+export const createFlightRecorder = (vehicle: string, onWriteError?: (error: Error) => void): FlightRecorder => {
+    const now = Date.now();
+    const meta: FlightSessionMeta = {
+        id: `${now.toString(36)}-${Math.random().toString(36).substring(2, 7)}`,
+        vehicle,
+        startedAt: now,
+        endedAt: now,
+        durationMs: 0,
+        packetCount: 0,
+        chunkCount: 0,
+        maxAltitude: 0,
+        channelKeys: [],
+        status: 'recording'
+    };
+    const channelKeys = new Set<string>();
+    const alerts: AlertLogEntry[] = [];
+    let alertsChanged = false;
+    let pending: TelemetryPacket[] = [];
+    let firstElapsed: number | null = null;
+    let writing: Promise<void> = Promise.resolve();
+    let finished = false;
+    let received = 0;
+    let writeFailed = false;
+
+    const write = () => {
+        const packets = pending;
+        pending = [];
+        alertsChanged = false;
+        // Writes are serialised so chunks land in sequence order; the counts only move once a
+        // chunk has committed, so the stored meta never claims a chunk that is not there
+        writing = writing.then(async () => {
+            const snapshot: FlightSessionMeta = {
+                ...meta,
+                packetCount: meta.packetCount + packets.length,
+                chunkCount: meta.chunkCount + (packets.length > 0 ? 1 : 0),
+                channelKeys: Array.from(channelKeys),
+                alerts: [...alerts]
+            };
+            try {
+                const db = await openDb();
+                const tx = db.transaction([SESSION_STORE, CHUNK_STORE], 'readwrite');
+                if (packets.length > 0) {
+                    const chunk: FlightChunk = { sessionId: meta.id, seq: meta.chunkCount, packets };
+                    tx.objectStore(CHUNK_STORE).put(chunk);
+                }
+                tx.objectStore(SESSION_STORE).put(snapshot);
+                await transactionDone(tx);
+                meta.packetCount = snapshot.packetCount;
+                meta.chunkCount = snapshot.chunkCount;
+            } catch (e) {
+                console.error("Flight log write failed", e);
+                meta.lostPackets = (meta.lostPackets || 0) + packets.length;
+                if (!writeFailed && onWriteError) onWriteError(e instanceof Error ? e : new Error(String(e)));
+                writeFailed = true;
+            }
+        });
+        return writing;
+    };
+
+    const timer = window.setInterval(() => { if (pending.length > 0 || alertsChanged) write(); }, FLUSH_INTERVAL_MS);
+    write();
+
+    return {
+        sessionId: meta.id,
+        push: (packet) => {
+            if (finished) return;
+            pending.push(packet);
+            received++;
+            meta.endedAt = Date.now();
+            meta.maxAltitude = Math.max(meta.maxAltitude, packet.relAltitude || 0);
+            if (packet.timeElapsed > 0) {
+                if (firstElapsed === null) firstElapsed = packet.timeElapsed;
+                meta.durationMs = Math.max(meta.durationMs, packet.timeElapsed - firstElapsed);
+            } else {
+                meta.durationMs = meta.endedAt - meta.startedAt;
+            }
+            if (packet.channels) Object.keys(packet.channels).forEach(k => channelKeys.add(k));
+            if (pending.length >= CHUNK_SIZE) write();
+        },
+        logAlert: (entry) => {
+            if (finished) return;
+            alerts.push(entry);
+            alertsChanged = true;
+        },
+        flush: () => write(),
+        finish: async () => {
+            finished = true;
+            clearInterval(timer);
+            meta.status = writeFailed ? 'partial' : 'complete';
+            if (received === 0) {
+                await writing;
+                await deleteFlightSession(meta.id);
+            } else {
+                await write();
+                // The last chunk may have been the one that failed
+                if (writeFailed && meta.status !== 'partial') {
+                    meta.status = 'partial';
+                    await write();
+                }
+            }
+            return { ...meta, channelKeys: Array.from(channelKeys), alerts: [...alerts] };
+        },
+        getPacketCount: () => received
+    };
+};
+
+export const listFlightSessions = async (): Promise<FlightSessionMeta[]> => {
+    const db = await openDb();
+    const tx = db.transaction(SESSION_STORE, 'readonly');
+    const sessions = await requestToPromise(tx.objectStore(SESSION_STORE).getAll() as IDBRequest<FlightSessionMeta[]>);
+    return sessions.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+/**
+ * Sessions still marked 'recording' belong to a tab that closed or crashed mid-flight.
+ * Everything up to their last flush is on disk; mark them recovered and return them.
+ */
+export const recoverInterruptedSessions = async (activeSessionId?: string): Promise<FlightSessionMeta[]> => {
+    const sessions = await listFlightSessions();
+    const interrupted = sessions.filter(s => s.status === 'recording' && s.id !== activeSessionId);
+    if (interrupted.length === 0) return [];
+    const db = await openDb();
+    const tx = db.transaction(SESSION_STORE, 'readwrite');
+    const recovered = interrupted.map(s => ({ ...s, status: 'recovered' as FlightSessionStatus }));
+    recovered.forEach(s => tx.objectStore(SESSION_STORE).put(s));
+    await transactionDone(tx);
+    return recovered;
+};
+
+/** Visits stored packets chunk by chunk, in order, without loading the whole session. */
+export const forEachSessionChunk = async (sessionId: string, onChunk: (packets: TelemetryPacket[]) => void): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction(CHUNK_STORE, 'readonly');
+    await new Promise<void>((resolve, reject) => {
+        const request = tx.objectStore(CHUNK_STORE).openCursor(chunkRange(sessionId));
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) { resolve(); return; }
+            onChunk((cursor.value as FlightChunk).packets);
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const loadFlightSession = async (sessionId: string): Promise<TelemetryPacket[]> => {
+    const packets: TelemetryPacket[] = [];
+    await forEachSessionChunk(sessionId, chunk => { for (const p of chunk) packets.push(p); });
+    return packets;
+};
+
+/** Replaces a finished session's annotations. The session must not be recording (its recorder rewrites the meta). */
+export const saveSessionAnnotations = async (sessionId: string, annotations: FlightAnnotation[]): Promise<FlightSessionMeta> => {
+    const db = await openDb();
+    const tx = db.transaction(SESSION_STORE, 'readwrite');
+    const store = tx.objectStore(SESSION_STORE);
+    const meta = await requestToPromise(store.get(sessionId) as IDBRequest<FlightSessionMeta | undefined>);
+    if (!meta) throw new Error("Session no longer exists.");
+    const updated: FlightSessionMeta = { ...meta, annotations };
+    store.put(updated);
+    await transactionDone(tx);
+    return updated;
+};
+
+export const deleteFlightSession = async (sessionId: string): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction([SESSION_STORE, CHUNK_STORE], 'readwrite');
+    tx.objectStore(CHUNK_STORE).delete(chunkRange(sessionId));
+    tx.objectStore(SESSION_STORE).delete(sessionId);
+    await transactionDone(tx);
+};
+
+/**
+ * Builds a CSV of a stored session. Each chunk becomes its own Blob part, so only one
+ * chunk of packets is decoded at a time and the browser may keep the parts on disk.
+ * Flight events are detected in a first pass so they can be labelled on their own rows, along
+ * with the alerts recorded in the session.
+ */
+export const exportFlightSessionCsv = async (meta: FlightSessionMeta, declared: CustomChannelDef[], eventSettings: FlightEventSettings): Promise<Blob> => {
+    const declaredKeys = declared.filter(c => c.key.trim()).map(c => c.key);
+    const channelKeys = Array.from(new Set([...declaredKeys, ...meta.channelKeys]));
+
+    const detector = createFlightEventDetector(eventSettings);
+    await forEachSessionChunk(meta.id, chunk => chunk.forEach(p => detector.push(p)));
+    const labelEvent = createEventLabeler(detector.getEvents(), meta.alerts);
+
+    const parts: Blob[] = [new Blob([buildCsvHeader(channelKeys, declared) + "\n"])];
+    await forEachSessionChunk(meta.id, chunk => {
+        parts.push(new Blob([chunk.map(p => formatCsvRow(p, channelKeys, labelEvent(p))).join("\n") + "\n"]));
+    });
+    return new Blob(parts, { type: 'text/csv;charset=utf-8;' });
+};
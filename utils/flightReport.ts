@@ -0,0 +1,348 @@
+import { TelemetryPacket, FlightEvent, FlightEventType, FlightAnnotation } from '../types';
+import { calculateDistance, calculateTotalDistance } from './geo';
+import { dynamicPressureOf, FLIGHT_EVENT_LABELS } from './flightEvents';
+import { filteredVSpeed } from './stateEstimator';
+import { FlightSessionMeta } from './flightLog';
+import { summarizeAlertLog, gLoadOf } from './alerts';
+
+// AETHER: Post-flight report
+// Summary figures come from the recorded packets and the detected flight events; charts and
+// map are PNG snapshots of the analysis workspace, embedded as data URLs so the HTML file
+// stands alone. "PDF" is the browser's print dialog on the same document.
+
+const DEPLOY_SETTLE_MS = 2000;     // skipped after a deployment before averaging the descent rate
+const TRACK_MAX_POINTS = 1000;
+const SNAPSHOT_BACKGROUND = '#0f172a';
+
+export interface GeoPoint {
+    latitude: number;
+    longitude: number;
+}
+
+/** A figure value and the time (ms timeElapsed) it was reached */
+export interface TimedValue {
+    value: number;
+    time: number;
+}
+
+export interface FlightReportSummary {
+    duration: number;                     // ms, first to last packet
+    packetCount: number;
+    apogee: TimedValue | null;            // m above the pad
+    timeToApogee: number | null;          // ms from liftoff
+    maxVelocity: TimedValue | null;       // m/s, vertical and horizontal combined
+    maxG: TimedValue | null;
+    maxQ: TimedValue | null;              // Pa
+    drogueDescentRate: number | null;     // m/s, mean under drogue
+    mainDescentRate: number | null;       // m/s, mean under main
+    pad: GeoPoint | null;
+    landing: GeoPoint | null;
+    driftDistance: number | null;         // m, pad to landing
+    groundTrackLength: number | null;     // m, along the GPS track from liftoff
+    events: FlightEvent[];
+}
+
+export interface ReportSnapshot {
+    title: string;
+    dataUrl: string;
+}
+
+export interface FlightReportInput {
+    session: FlightSessionMeta;
+    packets: TelemetryPacket[];
+    events: FlightEvent[];
+    annotations: FlightAnnotation[];
+    snapshots: ReportSnapshot[];
+}
+
+const hasFix = (p: TelemetryPacket) => Math.abs(p.latitude) > 0.0001 || Math.abs(p.longitude) > 0.0001;
+
+const maxOf = (packets: TelemetryPacket[], valueOf: (p: TelemetryPacket, i: number) => number | null): TimedValue | null => {
+    let best: TimedValue | null = null;
+    for (let i = 0; i < packets.length; i++) {
+        const value = valueOf(packets[i], i);
+        if (value === null || !Number.isFinite(value)) continue;
+        if (!best || value > best.value) best = { value, time: packets[i].timeElapsed };
+    }
+    return best;
+};
+
+/** Mean descent rate between two times, ignoring the deceleration right after the deployment. */
+const meanDescentRate = (packets: TelemetryPacket[], from: number, to: number): number | null => {
+    const window = packets.filter(p => p.timeElapsed >= from && p.timeElapsed < to);
+    const settled = window.filter(p => p.timeElapsed >= from + DEPLOY_SETTLE_MS);
+    const samples = settled.length > 0 ? settled : window;
+    if (samples.length === 0) return null;
+    return samples.reduce((sum, p) => sum - filteredVSpeed(p), 0) / samples.length;
+};
+
+export const computeFlightSummary = (packets: TelemetryPacket[], events: FlightEvent[]): FlightReportSummary => {
+    const byType = new Map<FlightEventType, FlightEvent>(events.map(e => [e.type, e]));
+    const liftoff = byType.get('liftoff');
+    const apogeeEvent = byType.get('apogee');
+    const drogue = byType.get('drogue');
+    const main = byType.get('main');
+    const landingEvent = byType.get('landing');
+    const end = packets.length > 0 ? packets[packets.length - 1].timeElapsed : 0;
+
+    // Same G-load as the dashboard readout, taken over the whole flight
+    const maxG = maxOf(packets, (p, i) => i === 0 ? null : gLoadOf(p, packets[i - 1]));
+
+    const apogee = apogeeEvent
+        ? { value: apogeeEvent.altitude, time: apogeeEvent.time }
+        : maxOf(packets, p => p.relAltitude);
+
+    // Pad position is the last fix before liftoff; landing is the last fix of the recording
+    const fixes = packets.filter(hasFix);
+    const beforeLiftoff = liftoff ? fixes.filter(p => p.timeElapsed <= liftoff.time) : [];
+    const padFix = beforeLiftoff.length > 0 ? beforeLiftoff[beforeLiftoff.length - 1] : fixes[0];
+    const landingFix = fixes.length > 0 ? fixes[fixes.length - 1] : undefined;
+    const flownTrack = liftoff ? fixes.filter(p => p.timeElapsed >= liftoff.time) : fixes;
+
+    return {
+        duration: packets.length > 0 ? end - packets[0].timeElapsed : 0,
+        packetCount: packets.length,
+        apogee,
+        timeToApogee: liftoff && apogee ? apogee.time - liftoff.time : null,
+        maxVelocity: maxOf(packets, p => Math.hypot(filteredVSpeed(p), p.hSpeed)),
+        maxG,
+        maxQ: maxOf(packets, p => dynamicPressureOf(p)),
+        drogueDescentRate: drogue ? meanDescentRate(packets, drogue.time, main?.time ?? landingEvent?.time ?? end) : null,
+        mainDescentRate: main ? meanDescentRate(packets, main.time, landingEvent?.time ?? end) : null,
+        pad: padFix ? { latitude: padFix.latitude, longitude: padFix.longitude } : null,
+        landing: landingFix ? { latitude: landingFix.latitude, longitude: landingFix.longitude } : null,
+        driftDistance: padFix && landingFix
+            ? calculateDistance(padFix.latitude, padFix.longitude, landingFix.latitude, landingFix.longitude)
+            : null,
+        groundTrackLength: flownTrack.length > 1 ? calculateTotalDistance(flownTrack) : null,
+        events
+    };
+};
+
+/**
+ * Draws a canvas onto an opaque background and returns it as a PNG data URL.
+ * Returns null for an empty canvas or one tainted by cross-origin map tiles.
+ */
+export const snapshotCanvas = (canvas: HTMLCanvasElement | null | undefined): string | null => {
+    if (!canvas || canvas.width === 0 || canvas.height === 0) return null;
+    try {
+        const out = document.createElement('canvas');
+        out.width = canvas.width;
+        out.height = canvas.height;
+        const ctx = out.getContext('2d');
+        if (!ctx) return null;
+        ctx.fillStyle = SNAPSHOT_BACKGROUND;
+        ctx.fillRect(0, 0, out.width, out.height);
+        ctx.drawImage(canvas, 0, 0);
+        return out.toDataURL('image/png');
+    } catch {
+        return null;
+    }
+};
+
+// --- HTML ---
+
+const escapeHtml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const fmt = (value: number | null | undefined, digits: number, unit: string) =>
+    value === null || value === undefined || !Number.isFinite(value) ? '—' : `${value.toFixed(digits)} ${unit}`;
+
+const fmtT = (ms: number) => `T+ ${(ms / 1000).toFixed(2)} s`;
+
+const fmtAt = (v: TimedValue | null, digits: number, unit: string) =>
+    v ? `${fmt(v.value, digits, unit)} <span class="at">${fmtT(v.time)}</span>` : '—';
+
+const fmtCoord = (p: GeoPoint | null) => p ? `${p.latitude.toFixed(6)}, ${p.longitude.toFixed(6)}` : '—';
+
+/** Ground track in local metres around the pad, with the pad-to-landing drift line. */
+const renderGroundTrackSvg = (packets: TelemetryPacket[], summary: FlightReportSummary): string => {
+    const fixes = packets.filter(hasFix);
+    if (fixes.length < 2 || !summary.pad) return '';
+    const step = Math.max(1, Math.ceil(fixes.length / TRACK_MAX_POINTS));
+    const origin = summary.pad;
+    const cosLat = Math.cos(origin.latitude * Math.PI / 180);
+    const toLocal = (p: GeoPoint) => ({
+        x: (p.longitude - origin.longitude) * 111320 * cosLat,
+        y: (p.latitude - origin.latitude) * 111320
+    });
+
+    const points = fixes.filter((_, i) => i % step === 0 || i === fixes.length - 1).map(toLocal);
+    const extent = Math.max(10, ...points.map(p => Math.max(Math.abs(p.x), Math.abs(p.y))));
+    const size = 360;
+    const scale = (size / 2 - 20) / extent;
+    const sx = (x: number) => (size / 2 + x * scale).toFixed(1);
+    const sy = (y: number) => (size / 2 - y * scale).toFixed(1);
+
+    const landing = summary.landing ? toLocal(summary.landing) : null;
+    const path = points.map(p => `${sx(p.x)},${sy(p.y)}`).join(' ');
+    return `<svg viewBox="0 0 ${size} ${size}" class="track" xmlns="http://www.w3.org/2000/svg">
+  <rect width="${size}" height="${size}" fill="${SNAPSHOT_BACKGROUND}"/>
+  <line x1="${size / 2}" y1="10" x2="${size / 2}" y2="${size - 10}" stroke="#1e293b"/>
+  <line x1="10" y1="${size / 2}" x2="${size - 10}" y2="${size / 2}" stroke="#1e293b"/>
+  <text x="${size / 2 + 4}" y="20" fill="#64748b" font-size="10">N</text>
+  <polyline points="${path}" fill="none" stroke="#38bdf8" stroke-width="1.5"/>
+  ${landing ? `<line x1="${sx(0)}" y1="${sy(0)}" x2="${sx(landing.x)}" y2="${sy(landing.y)}" stroke="#fbbf24" stroke-dasharray="4 4"/>
+  <circle cx="${sx(landing.x)}" cy="${sy(landing.y)}" r="5" fill="#f43f5e"/>` : ''}
+  <circle cx="${sx(0)}" cy="${sy(0)}" r="5" fill="#10b981"/>
+  <text x="10" y="${size - 10}" fill="#64748b" font-size="10">Scale: ${(extent * 2).toFixed(0)} m across</text>
+</svg>`;
+};
+
+const REPORT_STYLE = `
+  body { font-family: -apple-system, "Segoe UI", Roboto, sans-serif; color: #0f172a; margin: 32px auto; max-width: 960px; padding: 0 24px; }
+  h1 { font-size: 22px; margin: 0 0 4px; letter-spacing: 0.05em; text-transform: uppercase; }
+  h2 { font-size: 14px; margin: 28px 0 10px; padding-bottom: 4px; border-bottom: 2px solid #0f172a; text-transform: uppercase; letter-spacing: 0.08em; }
+  .meta { color: #64748b; font-size: 12px; }
+  .grid { display: grid; grid-template-columns: repeat(3, 1fr); gap: 10px; }
+  .metric { border: 1px solid #cbd5e1; border-radius: 4px; padding: 10px 12px; }
+  .metric .label { font-size: 10px; color: #64748b; text-transform: uppercase; letter-spacing: 0.08em; }
+  .metric .value { font-size: 18px; font-weight: 700; font-family: ui-monospace, monospace; margin-top: 2px; }
+  .at { display: block; font-size: 10px; font-weight: 400; color: #94a3b8; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; }
+  th, td { text-align: left; padding: 5px 8px; border-bottom: 1px solid #e2e8f0; }
+  th { font-size: 10px; color: #64748b; text-transform: uppercase; letter-spacing: 0.06em; }
+  td.num { font-family: ui-monospace, monospace; text-align: right; }
+  .swatch { display: inline-block; width: 10px; height: 10px; border-radius: 2px; margin-right: 6px; vertical-align: middle; }
+  figure { margin: 0 0 16px; break-inside: avoid; }
+  figure img, figure svg { width: 100%; border-radius: 4px; display: block; }
+  figure svg.track { max-width: 420px; }
+  figcaption { font-size: 11px; color: #64748b; margin-top: 4px; }
+  .track-row { display: grid; grid-template-columns: 1fr 1fr; gap: 16px; align-items: start; }
+  footer { margin-top: 32px; font-size: 10px; color: #94a3b8; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    h2 { break-after: avoid; }
+    .metric, tr { break-inside: avoid; }
+  }
+`;
+
+export const buildFlightReportHtml = ({ session, packets, events, annotations, snapshots }: FlightReportInput): string => {
+    const summary = computeFlightSummary(packets, events);
+    const liftoffTime = events.find(e => e.type === 'liftoff')?.time ?? 0;
+    const title = `Flight Report · ${session.vehicle} · ${new Date(session.startedAt).toLocaleString()}`;
+
+    const metrics: [string, string][] = [
+        ['Apogee', fmtAt(summary.apogee, 1, 'm')],
+        ['Time to Apogee', fmt(summary.timeToApogee !== null ? summary.timeToApogee / 1000 : null, 2, 's')],
+        ['Max Velocity', fmtAt(summary.maxVelocity, 1, 'm/s')],
+        ['Max G', fmtAt(summary.maxG, 2, 'G')],
+        ['Max Q', fmtAt(summary.maxQ && { value: summary.maxQ.value / 1000, time: summary.maxQ.time }, 2, 'kPa')],
+        ['Flight Time', fmt(summary.duration / 1000, 1, 's')],
+        ['Descent Under Drogue', fmt(summary.drogueDescentRate, 1, 'm/s')],
+        ['Descent Under Main', fmt(summary.mainDescentRate, 1, 'm/s')],
+        ['Drift From Pad', fmt(summary.driftDistance, 0, 'm')]
+    ];
+
+    const eventRows = events.map(e => `<tr>
+      <td>${FLIGHT_EVENT_LABELS[e.type]}</td>
+      <td class="num">${fmtT(e.time)}</td>
+      <td class="num">L+ ${((e.time - liftoffTime) / 1000).toFixed(2)} s</td>
+      <td class="num">${e.altitude.toFixed(1)} m</td>
+      <td class="num">${e.vSpeed.toFixed(1)} m/s</td>
+      <td class="num">${(e.dynamicPressure / 1000).toFixed(2)} kPa</td>
+    </tr>`).join('');
+
+    const annotationRows = annotations.map(a => `<tr>
+      <td><span class="swatch" style="background:${escapeHtml(a.color)}"></span>${escapeHtml(a.label)}</td>
+      <td class="num">${fmtT(a.time)}</td>
+      <td>${escapeHtml(a.note ?? '')}</td>
+    </tr>`).join('');
+
+    const alertLog = session.alerts ?? [];
+    const alertValue = (v: number | undefined) => v === undefined ? '—' : Math.abs(v) >= 1000 ? v.toFixed(0) : v.toFixed(2);
+    const alertSummaryRows = summarizeAlertLog(alertLog).map(a => `<tr>
+      <td>${escapeHtml(a.name)}</td>
+      <td>${a.severity}</td>
+      <td class="num">${a.occurrences}</td>
+      <td class="num">${fmtT(a.firstAt)}</td>
+      <td class="num">${fmtT(a.lastAt)}</td>
+      <td class="num">${alertValue(a.peak)}</td>
+      <td class="num">${a.acknowledged}</td>
+    </tr>`).join('');
+    const alertLogRows = alertLog.map(e => `<tr>
+      <td class="num">${fmtT(e.packetTime)}</td>
+      <td>${e.type}</td>
+      <td>${escapeHtml(e.name)}</td>
+      <td>${escapeHtml(e.message)}</td>
+      <td class="num">${alertValue(e.type === 'cleared' ? e.peak : e.value)}</td>
+    </tr>`).join('');
+
+    const figures = snapshots.map(s => `<figure>
+      <img src="${s.dataUrl}" alt="${escapeHtml(s.title)}"/>
+      <figcaption>${escapeHtml(s.title)}</figcaption>
+    </figure>`).join('');
+
+    const track = renderGroundTrackSvg(packets, summary);
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8"/>
+<title>${escapeHtml(title)}</title>
+<style>${REPORT_STYLE}</style>
+</head>
+<body>
+<h1>Flight Report</h1>
+<div class="meta">${escapeHtml(session.vehicle)} · ${escapeHtml(new Date(session.startedAt).toLocaleString())} · ${summary.packetCount} packets · session ${escapeHtml(session.id)}</div>
+
+<h2>Summary</h2>
+<div class="grid">
+${metrics.map(([label, value]) => `<div class="metric"><div class="label">${label}</div><div class="value">${value}</div></div>`).join('\n')}
+</div>
+
+<h2>Flight Events</h2>
+${events.length > 0
+    ? `<table><thead><tr><th>Event</th><th>Time</th><th>From Liftoff</th><th>Altitude</th><th>Vertical Speed</th><th>Dyn. Pressure</th></tr></thead><tbody>${eventRows}</tbody></table>`
+    : '<p class="meta">No flight events detected.</p>'}
+
+<h2>Ground Track</h2>
+<table>
+  <tbody>
+    <tr><th>Pad</th><td class="num">${fmtCoord(summary.pad)}</td></tr>
+    <tr><th>Landing</th><td class="num">${fmtCoord(summary.landing)}</td></tr>
+    <tr><th>Drift</th><td class="num">${fmt(summary.driftDistance, 0, 'm')}</td></tr>
+    <tr><th>Track Length</th><td class="num">${fmt(summary.groundTrackLength, 0, 'm')}</td></tr>
+  </tbody>
+</table>
+${track ? `<div class="track-row"><figure>${track}<figcaption>Ground track: pad (green), landing (red), drift (dashed)</figcaption></figure></div>` : '<p class="meta">No GPS fix recorded.</p>'}
+
+<h2>Alerts</h2>
+${alertLog.length > 0
+    ? `<table><thead><tr><th>Rule</th><th>Severity</th><th>Count</th><th>First</th><th>Last</th><th>Peak</th><th>Acknowledged</th></tr></thead><tbody>${alertSummaryRows}</tbody></table>
+<table><thead><tr><th>Time</th><th>Event</th><th>Rule</th><th>Message</th><th>Value / Peak</th></tr></thead><tbody>${alertLogRows}</tbody></table>`
+    : '<p class="meta">No alerts raised while recording.</p>'}
+
+${figures ? `<h2>Charts &amp; Map</h2>\n${figures}` : ''}
+
+${annotations.length > 0 ? `<h2>Annotations</h2>
+<table><thead><tr><th>Label</th><th>Time</th><th>Note</th></tr></thead><tbody>${annotationRows}</tbody></table>` : ''}
+
+<footer>Generated ${escapeHtml(new Date().toLocaleString())} by HIRAYA Ground Station</footer>
+</body>
+</html>`;
+};
+
+/** Opens the report in a new window and starts the print dialog (Save as PDF). Returns false if the popup was blocked. */
+export const printFlightReport = (html: string): boolean => {
+    const win = window.open('', '_blank');
+    if (!win) return false;
+    win.document.open();
+    win.document.write(html);
+    win.document.close();
+    // Images are data URLs but still decode asynchronously; some browsers never fire onload
+    // for a written document, so fall back to a short timer
+    let printed = false;
+    const print = () => {
+        if (printed) return;
+        printed = true;
+        win.focus();
+        win.print();
+    };
+    win.onload = print;
+    setTimeout(print, 500);
+    return true;
+};
@@ -1,5 +1,5 @@
 
-import { DescentSettings, WindSettings, TerrainSettings, WindLayer, LandingSettings } from '../types';
+import { DescentSettings, WindSettings, WindLayer, LandingSettings } from '../types';
 
 // Constants
 const R_EARTH = 6371e3; // Earth radius (m)
@@ -373,12 +373,3 @@ export const predictLanding = (
     path
   };
 };
-
-/**
- * FETCH TERRAIN ELEVATION (Stub)
- */
-export const getTerrainElevation = async (lat: number, lon: number, settings: TerrainSettings): Promise<number> => {
-    if (!settings.enabled || settings.provider === 'none') return 0;
-    // Local provider implementation logic here
-    return 0;
-};
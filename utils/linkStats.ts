@@ -0,0 +1,225 @@
+import { TelemetryPacket } from '../types';
+import { FrameDecoderStats } from './binaryDecoder';
+import { ParseRejectReason } from './parser';
+
+// AETHER: Link quality accounting
+// Counts what arrives on the port in one-second buckets: bytes, packets, checksum failures and
+// lines that would not parse. Lost packets are counted from sequence numbers when the stream
+// carries them (a "seq"-style channel, or the MAVLink frame counter) and otherwise estimated from
+// gaps in timeElapsed longer than the usual packet interval.
+
+const BUCKET_MS = 1000;
+const RATE_WINDOW = 3;        // buckets averaged for packets/s and bytes/s
+const LOSS_WINDOW = 10;       // buckets the loss percentage covers
+const GAP_FACTOR = 1.5;       // an interval this many times the typical one is a gap
+const INTERVAL_SAMPLES = 16;  // recent intervals the typical one is the median of
+const MAX_SEQUENCE_JUMP = 1000;
+
+/** Channel keys (case-insensitive) read as a packet sequence counter */
+export const SEQUENCE_CHANNELS = ['seq', 'sequence', 'packetcount', 'pktcount', 'counter'];
+const RSSI_CHANNELS = ['rssi'];
+const SNR_CHANNELS = ['snr'];
+
+export type LossSource = 'sequence' | 'timing';
+
+export interface LinkStats {
+    packetRate: number;        // packets/s
+    byteRate: number;          // bytes/s
+    received: number;          // packets since the stream started
+    bytes: number;
+    checksumFailures: number;
+    recentChecksumFailures: number;  // over the last LOSS_WINDOW seconds
+    parseRejects: number;
+    gaps: number;              // timeElapsed jumps (timing estimate only)
+    lost: number;              // packets (or MAVLink frames) missing since the stream started
+    lossPercent: number;       // over the last LOSS_WINDOW seconds
+    lossSource: LossSource;
+    rssi?: number;             // latest, when the stream has an RSSI channel
+    snr?: number;
+    lastPacketAt: number;      // Date.now(), 0 before the first packet
+}
+
+interface Bucket {
+    index: number;             // floor(time / BUCKET_MS)
+    packets: number;
+    bytes: number;
+    observed: number;          // units the loss is counted in: packets, or frames for MAVLink
+    lost: number;
+    checksumFailures: number;
+}
+
+export interface LinkMonitor {
+    addBytes: (count: number, now: number) => void;
+    addPacket: (packet: TelemetryPacket, now: number) => void;
+    addReject: (reason: ParseRejectReason, now: number) => void;
+    /** Folds in a frame decoder's running counts (binary and MAVLink streams) */
+    addFrameStats: (stats: FrameDecoderStats, now: number) => void;
+    snapshot: (now: number) => LinkStats;
+    reset: () => void;
+}
+
+const channelOf = (packet: TelemetryPacket, keys: string[]): number | undefined => {
+    if (!packet.channels) return undefined;
+    for (const key in packet.channels) {
+        if (keys.includes(key.toLowerCase()) && Number.isFinite(packet.channels[key])) return packet.channels[key];
+    }
+    return undefined;
+};
+
+export const createLinkMonitor = (): LinkMonitor => {
+    let buckets: Bucket[] = [];
+    let totals = { received: 0, bytes: 0, checksumFailures: 0, parseRejects: 0, gaps: 0, lost: 0 };
+    let lastPacketAt = 0;
+    let rssi: number | undefined;
+    let snr: number | undefined;
+
+    let lastSeq: number | null = null;
+    let lastTime: number | null = null;
+    let intervals: number[] = [];
+    let frameSequence = false;
+    let lossSource: LossSource = 'timing';
+    let lastFrameStats: FrameDecoderStats = { crcFailures: 0 };
+
+    const bucketAt = (now: number): Bucket => {
+        const index = Math.floor(now / BUCKET_MS);
+        let bucket = buckets[buckets.length - 1];
+        if (!bucket || bucket.index !== index) {
+            bucket = { index, packets: 0, bytes: 0, observed: 0, lost: 0, checksumFailures: 0 };
+            buckets.push(bucket);
+            buckets = buckets.filter(b => b.index > index - LOSS_WINDOW - 1);
+        }
+        return bucket;
+    };
+
+    const countLost = (bucket: Bucket, lost: number) => {
+        bucket.lost += lost;
+        totals.lost += lost;
+    };
+
+    const typicalInterval = () => {
+        if (intervals.length < 3) return 0;
+        const sorted = [...intervals].sort((a, b) => a - b);
+        return sorted[Math.floor(sorted.length / 2)];
+    };
+
+    const addPacket = (packet: TelemetryPacket, now: number) => {
+        const bucket = bucketAt(now);
+        bucket.packets++;
+        totals.received++;
+        lastPacketAt = now;
+        rssi = channelOf(packet, RSSI_CHANNELS) ?? rssi;
+        snr = channelOf(packet, SNR_CHANNELS) ?? snr;
+        if (frameSequence) return;  // the decoder counts frames instead
+
+        bucket.observed++;
+        const seq = channelOf(packet, SEQUENCE_CHANNELS);
+        if (seq !== undefined) {
+            lossSource = 'sequence';
+            const jump = lastSeq === null ? 1 : seq - lastSeq;
+            // Backwards or huge jumps are a counter wrap or a vehicle reboot, not loss
+            if (jump > 1 && jump <= MAX_SEQUENCE_JUMP) countLost(bucket, jump - 1);
+            lastSeq = seq;
+            return;
+        }
+
+        const time = packet.timeElapsed;
+        if (lastTime !== null) {
+            const dt = time - lastTime;
+            if (dt <= 0) {
+                if (dt < 0) intervals = [];  // clock restarted
+            } else {
+                const typical = typicalInterval();
+                if (typical > 0 && dt > typical * GAP_FACTOR) {
+                    totals.gaps++;
+                    countLost(bucket, Math.round(dt / typical) - 1);
+                } else {
+                    intervals.push(dt);
+                    if (intervals.length > INTERVAL_SAMPLES) intervals.shift();
+                }
+            }
+        }
+        lastTime = time;
+    };
+
+    const addFrameStats = (stats: FrameDecoderStats, now: number) => {
+        const crc = stats.crcFailures - lastFrameStats.crcFailures;
+        if (crc > 0) {
+            totals.checksumFailures += crc;
+            bucketAt(now).checksumFailures += crc;
+        }
+        if (stats.sequenceFrames !== undefined) {
+            frameSequence = true;
+            lossSource = 'sequence';
+            const bucket = bucketAt(now);
+            bucket.observed += Math.max(0, stats.sequenceFrames - (lastFrameStats.sequenceFrames ?? 0));
+            const lost = (stats.sequenceLost ?? 0) - (lastFrameStats.sequenceLost ?? 0);
+            if (lost > 0) countLost(bucket, lost);
+        }
+        lastFrameStats = { ...stats };
+    };
+
+    const snapshot = (now: number): LinkStats => {
+        const current = Math.floor(now / BUCKET_MS);
+        // The current second is still filling up, so rates use the completed ones before it
+        const completed = buckets.filter(b => b.index < current && b.index >= current - RATE_WINDOW);
+        const recent = buckets.filter(b => b.index > current - LOSS_WINDOW);
+        const observed = recent.reduce((sum, b) => sum + b.observed, 0);
+        const lost = recent.reduce((sum, b) => sum + b.lost, 0);
+        return {
+            packetRate: completed.reduce((sum, b) => sum + b.packets, 0) / RATE_WINDOW,
+            byteRate: completed.reduce((sum, b) => sum + b.bytes, 0) / RATE_WINDOW,
+            ...totals,
+            recentChecksumFailures: recent.reduce((sum, b) => sum + b.checksumFailures, 0),
+            lossPercent: observed + lost > 0 ? lost / (observed + lost) * 100 : 0,
+            lossSource,
+            rssi,
+            snr,
+            lastPacketAt
+        };
+    };
+
+    const reset = () => {
+        buckets = [];
+        totals = { received: 0, bytes: 0, checksumFailures: 0, parseRejects: 0, gaps: 0, lost: 0 };
+        lastPacketAt = 0;
+        rssi = undefined;
+        snr = undefined;
+        lastSeq = null;
+        lastTime = null;
+        intervals = [];
+        frameSequence = false;
+        lossSource = 'timing';
+        lastFrameStats = { crcFailures: 0 };
+    };
+
+    return {
+        addBytes: (count, now) => {
+            bucketAt(now).bytes += count;
+            totals.bytes += count;
+        },
+        addPacket,
+        addReject: (reason, now) => {
+            if (reason === 'checksum') {
+                totals.checksumFailures++;
+                bucketAt(now).checksumFailures++;
+            } else {
+                totals.parseRejects++;
+            }
+        },
+        addFrameStats,
+        snapshot,
+        reset
+    };
+};
+
+/** Signal bars (0-4) for the link: loss, and RSSI when reported; 0 once packets stop */
+export const linkBarsOf = (stats: LinkStats, now: number, staleMs = 3000): number => {
+    if (stats.lastPacketAt === 0 || now - stats.lastPacketAt > staleMs) return 0;
+    const loss = stats.lossPercent;
+    let bars = loss < 2 ? 4 : loss < 10 ? 3 : loss < 25 ? 2 : 1;
+    if (stats.rssi !== undefined) {
+        const rssiBars = stats.rssi > -70 ? 4 : stats.rssi > -85 ? 3 : stats.rssi > -100 ? 2 : 1;
+        bars = Math.min(bars, rssiBars);
+    }
+    return bars;
+};
@@ -0,0 +1,300 @@
+import { TelemetryPacket, VehicleState } from '../types';
+import { createEmptyPacket, throttleLog } from './parser';
+import { FrameDecoder } from './binaryDecoder';
+
+// AETHER: MAVLink v2 (and v1) decoder
+// Only the subset of the common dialect we map onto TelemetryPacket is decoded;
+// other messages are skipped since their CRC_EXTRA is unknown.
+
+const MAVLINK_V2_STX = 0xFD;
+const MAVLINK_V1_STX = 0xFE;
+const MAVLINK_IFLAG_SIGNED = 0x01;
+const MAVLINK_SIGNATURE_LEN = 13;
+const MAX_BUFFER_SIZE = 64 * 1024;
+
+const MSG = {
+    HEARTBEAT: 0,
+    SCALED_PRESSURE: 29,
+    ATTITUDE: 30,
+    GLOBAL_POSITION_INT: 33,
+    VFR_HUD: 74
+};
+
+// msgid -> { CRC_EXTRA, full payload length }
+const MESSAGE_INFO: Record<number, { crcExtra: number; length: number }> = {
+    [MSG.HEARTBEAT]: { crcExtra: 50, length: 9 },
+    [MSG.SCALED_PRESSURE]: { crcExtra: 115, length: 16 },
+    [MSG.ATTITUDE]: { crcExtra: 39, length: 28 },
+    [MSG.GLOBAL_POSITION_INT]: { crcExtra: 104, length: 28 },
+    [MSG.VFR_HUD]: { crcExtra: 20, length: 20 }
+};
+
+const MAV_TYPE_GCS = 6;
+const MAV_AUTOPILOT_ARDUPILOTMEGA = 3;
+const MAV_AUTOPILOT_INVALID = 8;
+const MAV_AUTOPILOT_PX4 = 12;
+const MAV_MODE_FLAG_SAFETY_ARMED = 0x80;
+const MAV_MODE_FLAG_CUSTOM_MODE_ENABLED = 0x01;
+
+const ARDUCOPTER_MODES: Record<number, string> = {
+    0: 'STABILIZE', 1: 'ACRO', 2: 'ALT_HOLD', 3: 'AUTO', 4: 'GUIDED', 5: 'LOITER', 6: 'RTL', 7: 'CIRCLE',
+    9: 'LAND', 11: 'DRIFT', 13: 'SPORT', 14: 'FLIP', 15: 'AUTOTUNE', 16: 'POSHOLD', 17: 'BRAKE', 18: 'THROW',
+    19: 'AVOID_ADSB', 20: 'GUIDED_NOGPS', 21: 'SMART_RTL', 22: 'FLOWHOLD', 23: 'FOLLOW', 24: 'ZIGZAG',
+    25: 'SYSTEMID', 26: 'AUTOROTATE', 27: 'AUTO_RTL'
+};
+
+const ARDUPLANE_MODES: Record<number, string> = {
+    0: 'MANUAL', 1: 'CIRCLE', 2: 'STABILIZE', 3: 'TRAINING', 4: 'ACRO', 5: 'FBWA', 6: 'FBWB', 7: 'CRUISE',
+    8: 'AUTOTUNE', 10: 'AUTO', 11: 'RTL', 12: 'LOITER', 13: 'TAKEOFF', 14: 'AVOID_ADSB', 15: 'GUIDED',
+    17: 'QSTABILIZE', 18: 'QHOVER', 19: 'QLOITER', 20: 'QLAND', 21: 'QRTL', 22: 'QAUTOTUNE', 23: 'QACRO', 24: 'THERMAL'
+};
+
+const ARDUROVER_MODES: Record<number, string> = {
+    0: 'MANUAL', 1: 'ACRO', 3: 'STEERING', 4: 'HOLD', 5: 'LOITER', 6: 'FOLLOW', 7: 'SIMPLE',
+    10: 'AUTO', 11: 'RTL', 12: 'SMART_RTL', 15: 'GUIDED'
+};
+
+const PX4_MAIN_MODES: Record<number, string> = {
+    1: 'MANUAL', 2: 'ALTCTL', 3: 'POSCTL', 4: 'AUTO', 5: 'ACRO', 6: 'OFFBOARD', 7: 'STABILIZED', 8: 'RATTITUDE'
+};
+
+const PX4_AUTO_SUB_MODES: Record<number, string> = {
+    1: 'READY', 2: 'TAKEOFF', 3: 'LOITER', 4: 'MISSION', 5: 'RTL', 6: 'LAND', 8: 'FOLLOW', 9: 'PRECLAND'
+};
+
+const SYSTEM_STATUS: Record<number, string> = {
+    0: 'UNINIT', 1: 'BOOT', 2: 'CALIBRATING', 3: 'STANDBY', 4: 'ACTIVE', 5: 'CRITICAL', 6: 'EMERGENCY', 7: 'POWEROFF', 8: 'TERMINATION'
+};
+
+interface SequenceState {
+    last: number;   // newest sequence number accounted for
+    run: { start: number; end: number; length: number } | null;  // unverified frames since a break
+}
+
+/** MAVLink X.25 CRC accumulate step. */
+const crcAccumulate = (byte: number, crc: number): number => {
+    let tmp = byte ^ (crc & 0xFF);
+    tmp = (tmp ^ (tmp << 4)) & 0xFF;
+    return ((crc >> 8) ^ (tmp << 8) ^ (tmp << 3) ^ (tmp >> 4)) & 0xFFFF;
+};
+
+const computeMavlinkCrc = (bytes: Uint8Array, start: number, end: number, crcExtra: number): number => {
+    let crc = 0xFFFF;
+    for (let i = start; i < end; i++) crc = crcAccumulate(bytes[i], crc);
+    return crcAccumulate(crcExtra, crc);
+};
+
+/** Human-readable flight mode from HEARTBEAT custom_mode. */
+export const decodeFlightMode = (autopilot: number, vehicleType: number, baseMode: number, customMode: number): string => {
+    if (!(baseMode & MAV_MODE_FLAG_CUSTOM_MODE_ENABLED)) return 'UNKNOWN';
+
+    if (autopilot === MAV_AUTOPILOT_PX4) {
+        const main = (customMode >> 16) & 0xFF;
+        const sub = (customMode >> 24) & 0xFF;
+        const mainName = PX4_MAIN_MODES[main] || `MODE_${main}`;
+        if (main === 4 && PX4_AUTO_SUB_MODES[sub]) return `${mainName}.${PX4_AUTO_SUB_MODES[sub]}`;
+        return mainName;
+    }
+
+    if (autopilot === MAV_AUTOPILOT_ARDUPILOTMEGA) {
+        let table = ARDUCOPTER_MODES;
+        if (vehicleType === 1) table = ARDUPLANE_MODES;                       // Fixed wing
+        else if (vehicleType === 10 || vehicleType === 11) table = ARDUROVER_MODES; // Rover / Boat
+        else if (vehicleType >= 19 && vehicleType <= 25) table = ARDUPLANE_MODES;   // VTOL (QuadPlane)
+        return table[customMode] || `MODE_${customMode}`;
+    }
+
+    return `MODE_${customMode}`;
+};
+
+/**
+ * Streaming MAVLink decoder. Messages only carry part of the state, so they
+ * are merged into a running packet and a snapshot is emitted per message.
+ * HEARTBEATs are reported through onHeartbeat instead of producing a packet.
+ */
+export const createMavlinkDecoder = (onHeartbeat?: (state: VehicleState) => void): FrameDecoder => {
+    let buffer = new Uint8Array(0);
+    let current = createEmptyPacket();
+
+    // Link accounting: every component numbers its frames, so skipped numbers are lost frames.
+    // Loss is only settled on frames whose CRC checks out. Frames of unknown types (no CRC_EXTRA)
+    // can only carry the count forward: they are held as a run until a verified frame continues
+    // it, so a corrupted header starts a run that goes nowhere instead of adding a gap.
+    let crcFailures = 0;
+    let sequenceFrames = 0;
+    let sequenceLost = 0;
+    let sequences = new Map<number, SequenceState>();  // by (sysId << 8) | compId
+
+    const countSequence = (key: number, seq: number, verified: boolean) => {
+        const state = sequences.get(key);
+        if (!state) {
+            if (verified) {
+                sequences.set(key, { last: seq, run: null });
+                sequenceFrames++;
+            }
+            return;
+        }
+        const run = state.run;
+        if (!verified) {
+            if (!run && seq === (state.last + 1) % 256) {
+                state.last = seq;
+                sequenceFrames++;
+            } else if (run && seq === (run.end + 1) % 256) {
+                run.end = seq;
+                run.length++;
+            } else {
+                state.run = { start: seq, end: seq, length: 1 };
+            }
+            return;
+        }
+        if (run && seq === (run.end + 1) % 256) {
+            sequenceLost += (run.start - state.last + 255) % 256;
+            sequenceFrames += run.length;
+        } else {
+            sequenceLost += (seq - state.last + 255) % 256;
+        }
+        state.last = seq;
+        state.run = null;
+        sequenceFrames++;
+    };
+
+    const applyMessage = (msgId: number, p: DataView): boolean => {
+        switch (msgId) {
+            case MSG.HEARTBEAT: {
+                const customMode = p.getUint32(0, true);
+                const type = p.getUint8(4);
+                const autopilot = p.getUint8(5);
+                const baseMode = p.getUint8(6);
+                const systemStatus = p.getUint8(7);
+                // Ignore other ground stations, gimbals etc.
+                if (type === MAV_TYPE_GCS || autopilot === MAV_AUTOPILOT_INVALID) return false;
+                if (onHeartbeat) {
+                    onHeartbeat({
+                        flightMode: decodeFlightMode(autopilot, type, baseMode, customMode),
+                        armed: (baseMode & MAV_MODE_FLAG_SAFETY_ARMED) !== 0,
+                        systemStatus: SYSTEM_STATUS[systemStatus] || `STATUS_${systemStatus}`,
+                        lastHeartbeat: Date.now()
+                    });
+                }
+                return false;
+            }
+            case MSG.ATTITUDE: {
+                const toDeg = 180 / Math.PI;
+                current.timeElapsed = current.runTime = p.getUint32(0, true);
+                current.gy = p.getFloat32(4, true) * toDeg;  // Roll
+                current.gx = p.getFloat32(8, true) * toDeg;  // Pitch
+                current.gz = (p.getFloat32(12, true) * toDeg + 360) % 360; // Yaw
+                return true;
+            }
+            case MSG.GLOBAL_POSITION_INT: {
+                current.timeElapsed = current.runTime = p.getUint32(0, true);
+                current.latitude = p.getInt32(4, true) / 1e7;
+                current.longitude = p.getInt32(8, true) / 1e7;
+                current.absAltitude = p.getInt32(12, true) / 1000;
+                current.relAltitude = p.getInt32(16, true) / 1000;
+                const vx = p.getInt16(20, true) / 100;
+                const vy = p.getInt16(22, true) / 100;
+                current.vSpeed = -p.getInt16(24, true) / 100; // NED: +z is down
+                current.hSpeed = Math.sqrt(vx * vx + vy * vy);
+                const hdg = p.getUint16(26, true);
+                if (hdg !== 0xFFFF) current.heading = hdg / 100;
+                return true;
+            }
+            case MSG.SCALED_PRESSURE: {
+                current.timeElapsed = current.runTime = p.getUint32(0, true);
+                current.pressure = p.getFloat32(4, true) * 100; // hPa -> Pa
+                current.temperature = p.getInt16(12, true) / 100;
+                const tempK = current.temperature + 273.15;
+                if (tempK > 0) current.density = current.pressure / (287.05 * tempK);
+                return true;
+            }
+            case MSG.VFR_HUD: {
+                current.hSpeed = p.getFloat32(4, true);
+                current.vSpeed = p.getFloat32(12, true);
+                current.heading = p.getInt16(16, true);
+                return true;
+            }
+            default:
+                return false;
+        }
+    };
+
+    const push = (chunk: Uint8Array): TelemetryPacket[] => {
+        const packets: TelemetryPacket[] = [];
+
+        const merged = new Uint8Array(buffer.length + chunk.length);
+        merged.set(buffer, 0);
+        merged.set(chunk, buffer.length);
+        const data = merged.length > MAX_BUFFER_SIZE ? merged.subarray(merged.length - MAX_BUFFER_SIZE) : merged;
+
+        let pos = 0;
+        while (pos < data.length) {
+            const stx = data[pos];
+            if (stx !== MAVLINK_V2_STX && stx !== MAVLINK_V1_STX) { pos++; continue; }
+
+            const isV2 = stx === MAVLINK_V2_STX;
+            const headerLen = isV2 ? 10 : 6;
+            if (data.length - pos < headerLen) break;
+
+            const payloadLen = data[pos + 1];
+            const signed = isV2 && (data[pos + 2] & MAVLINK_IFLAG_SIGNED) !== 0;
+            const frameLen = headerLen + payloadLen + 2 + (signed ? MAVLINK_SIGNATURE_LEN : 0);
+            if (data.length - pos < frameLen) break; // Wait for rest of frame
+
+            const msgId = isV2
+                ? data[pos + 7] | (data[pos + 8] << 8) | (data[pos + 9] << 16)
+                : data[pos + 5];
+
+            const seq = data[pos + (isV2 ? 4 : 2)];
+            const sender = (data[pos + (isV2 ? 5 : 3)] << 8) | data[pos + (isV2 ? 6 : 4)];
+
+            const info = MESSAGE_INFO[msgId];
+            if (!info) {
+                // Without a CRC_EXTRA the frame cannot be checked; an STX byte inside a payload looks
+                // just like this, so only skip the declared length when another frame starts after it
+                const next = pos + frameLen;
+                if (next < data.length && data[next] !== MAVLINK_V2_STX && data[next] !== MAVLINK_V1_STX) {
+                    pos++;
+                    continue;
+                }
+                countSequence(sender, seq, false);
+                pos = next;
+                continue;
+            }
+
+            const crcEnd = pos + headerLen + payloadLen;
+            const expected = computeMavlinkCrc(data, pos + 1, crcEnd, info.crcExtra);
+            const received = data[crcEnd] | (data[crcEnd + 1] << 8);
+            if (expected !== received) {
+                throttleLog(`[MAVLink] CRC mismatch on msg ${msgId}`);
+                crcFailures++;
+                pos++;
+                continue;
+            }
+            countSequence(sender, seq, true);
+
+            // v2 truncates trailing zero bytes; restore the full payload
+            const payload = new Uint8Array(Math.max(info.length, payloadLen));
+            payload.set(data.subarray(pos + headerLen, crcEnd));
+
+            if (applyMessage(msgId, new DataView(payload.buffer))) {
+                packets.push({ ...current });
+            }
+            pos += frameLen;
+        }
+
+        buffer = data.slice(pos);
+        return packets;
+    };
+
+    const reset = () => {
+        buffer = new Uint8Array(0);
+        current = createEmptyPacket();
+        crcFailures = 0;
+        sequenceFrames = 0;
+        sequenceLost = 0;
+        sequences = new Map();
+    };
+
+    return { push, reset, getStats: () => ({ crcFailures, sequenceFrames, sequenceLost }) };
+};
@@ -0,0 +1,203 @@
+import { TelemetryPacket, CsvField } from '../types';
+
+// AETHER: NMEA 0183 GPS sentence support
+// Sentences are recognised by talker + sentence ID and folded into a
+// running GPS state. Sensor CSV lines then pick up the latest fix.
+
+const KNOTS_TO_MS = 0.514444;
+const KMH_TO_MS = 1 / 3.6;
+const FIX_STALE_MS = 5000;  // Ignore fixes older than this when merging
+const CSV_STALE_MS = 2000;  // Emit GPS-only packets if no CSV line arrived for this long
+
+const NMEA_PATTERN = /^\$(GP|GN|GL|GA|GB|BD|QZ)(GGA|RMC|VTG)\b/;
+
+interface GpsState {
+    latitude: number;
+    longitude: number;
+    gpsAltitude: number;
+    fixQuality: number;
+    satellites: number;
+    hdop: number;
+    course: number;
+    groundSpeed: number; // m/s
+    hasFix: boolean;
+    lastFixTime: number;
+    lastUpdate: number;
+}
+
+const createGpsState = (): GpsState => ({
+    latitude: 0,
+    longitude: 0,
+    gpsAltitude: 0,
+    fixQuality: 0,
+    satellites: 0,
+    hdop: 0,
+    course: 0,
+    groundSpeed: 0,
+    hasFix: false,
+    lastFixTime: 0,
+    lastUpdate: 0
+});
+
+export interface NmeaContext {
+    gps: GpsState;
+    lastCsvTime: number;
+    streamStartTime: number;
+}
+
+export const createNmeaContext = (): NmeaContext => ({
+    gps: createGpsState(),
+    lastCsvTime: 0,
+    streamStartTime: 0
+});
+
+// Parsing is synchronous, so each stream selects its own context before handing lines to the parser
+let active = createNmeaContext();
+
+export const selectNmeaContext = (context: NmeaContext) => { active = context; };
+
+export const resetNmeaState = () => {
+    Object.assign(active, createNmeaContext());
+};
+
+export const isNmeaSentence = (line: string): boolean => NMEA_PATTERN.test(line);
+
+/** NMEA checksum: XOR of all chars between '$' and '*'. Sentences without '*' are accepted. */
+const hasValidNmeaChecksum = (line: string): boolean => {
+    const star = line.lastIndexOf('*');
+    if (star === -1) return true;
+    let calc = 0;
+    for (let i = 1; i < star; i++) calc ^= line.charCodeAt(i);
+    return calc === parseInt(line.substring(star + 1, star + 3), 16);
+};
+
+/** ddmm.mmmm + hemisphere -> signed decimal degrees */
+const parseCoordinate = (value: string, hemisphere: string): number | null => {
+    if (!value) return null;
+    const raw = parseFloat(value);
+    if (isNaN(raw)) return null;
+    const degrees = Math.floor(raw / 100);
+    const decimal = degrees + (raw - degrees * 100) / 60;
+    return hemisphere === 'S' || hemisphere === 'W' ? -decimal : decimal;
+};
+
+const num = (value: string | undefined): number | null => {
+    if (value === undefined || value === '') return null;
+    const v = parseFloat(value);
+    return isNaN(v) ? null : v;
+};
+
+/**
+ * Updates the GPS state from one sentence.
+ * Returns the sentence ID, or null if it is malformed or fails its checksum.
+ */
+export const applyNmeaSentence = (line: string): string | null => {
+    if (!hasValidNmeaChecksum(line)) return null;
+
+    const star = line.lastIndexOf('*');
+    const body = star === -1 ? line.substring(1) : line.substring(1, star);
+    const f = body.split(',');
+    const type = f[0].substring(2);
+    const now = Date.now();
+
+    switch (type) {
+        case 'GGA': {
+            // $--GGA,time,lat,N,lon,E,quality,sats,hdop,alt,M,geoid,M,age,station
+            const quality = num(f[6]) ?? 0;
+            active.gps.fixQuality = quality;
+            active.gps.satellites = num(f[7]) ?? active.gps.satellites;
+            active.gps.hdop = num(f[8]) ?? active.gps.hdop;
+            if (quality > 0) {
+                const lat = parseCoordinate(f[2], f[3]);
+                const lon = parseCoordinate(f[4], f[5]);
+                if (lat !== null && lon !== null) {
+                    active.gps.latitude = lat;
+                    active.gps.longitude = lon;
+                    active.gps.hasFix = true;
+                    active.gps.lastFixTime = now;
+                }
+                active.gps.gpsAltitude = num(f[9]) ?? active.gps.gpsAltitude;
+            } else {
+                active.gps.hasFix = false;
+            }
+            break;
+        }
+        case 'RMC': {
+            // $--RMC,time,status,lat,N,lon,E,sogKnots,cog,date,magvar,E,mode
+            if (f[2] === 'A') {
+                const lat = parseCoordinate(f[3], f[4]);
+                const lon = parseCoordinate(f[5], f[6]);
+                if (lat !== null && lon !== null) {
+                    active.gps.latitude = lat;
+                    active.gps.longitude = lon;
+                    active.gps.hasFix = true;
+                    active.gps.lastFixTime = now;
+                }
+                const sog = num(f[7]);
+                if (sog !== null) active.gps.groundSpeed = sog * KNOTS_TO_MS;
+                active.gps.course = num(f[8]) ?? active.gps.course;
+            } else {
+                active.gps.hasFix = false;
+            }
+            break;
+        }
+        case 'VTG': {
+            // $--VTG,cogTrue,T,cogMag,M,sogKnots,N,sogKmh,K,mode
+            active.gps.course = num(f[1]) ?? active.gps.course;
+            const kmh = num(f[7]);
+            const knots = num(f[5]);
+            if (kmh !== null) active.gps.groundSpeed = kmh * KMH_TO_MS;
+            else if (knots !== null) active.gps.groundSpeed = knots * KNOTS_TO_MS;
+            break;
+        }
+        default:
+            return null;
+    }
+
+    if (active.streamStartTime === 0) active.streamStartTime = now;
+    active.gps.lastUpdate = now;
+    return type;
+};
+
+/**
+ * Merges the latest GPS state into a packet decoded from a sensor line.
+ * NMEA position wins while the fix is fresh; ground speed only fills
+ * hSpeed when the CSV map does not provide it.
+ */
+export const mergeNmeaState = (packet: TelemetryPacket, order: CsvField[]): TelemetryPacket => {
+    const now = Date.now();
+    active.lastCsvTime = now;
+    if (active.gps.lastUpdate === 0) return packet;
+
+    packet.fixQuality = active.gps.fixQuality;
+    packet.satellites = active.gps.satellites;
+    packet.hdop = active.gps.hdop;
+    packet.course = active.gps.course;
+    packet.groundSpeed = active.gps.groundSpeed;
+
+    if (active.gps.hasFix && now - active.gps.lastFixTime < FIX_STALE_MS) {
+        packet.latitude = active.gps.latitude;
+        packet.longitude = active.gps.longitude;
+        packet.gpsAltitude = active.gps.gpsAltitude;
+        if (!order.includes('hSpeed')) packet.hSpeed = active.gps.groundSpeed;
+    }
+    return packet;
+};
+
+/** GPS-only streams: produce a packet from the GPS state when no sensor lines are arriving. */
+export const shouldEmitGpsOnly = (): boolean => Date.now() - active.lastCsvTime > CSV_STALE_MS;
+
+export const buildGpsPacket = (base: TelemetryPacket): TelemetryPacket => ({
+    ...base,
+    timeElapsed: Date.now() - active.streamStartTime,
+    runTime: Date.now() - active.streamStartTime,
+    latitude: active.gps.latitude,
+    longitude: active.gps.longitude,
+    gpsAltitude: active.gps.gpsAltitude,
+    fixQuality: active.gps.fixQuality,
+    satellites: active.gps.satellites,
+    hdop: active.gps.hdop,
+    course: active.gps.course,
+    groundSpeed: active.gps.groundSpeed,
+    hSpeed: active.gps.groundSpeed
+});
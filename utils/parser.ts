@@ -1,7 +1,9 @@
 
-import { TelemetryPacket, CsvField, SimulationPreset, ChecksumMode, WindSettings, DescentSettings, SimulationConfig } from '../types';
-import { SKIP_FIELD } from '../constants';
+import { TelemetryPacket, CsvField, SimulationPreset, ChecksumMode, WindSettings, DescentSettings, SimulationConfig, LineFormat, FieldAlias } from '../types';
+import { SKIP_FIELD, FIELD_LABELS } from '../constants';
 import { getAirDensity } from './geo';
+import { isNmeaSentence, applyNmeaSentence, mergeNmeaState, shouldEmitGpsOnly, buildGpsPacket } from './nmea';
+import { setFieldValue } from './channels';
 
 // Physics Limits for Validation (used by parser)
 const LIMITS = {
@@ -14,7 +16,7 @@ const LIMITS = {
 
 // Throttle logger to prevent console spam freezing the browser
 let lastLogTime = 0;
-const throttleLog = (msg: string, ...args: any[]) => {
+export const throttleLog = (msg: string, ...args: any[]) => {
     const now = Date.now();
     // Only log once every 2 seconds per type of error roughly
     if (now - lastLogTime > 2000) {
@@ -23,6 +25,57 @@ const throttleLog = (msg: string, ...args: any[]) => {
     }
 };
 
+/** Zero-initialised packet shared by all stream decoders. */
+export const createEmptyPacket = (): TelemetryPacket => ({
+  pressure: 0,
+  temperature: 0,
+  thermistorTemp: 0,
+  latitude: 0,
+  longitude: 0,
+  gy: 0,
+  gx: 0,
+  gz: 0,
+  heading: 0, 
+  timeElapsed: 0,
+  runTime: 0,
+  absAltitude: 0,
+  relAltitude: 0,
+  vSpeed: 0,
+  hSpeed: 0,
+  density: 0
+});
+
+/** Mirrors runTime/timeElapsed when the stream only provides one of them. */
+export const syncTimeFields = (packet: TelemetryPacket) => {
+    if (packet.runTime !== 0 && packet.timeElapsed === 0) {
+        packet.timeElapsed = packet.runTime;
+    } else if (packet.timeElapsed !== 0 && packet.runTime === 0) {
+        packet.runTime = packet.timeElapsed;
+    }
+};
+
+/** Two-digit hex checksum of `data` as it appears after the '*' (uplink frames use the same scheme) */
+export const computeChecksum = (data: string, mode: ChecksumMode): string => {
+    // NMEA Style: $ prefix is ignored in calculation if present
+    // Calculation is XOR of all bytes between $ and * (or start and *)
+    let calcStart = 0;
+    if (data.startsWith('$')) calcStart = 1;
+
+    let calculated = 0;
+    
+    if (mode === 'nmea') {
+        for (let i = calcStart; i < data.length; i++) {
+            calculated ^= data.charCodeAt(i);
+        }
+    } else if (mode === 'mod256') {
+        for (let i = calcStart; i < data.length; i++) {
+            calculated = (calculated + data.charCodeAt(i)) % 256;
+        }
+    }
+
+    return calculated.toString(16).toUpperCase().padStart(2, '0');
+};
+
 // AETHER: Checksum Verification Logic
 const verifyChecksum = (line: string, mode: ChecksumMode): { isValid: boolean; cleanLine: string } => {
     if (mode === 'none') return { isValid: true, cleanLine: line };
@@ -38,24 +91,7 @@ const verifyChecksum = (line: string, mode: ChecksumMode): { isValid: boolean; c
     const dataContent = line.substring(0, starIndex);
     const providedHex = line.substring(starIndex + 1).trim();
     
-    // NMEA Style: $ prefix is ignored in calculation if present
-    // Calculation is XOR of all bytes between $ and * (or start and *)
-    let calcStart = 0;
-    if (dataContent.startsWith('$')) calcStart = 1;
-
-    let calculated = 0;
-    
-    if (mode === 'nmea') {
-        for (let i = calcStart; i < dataContent.length; i++) {
-            calculated ^= dataContent.charCodeAt(i);
-        }
-    } else if (mode === 'mod256') {
-        for (let i = calcStart; i < dataContent.length; i++) {
-            calculated = (calculated + dataContent.charCodeAt(i)) % 256;
-        }
-    }
-
-    const calculatedHex = calculated.toString(16).toUpperCase().padStart(2, '0');
+    const calculatedHex = computeChecksum(dataContent, mode);
     const isValid = calculatedHex === providedHex.toUpperCase();
 
     if (!isValid) {
@@ -65,31 +101,60 @@ const verifyChecksum = (line: string, mode: ChecksumMode): { isValid: boolean; c
     return { isValid, cleanLine: dataContent };
 };
 
+/** Why a non-empty line produced no packet (NMEA sentences that only update GPS state are not rejects) */
+export type ParseRejectReason = 'checksum' | 'malformed';
+
 export const parseTelemetryLine = (
     line: string, 
     order: CsvField[], 
     separator: string = ',', 
     checksumMode: ChecksumMode = 'none',
-    validateChecksum: boolean = false
+    validateChecksum: boolean = false,
+    lineFormat: LineFormat = 'csv',
+    aliases: FieldAlias[] = [],
+    onReject?: (reason: ParseRejectReason) => void
 ): TelemetryPacket | null => {
+  const reject = (reason: ParseRejectReason) => {
+      if (onReject) onReject(reason);
+      return null;
+  };
+
   try {
     const rawLine = line.trim();
     if (!rawLine) return null;
 
+    // AETHER: NMEA sentences update the GPS state instead of being parsed as CSV.
+    // A packet is only produced for GPS-only streams (one per GGA epoch).
+    if (isNmeaSentence(rawLine)) {
+        const sentence = applyNmeaSentence(rawLine);
+        if (!sentence) {
+            throttleLog("[NMEA] Discarded malformed sentence:", rawLine);
+            return reject('malformed');
+        }
+        return sentence === 'GGA' && shouldEmitGpsOnly() ? buildGpsPacket(createEmptyPacket()) : null;
+    }
+
+    let content = rawLine;
+
     // AETHER: Integrity Verification
     if (validateChecksum && checksumMode !== 'none') {
         const { isValid, cleanLine } = verifyChecksum(rawLine, checksumMode);
-        if (!isValid) return null; // Discard corrupted packet
+        if (!isValid) return reject('checksum'); // Discard corrupted packet
         
         // Use the cleaned line (without *CS) for parsing
-        return processLine(cleanLine, order, separator);
+        content = cleanLine;
     }
 
-    return processLine(rawLine, order, separator);
+    const format = lineFormat === 'auto' ? detectLineFormat(content) : lineFormat;
+    if (format === 'json') return processJsonLine(content, aliases) ?? reject('malformed');
+    if (format === 'keyvalue') return processKeyValueLine(content, separator, aliases) ?? reject('malformed');
+
+    const packet = processLine(content, order, separator);
+    return packet ? mergeNmeaState(packet, order) : reject('malformed');
 
   } catch (e) {
     throttleLog("[Parser] Critical error parsing line:", e);
-    return null;
+    return reject('malformed');
   }
 };
 
@@ -109,31 +174,13 @@ const processLine = (cleanLine: string, order: CsvField[], separator: string): T
     }
 
     // Initialize with zeros
-    const packet: TelemetryPacket = {
-      pressure: 0,
-      temperature: 0,
-      thermistorTemp: 0,
-      latitude: 0,
-      longitude: 0,
-      gy: 0,
-      gx: 0,
-      gz: 0,
-      heading: 0, 
-      timeElapsed: 0,
-      runTime: 0,
-      absAltitude: 0,
-      relAltitude: 0,
-      vSpeed: 0,
-      hSpeed: 0,
-      density: 0
-    };
+    const packet = createEmptyPacket();
     
     let validFieldsFound = 0;
 
     order.forEach((field, index) => {
       if (index < parts.length && field !== SKIP_FIELD) {
-         // @ts-ignore - ensured key safety via CsvField type
-         packet[field] = parts[index];
+         setFieldValue(packet, field, parts[index]);
          validFieldsFound++;
       }
     });
@@ -142,14 +189,14 @@ const processLine = (cleanLine: string, order: CsvField[], separator: string): T
         return null;
     }
 
-    // Sync Time Fields
-    if (packet.runTime !== 0 && packet.timeElapsed === 0) {
-        packet.timeElapsed = packet.runTime;
-    } else if (packet.timeElapsed !== 0 && packet.runTime === 0) {
-        packet.runTime = packet.timeElapsed;
-    }
+    syncTimeFields(packet);
+    warnSuspiciousValues(packet);
 
-    // --- Validation Checks (Throttled) ---
+    return packet;
+};
+
+// --- Validation Checks (Throttled) ---
+const warnSuspiciousValues = (packet: TelemetryPacket) => {
     if (packet.temperature < LIMITS.MIN_TEMP || packet.temperature > LIMITS.MAX_TEMP) {
         throttleLog(`[Parser] Suspicious Temperature detected: ${packet.temperature}`);
     }
@@ -159,8 +206,104 @@ const processLine = (cleanLine: string, order: CsvField[], separator: string): T
     if (packet.hSpeed > LIMITS.MAX_SPEED || packet.vSpeed > LIMITS.MAX_SPEED) {
          throttleLog(`[Parser] Extreme Speed detected: H:${packet.hSpeed} V:${packet.vSpeed}`);
     }
+};
 
-    return packet;
+// --- AETHER: SELF-DESCRIBING LINE FORMATS ---
+
+export const detectLineFormat = (line: string): Exclude<LineFormat, 'auto'> => {
+    if (line.startsWith('{')) return 'json';
+    if (line.includes('=')) return 'keyvalue';
+    return 'csv';
+};
+
+// Alias lookup is rebuilt only when the alias table changes
+let aliasSource: FieldAlias[] | null = null;
+let aliasMap = new Map<string, CsvField>();
+
+const getAliasMap = (aliases: FieldAlias[]): Map<string, CsvField> => {
+    if (aliases !== aliasSource) {
+        aliasMap = new Map();
+        // Canonical field names always resolve to themselves
+        Object.keys(FIELD_LABELS).forEach(f => {
+            if (f !== SKIP_FIELD) aliasMap.set(f.toLowerCase(), f as CsvField);
+        });
+        aliases.forEach(a => {
+            if (a.key.trim()) aliasMap.set(a.key.trim().toLowerCase(), a.field);
+        });
+        aliasSource = aliases;
+    }
+    return aliasMap;
+};
+
+/**
+ * Maps named values onto a packet through the alias table.
+ * Keys aliased to SKIP are dropped; unknown keys become custom channels.
+ */
+const processNamedValues = (entries: [string, unknown][], aliases: FieldAlias[]): TelemetryPacket | null => {
+    const lookup = getAliasMap(aliases);
+    const packet = createEmptyPacket();
+    const found: CsvField[] = [];
+
+    for (const [rawKey, rawValue] of entries) {
+        const key = rawKey.trim();
+        if (!key) continue;
+
+        const value = typeof rawValue === 'number' ? rawValue
+            : typeof rawValue === 'boolean' ? (rawValue ? 1 : 0)
+            : parseFloat(String(rawValue));
+        if (!isFinite(value)) continue;
+
+        const field = lookup.get(key.toLowerCase());
+        if (field === SKIP_FIELD) continue;
+        if (field && field !== 'id') {
+            setFieldValue(packet, field, value);
+            found.push(field);
+        } else if (!field) {
+            if (!packet.channels) packet.channels = {};
+            packet.channels[key] = value;
+        }
+    }
+
+    if (found.length === 0 && !packet.channels) return null;
+
+    syncTimeFields(packet);
+    warnSuspiciousValues(packet);
+    return mergeNmeaState(packet, found);
+};
+
+/** alt=123.4,temp=22.1 (':' is accepted as key/value delimiter too) */
+const processKeyValueLine = (cleanLine: string, separator: string, aliases: FieldAlias[]): TelemetryPacket | null => {
+    const actualSeparator = separator === '\\t' ? '\t' : separator;
+    const entries: [string, unknown][] = [];
+    cleanLine.split(actualSeparator).forEach(token => {
+        const match = token.match(/^\s*([^=:\s]+)\s*[=:]\s*(.*)$/);
+        if (match) entries.push([match[1], match[2].trim()]);
+    });
+    return processNamedValues(entries, aliases);
+};
+
+/** Nested objects are flattened with dots: {"gps":{"lat":1}} -> gps.lat */
+const flattenJson = (value: unknown, prefix: string, out: [string, unknown][]) => {
+    if (value !== null && typeof value === 'object') {
+        Object.entries(value as Record<string, unknown>).forEach(([k, v]) => {
+            flattenJson(v, prefix ? `${prefix}.${k}` : k, out);
+        });
+    } else if (prefix) {
+        out.push([prefix, value]);
+    }
+};
+
+const processJsonLine = (cleanLine: string, aliases: FieldAlias[]): TelemetryPacket | null => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(cleanLine);
+    } catch (e) {
+        throttleLog("[Parser] Invalid JSON line:", cleanLine);
+        return null;
+    }
+    const entries: [string, unknown][] = [];
+    flattenJson(parsed, '', entries);
+    return processNamedValues(entries, aliases);
 };
 
 // --- ADVANCED SIMULATION ENGINE ---
@@ -361,6 +504,9 @@ export const generateMockData = (totalTimeMs: number, preset: SimulationPreset,
   // AETHER FIX: Use standardized ISA density model to match prediction engine
   const rho = getAirDensity(state.alt);
 
+  // AETHER: Velocity before the physics step, for the synthetic accelerometer
+  const velBefore = state.vel.z;
+
   // --- SCENARIO STATE MACHINE ---
   switch (state.scenario) {
       case SimulationPreset.ROCKET_LAUNCH: 
@@ -391,6 +537,8 @@ export const generateMockData = (totalTimeMs: number, preset: SimulationPreset,
   }
 
   // --- SENSOR SYNTHESIS ---
+  // Accelerometer: vertical specific force (reads +g at rest), as if the Z axis stayed vertical
+  const specificForceZ = (state.vel.z - velBefore) / dt + g;
   let temp = 30 - (state.alt / 1000 * 6.5);
   const pressure = 101325 * Math.pow(1 - 2.25577e-5 * state.alt, 5.25588) + noise(5);
   
@@ -426,7 +574,10 @@ export const generateMockData = (totalTimeMs: number, preset: SimulationPreset,
     relAltitude: state.alt + noise(0.2), 
     vSpeed: state.vel.z + noise(0.1),
     hSpeed: Math.sqrt(state.vel.x**2 + state.vel.y**2) + noise(0.1),
-    density: rho
+    density: rho,
+    ax: noise(0.2 + context.config.noiseLevel),
+    ay: noise(0.2 + context.config.noiseLevel),
+    az: specificForceZ + noise(0.2 + context.config.noiseLevel)
   };
 };
 
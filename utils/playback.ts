@@ -0,0 +1,64 @@
+// AETHER: Time-accurate file playback
+// Each file line gets a playback time (ms from the first timestamp) so replay follows the
+// packets' own timeElapsed instead of one line per tick.
+
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4, 8, 16];
+export const MIN_PLAYBACK_SPEED = PLAYBACK_SPEEDS[0];
+export const MAX_PLAYBACK_SPEED = PLAYBACK_SPEEDS[PLAYBACK_SPEEDS.length - 1];
+
+/** Loop region as fractions of the file duration. */
+export interface LoopRegion {
+    start: number;
+    end: number;
+}
+
+export interface PlaybackTimeline {
+    times: number[];  // per line, ms from the first timestamp
+    origin: number;   // raw timeElapsed of the first timestamped line (0 in fixed-interval mode)
+}
+
+/**
+ * Builds the per-line timeline from each line's parsed time (null for headers, NMEA and rejects,
+ * which share the previous line's time). A timestamp that jumps backwards (logger reboot) continues
+ * from the last time instead of rewinding. Files with fewer than two timestamps, or no
+ * time span at all, fall back to a fixed interval per line.
+ */
+export const buildPlaybackTimeline = (lineTimes: (number | null)[], fallbackIntervalMs: number): PlaybackTimeline => {
+    const times = new Array<number>(lineTimes.length);
+    let offset = 0;
+    let lastRaw: number | null = null;
+    let first: number | null = null;
+    let last = 0;
+    let stamped = 0;
+
+    lineTimes.forEach((raw, i) => {
+        if (raw !== null) {
+            if (lastRaw !== null && raw < lastRaw) offset = last - raw;
+            lastRaw = raw;
+            last = raw + offset;
+            if (first === null) first = last;
+            stamped++;
+        }
+        times[i] = last;
+    });
+
+    if (first === null || stamped < 2 || last - first <= 0) {
+        return { times: lineTimes.map((_, i) => i * fallbackIntervalMs), origin: 0 };
+    }
+    const base = first;
+    return { times: times.map(t => Math.max(0, t - base)), origin: base };
+};
+
+/** Index of the first line at or after `time` (binary search over a non-decreasing timeline). */
+export const findLineAtTime = (times: number[], time: number): number => {
+    let lo = 0;
+    let hi = times.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (times[mid] < time) lo = mid + 1;
+        else hi = mid;
+    }
+    return lo;
+};
+
+export const clampPlaybackSpeed = (speed: number) => Math.min(MAX_PLAYBACK_SPEED, Math.max(MIN_PLAYBACK_SPEED, speed));
@@ -0,0 +1,89 @@
+import { TelemetryPacket, VehicleState, PyroSettings, PyroChannel, MissionClockState } from '../types';
+
+// AETHER: Pad safety interlocks
+// Arm and fire commands are only sent while the ground station can see the vehicle answering over a
+// healthy link (recent packets, low loss, few checksum failures), and
+// fire commands additionally need the vehicle to report itself armed and the mission clock to be
+// in one of the allowed states. Disarm is never blocked beyond needing an open port.
+
+export type PyroAction = 'arm' | 'disarm' | 'fire';
+
+export const MISSION_CLOCK_LABELS: Record<MissionClockState, string> = {
+    reset: 'Reset',
+    running: 'Counting',
+    hold: 'Hold'
+};
+
+export interface PyroState {
+    armed: boolean | null;                          // null = not reported
+    continuity: Record<string, boolean | null>;     // by PyroChannel.id
+}
+
+const flagOf = (packet: TelemetryPacket | null, key: string): boolean | null => {
+    const value = key && packet?.channels ? packet.channels[key] : undefined;
+    return value === undefined || !Number.isFinite(value) ? null : value > 0.5;
+};
+
+/** Armed state and per-channel continuity as last reported by the vehicle */
+export const readPyroState = (packet: TelemetryPacket | null, vehicleState: VehicleState | null, settings: PyroSettings): PyroState => {
+    const continuity: Record<string, boolean | null> = {};
+    settings.channels.forEach(ch => { continuity[ch.id] = flagOf(packet, ch.continuityChannel); });
+    return {
+        armed: settings.armedChannel ? flagOf(packet, settings.armedChannel) : vehicleState ? vehicleState.armed : null,
+        continuity
+    };
+};
+
+/** The parts of the measured link statistics (utils/linkStats.ts) the interlocks look at */
+export interface PyroLinkQuality {
+    lossPercent: number;
+    recentChecksumFailures: number;
+}
+
+export interface PyroGateInput {
+    portOpen: boolean;
+    packetAge: number;      // ms since the newest primary packet (Infinity if none)
+    link: PyroLinkQuality | null;  // null until the station has measured the link
+    clock: MissionClockState;
+    armed: boolean | null;
+}
+
+/** Reasons the link is not healthy enough for arm and fire commands; empty when it is. */
+export const linkBlockers = (input: PyroGateInput, settings: PyroSettings): string[] => {
+    const reasons: string[] = [];
+    if (input.packetAge > settings.maxLinkAgeMs) {
+        reasons.push(Number.isFinite(input.packetAge)
+            ? `Link stale (${(input.packetAge / 1000).toFixed(1)} s since last packet)`
+            : 'No telemetry received');
+    }
+    if (!input.link) {
+        reasons.push('Link quality not measured yet');
+    } else {
+        if (input.link.lossPercent > settings.maxLinkLossPercent) {
+            reasons.push(`Link loss ${input.link.lossPercent.toFixed(1)}% (limit ${settings.maxLinkLossPercent}%)`);
+        }
+        if (input.link.recentChecksumFailures > settings.maxChecksumFailures) {
+            reasons.push(`${input.link.recentChecksumFailures} checksum failures in the last 10 s (limit ${settings.maxChecksumFailures})`);
+        }
+    }
+    return reasons;
+};
+
+/** Reasons `action` may not be sent right now; empty when it may. */
+export const pyroBlockers = (action: PyroAction, input: PyroGateInput, settings: PyroSettings): string[] => {
+    const reasons: string[] = [];
+    if (!input.portOpen) return ['No serial port open'];
+    if (action === 'disarm') return reasons;
+
+    reasons.push(...linkBlockers(input, settings));
+    if (action === 'fire') {
+        if (input.armed !== true) reasons.push(input.armed === false ? 'Vehicle reports SAFE' : 'Armed state not reported');
+        if (!settings.fireClockStates.includes(input.clock)) {
+            reasons.push(`Mission clock is ${MISSION_CLOCK_LABELS[input.clock]} (needs ${settings.fireClockStates.map(s => MISSION_CLOCK_LABELS[s]).join(' or ') || 'a state enabled in settings'})`);
+        }
+    }
+    return reasons;
+};
+
+export const pyroCommandOf = (action: PyroAction, settings: PyroSettings, channel?: PyroChannel): string =>
+    action === 'arm' ? settings.armCommand : action === 'disarm' ? settings.disarmCommand : channel ? channel.fireCommand : '';
@@ -0,0 +1,87 @@
+// AETHER: Raw serial capture
+// Every chunk read from the port is kept byte-for-byte with its receive time, so a session
+// can be re-decoded later with different parser settings (csvOrder, checksum, protocol).
+//
+// File layout (little-endian):
+//   "HRAW" magic, uint8 version, float64 capture start (epoch ms)
+//   repeated: float64 offset (ms since start), uint32 length, <length> bytes
+
+const MAGIC = 'HRAW';
+const VERSION = 1;
+const FILE_HEADER_SIZE = 4 + 1 + 8;
+const RECORD_HEADER_SIZE = 8 + 4;
+
+export const RAW_CAPTURE_EXTENSION = 'hraw';
+
+export interface RawChunk {
+    t: number;          // ms since capture start
+    data: Uint8Array;
+}
+
+export interface RawCapture {
+    startedAt: number;  // epoch ms
+    chunks: RawChunk[];
+}
+
+export interface RawCaptureRecorder {
+    push: (data: Uint8Array) => void;
+    finish: () => RawCapture;
+    getByteCount: () => number;
+}
+
+export const createRawCaptureRecorder = (): RawCaptureRecorder => {
+    const startedAt = Date.now();
+    const origin = performance.now();
+    const chunks: RawChunk[] = [];
+    let bytes = 0;
+    return {
+        // Copy: the reader may reuse its buffer
+        push: (data) => {
+            chunks.push({ t: performance.now() - origin, data: data.slice() });
+            bytes += data.length;
+        },
+        finish: () => ({ startedAt, chunks }),
+        getByteCount: () => bytes
+    };
+};
+
+export const encodeRawCapture = (capture: RawCapture): Blob => {
+    const header = new DataView(new ArrayBuffer(FILE_HEADER_SIZE));
+    for (let i = 0; i < MAGIC.length; i++) header.setUint8(i, MAGIC.charCodeAt(i));
+    header.setUint8(4, VERSION);
+    header.setFloat64(5, capture.startedAt, true);
+
+    const parts: BlobPart[] = [header.buffer];
+    capture.chunks.forEach(chunk => {
+        const recordHeader = new DataView(new ArrayBuffer(RECORD_HEADER_SIZE));
+        recordHeader.setFloat64(0, chunk.t, true);
+        recordHeader.setUint32(8, chunk.data.length, true);
+        parts.push(recordHeader.buffer, chunk.data);
+    });
+    return new Blob(parts, { type: 'application/octet-stream' });
+};
+
+export const decodeRawCapture = (buffer: ArrayBuffer): RawCapture => {
+    const view = new DataView(buffer);
+    if (buffer.byteLength < FILE_HEADER_SIZE) throw new Error("File is too short to be a raw capture.");
+    const magic = String.fromCharCode(view.getUint8(0), view.getUint8(1), view.getUint8(2), view.getUint8(3));
+    if (magic !== MAGIC) throw new Error("Not a raw capture file (bad magic).");
+    const version = view.getUint8(4);
+    if (version !== VERSION) throw new Error(`Unsupported raw capture version ${version}.`);
+
+    const startedAt = view.getFloat64(5, true);
+    const chunks: RawChunk[] = [];
+    let offset = FILE_HEADER_SIZE;
+    while (offset + RECORD_HEADER_SIZE <= buffer.byteLength) {
+        const t = view.getFloat64(offset, true);
+        const length = view.getUint32(offset + 8, true);
+        offset += RECORD_HEADER_SIZE;
+        if (offset + length > buffer.byteLength) throw new Error(`Raw capture truncated at byte ${offset}.`);
+        chunks.push({ t, data: new Uint8Array(buffer, offset, length) });
+        offset += length;
+    }
+    return { startedAt, chunks };
+};
+
+export const getCaptureDuration = (capture: RawCapture) =>
+    capture.chunks.length > 0 ? capture.chunks[capture.chunks.length - 1].t : 0;
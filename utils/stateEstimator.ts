@@ -0,0 +1,176 @@
+import { TelemetryPacket, EstimatorSettings } from '../types';
+
+// AETHER: Vertical state estimator
+// Linear Kalman filter over [altitude, vertical speed, vertical acceleration] with a
+// constant-acceleration (white jerk) process model. Barometric altitude, GPS altitude and the
+// accelerometer are applied as independent scalar measurements whenever a packet carries them.
+//
+// The accelerometer is read along one body axis assumed to point up the airframe, so it is
+// only a vertical measurement while the vehicle is near vertical; give it a generous noise
+// figure for vehicles that fly far off vertical.
+
+const G = 9.81;
+const GATE_SIGMA = 5;           // altitude innovations beyond this many σ are treated as outliers
+const MAX_REJECTS = 10;         // ...until this many in a row, then the filter re-locks on the sensor
+const GPS_CALIBRATION_FIXES = 20;  // fixes averaged to align GPS altitude with the barometric zero
+const MAX_DT = 2;               // s; a longer gap restarts the filter from the next packet
+const INITIAL_SPEED_VAR = 25;   // (m/s)²
+const INITIAL_ACCEL_VAR = 100;  // (m/s²)²
+
+type Vec3 = [number, number, number];
+type Mat3 = [Vec3, Vec3, Vec3];
+
+export interface StateEstimate {
+    time: number;                 // packet timeElapsed (ms)
+    altitude: number;             // m, relative to the pad
+    vSpeed: number;               // m/s
+    accel: number;                // m/s², gravity removed
+    covariance: Mat3;             // over [altitude, vSpeed, accel]
+}
+
+export interface StateEstimator {
+    /** Predicts to the packet's time and applies its measurements. */
+    update: (packet: TelemetryPacket) => StateEstimate;
+    getEstimate: () => StateEstimate | null;
+    reset: () => void;
+}
+
+/** 1σ of each state from the diagonal of the covariance */
+export const estimateSigmas = (estimate: StateEstimate) => ({
+    altitude: Math.sqrt(estimate.covariance[0][0]),
+    vSpeed: Math.sqrt(estimate.covariance[1][1]),
+    accel: Math.sqrt(estimate.covariance[2][2])
+});
+
+export const createStateEstimator = (config: EstimatorSettings): StateEstimator => {
+    let x: Vec3;
+    let P: Mat3;
+    let lastTime: number | null;
+    let gpsOffset: number;          // GPS altitude of the filter's zero, averaged over the first fixes
+    let gpsFixes: number;
+    let rejects: Record<string, number>;
+    let estimate: StateEstimate | null;
+
+    const reset = () => {
+        x = [0, 0, 0];
+        P = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+        lastTime = null;
+        gpsOffset = 0;
+        gpsFixes = 0;
+        rejects = {};
+        estimate = null;
+    };
+    reset();
+
+    const predict = (dt: number) => {
+        const dt2 = dt * dt / 2;
+        x = [x[0] + x[1] * dt + x[2] * dt2, x[1] + x[2] * dt, x[2]];
+
+        // P = F P Fᵀ + Q, F = [[1, dt, dt²/2], [0, 1, dt], [0, 0, 1]]
+        const F: Mat3 = [[1, dt, dt2], [0, 1, dt], [0, 0, 1]];
+        const FP = F.map(row => [0, 1, 2].map(j => row[0] * P[0][j] + row[1] * P[1][j] + row[2] * P[2][j])) as Mat3;
+        const q = config.processNoise * config.processNoise;
+        const d3 = dt * dt * dt, d4 = d3 * dt, d5 = d4 * dt;
+        const Q: Mat3 = [
+            [q * d5 / 20, q * d4 / 8, q * d3 / 6],
+            [q * d4 / 8, q * d3 / 3, q * dt * dt / 2],
+            [q * d3 / 6, q * dt * dt / 2, q * dt]
+        ];
+        P = FP.map((row, i) => [0, 1, 2].map(j => row[0] * F[j][0] + row[1] * F[j][1] + row[2] * F[j][2] + Q[i][j])) as Mat3;
+    };
+
+    /**
+     * Scalar measurement of one state component. Gated measurements reject outliers (baro spikes
+     * through transonic flight, GPS jumps); acceleration is never gated since ignition and
+     * deployment are genuine steps the model cannot predict.
+     */
+    const measure = (sensor: string, index: number, z: number, sigma: number, gated: boolean) => {
+        const R = sigma * sigma;
+        const y = z - x[index];
+        const S = P[index][index] + R;
+        if (gated && y * y > GATE_SIGMA * GATE_SIGMA * S && (rejects[sensor] ?? 0) < MAX_REJECTS) {
+            rejects[sensor] = (rejects[sensor] ?? 0) + 1;
+            return;
+        }
+        rejects[sensor] = 0;
+
+        const K = [P[0][index] / S, P[1][index] / S, P[2][index] / S];
+        x = [x[0] + K[0] * y, x[1] + K[1] * y, x[2] + K[2] * y];
+        const row = P[index];
+        P = P.map((r, i) => r.map((v, j) => v - K[i] * row[j])) as Mat3;
+        // Keep P symmetric against rounding
+        for (let i = 0; i < 3; i++) for (let j = i + 1; j < 3; j++) P[i][j] = P[j][i] = (P[i][j] + P[j][i]) / 2;
+    };
+
+    const update = (packet: TelemetryPacket): StateEstimate => {
+        const time = packet.timeElapsed;
+        const dt = lastTime === null ? 0 : (time - lastTime) / 1000;
+
+        if (lastTime === null || dt < 0 || dt > MAX_DT) {
+            x = [packet.relAltitude, packet.vSpeed, 0];
+            P = [
+                [config.baroNoise * config.baroNoise, 0, 0],
+                [0, INITIAL_SPEED_VAR, 0],
+                [0, 0, INITIAL_ACCEL_VAR]
+            ];
+            rejects = {};
+        } else if (dt > 0) {
+            predict(dt);
+        }
+        lastTime = time;
+
+        measure('baro', 0, packet.relAltitude, config.baroNoise, true);
+
+        if (config.useGps && packet.gpsAltitude !== undefined && (packet.fixQuality ?? 1) > 0) {
+            // GPS altitude is MSL; align it to the barometric zero before using it
+            if (gpsFixes < GPS_CALIBRATION_FIXES) {
+                gpsFixes++;
+                gpsOffset += (packet.gpsAltitude - x[0] - gpsOffset) / gpsFixes;
+            } else {
+                measure('gps', 0, packet.gpsAltitude - gpsOffset, config.gpsNoise, true);
+            }
+        }
+
+        if (config.accelAxis !== 'none') {
+            const specificForce = packet[config.accelAxis];
+            if (specificForce !== undefined && Number.isFinite(specificForce)) {
+                measure('accel', 2, specificForce - G, config.accelNoise, false);
+            }
+        }
+
+        estimate = {
+            time,
+            altitude: x[0],
+            vSpeed: x[1],
+            accel: x[2],
+            covariance: P.map(r => [...r]) as Mat3
+        };
+        return estimate;
+    };
+
+    return {
+        update,
+        getEstimate: () => estimate,
+        reset
+    };
+};
+
+export const withEstimate = (packet: TelemetryPacket, estimate: StateEstimate): TelemetryPacket => ({
+    ...packet,
+    estAltitude: estimate.altitude,
+    estVSpeed: estimate.vSpeed,
+    estAccel: estimate.accel
+});
+
+export const withoutEstimate = ({ estAltitude, estVSpeed, estAccel, ...packet }: TelemetryPacket): TelemetryPacket => packet;
+
+/** Filtered altitude when the packet has been through the estimator, else the raw value */
+export const filteredAltitude = (p: TelemetryPacket): number => p.estAltitude ?? p.relAltitude;
+
+export const filteredVSpeed = (p: TelemetryPacket): number => p.estVSpeed ?? p.vSpeed;
+
+/** Runs the estimator over a whole recording, returning annotated copies of the packets. */
+export const estimateHistory = (packets: TelemetryPacket[], config: EstimatorSettings): TelemetryPacket[] => {
+    const estimator = createStateEstimator(config);
+    return packets.map(p => withEstimate(p, estimator.update(p)));
+};
@@ -0,0 +1,338 @@
+import { TerrainSettings } from '../types';
+
+// AETHER: Terrain elevation (DEM) provider
+// Elevations come from 1° SRTM/HGT or GeoTIFF tiles named like N14E121.hgt, read from files the
+// operator loaded from a folder or fetched from `localUrl`, or from the public Terrarium PNG
+// tiles when the provider is 'online'. Decoded tiles are cached and sampled with bilinear
+// interpolation. All elevations are metres above mean sea level; null means no data.
+
+const TERRARIUM_URL = 'https://s3.amazonaws.com/elevation-tiles-prod/terrarium';
+const TERRARIUM_ZOOM = 12;              // ~38 m/px at the equator
+const MAX_CACHED_TILES = 8;
+const RETRY_MS = 30000;                 // failed fetches are retried after this long
+const HGT_VOID = -32768;
+
+/** A decoded tile: a row-major grid plus the mapping from lat/lon to fractional pixel position */
+interface DemRaster {
+    cols: number;
+    rows: number;
+    data: ArrayLike<number>;
+    noData: number | null;
+    toPixel: (lat: number, lon: number) => { x: number, y: number };
+}
+
+interface CacheEntry {
+    raster: Promise<DemRaster | null>;
+    failedAt: number | null;
+}
+
+const cache = new Map<string, CacheEntry>();
+const localFiles = new Map<string, File>();
+
+/** Tiles picked from a local folder, keyed by file name. Kept for the session only. */
+export const registerDemFiles = (files: Iterable<File>): number => {
+    let added = 0;
+    for (const file of files) {
+        if (!/\.(hgt|tif|tiff)$/i.test(file.name)) continue;
+        localFiles.set(file.name.toUpperCase(), file);
+        added++;
+    }
+    cache.clear();
+    return added;
+};
+
+export const getRegisteredDemFileCount = () => localFiles.size;
+
+/** SRTM tile name for the 1° cell containing the point (named by its south-west corner) */
+export const srtmTileName = (lat: number, lon: number): string => {
+    const south = Math.floor(lat), west = Math.floor(lon);
+    const ns = south >= 0 ? 'N' : 'S', ew = west >= 0 ? 'E' : 'W';
+    return `${ns}${String(Math.abs(south)).padStart(2, '0')}${ew}${String(Math.abs(west)).padStart(3, '0')}`;
+};
+
+// --- SRTM HGT ---
+
+/** Square big-endian int16 grid; 1201² (3") or 3601² (1"), pixel-is-point, first row at the north edge */
+const decodeHgt = (buffer: ArrayBuffer, south: number, west: number): DemRaster => {
+    const size = Math.round(Math.sqrt(buffer.byteLength / 2));
+    if (size * size * 2 !== buffer.byteLength) throw new Error(`Not an HGT tile (${buffer.byteLength} bytes)`);
+    const view = new DataView(buffer);
+    const data = new Int16Array(size * size);
+    for (let i = 0; i < data.length; i++) data[i] = view.getInt16(i * 2, false);
+    const step = 1 / (size - 1);
+    return {
+        cols: size, rows: size, data, noData: HGT_VOID,
+        toPixel: (lat, lon) => ({ x: (lon - west) / step, y: (south + 1 - lat) / step })
+    };
+};
+
+// --- GeoTIFF (single band, geographic coordinates, uncompressed or Deflate) ---
+
+const TIFF_TYPE_SIZE: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+const inflate = async (bytes: Uint8Array): Promise<Uint8Array> => {
+    if (typeof DecompressionStream === 'undefined') throw new Error("Deflate GeoTIFF needs DecompressionStream support");
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const decodeGeoTiff = async (buffer: ArrayBuffer): Promise<DemRaster> => {
+    const view = new DataView(buffer);
+    const order = view.getUint16(0, false);
+    if (order !== 0x4949 && order !== 0x4D4D) throw new Error("Not a TIFF file");
+    const le = order === 0x4949;
+    if (view.getUint16(2, le) !== 42) throw new Error("BigTIFF is not supported");
+
+    // Tag values, read from the first IFD only
+    const tags = new Map<number, number[] | string>();
+    const ifd = view.getUint32(4, le);
+    const count = view.getUint16(ifd, le);
+    for (let i = 0; i < count; i++) {
+        const entry = ifd + 2 + i * 12;
+        const tag = view.getUint16(entry, le);
+        const type = view.getUint16(entry + 2, le);
+        const n = view.getUint32(entry + 4, le);
+        const size = TIFF_TYPE_SIZE[type] ?? 1;
+        const offset = size * n > 4 ? view.getUint32(entry + 8, le) : entry + 8;
+        if (type === 2) {
+            tags.set(tag, new TextDecoder().decode(new Uint8Array(buffer, offset, n)).replace(/\0+$/, ''));
+            continue;
+        }
+        const values: number[] = [];
+        for (let k = 0; k < n; k++) {
+            const at = offset + k * size;
+            if (type === 3) values.push(view.getUint16(at, le));
+            else if (type === 4) values.push(view.getUint32(at, le));
+            else if (type === 8) values.push(view.getInt16(at, le));
+            else if (type === 9) values.push(view.getInt32(at, le));
+            else if (type === 11) values.push(view.getFloat32(at, le));
+            else if (type === 12) values.push(view.getFloat64(at, le));
+            else values.push(view.getUint8(at));
+        }
+        tags.set(tag, values);
+    }
+    const num = (tag: number, fallback?: number): number => {
+        const v = tags.get(tag);
+        if (Array.isArray(v) && v.length > 0) return v[0];
+        if (fallback === undefined) throw new Error(`GeoTIFF is missing tag ${tag}`);
+        return fallback;
+    };
+    const list = (tag: number): number[] => {
+        const v = tags.get(tag);
+        return Array.isArray(v) ? v : [];
+    };
+
+    const width = num(256), height = num(257);
+    const bits = num(258, 16), format = num(339, 1), compression = num(259, 1), predictor = num(317, 1);
+    if (num(277, 1) !== 1) throw new Error("Only single-band GeoTIFF DEMs are supported");
+    if (compression !== 1 && compression !== 8 && compression !== 32946) throw new Error(`Unsupported GeoTIFF compression ${compression}`);
+    if (predictor !== 1 && !(predictor === 2 && format !== 3)) throw new Error(`Unsupported GeoTIFF predictor ${predictor}`);
+
+    const bytesPerSample = bits / 8;
+    const read = (v: DataView, at: number): number => {
+        if (format === 3) return bits === 64 ? v.getFloat64(at, le) : v.getFloat32(at, le);
+        if (bits === 8) return format === 2 ? v.getInt8(at) : v.getUint8(at);
+        if (bits === 16) return format === 2 ? v.getInt16(at, le) : v.getUint16(at, le);
+        return format === 2 ? v.getInt32(at, le) : v.getUint32(at, le);
+    };
+
+    // Strips are tiles as wide as the image
+    const tiled = tags.has(322);
+    const blockW = tiled ? num(322) : width;
+    const blockH = tiled ? num(323) : num(278, height);
+    const offsets = list(tiled ? 324 : 273), byteCounts = list(tiled ? 325 : 279);
+    const across = Math.ceil(width / blockW);
+    const data = new Float32Array(width * height);
+
+    for (let b = 0; b < offsets.length; b++) {
+        let bytes = new Uint8Array(buffer, offsets[b], byteCounts[b]);
+        if (compression !== 1) bytes = await inflate(bytes);
+        const block = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        const x0 = (b % across) * blockW, y0 = Math.floor(b / across) * blockH;
+        for (let y = 0; y < blockH && y0 + y < height; y++) {
+            let previous = 0;
+            for (let x = 0; x < blockW; x++) {
+                const at = (y * blockW + x) * bytesPerSample;
+                if (at + bytesPerSample > block.byteLength) break;
+                let value = read(block, at);
+                if (predictor === 2) { value += previous; previous = value; }
+                if (x0 + x < width) data[(y0 + y) * width + x0 + x] = value;
+            }
+        }
+    }
+
+    // Georeferencing: tiepoint (I, J, K, X, Y, Z) and pixel scale (sx, sy, sz)
+    const tie = list(33922), scale = list(33550);
+    if (tie.length < 6 || scale.length < 2) throw new Error("GeoTIFF has no tiepoint/pixel scale georeferencing");
+    const [i0, j0, , lon0, lat0] = tie;
+    const [sx, sy] = scale;
+    if (Math.abs(lon0) > 360 || Math.abs(lat0) > 90) throw new Error("GeoTIFF must be in geographic (lat/lon) coordinates");
+
+    // GTRasterTypeGeoKey (1025): 1 = PixelIsArea (default, samples at pixel centres), 2 = PixelIsPoint
+    const geoKeys = list(34735);
+    let centreOffset = 0.5;
+    for (let k = 4; k + 3 < geoKeys.length; k += 4) {
+        if (geoKeys[k] === 1025 && geoKeys[k + 3] === 2) centreOffset = 0;
+    }
+    const noDataTag = tags.get(42113);
+    const noData = typeof noDataTag === 'string' && noDataTag.trim() !== '' ? parseFloat(noDataTag) : null;
+
+    return {
+        cols: width, rows: height, data, noData,
+        toPixel: (lat, lon) => ({ x: (lon - lon0) / sx + i0 - centreOffset, y: (lat0 - lat) / sy + j0 - centreOffset })
+    };
+};
+
+// --- Terrarium PNG (Web Mercator, elevation = R·256 + G + B/256 − 32768) ---
+
+const terrariumTile = (lat: number, lon: number) => {
+    const n = 2 ** TERRARIUM_ZOOM;
+    const x = Math.floor((lon + 180) / 360 * n);
+    const latRad = lat * Math.PI / 180;
+    const y = Math.floor((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2 * n);
+    return { x, y, n };
+};
+
+const decodeTerrarium = async (blob: Blob, tileX: number, tileY: number, n: number): Promise<DemRaster> => {
+    const bitmap = await createImageBitmap(blob);
+    const canvas = typeof OffscreenCanvas !== 'undefined'
+        ? new OffscreenCanvas(bitmap.width, bitmap.height)
+        : Object.assign(document.createElement('canvas'), { width: bitmap.width, height: bitmap.height });
+    const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+    if (!ctx) throw new Error("No 2D canvas for terrain decoding");
+    ctx.drawImage(bitmap, 0, 0);
+    const pixels = ctx.getImageData(0, 0, bitmap.width, bitmap.height).data;
+    const size = bitmap.width;
+    const data = new Float32Array(size * size);
+    for (let i = 0; i < data.length; i++) {
+        data[i] = pixels[i * 4] * 256 + pixels[i * 4 + 1] + pixels[i * 4 + 2] / 256 - 32768;
+    }
+    return {
+        cols: size, rows: size, data, noData: null,
+        toPixel: (lat, lon) => {
+            const latRad = lat * Math.PI / 180;
+            const worldX = (lon + 180) / 360 * n;
+            const worldY = (1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2 * n;
+            return { x: (worldX - tileX) * size - 0.5, y: (worldY - tileY) * size - 0.5 };
+        }
+    };
+};
+
+// --- Tile loading ---
+
+const fetchBuffer = async (url: string): Promise<ArrayBuffer | null> => {
+    const res = await fetch(url);
+    if (res.status === 404) return null;  // no tile (sea, or outside the local coverage)
+    if (!res.ok) throw new Error(`Terrain tile ${url}: HTTP ${res.status}`);
+    return res.arrayBuffer();
+};
+
+const loadSrtmTile = async (name: string, south: number, west: number, settings: TerrainSettings): Promise<DemRaster | null> => {
+    const extensions = settings.tileFormat === 'tif' ? ['.tif', '.tiff', '.hgt'] : ['.hgt', '.tif', '.tiff'];
+    const decode = (buffer: ArrayBuffer, ext: string) => ext === '.hgt' ? decodeHgt(buffer, south, west) : decodeGeoTiff(buffer);
+
+    for (const ext of extensions) {
+        const file = localFiles.get(`${name}${ext}`.toUpperCase());
+        if (file) return decode(await file.arrayBuffer(), ext);
+    }
+    if (!settings.localUrl) return null;
+    const base = settings.localUrl.replace(/\/+$/, '');
+    const ext = settings.tileFormat === 'tif' ? '.tif' : '.hgt';
+    const buffer = await fetchBuffer(`${base}/${name}${ext}`);
+    return buffer ? decode(buffer, ext) : null;
+};
+
+const tileFor = (lat: number, lon: number, settings: TerrainSettings): { key: string, load: () => Promise<DemRaster | null> } => {
+    if (settings.provider === 'online') {
+        const { x, y, n } = terrariumTile(lat, lon);
+        return {
+            key: `terrarium/${TERRARIUM_ZOOM}/${x}/${y}`,
+            load: async () => {
+                const res = await fetch(`${TERRARIUM_URL}/${TERRARIUM_ZOOM}/${x}/${y}.png`);
+                if (!res.ok) throw new Error(`Terrain tile ${x}/${y}: HTTP ${res.status}`);
+                return decodeTerrarium(await res.blob(), x, y, n);
+            }
+        };
+    }
+    const name = srtmTileName(lat, lon);
+    return {
+        key: `${settings.localUrl}|${settings.tileFormat}|${name}`,
+        load: () => loadSrtmTile(name, Math.floor(lat), Math.floor(lon), settings)
+    };
+};
+
+const getRaster = (lat: number, lon: number, settings: TerrainSettings): Promise<DemRaster | null> => {
+    const { key, load } = tileFor(lat, lon, settings);
+    const cached = cache.get(key);
+    if (cached && (cached.failedAt === null || Date.now() - cached.failedAt < RETRY_MS)) {
+        // Refresh recency for the LRU
+        cache.delete(key);
+        cache.set(key, cached);
+        return cached.raster;
+    }
+
+    const entry: CacheEntry = { raster: Promise.resolve(null), failedAt: null };
+    entry.raster = load().catch(e => {
+        console.warn("Terrain tile unavailable:", e instanceof Error ? e.message : e);
+        entry.failedAt = Date.now();
+        return null;
+    });
+    cache.set(key, entry);
+    while (cache.size > MAX_CACHED_TILES) cache.delete(cache.keys().next().value as string);
+    return entry.raster;
+};
+
+/** Bilinear interpolation; void samples are left out and the remaining weights renormalised */
+const sampleRaster = (raster: DemRaster, lat: number, lon: number): number | null => {
+    const { x, y } = raster.toPixel(lat, lon);
+    const cx = Math.min(Math.max(x, 0), raster.cols - 1);
+    const cy = Math.min(Math.max(y, 0), raster.rows - 1);
+    const x0 = Math.floor(cx), y0 = Math.floor(cy);
+    const x1 = Math.min(x0 + 1, raster.cols - 1), y1 = Math.min(y0 + 1, raster.rows - 1);
+    const fx = cx - x0, fy = cy - y0;
+
+    let sum = 0, weight = 0;
+    const add = (col: number, row: number, w: number) => {
+        const v = raster.data[row * raster.cols + col];
+        if (w === 0 || !Number.isFinite(v) || v === raster.noData) return;
+        sum += v * w;
+        weight += w;
+    };
+    add(x0, y0, (1 - fx) * (1 - fy));
+    add(x1, y0, fx * (1 - fy));
+    add(x0, y1, (1 - fx) * fy);
+    add(x1, y1, fx * fy);
+    return weight > 0 ? sum / weight : null;
+};
+
+export const isTerrainActive = (settings: TerrainSettings) => settings.enabled && settings.provider !== 'none';
+
+/** Elevation (m MSL) at a point, or null when terrain is off or the DEM has no data there */
+export const getElevation = async (lat: number, lon: number, settings: TerrainSettings): Promise<number | null> => {
+    if (!isTerrainActive(settings)) return null;
+    const raster = await getRaster(lat, lon, settings);
+    return raster ? sampleRaster(raster, lat, lon) : null;
+};
+
+export interface ElevationGrid {
+    south: number;
+    west: number;
+    north: number;
+    east: number;
+    size: number;                   // samples per side
+    heights: (number | null)[];     // row-major, first row at the north edge
+}
+
+/** Square grid of elevations over a lat/lon box, for terrain meshes */
+export const getElevationGrid = async (
+    south: number, west: number, north: number, east: number, size: number, settings: TerrainSettings
+): Promise<ElevationGrid> => {
+    const points: Promise<number | null>[] = [];
+    for (let r = 0; r < size; r++) {
+        const lat = north - (north - south) * r / (size - 1);
+        for (let c = 0; c < size; c++) {
+            points.push(getElevation(lat, west + (east - west) * c / (size - 1), settings));
+        }
+    }
+    return { south, west, north, east, size, heights: await Promise.all(points) };
+};
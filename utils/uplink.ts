@@ -0,0 +1,200 @@
+import { ChecksumMode, UplinkSettings } from '../types';
+import { computeChecksum } from './parser';
+
+// AETHER: Uplink command tracking
+// Commands go out as text lines framed like the downlink ("CMD ARGS*CS" under the configured
+// checksum mode). The vehicle answers "ACK CMD ARGS ..." or "NACK CMD ARGS ..."; a reply is matched
+// to the oldest outstanding command whose keyword and arguments it echoes. A bare "ACK CMD" is only
+// accepted while a single command with that keyword is outstanding, so "FIRE 1" and "FIRE 2" can
+// never be confused. Unanswered commands are resent after the timeout until the retries run out.
+
+const MAX_ENTRIES = 200;
+const PARAM_PATTERN = /\{(\w+)\}/g;
+
+export type UplinkStatus = 'pending' | 'acked' | 'nacked' | 'timeout' | 'error' | 'sent';
+
+export interface UplinkEntry {
+    id: number;
+    text: string;           // Command as typed / filled in
+    framed: string;         // Exact line written to the port (without the line ending)
+    keyword: string;        // First word, upper case
+    args: string[];         // Remaining words, upper case; a reply must echo them to match
+    status: UplinkStatus;
+    attempts: number;
+    maxAttempts: number;
+    timeoutMs: number;
+    queuedAt: number;       // Date.now()
+    lastSentAt: number;
+    repliedAt?: number;
+    reply?: string;         // Detail after the keyword in the ACK/NACK, or the write error
+}
+
+/** Names of the {params} in a command template, in order of first appearance */
+export const templateParams = (template: string): string[] => {
+    const names: string[] = [];
+    for (const match of template.matchAll(PARAM_PATTERN)) {
+        if (!names.includes(match[1])) names.push(match[1]);
+    }
+    return names;
+};
+
+/** Substitutes `values` into `template`; throws if a parameter is left empty. */
+export const fillTemplate = (template: string, values: Record<string, string>): string =>
+    template.replace(PARAM_PATTERN, (_, name: string) => {
+        const value = (values[name] ?? '').trim();
+        if (!value) throw new Error(`Missing value for {${name}}`);
+        return value;
+    }).trim();
+
+export const commandKeyword = (text: string): string => text.trim().split(/\s+/)[0].toUpperCase();
+
+const commandArgs = (text: string): string[] => text.trim().toUpperCase().split(/\s+/).slice(1);
+
+/** The line written for `text`, with a checksum suffix unless `mode` is 'none' */
+export const frameCommand = (text: string, mode: ChecksumMode): string => {
+    const data = text.trim();
+    return mode === 'none' ? data : `${data}*${computeChecksum(data, mode)}`;
+};
+
+export const lineEndingOf = (settings: UplinkSettings) => settings.lineEnding === 'crlf' ? '\r\n' : '\n';
+
+export interface UplinkReply {
+    accepted: boolean;
+    keyword: string;
+    detail: string;
+    intact: boolean;    // false when the reply carries a checksum that does not match
+}
+
+/** Reads an ACK/NACK line. Returns null for anything else (telemetry). */
+export const parseUplinkReply = (line: string, settings: UplinkSettings, mode: ChecksumMode): UplinkReply | null => {
+    let content = line.trim();
+    const first = content.split(/\s+/)[0].toUpperCase();
+    const accepted = first === settings.ackKeyword.toUpperCase();
+    if (!accepted && first !== settings.nackKeyword.toUpperCase()) return null;
+
+    let intact = true;
+    const star = content.lastIndexOf('*');
+    if (mode !== 'none' && star !== -1 && /^[0-9A-Fa-f]{2}$/.test(content.substring(star + 1))) {
+        intact = computeChecksum(content.substring(0, star), mode) === content.substring(star + 1).toUpperCase();
+        content = content.substring(0, star);
+    }
+    const [, keyword = '', ...rest] = content.split(/\s+/);
+    return { accepted, keyword: keyword.toUpperCase(), detail: rest.join(' '), intact };
+};
+
+export interface UplinkTracker {
+    /**
+     * Frames and writes `text`; with `expectAck` it stays pending until a reply or timeout.
+     * `retries` overrides the configured count (0 for commands that must never be resent unattended).
+     */
+    submit: (text: string, expectAck: boolean, settings: UplinkSettings, mode: ChecksumMode, now: number, retries?: number) => UplinkEntry;
+    /** Offers one received line; returns true if it was an ACK/NACK (and is not telemetry). */
+    handleLine: (line: string, settings: UplinkSettings, mode: ChecksumMode, now: number) => boolean;
+    /** Resends or times out pending commands whose reply is overdue. */
+    tick: (now: number) => void;
+    hasPending: () => boolean;
+    getEntries: () => UplinkEntry[];
+    clear: () => void;
+}
+
+/**
+ * `write` puts one line on the wire (line ending included); `onChange` receives a fresh copy of
+ * the log, oldest first, whenever an entry changes.
+ */
+export const createUplinkTracker = (write: (line: string) => Promise<void>, onChange: (entries: UplinkEntry[]) => void): UplinkTracker => {
+    let entries: UplinkEntry[] = [];
+    let nextId = 1;
+    const wireLines = new Map<number, string>();  // framed + line ending, kept while a resend is possible
+
+    const emit = () => onChange(entries.map(e => ({ ...e })));
+
+    const transmit = (entry: UplinkEntry, now: number) => {
+        entry.attempts++;
+        entry.lastSentAt = now;
+        write(wireLines.get(entry.id)!).catch((e: Error) => {
+            if (entry.status !== 'pending' && entry.status !== 'sent') return;
+            entry.status = 'error';
+            entry.reply = e.message;
+            wireLines.delete(entry.id);
+            emit();
+        });
+        if (entry.status === 'sent') wireLines.delete(entry.id);
+    };
+
+    const submit: UplinkTracker['submit'] = (text, expectAck, settings, mode, now, retries = settings.retries) => {
+        const entry: UplinkEntry = {
+            id: nextId++,
+            text: text.trim(),
+            framed: frameCommand(text, mode),
+            keyword: commandKeyword(text),
+            args: commandArgs(text),
+            status: expectAck ? 'pending' : 'sent',
+            attempts: 0,
+            maxAttempts: expectAck ? 1 + Math.max(0, retries) : 1,
+            timeoutMs: settings.timeoutMs,
+            queuedAt: now,
+            lastSentAt: now
+        };
+        entries.push(entry);
+        if (entries.length > MAX_ENTRIES) entries = entries.slice(-MAX_ENTRIES);
+        wireLines.set(entry.id, entry.framed + lineEndingOf(settings));
+        transmit(entry, now);
+        emit();
+        return { ...entry };
+    };
+
+    const matchReply = (reply: UplinkReply): UplinkEntry | undefined => {
+        const pending = entries.filter(e => e.status === 'pending' && e.keyword === reply.keyword);
+        const words = reply.detail ? reply.detail.toUpperCase().split(/\s+/) : [];
+        // The most specific echo wins ("FIRE 1" over a bare "FIRE"); identical commands go oldest first
+        let best: UplinkEntry | undefined;
+        for (const e of pending) {
+            if (e.args.every((arg, i) => words[i] === arg) && (!best || e.args.length > best.args.length)) best = e;
+        }
+        if (best) return best;
+        return words.length === 0 && pending.length === 1 ? pending[0] : undefined;
+    };
+
+    const handleLine: UplinkTracker['handleLine'] = (line, settings, mode, now) => {
+        const reply = parseUplinkReply(line, settings, mode);
+        if (!reply) return false;
+        // A corrupted reply is dropped; its command times out and is resent
+        if (!reply.intact) return true;
+        const entry = matchReply(reply);
+        if (entry) {
+            entry.status = reply.accepted ? 'acked' : 'nacked';
+            entry.repliedAt = now;
+            entry.reply = reply.detail;
+            wireLines.delete(entry.id);
+            emit();
+        }
+        return true;
+    };
+
+    const tick = (now: number) => {
+        let changed = false;
+        for (const entry of entries) {
+            if (entry.status !== 'pending' || now - entry.lastSentAt < entry.timeoutMs) continue;
+            if (entry.attempts < entry.maxAttempts) {
+                transmit(entry, now);
+            } else {
+                entry.status = 'timeout';
+                wireLines.delete(entry.id);
+            }
+            changed = true;
+        }
+        if (changed) emit();
+    };
+
+    return {
+        submit,
+        handleLine,
+        tick,
+        hasPending: () => entries.some(e => e.status === 'pending'),
+        getEntries: () => entries.map(e => ({ ...e })),
+        clear: () => {
+            entries = entries.filter(e => e.status === 'pending');
+            emit();
+        }
+    };
+};
@@ -0,0 +1,109 @@
+import { TelemetryPacket, FlightEvent, WindLayer } from '../types';
+import { filteredAltitude, filteredVSpeed } from './stateEstimator';
+
+// AETHER: Wind profile estimation
+// A payload under canopy (or a balloon on its way up) drifts with the air around it, so its GPS
+// ground track is a direct measurement of the wind. Fixes are differenced into horizontal
+// velocities and averaged per altitude band.
+
+const METERS_PER_DEG_LAT = 111320;
+const DEFAULT_BAND_HEIGHT = 100;  // m
+const MIN_STEP_MS = 1000;         // shortest window a velocity is measured over
+const MAX_STEP_MS = 10000;        // longer gaps are link dropouts, not drift
+const MAX_DRIFT_SPEED = 60;       // m/s; faster steps are GPS jumps
+const MAX_DRIFT_ASCENT = 10;      // m/s; anything that ever climbed faster is a rocket, not a balloon
+const SETTLE_MS = 3000;           // after apogee, while the canopy opens and the payload catches the wind
+const MIN_ALTITUDE = 5;           // m above the pad
+const MIN_BAND_SAMPLES = 2;
+
+export interface WindBand {
+    altitude: number;   // m, centre of the band relative to the pad
+    speed: number;      // m/s
+    direction: number;  // deg, meteorological (blowing FROM)
+    samples: number;
+    spread: number;     // m/s, RMS deviation of the samples from the band mean
+}
+
+const hasFix = (p: TelemetryPacket) => Math.abs(p.latitude) > 0.0001;
+
+/**
+ * Picks the stretches of `packets` where the vehicle drifts with the wind: after apogee (plus a
+ * settle period) until landing, and the whole ascent of anything that never climbed faster than a
+ * balloon does. Rocket boost and coast are left out.
+ */
+const selectDrift = (packets: TelemetryPacket[], events: FlightEvent[]): TelemetryPacket[] => {
+    const apogee = events.find(e => e.type === 'apogee');
+    const landing = events.find(e => e.type === 'landing');
+    const end = landing ? landing.time : Infinity;
+
+    const drift: TelemetryPacket[] = [];
+    let peakClimb = 0;
+    for (const p of packets) {
+        if (p.timeElapsed >= end) break;
+        if (!hasFix(p) || filteredAltitude(p) < MIN_ALTITUDE) continue;
+        if (apogee && p.timeElapsed >= apogee.time) {
+            if (p.timeElapsed >= apogee.time + SETTLE_MS) drift.push(p);
+            continue;
+        }
+        peakClimb = Math.max(peakClimb, filteredVSpeed(p));
+        if (peakClimb < MAX_DRIFT_ASCENT && filteredVSpeed(p) > 0) drift.push(p);
+    }
+    return drift;
+};
+
+/**
+ * Estimates wind per `bandHeight` band from GPS drift. Bands come back lowest first; bands with
+ * fewer than two velocity samples are dropped.
+ */
+export const estimateWindProfile = (packets: TelemetryPacket[], events: FlightEvent[], bandHeight = DEFAULT_BAND_HEIGHT): WindBand[] => {
+    const drift = selectDrift(packets, events);
+    const bands = new Map<number, { vN: number[], vE: number[] }>();
+
+    let from = drift[0];
+    for (let i = 1; i < drift.length; i++) {
+        const to = drift[i];
+        const dt = to.timeElapsed - from.timeElapsed;
+        if (dt < MIN_STEP_MS) continue;
+        if (dt <= MAX_STEP_MS) {
+            const seconds = dt / 1000;
+            const vN = (to.latitude - from.latitude) * METERS_PER_DEG_LAT / seconds;
+            const vE = (to.longitude - from.longitude) * METERS_PER_DEG_LAT * Math.cos(from.latitude * Math.PI / 180) / seconds;
+            if (Math.hypot(vN, vE) <= MAX_DRIFT_SPEED) {
+                const altitude = (filteredAltitude(from) + filteredAltitude(to)) / 2;
+                const index = Math.floor(altitude / bandHeight);
+                const band = bands.get(index) ?? { vN: [], vE: [] };
+                band.vN.push(vN);
+                band.vE.push(vE);
+                bands.set(index, band);
+            }
+        }
+        from = to;
+    }
+
+    const result: WindBand[] = [];
+    bands.forEach((band, index) => {
+        const n = band.vN.length;
+        if (n < MIN_BAND_SAMPLES) return;
+        const meanN = band.vN.reduce((a, b) => a + b, 0) / n;
+        const meanE = band.vE.reduce((a, b) => a + b, 0) / n;
+        let sq = 0;
+        for (let i = 0; i < n; i++) sq += (band.vN[i] - meanN) ** 2 + (band.vE[i] - meanE) ** 2;
+        // The drift goes TO where the wind blows; the wind is named for where it comes FROM
+        const direction = (Math.atan2(-meanE, -meanN) * 180 / Math.PI + 360) % 360;
+        result.push({
+            altitude: (index + 0.5) * bandHeight,
+            speed: Math.hypot(meanN, meanE),
+            direction,
+            samples: n,
+            spread: Math.sqrt(sq / n)
+        });
+    });
+    return result.sort((a, b) => a.altitude - b.altitude);
+};
+
+/** Gradient-mode layers for `settings.wind.layers`, rounded to what the layer editor shows */
+export const windBandsToLayers = (bands: WindBand[]): WindLayer[] => bands.map(b => ({
+    altitude: Math.round(b.altitude),
+    speed: Math.round(b.speed * 10) / 10,
+    direction: Math.round(b.direction) % 360
+}));